@@ -0,0 +1,199 @@
+import * as fs from "fs";
+import * as path from "path";
+import { deserialize } from "@mysten/move-bytecode-template";
+import type {
+    SuiMoveAbility,
+    SuiMoveAbilitySet,
+    SuiMoveNormalizedEnum,
+    SuiMoveNormalizedField,
+    SuiMoveNormalizedFunction,
+    SuiMoveNormalizedModule,
+    SuiMoveNormalizedModules,
+    SuiMoveNormalizedStruct,
+    SuiMoveNormalizedType,
+} from "@mysten/sui/jsonRpc";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+// The parts of `deserialize` output (the Move `CompiledModule` as JSON) the converter reads
+type SignatureToken =
+    | string
+    | { Vector: SignatureToken }
+    | { Reference: SignatureToken }
+    | { MutableReference: SignatureToken }
+    | { TypeParameter: number }
+    | { Datatype: number }
+    | { DatatypeInstantiation: [number, SignatureToken[]] };
+
+type CompiledField = { name: number; signature: SignatureToken };
+
+type CompiledModule = {
+    version: number;
+    self_module_handle_idx: number;
+    module_handles: { address: number; name: number }[];
+    datatype_handles: {
+        module: number;
+        name: number;
+        abilities: number;
+        type_parameters: { constraints: number; is_phantom: boolean }[];
+    }[];
+    function_handles: {
+        module: number;
+        name: number;
+        parameters: number;
+        return_: number;
+        type_parameters: number[];
+    }[];
+    friend_decls: { address: number; name: number }[];
+    signatures: SignatureToken[][];
+    identifiers: string[];
+    address_identifiers: string[];
+    struct_defs: { struct_handle: number; field_information: { Declared?: CompiledField[] } }[];
+    enum_defs: {
+        enum_handle: number;
+        variants: { variant_name: number; fields: CompiledField[] }[];
+    }[];
+    function_defs: {
+        function: number;
+        visibility: "Public" | "Private" | "Friend";
+        is_entry: boolean;
+    }[];
+};
+
+// Ability bits of the Move binary format, in the order the RPC lists them
+const ABILITIES: [number, SuiMoveAbility][] = [
+    [0x1, "Copy"],
+    [0x2, "Drop"],
+    [0x4, "Store"],
+    [0x8, "Key"],
+];
+
+const PRIMITIVES: Record<string, SuiMoveNormalizedType> = {
+    Bool: "Bool",
+    U8: "U8",
+    U16: "U16",
+    U32: "U32",
+    U64: "U64",
+    U128: "U128",
+    U256: "U256",
+    Address: "Address",
+    Signer: "Signer",
+};
+
+/**
+ * Reads the compiled modules of a package from its `sui move build` output (`build/<package>`)
+ * and converts them to the shape `getNormalizedMoveModulesByPackage` returns. Dependencies under
+ * `bytecode_modules/dependencies` are skipped.
+ */
+export function readBuildModules(buildDir: string): SuiMoveNormalizedModules {
+    const modulesDir = path.join(buildDir, "bytecode_modules");
+    if (!fs.existsSync(modulesDir)) {
+        throw new Error(`No bytecode_modules in ${buildDir}. Run sui move build first.`);
+    }
+    const modules: SuiMoveNormalizedModules = {};
+    for (const file of fs.readdirSync(modulesDir).sort()) {
+        if (!file.endsWith(".mv")) continue;
+        const compiled = deserialize(
+            fs.readFileSync(path.join(modulesDir, file))
+        ) as CompiledModule;
+        const mod = normalizeModule(compiled);
+        modules[mod.name] = mod;
+    }
+    if (Object.keys(modules).length === 0) {
+        throw new Error(`No compiled modules found in ${modulesDir}`);
+    }
+    return modules;
+}
+
+function normalizeModule(m: CompiledModule): SuiMoveNormalizedModule {
+    const moduleRef = (index: number) => ({
+        address: normalizeSuiAddress(m.address_identifiers[m.module_handles[index].address]),
+        name: m.identifiers[m.module_handles[index].name],
+    });
+
+    const type = (token: SignatureToken): SuiMoveNormalizedType => {
+        if (typeof token === "string") {
+            const primitive = PRIMITIVES[token];
+            if (!primitive) throw new Error(`Unsupported signature token ${token}`);
+            return primitive;
+        }
+        if ("Vector" in token) return { Vector: type(token.Vector) };
+        if ("Reference" in token) return { Reference: type(token.Reference) };
+        if ("MutableReference" in token) return { MutableReference: type(token.MutableReference) };
+        if ("TypeParameter" in token) return { TypeParameter: token.TypeParameter };
+        const [handleIndex, typeArguments] =
+            "Datatype" in token ? [token.Datatype, []] : token.DatatypeInstantiation;
+        const handle = m.datatype_handles[handleIndex];
+        const { address, name: module } = moduleRef(handle.module);
+        return {
+            Struct: {
+                address,
+                module,
+                name: m.identifiers[handle.name],
+                typeArguments: typeArguments.map(type),
+            },
+        };
+    };
+
+    const fields = (declared: CompiledField[]): SuiMoveNormalizedField[] =>
+        declared.map((f) => ({ name: m.identifiers[f.name], type: type(f.signature) }));
+
+    const datatype = (handleIndex: number) => {
+        const handle = m.datatype_handles[handleIndex];
+        return {
+            name: m.identifiers[handle.name],
+            abilities: abilitySet(handle.abilities),
+            typeParameters: handle.type_parameters.map((p) => ({
+                constraints: abilitySet(p.constraints),
+                isPhantom: p.is_phantom,
+            })),
+        };
+    };
+
+    const structs: Record<string, SuiMoveNormalizedStruct> = {};
+    for (const def of m.struct_defs) {
+        const { name, ...rest } = datatype(def.struct_handle);
+        structs[name] = { ...rest, fields: fields(def.field_information.Declared ?? []) };
+    }
+
+    const enums: Record<string, SuiMoveNormalizedEnum> = {};
+    for (const def of m.enum_defs) {
+        const { name, ...rest } = datatype(def.enum_handle);
+        const variants: Record<string, SuiMoveNormalizedField[]> = {};
+        for (const variant of def.variants) {
+            variants[m.identifiers[variant.variant_name]] = fields(variant.fields);
+        }
+        enums[name] = { ...rest, variants, variantDeclarationOrder: Object.keys(variants) };
+    }
+
+    // Matches the RPC: private functions are only exposed when they are entry functions
+    const exposedFunctions: Record<string, SuiMoveNormalizedFunction> = {};
+    for (const def of m.function_defs) {
+        if (def.visibility === "Private" && !def.is_entry) continue;
+        const handle = m.function_handles[def.function];
+        exposedFunctions[m.identifiers[handle.name]] = {
+            visibility: def.visibility,
+            isEntry: def.is_entry,
+            typeParameters: handle.type_parameters.map(abilitySet),
+            parameters: m.signatures[handle.parameters].map(type),
+            return: m.signatures[handle.return_].map(type),
+        };
+    }
+
+    const self = moduleRef(m.self_module_handle_idx);
+    return {
+        fileFormatVersion: m.version,
+        address: self.address,
+        name: self.name,
+        friends: m.friend_decls.map((f) => ({
+            address: normalizeSuiAddress(m.address_identifiers[f.address]),
+            name: m.identifiers[f.name],
+        })),
+        structs,
+        enums,
+        exposedFunctions,
+    };
+}
+
+function abilitySet(mask: number): SuiMoveAbilitySet {
+    return { abilities: ABILITIES.filter(([bit]) => (mask & bit) !== 0).map(([, name]) => name) };
+}
@@ -0,0 +1,140 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import * as prettier from "prettier";
+import { SuiJsonRpcClient, type SuiMoveNormalizedModules } from "@mysten/sui/jsonRpc";
+import type { Network } from "../../ts-scripts/utils/config";
+import { readBuildModules } from "./bytecode";
+import { renderPackage } from "./render";
+
+const USAGE = `Usage: tsx tools/codegen/generate-bindings.ts [options]
+
+Options:
+  --input <file>      Normalized modules JSON (getNormalizedMoveModulesByPackage output)
+  --build <dir>       Read compiled modules from sui move build output (build/<package>)
+  --package <id>      Fetch normalized modules for a published package instead of --input
+  --network <name>    Network used with --package (default: SUI_NETWORK or localnet)
+  --dump <file>       Write the built or fetched normalized modules to <file> for later --input runs
+  --out <dir>         Output directory (default: ts-scripts/bindings/world)
+  --check             Do not write; exit 1 if the files in --out are stale`;
+
+const projectRoot = process.cwd();
+const defaultInput = path.join(projectRoot, "tools/codegen/abi/world.json");
+const defaultOut = path.join(projectRoot, "ts-scripts/bindings/world");
+
+async function fetchModules(packageId: string, network?: string) {
+    // Imported on demand: the config reads module names from the bindings this script generates
+    const { DEFAULT_RPC_URLS } = await import("../../ts-scripts/utils/config");
+    const name = (network ?? process.env.SUI_NETWORK ?? "localnet") as Network;
+    const url = process.env.SUI_RPC_URL || DEFAULT_RPC_URLS[name];
+    if (!url) throw new Error(`Unknown network: ${name}`);
+    const client = new SuiJsonRpcClient({ url, network: name });
+    return client.getNormalizedMoveModulesByPackage({ package: packageId });
+}
+
+async function loadModules(options: {
+    input?: string;
+    build?: string;
+    package?: string;
+    network?: string;
+    dump?: string;
+}): Promise<SuiMoveNormalizedModules> {
+    if (options.build || options.package) {
+        const modules = options.build
+            ? readBuildModules(options.build)
+            : await fetchModules(options.package!, options.network);
+        if (options.dump) {
+            fs.mkdirSync(path.dirname(options.dump), { recursive: true });
+            fs.writeFileSync(options.dump, JSON.stringify(modules, null, 2) + "\n", "utf-8");
+            console.log(`Wrote normalized modules to ${options.dump}`);
+        }
+        return modules;
+    }
+
+    const input = options.input ?? defaultInput;
+    if (!fs.existsSync(input)) {
+        throw new Error(
+            `Normalized modules not found at ${input}. Pass --input, or --build/--package with --dump to create it.`
+        );
+    }
+    return JSON.parse(fs.readFileSync(input, "utf-8")) as SuiMoveNormalizedModules;
+}
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            input: { type: "string" },
+            build: { type: "string" },
+            package: { type: "string" },
+            network: { type: "string" },
+            dump: { type: "string" },
+            out: { type: "string" },
+            check: { type: "boolean", default: false },
+            help: { type: "boolean", default: false },
+        },
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const outDir = path.resolve(values.out ?? defaultOut);
+    const modules = await loadModules(values);
+    const sdkImportPath = path
+        .relative(outDir, path.join(projectRoot, "ts-scripts/sdk"))
+        .split(path.sep)
+        .join("/");
+
+    const prettierConfig = await prettier.resolveConfig(path.join(projectRoot, "package.json"));
+    const files = await Promise.all(
+        renderPackage(modules, sdkImportPath).map(async (file) => ({
+            path: path.join(outDir, file.fileName),
+            contents: await prettier.format(file.contents, {
+                ...prettierConfig,
+                parser: "typescript",
+            }),
+        }))
+    );
+
+    const expected = new Set(files.map((f) => f.path));
+    const existing = fs.existsSync(outDir)
+        ? fs
+              .readdirSync(outDir)
+              .filter((name) => name.endsWith(".ts"))
+              .map((name) => path.join(outDir, name))
+        : [];
+
+    if (values.check) {
+        const stale = [
+            ...files
+                .filter(
+                    (f) => !fs.existsSync(f.path) || fs.readFileSync(f.path, "utf-8") !== f.contents
+                )
+                .map((f) => f.path),
+            ...existing.filter((p) => !expected.has(p)),
+        ];
+        if (stale.length > 0) {
+            console.error("Bindings are out of date. Run: npm run codegen:bindings");
+            for (const p of stale) console.error(`  ${path.relative(projectRoot, p)}`);
+            process.exit(1);
+        }
+        console.log(`Bindings in ${path.relative(projectRoot, outDir)} are up to date`);
+        return;
+    }
+
+    fs.mkdirSync(outDir, { recursive: true });
+    for (const p of existing) {
+        if (!expected.has(p)) fs.rmSync(p);
+    }
+    for (const file of files) {
+        fs.writeFileSync(file.path, file.contents, "utf-8");
+    }
+    console.log(
+        `Generated bindings for ${Object.keys(modules).length} modules in ${path.relative(projectRoot, outDir)}`
+    );
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,621 @@
+import type {
+    SuiMoveAbilitySet,
+    SuiMoveNormalizedFunction,
+    SuiMoveNormalizedModule,
+    SuiMoveNormalizedModules,
+    SuiMoveNormalizedType,
+} from "@mysten/sui/jsonRpc";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+type StructRef = {
+    address: string;
+    module: string;
+    name: string;
+    typeArguments: SuiMoveNormalizedType[];
+};
+
+type Param = {
+    name: string;
+    tsType: string;
+    optional: boolean;
+    expr: string;
+};
+
+export type RenderedFile = {
+    fileName: string;
+    contents: string;
+};
+
+const HEADER = `// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+`;
+
+const STD = normalizeSuiAddress("0x1");
+const SUI = normalizeSuiAddress("0x2");
+
+/**
+ * Renders one TypeScript file per Move module plus an index, for the modules of a single package.
+ * Generated files import the shared argument encoders from `ts-scripts/sdk`.
+ */
+export function renderPackage(modules: SuiMoveNormalizedModules, sdkImportPath: string) {
+    const names = Object.keys(modules).sort();
+    if (names.length === 0) {
+        throw new Error("Normalized package contains no modules");
+    }
+    const packageAddress = normalizeSuiAddress(modules[names[0]].address);
+    const files: RenderedFile[] = names.map((name) => ({
+        fileName: `${kebab(name)}.ts`,
+        contents: renderModule(modules[name], modules, packageAddress, sdkImportPath),
+    }));
+    files.push({ fileName: "modules.ts", contents: renderModuleNames(names) });
+    files.push({ fileName: "index.ts", contents: renderIndex(names) });
+    return files;
+}
+
+// Kept out of index.ts so importing the module names does not load every binding
+function renderModuleNames(moduleNames: string[]): string {
+    const lines = [HEADER, "export const MODULES = {"];
+    for (const name of moduleNames) {
+        lines.push(`    ${name.toUpperCase()}: "${name}",`);
+    }
+    lines.push("} as const;");
+    return lines.join("\n") + "\n";
+}
+
+function renderIndex(moduleNames: string[]): string {
+    const lines = [HEADER];
+    for (const name of moduleNames) {
+        lines.push(`export * as ${camel(name)} from "./${kebab(name)}";`);
+    }
+    lines.push(`export { MODULES } from "./modules";`);
+    return lines.join("\n") + "\n";
+}
+
+function renderModule(
+    mod: SuiMoveNormalizedModule,
+    all: SuiMoveNormalizedModules,
+    packageAddress: string,
+    sdkImportPath: string
+): string {
+    const imports = new ModuleImports(mod.name);
+    const localNames = new Set([...Object.keys(mod.structs), ...Object.keys(mod.enums ?? {})]);
+
+    const schemaBlocks: string[] = [];
+    for (const name of sortDeclarations(mod, packageAddress)) {
+        schemaBlocks.push(renderSchema(mod, all, name, packageAddress, imports, localNames));
+    }
+
+    const eventBlocks: string[] = [];
+    for (const [name, struct] of Object.entries(mod.structs)) {
+        if (!name.endsWith("Event")) continue;
+        const fields = struct.fields
+            .map((f) => `    ${f.name}: ${jsonType(f.type, all, packageAddress)};`)
+            .join("\n");
+        eventBlocks.push(`export type ${name} = {\n${fields}\n};`);
+    }
+
+    const functionBlocks: string[] = [];
+    const usedArgTypes = new Set<string>();
+    let usesClock = false;
+    let usesPure = false;
+    let usesTransactionArgument = false;
+    for (const [name, fn] of Object.entries(mod.exposedFunctions).sort(([a], [b]) =>
+        a.localeCompare(b)
+    )) {
+        if (fn.visibility !== "Public" && !fn.isEntry) continue;
+        const params = renderParams(fn, all, packageAddress);
+        for (const p of params) {
+            if (p.tsType === "TransactionArgument") usesTransactionArgument = true;
+            else usedArgTypes.add(p.tsType);
+            if (p.expr.includes("SUI_CLOCK_OBJECT_ID")) usesClock = true;
+            if (p.expr.startsWith("pure.")) usesPure = true;
+        }
+        functionBlocks.push(renderFunction(mod.name, name, fn, params, packageAddress));
+    }
+
+    const eventNames = Object.keys(mod.structs).filter((n) => n.endsWith("Event"));
+    const lines = [HEADER];
+    if (schemaBlocks.length > 0) {
+        const generic = schemaBlocks.some((b) => b.startsWith("export function"));
+        lines.push(`import { bcs${generic ? ", type BcsType" : ""} } from "@mysten/sui/bcs";`);
+    }
+    if (functionBlocks.length > 0) {
+        const types = ["Transaction", "TransactionResult"];
+        if (usesTransactionArgument) types.splice(1, 0, "TransactionArgument");
+        lines.push(`import type { ${types.join(", ")} } from "@mysten/sui/transactions";`);
+    }
+    if (usesClock) lines.push(`import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";`);
+    if (usedArgTypes.size > 0) {
+        lines.push(
+            `import type { ${[...usedArgTypes].sort().join(", ")} } from "${sdkImportPath}/args";`
+        );
+    }
+    if (usesPure) lines.push(`import * as pure from "${sdkImportPath}/pure";`);
+    lines.push(...imports.render());
+    lines.push("");
+    lines.push(`export const MODULE = "${mod.name}";`);
+    lines.push("");
+    lines.push(`export const EVENTS = [${eventNames.map((n) => `"${n}"`).join(", ")}] as const;`);
+    for (const block of [...schemaBlocks, ...eventBlocks, ...functionBlocks]) {
+        lines.push("");
+        lines.push(block);
+    }
+    return lines.join("\n") + "\n";
+}
+
+// === Struct and enum BCS schemas ===
+
+class ModuleImports {
+    private readonly byModule = new Map<string, Map<string, string>>();
+
+    constructor(private readonly self: string) {}
+
+    /** Returns the local identifier to use for `module::name`, aliasing on collisions. */
+    use(module: string, name: string, localNames: Set<string>): string {
+        if (module === this.self) return name;
+        const names = this.byModule.get(module) ?? new Map<string, string>();
+        this.byModule.set(module, names);
+        const local = localNames.has(name) ? `${pascal(module)}${name}` : name;
+        names.set(name, local);
+        return local;
+    }
+
+    render(): string[] {
+        return [...this.byModule.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([module, names]) => {
+                const specifiers = [...names.entries()]
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([name, local]) => (name === local ? name : `${name} as ${local}`));
+                return `import { ${specifiers.join(", ")} } from "./${kebab(module)}";`;
+            });
+    }
+}
+
+/** Orders struct and enum declarations so that local dependencies are declared first. */
+function sortDeclarations(mod: SuiMoveNormalizedModule, packageAddress: string): string[] {
+    const declared = new Map<string, SuiMoveNormalizedType[]>();
+    for (const [name, struct] of Object.entries(mod.structs)) {
+        declared.set(
+            name,
+            struct.fields.map((f) => f.type)
+        );
+    }
+    for (const [name, en] of Object.entries(mod.enums ?? {})) {
+        declared.set(
+            name,
+            Object.values(en.variants).flatMap((fields) => fields.map((f) => f.type))
+        );
+    }
+
+    const ordered: string[] = [];
+    const visiting = new Set<string>();
+    const visit = (name: string) => {
+        if (ordered.includes(name) || visiting.has(name)) return;
+        visiting.add(name);
+        for (const type of declared.get(name) ?? []) {
+            for (const dep of localStructDeps(type, mod.name, packageAddress)) {
+                if (declared.has(dep)) visit(dep);
+            }
+        }
+        visiting.delete(name);
+        ordered.push(name);
+    };
+    for (const name of [...declared.keys()].sort()) visit(name);
+    return ordered;
+}
+
+function localStructDeps(type: SuiMoveNormalizedType, module: string, packageAddress: string) {
+    const deps: string[] = [];
+    const walk = (t: SuiMoveNormalizedType) => {
+        if (typeof t === "string") return;
+        if ("Vector" in t) return walk(t.Vector);
+        if ("Reference" in t) return walk(t.Reference);
+        if ("MutableReference" in t) return walk(t.MutableReference);
+        if ("Struct" in t) {
+            const s = t.Struct;
+            if (normalizeSuiAddress(s.address) === packageAddress && s.module === module) {
+                deps.push(s.name);
+            }
+            s.typeArguments.forEach(walk);
+        }
+    };
+    walk(type);
+    return deps;
+}
+
+function renderSchema(
+    mod: SuiMoveNormalizedModule,
+    all: SuiMoveNormalizedModules,
+    name: string,
+    packageAddress: string,
+    imports: ModuleImports,
+    localNames: Set<string>
+): string {
+    const struct = mod.structs[name];
+    const en = mod.enums?.[name];
+    const typeParameters = struct?.typeParameters ?? en?.typeParameters ?? [];
+    // Phantom type parameters do not change the layout, so only the others become factory args.
+    const layoutParams = typeParameters
+        .map((p, i) => (p.isPhantom ? null : `T${i}`))
+        .filter((p): p is string => p !== null);
+    const bcsOf = (t: SuiMoveNormalizedType) =>
+        bcsType(t, all, mod.name, packageAddress, imports, localNames);
+
+    let body: string;
+    if (struct) {
+        const fields = struct.fields.map((f) => `    ${f.name}: ${bcsOf(f.type)},`).join("\n");
+        body = `bcs.struct("${name}", {\n${fields}\n})`;
+    } else {
+        const order = en!.variantDeclarationOrder ?? Object.keys(en!.variants);
+        const variants = order
+            .map((variant) => {
+                const fields = en!.variants[variant];
+                if (fields.length === 0) return `    ${variant}: null,`;
+                const inner = fields.map((f) => `${f.name}: ${bcsOf(f.type)}`).join(", ");
+                return `    ${variant}: bcs.struct("${name}::${variant}", { ${inner} }),`;
+            })
+            .join("\n");
+        body = `bcs.enum("${name}", {\n${variants}\n})`;
+    }
+
+    if (layoutParams.length === 0) {
+        return `export const ${name} = ${body};`;
+    }
+    const args = layoutParams.map((p) => `${p}: BcsType<unknown>`).join(", ");
+    return `export function ${name}(${args}) {\n    return ${body};\n}`;
+}
+
+function bcsType(
+    type: SuiMoveNormalizedType,
+    all: SuiMoveNormalizedModules,
+    module: string,
+    packageAddress: string,
+    imports: ModuleImports,
+    localNames: Set<string>
+): string {
+    const recurse = (t: SuiMoveNormalizedType) =>
+        bcsType(t, all, module, packageAddress, imports, localNames);
+
+    switch (type) {
+        case "Bool":
+            return "bcs.bool()";
+        case "U8":
+            return "bcs.u8()";
+        case "U16":
+            return "bcs.u16()";
+        case "U32":
+            return "bcs.u32()";
+        case "U64":
+            return "bcs.u64()";
+        case "U128":
+            return "bcs.u128()";
+        case "U256":
+            return "bcs.u256()";
+        case "Address":
+            return "bcs.Address";
+        case "Signer":
+            throw new Error("signer cannot appear in a struct field");
+    }
+    if ("Vector" in type) return `bcs.vector(${recurse(type.Vector)})`;
+    if ("TypeParameter" in type) return `T${type.TypeParameter}`;
+    if ("Reference" in type || "MutableReference" in type) {
+        throw new Error("references cannot appear in a struct field");
+    }
+
+    const s = type.Struct;
+    const framework = frameworkBcs(s, recurse);
+    if (framework) return framework;
+    if (normalizeSuiAddress(s.address) !== packageAddress) {
+        throw new Error(`Unsupported external type ${formatStruct(s)} in ${module}`);
+    }
+    const local = imports.use(s.module, s.name, localNames);
+    const declaration = all[s.module]?.structs[s.name] ?? all[s.module]?.enums?.[s.name];
+    if (!declaration || declaration.typeParameters.every((p) => p.isPhantom)) return local;
+    // Generic declarations are rendered as factories over their non-phantom type arguments.
+    const layoutArgs = s.typeArguments
+        .filter((_, i) => !declaration.typeParameters[i].isPhantom)
+        .map(recurse);
+    return `${local}(${layoutArgs.join(", ")})`;
+}
+
+function frameworkBcs(s: StructRef, recurse: (t: SuiMoveNormalizedType) => string) {
+    const address = normalizeSuiAddress(s.address);
+    const key = `${s.module}::${s.name}`;
+    if (address === STD) {
+        if (key === "string::String" || key === "ascii::String") return "bcs.string()";
+        if (key === "option::Option") return `bcs.option(${recurse(s.typeArguments[0])})`;
+        if (key === "type_name::TypeName") return `bcs.struct("TypeName", { name: bcs.string() })`;
+    }
+    if (address === SUI) {
+        switch (key) {
+            case "object::UID":
+            case "object::ID":
+                return "bcs.Address";
+            case "table::Table":
+            case "bag::Bag":
+            case "object_table::ObjectTable":
+            case "object_bag::ObjectBag":
+                return `bcs.struct("${s.name}", { id: bcs.Address, size: bcs.u64() })`;
+            case "vec_set::VecSet":
+                return `bcs.struct("VecSet", { contents: bcs.vector(${recurse(s.typeArguments[0])}) })`;
+            case "vec_map::VecMap": {
+                const [k, v] = s.typeArguments.map(recurse);
+                return `bcs.struct("VecMap", { contents: bcs.vector(bcs.struct("Entry", { key: ${k}, value: ${v} })) })`;
+            }
+            case "balance::Balance":
+                return `bcs.struct("Balance", { value: bcs.u64() })`;
+            case "coin::Coin":
+                return `bcs.struct("Coin", { id: bcs.Address, balance: bcs.struct("Balance", { value: bcs.u64() }) })`;
+            case "url::Url":
+                return `bcs.struct("Url", { url: bcs.string() })`;
+        }
+    }
+    return null;
+}
+
+// === Event JSON types ===
+
+/** TypeScript shape of a value as it appears in an event's `parsedJson`. */
+function jsonType(
+    type: SuiMoveNormalizedType,
+    all: SuiMoveNormalizedModules,
+    packageAddress: string
+): string {
+    switch (type) {
+        case "Bool":
+            return "boolean";
+        case "U8":
+        case "U16":
+        case "U32":
+            return "number";
+        case "U64":
+        case "U128":
+        case "U256":
+        case "Address":
+            return "string";
+        case "Signer":
+            return "never";
+    }
+    if ("Vector" in type) return `${jsonType(type.Vector, all, packageAddress)}[]`;
+    if ("TypeParameter" in type) return "unknown";
+    if ("Reference" in type) return jsonType(type.Reference, all, packageAddress);
+    if ("MutableReference" in type) return jsonType(type.MutableReference, all, packageAddress);
+
+    const s = type.Struct;
+    const address = normalizeSuiAddress(s.address);
+    const key = `${s.module}::${s.name}`;
+    if (address === STD && (key === "string::String" || key === "ascii::String")) return "string";
+    if (address === STD && key === "option::Option") {
+        return `${jsonType(s.typeArguments[0], all, packageAddress)} | null`;
+    }
+    if (address === STD && key === "type_name::TypeName") return "{ name: string }";
+    if (address === SUI && (key === "object::ID" || key === "object::UID")) return "string";
+    if (address !== packageAddress) return "unknown";
+
+    const mod = all[s.module];
+    const struct = mod?.structs[s.name];
+    if (struct) {
+        const fields = struct.fields.map(
+            (f) => `${f.name}: ${jsonType(f.type, all, packageAddress)}`
+        );
+        return `{ ${fields.join("; ")} }`;
+    }
+    const en = mod?.enums?.[s.name];
+    if (en) {
+        const variants = Object.keys(en.variants).map((v) => `"${v}"`);
+        return `{ "@variant": ${variants.join(" | ")} }`;
+    }
+    return "unknown";
+}
+
+// === Function wrappers ===
+
+function renderParams(
+    fn: SuiMoveNormalizedFunction,
+    all: SuiMoveNormalizedModules,
+    packageAddress: string
+): Param[] {
+    const raw: Omit<Param, "name">[] = [];
+    const baseNames: string[] = [];
+
+    fn.parameters.forEach((type, index) => {
+        const inner =
+            typeof type !== "string" && "Reference" in type
+                ? type.Reference
+                : typeof type !== "string" && "MutableReference" in type
+                  ? type.MutableReference
+                  : type;
+
+        if (typeof inner !== "string" && "Struct" in inner) {
+            const s = inner.Struct;
+            const address = normalizeSuiAddress(s.address);
+            const key = `${s.module}::${s.name}`;
+            if (address === SUI && key === "tx_context::TxContext") return;
+            if (address === SUI && key === "clock::Clock") {
+                baseNames.push("clock");
+                raw.push({
+                    tsType: "ObjectArg",
+                    optional: true,
+                    expr: "tx.object(args.$ ?? SUI_CLOCK_OBJECT_ID)",
+                });
+                return;
+            }
+            const pure = pureStruct(address, key);
+            if (pure) {
+                baseNames.push(`arg${index}`);
+                raw.push({ ...pure, optional: false });
+                return;
+            }
+            baseNames.push(lowerCamel(s.name));
+            const hasKey =
+                address !== packageAddress ||
+                abilities(all[s.module]?.structs[s.name]?.abilities).includes("Key");
+            raw.push(
+                hasKey
+                    ? { tsType: "ObjectArg", optional: false, expr: "tx.object(args.$)" }
+                    : { tsType: "TransactionArgument", optional: false, expr: "args.$" }
+            );
+            return;
+        }
+
+        if (typeof inner !== "string" && "TypeParameter" in inner) {
+            const isObject = abilities(fn.typeParameters[inner.TypeParameter]).includes("Key");
+            baseNames.push(isObject ? "object" : "value");
+            raw.push(
+                isObject
+                    ? { tsType: "ObjectArg", optional: false, expr: "tx.object(args.$)" }
+                    : { tsType: "TransactionArgument", optional: false, expr: "args.$" }
+            );
+            return;
+        }
+
+        if (inner === "Signer") return;
+        baseNames.push(`arg${index}`);
+        raw.push({ ...purePrimitive(inner), optional: false });
+    });
+
+    const counts = new Map<string, number>();
+    for (const n of baseNames) counts.set(n, (counts.get(n) ?? 0) + 1);
+    const seen = new Map<string, number>();
+    return raw.map((p, i) => {
+        const base = baseNames[i];
+        const occurrence = (seen.get(base) ?? 0) + 1;
+        seen.set(base, occurrence);
+        const name = (counts.get(base) ?? 0) > 1 ? `${base}${occurrence}` : base;
+        return { ...p, name, expr: p.expr.replace("$", name) };
+    });
+}
+
+function pureStruct(address: string, key: string): Omit<Param, "name" | "optional"> | null {
+    if (address === STD && (key === "string::String" || key === "ascii::String")) {
+        return { tsType: "StringArg", expr: "pure.string(tx, args.$)" };
+    }
+    if (address === SUI && key === "object::ID") {
+        return { tsType: "IdArg", expr: "pure.id(tx, args.$)" };
+    }
+    if (address === STD && key === "option::Option") {
+        return { tsType: "TransactionArgument", expr: "args.$" };
+    }
+    return null;
+}
+
+function purePrimitive(type: SuiMoveNormalizedType): Omit<Param, "name" | "optional"> {
+    const scalar: Record<string, [string, string]> = {
+        Bool: ["BoolArg", "bool"],
+        U8: ["U8Arg", "u8"],
+        U16: ["U16Arg", "u16"],
+        U32: ["U32Arg", "u32"],
+        U64: ["U64Arg", "u64"],
+        U128: ["U128Arg", "u128"],
+        U256: ["U256Arg", "u256"],
+        Address: ["AddressArg", "address"],
+    };
+    if (typeof type === "string" && scalar[type]) {
+        const [tsType, encoder] = scalar[type];
+        return { tsType, expr: `pure.${encoder}(tx, args.$)` };
+    }
+    if (typeof type !== "string" && "Vector" in type) {
+        if (type.Vector === "U8") return { tsType: "BytesArg", expr: "pure.bytes(tx, args.$)" };
+        const el = type.Vector;
+        if (
+            typeof el !== "string" &&
+            "Struct" in el &&
+            normalizeSuiAddress(el.Struct.address) === SUI &&
+            `${el.Struct.module}::${el.Struct.name}` === "object::ID"
+        ) {
+            return { tsType: "IdVectorArg", expr: "pure.idVector(tx, args.$)" };
+        }
+    }
+    return { tsType: "TransactionArgument", expr: "args.$" };
+}
+
+function renderFunction(
+    module: string,
+    name: string,
+    fn: SuiMoveNormalizedFunction,
+    params: Param[],
+    packageAddress: string
+): string {
+    const signature = fn.parameters.map((t) => moveType(t, packageAddress)).join(", ");
+    const returns = fn.return.map((t) => moveType(t, packageAddress));
+    const returnSuffix =
+        returns.length === 0
+            ? ""
+            : returns.length === 1
+              ? `: ${returns[0]}`
+              : `: (${returns.join(", ")})`;
+
+    const fields = params.map((p) => `${p.name}${p.optional ? "?" : ""}: ${p.tsType};`);
+    if (fn.typeParameters.length > 0) {
+        fields.unshift(`typeArguments: [${fn.typeParameters.map(() => "string").join(", ")}];`);
+    }
+    const argsParam = fields.length > 0 ? `, args: { ${fields.join(" ")} }` : "";
+
+    const body = [`        target: \`\${packageId}::${module}::${name}\`,`];
+    if (fn.typeParameters.length > 0) body.push("        typeArguments: args.typeArguments,");
+    if (params.length > 0) {
+        body.push(`        arguments: [${params.map((p) => p.expr).join(", ")}],`);
+    }
+
+    return [
+        `/** \`${name}(${signature})${returnSuffix}\` */`,
+        `export function ${camel(name)}(tx: Transaction, packageId: string${argsParam}): TransactionResult {`,
+        "    return tx.moveCall({",
+        ...body,
+        "    });",
+        "}",
+    ].join("\n");
+}
+
+function moveType(type: SuiMoveNormalizedType, packageAddress: string): string {
+    if (typeof type === "string") return type === "Address" ? "address" : type.toLowerCase();
+    if ("Vector" in type) return `vector<${moveType(type.Vector, packageAddress)}>`;
+    if ("TypeParameter" in type) return `T${type.TypeParameter}`;
+    if ("Reference" in type) return `&${moveType(type.Reference, packageAddress)}`;
+    if ("MutableReference" in type)
+        return `&mut ${moveType(type.MutableReference, packageAddress)}`;
+    const s = type.Struct;
+    const args =
+        s.typeArguments.length > 0
+            ? `<${s.typeArguments.map((t) => moveType(t, packageAddress)).join(", ")}>`
+            : "";
+    return `${s.name}${args}`;
+}
+
+// === Naming helpers ===
+
+function abilities(set: SuiMoveAbilitySet | undefined): string[] {
+    return set?.abilities ?? [];
+}
+
+function formatStruct(s: StructRef): string {
+    return `${s.address}::${s.module}::${s.name}`;
+}
+
+function words(name: string): string[] {
+    return name.match(/[A-Z]+(?![a-z])|[A-Z][a-z0-9]*|[a-z0-9]+/g) ?? [name];
+}
+
+function camel(snake: string): string {
+    const parts = snake.split("_").filter(Boolean);
+    return parts[0] + parts.slice(1).map(capitalize).join("");
+}
+
+function lowerCamel(name: string): string {
+    const [first, ...rest] = words(name);
+    return first.toLowerCase() + rest.map((w) => capitalize(w.toLowerCase())).join("");
+}
+
+function pascal(snake: string): string {
+    return snake.split("_").filter(Boolean).map(capitalize).join("");
+}
+
+function kebab(snake: string): string {
+    return snake.replace(/_/g, "-");
+}
+
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
@@ -0,0 +1,132 @@
+import { resolveCleverErrorFromBytecode, resolvePackageVersion } from "./bytecode.js";
+import { getErrorInfo, getVersionedErrorInfo } from "./error-map.js";
+import { parseMoveError } from "./parser.js";
+
+/**
+ * A Move abort decoded against the error map
+ */
+export interface DecodedAbort {
+    packageName: string | undefined;
+    /** Original ID of the aborting package, as reported in the abort location */
+    address: string;
+    /** Package version (storage ID) that aborted, when resolved from the called package */
+    packageVersion?: string;
+    moduleName: string;
+    functionName: string;
+    abortCode: string;
+    commandIndex: number;
+    /** Source line of the abort; only clever errors (`#[error]` constants) carry it */
+    lineNumber?: number;
+    constantName?: string;
+    errorMessage?: string;
+    /** Set when the constant could not be decoded against the package version that ran */
+    note?: string;
+}
+
+/**
+ * Decodes the first `MoveAbort(...)` in an error message, or returns null when there is none. The
+ * abort only names the package's original ID, not the version that ran, so the constant comes from
+ * the current sources
+ */
+export function decodeMoveAbort(errorMessage: string): DecodedAbort | null {
+    let parsed;
+    try {
+        parsed = parseMoveError(errorMessage);
+    } catch {
+        return null;
+    }
+    if (!parsed) return null;
+
+    const decoded: DecodedAbort = {
+        packageName: parsed.packageName,
+        address: parsed.address,
+        moduleName: parsed.moduleName,
+        functionName: parsed.functionName,
+        abortCode: parsed.abortCode,
+        commandIndex: parsed.commandIndex,
+    };
+    // Clever errors set the top bit; a plain `abort N` code has no fields to decode.
+    if (BigInt(parsed.abortCode) >> 63n === 1n) {
+        decoded.lineNumber = parsed.decodedError.line_number;
+        const info = getErrorInfo(
+            parsed.packageName,
+            parsed.moduleName,
+            parsed.decodedError.error_code
+        );
+        decoded.constantName = info?.constantName;
+        decoded.errorMessage = info?.errorMessage;
+    }
+    return decoded;
+}
+
+/**
+ * Like `decodeMoveAbort`, but a clever error the error map does not know (a package without
+ * sources here, such as a third-party extension) is resolved from the module's on-chain bytecode.
+ * The abort location only carries the package's original ID, so pass the package the transaction
+ * called (its Move call target) to decode against the version that actually ran: the error map it
+ * was published with, or its bytecode. Without it the current sources and the original (first)
+ * version's bytecode are used, which is wrong for an upgraded package. When that bytecode cannot be
+ * read (no RPC access, say), the constant from the current sources is kept and `note` says so.
+ */
+export async function decodeMoveAbortWithBytecode(
+    errorMessage: string,
+    rpcUrl: string,
+    calledPackageId?: string
+): Promise<DecodedAbort | null> {
+    const decoded = decodeMoveAbort(errorMessage);
+    if (!decoded || decoded.lineNumber === undefined) return decoded;
+
+    const { decodedError } = parseMoveError(errorMessage)!;
+    const current = { constantName: decoded.constantName, errorMessage: decoded.errorMessage };
+    try {
+        if (calledPackageId) {
+            const packageVersion = await resolvePackageVersion(
+                rpcUrl,
+                decoded.address,
+                calledPackageId
+            );
+            decoded.packageVersion = packageVersion;
+            const versioned = getVersionedErrorInfo(
+                packageVersion,
+                decoded.packageName,
+                decoded.moduleName,
+                decodedError.error_code
+            );
+            decoded.constantName = versioned?.constantName;
+            decoded.errorMessage = versioned?.errorMessage;
+        }
+        if (decoded.constantName) return decoded;
+        const info = await resolveCleverErrorFromBytecode(
+            rpcUrl,
+            decoded.packageVersion ?? decoded.address,
+            decoded.moduleName,
+            decodedError.identifier_index,
+            decodedError.constant_index
+        );
+        decoded.constantName = info?.constantName;
+        decoded.errorMessage = info?.errorMessage || undefined;
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`Could not read the bytecode of 0x${decoded.address}: ${reason}`);
+        if (current.constantName) {
+            Object.assign(decoded, current);
+            decoded.note = `From the current sources; the module bytecode could not be read: ${reason}`;
+        }
+    }
+    return decoded;
+}
+
+/**
+ * Formats a decoded abort as `module::EConstant : message (line N, function F)`
+ */
+export function formatMoveAbort(decoded: DecodedAbort): string {
+    const location = [
+        decoded.lineNumber !== undefined ? `line ${decoded.lineNumber}` : undefined,
+        `function ${decoded.functionName}`,
+    ]
+        .filter(Boolean)
+        .join(", ");
+    const name = decoded.constantName ?? `abort ${decoded.abortCode}`;
+    const message = decoded.errorMessage ? ` : ${decoded.errorMessage}` : "";
+    return `${decoded.moduleName}::${name}${message} (${location})`;
+}
@@ -1,6 +1,7 @@
 import { decodeCleverErrorCode, formatDecodedError, isValidAbortCode } from "./decoder.js";
 import { parseMoveError } from "./parser.js";
-import { getErrorInfo } from "./error-map.js";
+import { getErrorInfo, getVersionedErrorInfo } from "./error-map.js";
+import { resolveCleverErrorFromBytecode, resolvePackageVersion } from "./bytecode.js";
 
 const tabButtons = document.querySelectorAll(".tab-button");
 const tabContents = document.querySelectorAll(".tab-content");
@@ -92,10 +93,12 @@ copyDecoderButton.addEventListener("click", () => {
 // Error String Parser
 const errorStringInput = document.getElementById("error-string-input") as HTMLTextAreaElement;
 const parseButton = document.getElementById("parse-button") as HTMLButtonElement;
+const rpcUrlInput = document.getElementById("rpc-url-input") as HTMLInputElement;
+const calledPackageInput = document.getElementById("called-package-input") as HTMLInputElement;
 const parserOutput = document.getElementById("parser-output") as HTMLPreElement;
 const copyParserButton = document.getElementById("copy-parser") as HTMLButtonElement;
 
-function handleParse() {
+async function handleParse() {
     const input = errorStringInput.value.trim();
 
     if (!input) {
@@ -124,14 +127,61 @@ function handleParse() {
 
         // Get error constant name and message if available
         try {
-            const errorInfo = getErrorInfo(parsed.moduleName, parsed.decodedError.error_code);
+            // The abort names the original ID; the called package selects the upgraded version
+            const rpcUrl = rpcUrlInput.value.trim();
+            const calledPackageId = calledPackageInput.value.trim();
+            const packageVersion =
+                rpcUrl && calledPackageId
+                    ? await resolvePackageVersion(rpcUrl, parsed.address, calledPackageId)
+                    : undefined;
+            let errorInfo = getVersionedErrorInfo(
+                packageVersion,
+                parsed.packageName,
+                parsed.moduleName,
+                parsed.decodedError.error_code
+            );
+            let bytecodeError: string | undefined;
+            // Not in the error map: a clever error's constant is read from the module bytecode
+            const clever = BigInt(parsed.abortCode) >> 63n === 1n;
+            if (!errorInfo && clever && rpcUrl) {
+                parserOutput.textContent = "Reading module bytecode...";
+                parserOutput.className = "output-box";
+                try {
+                    errorInfo = await resolveCleverErrorFromBytecode(
+                        rpcUrl,
+                        packageVersion ?? parsed.address,
+                        parsed.moduleName,
+                        parsed.decodedError.identifier_index,
+                        parsed.decodedError.constant_index
+                    );
+                } catch (e) {
+                    bytecodeError = e instanceof Error ? e.message : String(e);
+                }
+            }
+            // The bytecode of the version that ran could not be read: use the current sources
+            let note = "";
+            if (bytecodeError) {
+                errorInfo = getErrorInfo(
+                    parsed.packageName,
+                    parsed.moduleName,
+                    parsed.decodedError.error_code
+                );
+                if (!errorInfo) throw new Error(bytecodeError);
+                note = ` (from the current sources; the module bytecode could not be read: ${bytecodeError})`;
+            }
             if (errorInfo) {
                 const errorMessage = errorInfo.errorMessage ? ` : ${errorInfo.errorMessage}` : "";
-                parserOutput.textContent = `Error : ${parsed.moduleName}::${errorInfo.constantName}${errorMessage}`;
+                parserOutput.textContent = `Error : ${parsed.moduleName}::${errorInfo.constantName}${errorMessage}${note}`;
                 parserOutput.className = "output-box success";
+            } else if (!parsed.packageName) {
+                parserOutput.textContent =
+                    `Error: Unknown package 0x${parsed.address} for module "${parsed.moduleName}". ` +
+                    `It is not in any Published.toml and several packages define this module. ` +
+                    `Enter an RPC URL to read its error constants from the bytecode.`;
+                parserOutput.className = "output-box error";
             } else {
                 parserOutput.textContent =
-                    `Error: No error constant found for module "${parsed.moduleName}" ` +
+                    `Error: No error constant found for module "${parsed.packageName}::${parsed.moduleName}" ` +
                     `with error code ${parsed.decodedError.error_code}. The abort code may be invalid ` +
                     `or the error is not defined in this module.`;
                 parserOutput.className = "output-box error";
@@ -0,0 +1,271 @@
+import type { ErrorInfo } from "./error-map.js";
+
+/**
+ * Identifier and constant pools of a compiled Move module, the two tables a clever error code
+ * indexes into, and the module's own address
+ */
+export interface ModulePools {
+    /** The address the module declares: its package's original ID, the same in every version */
+    address: string;
+    identifiers: string[];
+    constants: { type: string; data: Uint8Array }[];
+}
+
+// Table kinds of the Move binary format (`file_format_common.rs`)
+const MODULE_HANDLES = 0x1;
+const CONSTANT_POOL = 0x6;
+const IDENTIFIERS = 0x7;
+const ADDRESS_IDENTIFIERS = 0x8;
+
+const ADDRESS_LENGTH = 32;
+
+const MOVE_MAGIC = [0xa1, 0x1c, 0xeb, 0x0b];
+
+// Clever errors use u16::MAX for an `assert!` without an error constant
+const NO_INDEX = 0xffff;
+
+class Reader {
+    constructor(
+        private readonly bytes: Uint8Array,
+        public offset = 0
+    ) {}
+
+    byte(): number {
+        if (this.offset >= this.bytes.length) throw new Error("Unexpected end of module bytecode");
+        return this.bytes[this.offset++];
+    }
+
+    uleb128(): number {
+        let value = 0;
+        let shift = 0;
+        for (;;) {
+            const byte = this.byte();
+            value += (byte & 0x7f) * 2 ** shift;
+            if ((byte & 0x80) === 0) return value;
+            shift += 7;
+        }
+    }
+
+    take(length: number): Uint8Array {
+        if (this.offset + length > this.bytes.length) {
+            throw new Error("Unexpected end of module bytecode");
+        }
+        const slice = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return slice;
+    }
+
+    /** A constant's type; constants only hold primitives and vectors of them */
+    signatureToken(): string {
+        const token = this.byte();
+        const primitives: Record<number, string> = {
+            0x1: "bool",
+            0x2: "u8",
+            0x3: "u64",
+            0x4: "u128",
+            0x5: "address",
+            0xd: "u16",
+            0xe: "u32",
+            0xf: "u256",
+        };
+        if (primitives[token]) return primitives[token];
+        if (token === 0xa) return `vector<${this.signatureToken()}>`;
+        throw new Error(`Unsupported constant type token 0x${token.toString(16)}`);
+    }
+}
+
+/**
+ * Reads the identifier and constant pools and the self address from a compiled module
+ */
+export function parseModulePools(bytes: Uint8Array): ModulePools {
+    const reader = new Reader(bytes);
+    if (!MOVE_MAGIC.every((byte) => reader.byte() === byte)) {
+        throw new Error("Not a Move module: bad magic number");
+    }
+    reader.take(4); // version
+
+    const tableCount = reader.uleb128();
+    const tables: { kind: number; offset: number; length: number }[] = [];
+    for (let i = 0; i < tableCount; i++) {
+        tables.push({ kind: reader.byte(), offset: reader.uleb128(), length: reader.uleb128() });
+    }
+    const contentStart = reader.offset;
+
+    const identifiers: string[] = [];
+    const constants: ModulePools["constants"] = [];
+    const moduleHandleAddresses: number[] = [];
+    const addresses: string[] = [];
+    const decoder = new TextDecoder();
+    for (const table of tables) {
+        const tableReader = new Reader(bytes, contentStart + table.offset);
+        const end = contentStart + table.offset + table.length;
+        while (tableReader.offset < end) {
+            if (table.kind === IDENTIFIERS) {
+                identifiers.push(decoder.decode(tableReader.take(tableReader.uleb128())));
+            } else if (table.kind === CONSTANT_POOL) {
+                const type = tableReader.signatureToken();
+                constants.push({ type, data: tableReader.take(tableReader.uleb128()) });
+            } else if (table.kind === MODULE_HANDLES) {
+                moduleHandleAddresses.push(tableReader.uleb128());
+                tableReader.uleb128(); // name
+            } else if (table.kind === ADDRESS_IDENTIFIERS) {
+                addresses.push(toHex(tableReader.take(ADDRESS_LENGTH)));
+            } else {
+                break;
+            }
+        }
+    }
+
+    // The self module handle index follows the last table
+    const tablesEnd = Math.max(0, ...tables.map((table) => table.offset + table.length));
+    const selfHandle = new Reader(bytes, contentStart + tablesEnd).uleb128();
+    const address = addresses[moduleHandleAddresses[selfHandle]];
+    if (address === undefined) throw new Error("Module has no self address");
+    return { address: `0x${address}`, identifiers, constants };
+}
+
+function toHex(data: Uint8Array): string {
+    return Array.from(data, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function littleEndian(data: Uint8Array): bigint {
+    let value = 0n;
+    for (let i = data.length - 1; i >= 0; i--) value = (value << 8n) | BigInt(data[i]);
+    return value;
+}
+
+/**
+ * Renders a constant's BCS value: `vector<u8>` as UTF-8 text (clever error messages), integers
+ * in decimal, addresses in hex and anything else as hex bytes
+ */
+export function formatConstantValue(constant: ModulePools["constants"][number]): string {
+    const { type, data } = constant;
+    if (type === "vector<u8>") {
+        const reader = new Reader(data);
+        return new TextDecoder().decode(reader.take(reader.uleb128()));
+    }
+    if (type === "bool") return data[0] === 1 ? "true" : "false";
+    if (/^u\d+$/.test(type)) return littleEndian(data).toString();
+    return `0x${toHex(data)}`;
+}
+
+function normalizePackageId(packageId: string): string {
+    return `0x${packageId.replace(/^0x/i, "").toLowerCase().padStart(64, "0")}`;
+}
+
+function fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/** A package version's parsed modules and the dependency versions it links against */
+interface PackageBytecode {
+    /** Original ID of the package, shared by all its versions */
+    originalId: string;
+    modules: Map<string, ModulePools>;
+    /** Original ID of each dependency to the version (storage ID) this package was built against */
+    linkage: Map<string, string>;
+}
+
+// Package bytecode never changes, so each package is fetched and parsed once per session
+const packageCache = new Map<string, Promise<PackageBytecode>>();
+
+function fetchPackage(rpcUrl: string, packageId: string): Promise<PackageBytecode> {
+    const id = normalizePackageId(packageId);
+    const cached = packageCache.get(id);
+    if (cached) return cached;
+
+    const pending = (async () => {
+        const response = await fetch(rpcUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                jsonrpc: "2.0",
+                id: 1,
+                method: "sui_getObject",
+                params: [id, { showBcs: true }],
+            }),
+        });
+        if (!response.ok) throw new Error(`RPC ${rpcUrl} returned HTTP ${response.status}`);
+        const body = (await response.json()) as {
+            result?: {
+                data?: {
+                    bcs?: {
+                        dataType: string;
+                        moduleMap?: Record<string, string>;
+                        linkageTable?: Record<string, { upgraded_id: string }>;
+                    };
+                };
+            };
+            error?: { message: string };
+        };
+        const bcs = body.result?.data?.bcs;
+        if (bcs?.dataType !== "package") {
+            throw new Error(`${id} is not a package (${body.error?.message ?? "no package data"})`);
+        }
+        const modules = new Map<string, ModulePools>();
+        for (const [name, base64] of Object.entries(bcs.moduleMap ?? {})) {
+            modules.set(name, parseModulePools(fromBase64(base64)));
+        }
+        const linkage = new Map<string, string>();
+        for (const [original, upgrade] of Object.entries(bcs.linkageTable ?? {})) {
+            linkage.set(normalizePackageId(original), normalizePackageId(upgrade.upgraded_id));
+        }
+        const [first] = modules.values();
+        const originalId = first ? normalizePackageId(first.address) : id;
+        return { originalId, modules, linkage };
+    })();
+    // A failed fetch is not cached, so the next lookup retries
+    pending.catch(() => packageCache.delete(id));
+    packageCache.set(id, pending);
+    return pending;
+}
+
+/**
+ * Fetches a package's modules through the `sui_getObject` JSON-RPC method and parses their pools
+ */
+export async function fetchPackagePools(
+    rpcUrl: string,
+    packageId: string
+): Promise<Map<string, ModulePools>> {
+    return (await fetchPackage(rpcUrl, packageId)).modules;
+}
+
+/**
+ * The version (storage ID) of the package `originalId` that ran in a transaction calling
+ * `calledPackageId`: the called package itself when it is a version of `originalId`, otherwise the
+ * version the called package links against. Abort locations only report the original ID, whose
+ * bytecode is the first version's
+ */
+export async function resolvePackageVersion(
+    rpcUrl: string,
+    originalId: string,
+    calledPackageId: string
+): Promise<string> {
+    const original = normalizePackageId(originalId);
+    const called = await fetchPackage(rpcUrl, calledPackageId);
+    if (called.originalId === original) return normalizePackageId(calledPackageId);
+    return called.linkage.get(original) ?? original;
+}
+
+/**
+ * Resolves a clever error from the aborting module's bytecode: the identifier index names the
+ * error constant and the constant index holds its message. Works for packages whose sources are
+ * not in the error map; returns undefined when the module or indices are not found
+ */
+export async function resolveCleverErrorFromBytecode(
+    rpcUrl: string,
+    packageId: string,
+    moduleName: string,
+    identifierIndex: number,
+    constantIndex: number
+): Promise<ErrorInfo | undefined> {
+    const pools = (await fetchPackagePools(rpcUrl, packageId)).get(moduleName);
+    if (!pools || identifierIndex === NO_INDEX) return undefined;
+    const constantName = pools.identifiers[identifierIndex];
+    if (constantName === undefined) return undefined;
+    const constant = constantIndex === NO_INDEX ? undefined : pools.constants[constantIndex];
+    return {
+        constantName,
+        errorMessage: constant ? formatConstantValue(constant) : "",
+    };
+}
@@ -1,7 +1,38 @@
+import { createHash } from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 
+type ModuleErrors = Record<string, Record<number, { constantName: string; errorMessage: string }>>;
+
+/**
+ * Recorded package versions, kept in `error-map-versions.json`. A version's snapshot is the error
+ * map of the sources at the time it was first recorded and is never rewritten, so aborts from it
+ * keep decoding after the sources change. Versions with identical maps share a snapshot. Versions
+ * that already existed when the store was created have no snapshot (`null`): the sources they were
+ * published from are unknown.
+ */
+interface VersionStore {
+    versions: Record<string, { packageName: string; source: string; snapshot: string | null }>;
+    snapshots: Record<string, ModuleErrors>;
+}
+
+interface PublishedVersion {
+    address: string;
+    packageName: string;
+    /** Where the version was found: a Published.toml environment or a deployments/ output */
+    source: string;
+}
+
+// Publish outputs written to deployments/<network>/ and the package each one publishes
+const PUBLISH_OUTPUTS: Record<string, string> = {
+    "world_package.json": "world",
+    "builder_package.json": "extension_examples",
+    "assets_package.json": "assets",
+};
+
 interface ErrorDefinition {
+    /** Named address the module is declared under (`world`, `extension_examples`, ...). */
+    packageName: string;
     moduleName: string;
     errorCode: number;
     constantName: string;
@@ -21,12 +52,12 @@ function extractErrorsFromMoveFile(filePath: string): ErrorDefinition[] {
     }
     const errors: ErrorDefinition[] = [];
 
-    // Extract module name
-    const moduleMatch = content.match(/module\s+world::(\w+)\s*;/);
+    // Extract package and module name
+    const moduleMatch = content.match(/module\s+(\w+)::(\w+)\s*;/);
     if (!moduleMatch) {
         return errors;
     }
-    const moduleName = moduleMatch[1];
+    const [, packageName, moduleName] = moduleMatch;
 
     const errorRegex =
         /#\[error\(code\s*=\s*(\d+)\)\]\s*const\s+([A-Z][A-Za-z0-9_]+)\s*:\s*vector<u8>\s*=\s*b"([^"]+)"/gs;
@@ -38,6 +69,7 @@ function extractErrorsFromMoveFile(filePath: string): ErrorDefinition[] {
         const errorMessage = match[3];
 
         errors.push({
+            packageName,
             moduleName,
             errorCode,
             constantName,
@@ -79,86 +111,359 @@ function findMoveFiles(dir: string): string[] {
     return files;
 }
 
+/**
+ * Package addresses recorded in a package's Published.toml, for every environment. Both the
+ * original ID (what abort locations report) and the latest `published-at` are kept.
+ */
+function readPublishedAddresses(packageDir: string): string[] {
+    const publishedPath = path.join(packageDir, "Published.toml");
+    if (!fs.existsSync(publishedPath)) return [];
+    const content = fs.readFileSync(publishedPath, "utf-8");
+    const addresses = new Set<string>();
+    for (const match of content.matchAll(
+        /^(?:published-at|original-id)\s*=\s*"(0x[0-9a-fA-F]+)"/gm
+    )) {
+        addresses.add(normalizeAddress(match[1]));
+    }
+    return [...addresses];
+}
+
+/**
+ * The latest `published-at` of each environment in a package's Published.toml
+ */
+function readPublishedVersions(packageDir: string): { address: string; source: string }[] {
+    const publishedPath = path.join(packageDir, "Published.toml");
+    if (!fs.existsSync(publishedPath)) return [];
+    const sections = fs
+        .readFileSync(publishedPath, "utf-8")
+        .split(/^\[published\./m)
+        .slice(1);
+    return sections.flatMap((section) => {
+        const environment = section.slice(0, section.indexOf("]"));
+        const publishedAt = section.match(/^published-at\s*=\s*"(0x[0-9a-fA-F]+)"/m);
+        if (!publishedAt) return [];
+        return [
+            {
+                address: normalizeAddress(publishedAt[1]),
+                source: `${path.basename(packageDir)}/Published.toml [${environment}]`,
+            },
+        ];
+    });
+}
+
+/**
+ * Packages published by the deploy scripts, from the `sui client publish --json` outputs in
+ * `deployments/<network>/` of every network but localnet
+ */
+function readDeploymentVersions(deploymentsRoot: string): PublishedVersion[] {
+    if (!fs.existsSync(deploymentsRoot)) return [];
+    const versions: PublishedVersion[] = [];
+    for (const network of fs.readdirSync(deploymentsRoot).sort()) {
+        // Localnet is reset often; its packages decode against the current sources
+        if (network === "localnet") continue;
+        for (const [fileName, packageName] of Object.entries(PUBLISH_OUTPUTS)) {
+            const filePath = path.join(deploymentsRoot, network, fileName);
+            if (!fs.existsSync(filePath)) continue;
+            const raw = fs.readFileSync(filePath, "utf-8");
+            let output: { objectChanges?: { type: string; packageId?: string }[] };
+            try {
+                output = JSON.parse(raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1));
+            } catch {
+                console.warn(`Skipping ${filePath}: not a publish output`);
+                continue;
+            }
+            const published = output.objectChanges?.find((change) => change.type === "published");
+            if (!published?.packageId) continue;
+            versions.push({
+                address: normalizeAddress(published.packageId),
+                packageName,
+                source: `deployments/${network}/${fileName}`,
+            });
+        }
+    }
+    return versions;
+}
+
+function loadVersionStore(storePath: string): VersionStore | undefined {
+    if (!fs.existsSync(storePath)) return undefined;
+    return JSON.parse(fs.readFileSync(storePath, "utf-8")) as VersionStore;
+}
+
+function snapshotId(modules: ModuleErrors): string {
+    return createHash("sha256").update(JSON.stringify(modules)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Records every version not yet in the store with the current sources' map of its package. With
+ * `backfill` (a new store) the versions predate the current sources and get no snapshot.
+ */
+function recordVersions(
+    store: VersionStore,
+    versions: PublishedVersion[],
+    errorMap: Record<string, ModuleErrors>,
+    backfill: boolean
+): number {
+    let recorded = 0;
+    for (const version of versions) {
+        if (store.versions[version.address]) continue;
+        let snapshot: string | null = null;
+        if (!backfill) {
+            const modules = errorMap[version.packageName] ?? {};
+            snapshot = snapshotId(modules);
+            store.snapshots[snapshot] ??= modules;
+        }
+        store.versions[version.address] = {
+            packageName: version.packageName,
+            source: version.source,
+            snapshot,
+        };
+        recorded++;
+    }
+    return recorded;
+}
+
+/**
+ * The generated `ERROR_MAP_VERSIONS` entries. A snapshot equal to the current sources points at
+ * `ERROR_MAP`; older ones are emitted once in `SNAPSHOTS`. A version without one gets `null`.
+ */
+function generateVersionEntries(
+    store: VersionStore,
+    errorMap: Record<string, ModuleErrors>
+): { snapshots: Record<string, ModuleErrors>; entries: string } {
+    const snapshots: Record<string, ModuleErrors> = {};
+    const lines = Object.entries(store.versions).map(([address, version]) => {
+        const current = errorMap[version.packageName];
+        let modules: string;
+        if (version.snapshot === null) {
+            modules = "null";
+        } else if (version.snapshot !== snapshotId(current ?? {})) {
+            snapshots[version.snapshot] = store.snapshots[version.snapshot];
+            modules = `SNAPSHOTS[${JSON.stringify(version.snapshot)}]`;
+        } else {
+            // A package without error constants has no ERROR_MAP entry
+            modules = current ? `ERROR_MAP[${JSON.stringify(version.packageName)}]` : "{}";
+        }
+        return `    ${JSON.stringify(address)}: { packageName: ${JSON.stringify(version.packageName)}, modules: ${modules} },`;
+    });
+    return { snapshots, entries: lines.join("\n") };
+}
+
+function normalizeAddress(address: string): string {
+    return address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+}
+
+/**
+ * Package directories under `contracts/` (those with a Move.toml)
+ */
+function findPackageDirs(contractsRoot: string): string[] {
+    return fs
+        .readdirSync(contractsRoot, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => path.join(contractsRoot, entry.name))
+        .filter((dir) => fs.existsSync(path.join(dir, "Move.toml")))
+        .sort();
+}
+
 /**
  * Generates the error map TypeScript file
  */
-function generateErrorMap(outputPath: string, contractsDir: string) {
-    const moveFiles = findMoveFiles(contractsDir);
+function generateErrorMap(
+    outputPath: string,
+    contractsRoot: string,
+    deploymentsRoot: string,
+    versionsPath: string
+) {
     const allErrors: ErrorDefinition[] = [];
+    const packageAddresses: Record<string, string> = {};
+    const publishedVersions: PublishedVersion[] = [];
+    let moveFileCount = 0;
+
+    for (const packageDir of findPackageDirs(contractsRoot)) {
+        const sourcesDir = path.join(packageDir, "sources");
+        if (!fs.existsSync(sourcesDir)) continue;
+        const moveFiles = findMoveFiles(sourcesDir);
+        moveFileCount += moveFiles.length;
 
-    for (const file of moveFiles) {
-        const errors = extractErrorsFromMoveFile(file);
-        allErrors.push(...errors);
+        const packageNames = new Set<string>();
+        for (const file of moveFiles) {
+            const errors = extractErrorsFromMoveFile(file);
+            allErrors.push(...errors);
+            const declared = fs.readFileSync(file, "utf-8").match(/module\s+(\w+)::\w+\s*;/);
+            if (declared) packageNames.add(declared[1]);
+        }
+        // Published.toml belongs to the package; its modules share one named address.
+        if (packageNames.size === 1) {
+            const [packageName] = packageNames;
+            for (const address of readPublishedAddresses(packageDir)) {
+                packageAddresses[address] = packageName;
+            }
+            for (const version of readPublishedVersions(packageDir)) {
+                publishedVersions.push({ ...version, packageName });
+            }
+        }
     }
 
-    // Group by module name
-    // Structure: module -> errorCode -> { constantName, errorMessage }
-    const errorMap: Record<
-        string,
-        Record<number, { constantName: string; errorMessage: string }>
-    > = {};
+    // Group by package and module name
+    // Structure: package -> module -> errorCode -> { constantName, errorMessage }
+    const errorMap: Record<string, ModuleErrors> = {};
 
     for (const error of allErrors) {
-        if (!errorMap[error.moduleName]) {
-            errorMap[error.moduleName] = {};
+        const modules = (errorMap[error.packageName] ??= {});
+        if (!modules[error.moduleName]) {
+            modules[error.moduleName] = {};
         }
-        errorMap[error.moduleName][error.errorCode] = {
+        modules[error.moduleName][error.errorCode] = {
             constantName: error.constantName,
             errorMessage: error.errorMessage,
         };
     }
 
+    const existing = loadVersionStore(versionsPath);
+    const store = existing ?? { versions: {}, snapshots: {} };
+    publishedVersions.push(...readDeploymentVersions(deploymentsRoot));
+    const recorded = recordVersions(store, publishedVersions, errorMap, !existing);
+    fs.writeFileSync(versionsPath, JSON.stringify(store, null, 2) + "\n", "utf-8");
+    const versions = generateVersionEntries(store, errorMap);
+
     // Generate TypeScript file
     const typeDef =
-        "Record<string, Record<number, { constantName: string; errorMessage: string }>>";
+        "Record<string, Record<string, Record<number, { constantName: string; errorMessage: string }>>>";
     const tsContent = `// Auto-generated file - do not edit manually
 // This file is generated by error-extractor.ts
 // Run: npm run extract:errors
 
+export type ErrorInfo = { constantName: string; errorMessage: string };
+
+/** package (named address) -> module -> error code -> constant */
 export const ERROR_MAP: ${typeDef} = ${JSON.stringify(errorMap, null, 2)};
 
+type ModuleErrors = Record<string, Record<number, ErrorInfo>>;
+
+/** Error maps of recorded versions that differ from the current sources, by snapshot ID */
+const SNAPSHOTS: Record<string, ModuleErrors> = ${JSON.stringify(versions.snapshots, null, 2)};
+
+/**
+ * Published package versions (storage IDs, 64 hex digits, no 0x) and the error map each was
+ * published with, recorded in error-map-versions.json. \`null\` when the version predates the
+ * store and its sources are unknown
+ */
+export const ERROR_MAP_VERSIONS: Record<
+    string,
+    { packageName: string; modules: ModuleErrors | null }
+> = {
+${versions.entries}
+};
+
+/** Published package addresses (64 hex digits, no 0x) from each package's Published.toml */
+export const PACKAGE_ADDRESSES: Record<string, string> = ${JSON.stringify(packageAddresses, null, 2)};
+
+function normalizeAddress(address: string): string {
+    return address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+}
+
 /**
- * Gets the error constant name for a given module and error code
+ * Maps another published address (e.g. a localnet or fresh testnet deployment) to a package
  */
-export function getErrorConstantName(moduleName: string, errorCode: number): string | undefined {
-    return ERROR_MAP[moduleName]?.[errorCode]?.constantName;
+export function registerPackageAddress(address: string, packageName: string): void {
+    PACKAGE_ADDRESSES[normalizeAddress(address)] = packageName;
 }
 
 /**
- * Gets the error message for a given module and error code
+ * Resolves the package of an abort location: by its address when known, otherwise by the module
+ * name when exactly one package defines it
  */
-export function getErrorMessage(moduleName: string, errorCode: number): string | undefined {
-    return ERROR_MAP[moduleName]?.[errorCode]?.errorMessage;
+export function resolvePackageName(
+    address: string | undefined,
+    moduleName: string
+): string | undefined {
+    const normalized = address ? normalizeAddress(address) : undefined;
+    const known = normalized
+        ? (ERROR_MAP_VERSIONS[normalized]?.packageName ?? PACKAGE_ADDRESSES[normalized])
+        : undefined;
+    if (known) return known;
+    const candidates = Object.keys(ERROR_MAP).filter((name) => ERROR_MAP[name][moduleName]);
+    return candidates.length === 1 ? candidates[0] : undefined;
 }
 
 /**
- * Gets both the error constant name and message for a given module and error code
+ * Gets the error constant name for a given package, module and error code
+ */
+export function getErrorConstantName(
+    packageName: string | undefined,
+    moduleName: string,
+    errorCode: number
+): string | undefined {
+    return getErrorInfo(packageName, moduleName, errorCode)?.constantName;
+}
+
+/**
+ * Gets the error message for a given package, module and error code
+ */
+export function getErrorMessage(
+    packageName: string | undefined,
+    moduleName: string,
+    errorCode: number
+): string | undefined {
+    return getErrorInfo(packageName, moduleName, errorCode)?.errorMessage;
+}
+
+/**
+ * Gets both the error constant name and message for a given package, module and error code
  */
 export function getErrorInfo(
+    packageName: string | undefined,
+    moduleName: string,
+    errorCode: number
+): ErrorInfo | undefined {
+    if (!packageName) return undefined;
+    return ERROR_MAP[packageName]?.[moduleName]?.[errorCode];
+}
+
+/**
+ * Like \`getErrorInfo\`, but looked up in the map a recorded package version was published with.
+ * \`packageVersion\` is the storage ID that ran (the transaction's call target or the version it
+ * links against), not the original ID an abort location reports. A recorded version without a
+ * snapshot returns undefined, leaving the constant to its bytecode; an unknown or missing version
+ * uses the current sources
+ */
+export function getVersionedErrorInfo(
+    packageVersion: string | undefined,
+    packageName: string | undefined,
     moduleName: string,
     errorCode: number
-): { constantName: string; errorMessage: string } | undefined {
-    return ERROR_MAP[moduleName]?.[errorCode];
+): ErrorInfo | undefined {
+    const version = packageVersion
+        ? ERROR_MAP_VERSIONS[normalizeAddress(packageVersion)]
+        : undefined;
+    if (version) return version.modules?.[moduleName]?.[errorCode];
+    return getErrorInfo(packageName, moduleName, errorCode);
 }
 `;
 
     fs.writeFileSync(outputPath, tsContent, "utf-8");
     console.log(
-        `Generated error map with ${allErrors.length} error definitions from ${moveFiles.length} Move files`
+        `Generated error map with ${allErrors.length} error definitions from ${moveFileCount} Move files`
+    );
+    for (const [packageName, modules] of Object.entries(errorMap)) {
+        console.log(`${packageName}: ${Object.keys(modules).join(", ")}`);
+    }
+    console.log(
+        `Recorded ${recorded} new package versions (${Object.keys(store.versions).length} in ${path.basename(versionsPath)})`
     );
-    console.log(`Modules found: ${Object.keys(errorMap).join(", ")}`);
 }
 
 // Main execution
 // Get the directory of this script file
 // Use process.cwd() as base and resolve relative to project root
 const projectRoot = process.cwd();
-const contractsDir = path.join(projectRoot, "contracts/world/sources");
+const contractsRoot = path.join(projectRoot, "contracts");
 const outputPath = path.join(projectRoot, "tools/error-decoder/error-map.ts");
+const versionsPath = path.join(projectRoot, "tools/error-decoder/error-map-versions.json");
+const deploymentsRoot = path.join(projectRoot, "deployments");
 
-if (!fs.existsSync(contractsDir)) {
-    console.error(`Error: Contracts directory not found at ${contractsDir}`);
+if (!fs.existsSync(contractsRoot)) {
+    console.error(`Error: Contracts directory not found at ${contractsRoot}`);
     process.exit(1);
 }
 
-generateErrorMap(outputPath, contractsDir);
+generateErrorMap(outputPath, contractsRoot, deploymentsRoot, versionsPath);
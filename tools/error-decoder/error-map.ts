@@ -2,350 +2,737 @@
 // This file is generated by error-extractor.ts
 // Run: npm run extract:errors
 
+export type ErrorInfo = { constantName: string; errorMessage: string };
+
+/** package (named address) -> module -> error code -> constant */
 export const ERROR_MAP: Record<
     string,
-    Record<number, { constantName: string; errorMessage: string }>
+    Record<string, Record<number, { constantName: string; errorMessage: string }>>
 > = {
-    access: {
-        "0": {
-            constantName: "ECharacterTransfer",
-            errorMessage: "Character cannot be transferred",
+    extension_examples: {
+        corpse_gate_bounty: {
+            "0": {
+                constantName: "ECorpseTypeIdEmpty",
+                errorMessage: "Corpse type id is empty",
+            },
+            "1": {
+                constantName: "ECorpseTypeMismatch",
+                errorMessage: "Corpse type id mismatch",
+            },
+            "2": {
+                constantName: "ENoBountyConfig",
+                errorMessage: "Missing BountyConfig on ExtensionConfig",
+            },
+        },
+        tribe_permit: {
+            "0": {
+                constantName: "ENotStarterTribe",
+                errorMessage: "Character is not a starter tribe",
+            },
+            "1": {
+                constantName: "ENoTribeConfig",
+                errorMessage: "Missing TribeConfig on ExtensionConfig",
+            },
+        },
+        turret: {
+            "0": {
+                constantName: "EInvalidOnlineReceipt",
+                errorMessage: "Invalid online receipt",
+            },
         },
     },
-    assembly: {
-        "0": {
-            constantName: "EAssemblyTypeIdEmpty",
-            errorMessage: "Assembly TypeId is empty",
-        },
-        "1": {
-            constantName: "EAssemblyItemIdEmpty",
-            errorMessage: "Assembly ItemId is empty",
-        },
-        "2": {
-            constantName: "EAssemblyAlreadyExists",
-            errorMessage: "Assembly with this ItemId already exists",
-        },
-        "3": {
-            constantName: "EAssemblyNotAuthorized",
-            errorMessage: "Assembly access not authorized",
-        },
-        "4": {
-            constantName: "ENetworkNodeDoesNotExist",
-            errorMessage:
-                "Provided network node does not match the assembly's configured energy source",
-        },
-        "5": {
-            constantName: "EAssemblyOnline",
-            errorMessage: "Assembly should be offline",
+    world: {
+        access: {
+            "0": {
+                constantName: "ECharacterTransfer",
+                errorMessage: "Character cannot be transferred",
+            },
+            "1": {
+                constantName: "EUnauthorizedSponsor",
+                errorMessage: "Unauthorized sponsor",
+            },
+            "2": {
+                constantName: "EOwnerIdMismatch",
+                errorMessage: "Owner ID mismatch",
+            },
+            "3": {
+                constantName: "EOwnerCapIdMismatch",
+                errorMessage: "Owner Cap ID mismatch",
+            },
+        },
+        assembly: {
+            "0": {
+                constantName: "EAssemblyTypeIdEmpty",
+                errorMessage: "Assembly TypeId is empty",
+            },
+            "1": {
+                constantName: "EAssemblyItemIdEmpty",
+                errorMessage: "Assembly ItemId is empty",
+            },
+            "2": {
+                constantName: "EAssemblyAlreadyExists",
+                errorMessage: "Assembly with this ItemId already exists",
+            },
+            "3": {
+                constantName: "EAssemblyNotAuthorized",
+                errorMessage: "Assembly access not authorized",
+            },
+            "4": {
+                constantName: "ENetworkNodeDoesNotExist",
+                errorMessage:
+                    "Provided network node does not match the assembly's configured energy source",
+            },
+            "5": {
+                constantName: "EAssemblyOnline",
+                errorMessage: "Assembly should be offline",
+            },
+            "6": {
+                constantName: "EAssemblyHasEnergySource",
+                errorMessage: "Assembly has an energy source",
+            },
+            "7": {
+                constantName: "EMetadataNotSet",
+                errorMessage: "Metadata not set on assembly",
+            },
+        },
+        gate: {
+            "0": {
+                constantName: "EGateTypeIdEmpty",
+                errorMessage: "Gate TypeId is empty",
+            },
+            "1": {
+                constantName: "EGateItemIdEmpty",
+                errorMessage: "Gate ItemId is empty",
+            },
+            "2": {
+                constantName: "EGateAlreadyExists",
+                errorMessage: "Gate with this ItemId already exists",
+            },
+            "3": {
+                constantName: "EGateNotAuthorized",
+                errorMessage: "Gate access not authorized",
+            },
+            "4": {
+                constantName: "EExtensionNotAuthorized",
+                errorMessage:
+                    "Access only authorized for the custom contract of the registered type",
+            },
+            "5": {
+                constantName: "ENotOnline",
+                errorMessage: "Gate is not online",
+            },
+            "6": {
+                constantName: "ENetworkNodeMismatch",
+                errorMessage:
+                    "Provided network node does not match the gate's configured energy source",
+            },
+            "7": {
+                constantName: "EGatesAlreadyLinked",
+                errorMessage: "Gates are already linked",
+            },
+            "8": {
+                constantName: "EGatesNotLinked",
+                errorMessage: "Gates are not linked",
+            },
+            "9": {
+                constantName: "EOutOfRange",
+                errorMessage: "Invalid distance in location proof",
+            },
+            "10": {
+                constantName: "EJumpPermitExpired",
+                errorMessage: "Jump permit has expired",
+            },
+            "11": {
+                constantName: "EInvalidJumpPermit",
+                errorMessage: "Invalid jump permit",
+            },
+            "12": {
+                constantName: "EGateHasEnergySource",
+                errorMessage: "Gate has an energy source",
+            },
+            "13": {
+                constantName: "EGateOnline",
+                errorMessage: "Gate should be offline",
+            },
+            "14": {
+                constantName: "EGatesLinked",
+                errorMessage: "Gates are linked",
+            },
+            "15": {
+                constantName: "EMetadataNotSet",
+                errorMessage: "Metadata not set on assembly",
+            },
+            "16": {
+                constantName: "EGateTypeMismatch",
+                errorMessage: "Gates have different TypeId values",
+            },
+            "17": {
+                constantName: "EExtensionConfigFrozen",
+                errorMessage: "Extension configuration is frozen",
+            },
+            "18": {
+                constantName: "EExtensionNotConfigured",
+                errorMessage: "Extension must be configured before freezing",
+            },
+            "19": {
+                constantName: "ENoExtensionToRevoke",
+                errorMessage: "No extension authorization to revoke",
+            },
+        },
+        storage_unit: {
+            "0": {
+                constantName: "EStorageUnitTypeIdEmpty",
+                errorMessage: "StorageUnit TypeId is empty",
+            },
+            "1": {
+                constantName: "EStorageUnitItemIdEmpty",
+                errorMessage: "StorageUnit ItemId is empty",
+            },
+            "2": {
+                constantName: "EStorageUnitAlreadyExists",
+                errorMessage: "StorageUnit with the same Item Id already exists",
+            },
+            "3": {
+                constantName: "EAssemblyNotAuthorized",
+                errorMessage: "StorageUnit access not authorized",
+            },
+            "4": {
+                constantName: "EExtensionNotAuthorized",
+                errorMessage:
+                    "Access only authorized for the custom contract of the registered type",
+            },
+            "5": {
+                constantName: "EInventoryNotAuthorized",
+                errorMessage: "Inventory Access not authorized",
+            },
+            "6": {
+                constantName: "ENotOnline",
+                errorMessage: "Storage Unit is not online",
+            },
+            "7": {
+                constantName: "ETenantMismatch",
+                errorMessage: "Item cannot be transferred across tenants",
+            },
+            "8": {
+                constantName: "ENetworkNodeMismatch",
+                errorMessage:
+                    "Provided network node does not match the storage unit's configured energy source",
+            },
+            "9": {
+                constantName: "EStorageUnitInvalidState",
+                errorMessage: "Storage Unit should be offline",
+            },
+            "10": {
+                constantName: "ESenderCannotAccessCharacter",
+                errorMessage: "Address cannot access Character",
+            },
+            "11": {
+                constantName: "EItemParentMismatch",
+                errorMessage: "Item was not withdrawn from this storage unit",
+            },
+            "12": {
+                constantName: "EMetadataNotSet",
+                errorMessage: "Metadata not set on assembly",
+            },
+            "13": {
+                constantName: "EExtensionConfigFrozen",
+                errorMessage: "Extension configuration is frozen",
+            },
+            "14": {
+                constantName: "EExtensionNotConfigured",
+                errorMessage: "Extension must be configured before freezing",
+            },
+            "15": {
+                constantName: "EOpenStorageNotInitialized",
+                errorMessage: "Open storage has not been initialized (deposit first)",
+            },
+            "16": {
+                constantName: "ENoExtensionToRevoke",
+                errorMessage: "No extension authorization to revoke",
+            },
+        },
+        turret: {
+            "0": {
+                constantName: "ETurretNotAuthorized",
+                errorMessage: "Caller is not authorized to authorize the Turret",
+            },
+            "1": {
+                constantName: "ENetworkNodeMismatch",
+                errorMessage: "Network node mismatch",
+            },
+            "2": {
+                constantName: "ENotOnline",
+                errorMessage: "Turret is not online",
+            },
+            "3": {
+                constantName: "ETurretTypeIdEmpty",
+                errorMessage: "Turret type ID is empty",
+            },
+            "4": {
+                constantName: "ETurretItemIdEmpty",
+                errorMessage: "Turret item ID is empty",
+            },
+            "5": {
+                constantName: "ETurretAlreadyExists",
+                errorMessage: "Turret with this item ID already exists",
+            },
+            "6": {
+                constantName: "ETurretHasEnergySource",
+                errorMessage: "Turret has an energy source",
+            },
+            "7": {
+                constantName: "EExtensionConfigured",
+                errorMessage: "Extension is configured",
+            },
+            "8": {
+                constantName: "EInvalidOnlineReceipt",
+                errorMessage: "Invalid online receipt",
+            },
+            "9": {
+                constantName: "EMetadataNotSet",
+                errorMessage: "Metadata not set on assembly",
+            },
+            "10": {
+                constantName: "EExtensionConfigFrozen",
+                errorMessage: "Extension configuration is frozen",
+            },
+            "11": {
+                constantName: "EExtensionNotConfigured",
+                errorMessage: "Extension must be configured before freezing",
+            },
+            "12": {
+                constantName: "ENoExtensionToRevoke",
+                errorMessage: "No extension authorization to revoke",
+            },
+        },
+        character: {
+            "0": {
+                constantName: "EGameCharacterIdEmpty",
+                errorMessage: "Game character ID is empty",
+            },
+            "1": {
+                constantName: "ETribeIdEmpty",
+                errorMessage: "Tribe ID is empty",
+            },
+            "2": {
+                constantName: "ECharacterAlreadyExists",
+                errorMessage: "Character with this game character ID already exists",
+            },
+            "3": {
+                constantName: "ETenantEmpty",
+                errorMessage: "Tenant name cannot be empty",
+            },
+            "4": {
+                constantName: "EAddressEmpty",
+                errorMessage: "Address cannot be empty",
+            },
+            "5": {
+                constantName: "ESenderCannotAccessCharacter",
+                errorMessage: "Sender cannot access Character",
+            },
+            "6": {
+                constantName: "EMetadataNotSet",
+                errorMessage: "Metadata not set on character",
+            },
+            "7": {
+                constantName: "ECharacterNotAuthorized",
+                errorMessage: "Character access not authorized",
+            },
+        },
+        sig_verify: {
+            "0": {
+                constantName: "EInvalidPublicKeyLen",
+                errorMessage: "Invalid public key length",
+            },
+            "1": {
+                constantName: "EUnsupportedScheme",
+                errorMessage: "Unsupported scheme",
+            },
+            "2": {
+                constantName: "EInvalidLen",
+                errorMessage: "Invalid length",
+            },
+        },
+        killmail: {
+            "0": {
+                constantName: "EKillmailIdEmpty",
+                errorMessage: "Killmail ID cannot be empty",
+            },
+            "1": {
+                constantName: "ECharacterIdEmpty",
+                errorMessage: "Character ID cannot be empty",
+            },
+            "2": {
+                constantName: "ESolarSystemIdEmpty",
+                errorMessage: "Solar system ID cannot be empty",
+            },
+            "3": {
+                constantName: "EInvalidLossType",
+                errorMessage: "Invalid loss type",
+            },
+            "4": {
+                constantName: "EInvalidTimestamp",
+                errorMessage: "Invalid timestamp",
+            },
+            "5": {
+                constantName: "EKillmailAlreadyExists",
+                errorMessage: "Killmail with this ItemId already exists",
+            },
+        },
+        network_node: {
+            "0": {
+                constantName: "ENetworkNodeTypeIdEmpty",
+                errorMessage: "Network Node TypeId is empty",
+            },
+            "1": {
+                constantName: "ENetworkNodeItemIdEmpty",
+                errorMessage: "Network Node ItemId is empty",
+            },
+            "2": {
+                constantName: "ENetworkNodeAlreadyExists",
+                errorMessage: "Network Node with this ItemId already exists",
+            },
+            "3": {
+                constantName: "ENetworkNodeNotAuthorized",
+                errorMessage: "Network Node access not authorized",
+            },
+            "4": {
+                constantName: "EAssemblyAlreadyConnected",
+                errorMessage: "Assembly is already connected to this network node",
+            },
+            "5": {
+                constantName: "EAssemblyNotConnected",
+                errorMessage: "Assembly is not connected to this network node",
+            },
+            "6": {
+                constantName: "EAssembliesConnected",
+                errorMessage: "Assemblies needs to be disconnected before unanchor",
+            },
+            "7": {
+                constantName: "ENetworkNodeOffline",
+                errorMessage: "Network Node is offline",
+            },
+            "8": {
+                constantName: "EUpdateEnergySourcesNotProcessed",
+                errorMessage: "Energy source must be updated for all connected assemblies",
+            },
+            "9": {
+                constantName: "EOrphanedAssembliesNotOfflined",
+                errorMessage: "Orphaned assemblies must be offlined before destroying network node",
+            },
+            "10": {
+                constantName: "EMetadataNotSet",
+                errorMessage: "Metadata not set on assembly",
+            },
+        },
+        energy: {
+            "0": {
+                constantName: "ETypeIdEmpty",
+                errorMessage: "Assembly type id cannot be empty",
+            },
+            "1": {
+                constantName: "EInvalidEnergyAmount",
+                errorMessage: "Energy amount must be greater than 0",
+            },
+            "2": {
+                constantName: "EIncorrectAssemblyType",
+                errorMessage: "Energy requirement for this assembly type is not configured",
+            },
+            "3": {
+                constantName: "EInsufficientAvailableEnergy",
+                errorMessage: "Insufficient available energy",
+            },
+            "4": {
+                constantName: "EInvalidMaxEnergyProduction",
+                errorMessage: "Max energy production must be greater than 0",
+            },
+            "5": {
+                constantName: "ENotProducingEnergy",
+                errorMessage: "Energy source is currently not producing energy",
+            },
+            "6": {
+                constantName: "EProducingEnergy",
+                errorMessage: "Energy source is already producing energy",
+            },
+        },
+        fuel: {
+            "0": {
+                constantName: "ETypeIdEmtpy",
+                errorMessage: "Fuel Type Id cannot be empty",
+            },
+            "1": {
+                constantName: "EInvalidFuelEfficiency",
+                errorMessage: "Invalid Fuel Efficiency",
+            },
+            "2": {
+                constantName: "EIncorrectFuelType",
+                errorMessage: "Fuel Efficiency for this fuel type is not configured",
+            },
+            "3": {
+                constantName: "EInsufficientFuel",
+                errorMessage: "Insufficient fuel quantity",
+            },
+            "4": {
+                constantName: "EInvalidDepositQuantity",
+                errorMessage: "Deposit quantity must be greater than 0",
+            },
+            "5": {
+                constantName: "EInvalidWithdrawQuantity",
+                errorMessage: "Withdraw quantity must be greater than 0",
+            },
+            "6": {
+                constantName: "EFuelCapacityExceeded",
+                errorMessage: "Fuel capacity would be exceeded",
+            },
+            "7": {
+                constantName: "EInvalidMaxCapacity",
+                errorMessage: "Fuel max capacity must be greater than 0",
+            },
+            "8": {
+                constantName: "EInvalidVolume",
+                errorMessage: "Fuel volume must be greater than 0",
+            },
+            "9": {
+                constantName: "EFuelTypeMismatch",
+                errorMessage: "Cannot deposit fuel of different type. Withdraw existing fuel first",
+            },
+            "10": {
+                constantName: "EInvalidBurnRate",
+                errorMessage: "Burn rate must be at least the minimum configured burn rate",
+            },
+            "11": {
+                constantName: "EFuelNotBurning",
+                errorMessage: "Fuel is not currently burning",
+            },
+            "12": {
+                constantName: "EFuelAlreadyBurning",
+                errorMessage: "Fuel is already burning",
+            },
+            "13": {
+                constantName: "ENoFuelToBurn",
+                errorMessage: "No fuel available to burn",
+            },
+        },
+        inventory: {
+            "0": {
+                constantName: "ETypeIdEmpty",
+                errorMessage: "Type ID cannot be empty",
+            },
+            "1": {
+                constantName: "EInventoryInvalidCapacity",
+                errorMessage: "Inventory Capacity cannot be 0",
+            },
+            "2": {
+                constantName: "EInventoryInsufficientCapacity",
+                errorMessage: "Insufficient capacity in the inventory",
+            },
+            "3": {
+                constantName: "EItemDoesNotExist",
+                errorMessage: "Item not found",
+            },
+            "4": {
+                constantName: "EInventoryInsufficientQuantity",
+                errorMessage: "Insufficient quantity in inventory",
+            },
+            "6": {
+                constantName: "ETypeIdMismatch",
+                errorMessage: "Item type_id must match for join operation",
+            },
+            "7": {
+                constantName: "ESplitQuantityInvalid",
+                errorMessage: "Split quantity must be greater than 0 and less than item quantity",
+            },
+        },
+        location: {
+            "0": {
+                constantName: "ENotInProximity",
+                errorMessage: "Structures are not in proximity",
+            },
+            "1": {
+                constantName: "EInvalidHashLength",
+                errorMessage: "Invalid length for SHA256",
+            },
+            "2": {
+                constantName: "EUnverifiedSender",
+                errorMessage: "The proof was not signed for the sender",
+            },
+            "3": {
+                constantName: "EInvalidLocationHash",
+                errorMessage: "Invalid location hash",
+            },
+            "4": {
+                constantName: "EUnauthorizedServer",
+                errorMessage: "Message signed by unauthorized server",
+            },
+            "5": {
+                constantName: "ESignatureVerificationFailed",
+                errorMessage: "Signature verification failed",
+            },
+            "6": {
+                constantName: "EDeadlineExpired",
+                errorMessage: "Deadline has expired",
+            },
+            "7": {
+                constantName: "EOutOfRange",
+                errorMessage: "Invalid Distance",
+            },
+        },
+        status: {
+            "0": {
+                constantName: "EAssemblyInvalidStatus",
+                errorMessage: "Assembly status is invalid",
+            },
+        },
+        rift: {
+            "0": {
+                constantName: "ERiftAlreadyExists",
+                errorMessage: "Rift with this ItemId already exists",
+            },
+            "1": {
+                constantName: "ERiftItemIdEmpty",
+                errorMessage: "Rift ItemId is empty",
+            },
         },
     },
-    metadata: {
-        "0": {
-            constantName: "ENotAuthorized",
-            errorMessage: "Not authorized to update metadata",
-        },
+};
+
+type ModuleErrors = Record<string, Record<number, ErrorInfo>>;
+
+/** Error maps of recorded versions that differ from the current sources, by snapshot ID */
+const SNAPSHOTS: Record<string, ModuleErrors> = {};
+
+/**
+ * Published package versions (storage IDs, 64 hex digits, no 0x) and the error map each was
+ * published with, recorded in error-map-versions.json. `null` when the version predates the
+ * store and its sources are unknown
+ */
+export const ERROR_MAP_VERSIONS: Record<
+    string,
+    { packageName: string; modules: ModuleErrors | null }
+> = {
+    "6407060579895a8b30f7d30d2447046eb80ecc23f0c9acde09222b2a505583c9": {
+        packageName: "assets",
+        modules: null,
     },
-    storage_unit: {
-        "0": {
-            constantName: "EStorageUnitTypeIdEmpty",
-            errorMessage: "StorageUnit TypeId is empty",
-        },
-        "1": {
-            constantName: "EStorageUnitItemIdEmpty",
-            errorMessage: "StorageUnit ItemId is empty",
-        },
-        "2": {
-            constantName: "EStorageUnitAlreadyExists",
-            errorMessage: "StorageUnit with the same Item Id already exists",
-        },
-        "3": {
-            constantName: "EAssemblyNotAuthorized",
-            errorMessage: "StorageUnit access not authorized",
-        },
-        "4": {
-            constantName: "EExtensionNotAuthorized",
-            errorMessage: "Access only authorized for the custom contract of the registered type",
-        },
-        "5": {
-            constantName: "EInventoryNotAuthorized",
-            errorMessage: "Inventory Access not authorized",
-        },
-        "6": {
-            constantName: "ENotOnline",
-            errorMessage: "Storage Unit is not online",
-        },
-        "7": {
-            constantName: "ETenantMismatch",
-            errorMessage: "Item cannot be transferred across tenants",
-        },
-        "8": {
-            constantName: "EUnauthorizedSponsor",
-            errorMessage: "Unauthorized sponsor",
-        },
-        "9": {
-            constantName: "ETransactionNotSponsored",
-            errorMessage: "Transaction not sponsored",
-        },
-        "10": {
-            constantName: "ENetworkNodeMismatch",
-            errorMessage:
-                "Provided network node does not match the storage unit's configured energy source",
-        },
-        "11": {
-            constantName: "EStorageUnitInvalidState",
-            errorMessage: "Storage Unit should be offline",
-        },
+    "2a66a89b5a735738ffa4423ac024d23571326163f324f9051557617319e59d60": {
+        packageName: "assets",
+        modules: null,
     },
-    character: {
-        "0": {
-            constantName: "EGameCharacterIdEmpty",
-            errorMessage: "Game character ID is empty",
-        },
-        "1": {
-            constantName: "ETribeIdEmpty",
-            errorMessage: "Tribe ID is empty",
-        },
-        "2": {
-            constantName: "ECharacterAlreadyExists",
-            errorMessage: "Character with this game character ID already exists",
-        },
-        "3": {
-            constantName: "ETenantEmpty",
-            errorMessage: "Tenant name cannot be empty",
-        },
-        "4": {
-            constantName: "EAddressEmpty",
-            errorMessage: "Address cannot be empty",
-        },
+    f0446b93345c1118f21239d7ac58fb82d005219b2016e100f074e4d17162a465: {
+        packageName: "assets",
+        modules: null,
     },
-    sig_verify: {
-        "0": {
-            constantName: "EInvalidPublicKeyLen",
-            errorMessage: "Invalid public key length",
-        },
-        "1": {
-            constantName: "EUnsupportedScheme",
-            errorMessage: "Unsupported scheme",
-        },
-        "2": {
-            constantName: "EInvalidLen",
-            errorMessage: "Invalid length",
-        },
+    "33226d2eedda428eb7e1a56faf525bd5300f9394a5d61ffbbbcb3993d45a7145": {
+        packageName: "world",
+        modules: null,
     },
-    network_node: {
-        "0": {
-            constantName: "ENetworkNodeTypeIdEmpty",
-            errorMessage: "Network Node TypeId is empty",
-        },
-        "1": {
-            constantName: "ENetworkNodeItemIdEmpty",
-            errorMessage: "Network Node ItemId is empty",
-        },
-        "2": {
-            constantName: "ENetworkNodeAlreadyExists",
-            errorMessage: "Network Node with this ItemId already exists",
-        },
-        "3": {
-            constantName: "ENetworkNodeNotAuthorized",
-            errorMessage: "Network Node access not authorized",
-        },
-        "4": {
-            constantName: "EAssemblyAlreadyConnected",
-            errorMessage: "Assembly is already connected to this network node",
-        },
-        "5": {
-            constantName: "EAssemblyNotConnected",
-            errorMessage: "Assembly is not connected to this network node",
-        },
-        "6": {
-            constantName: "EAssembliesConnected",
-            errorMessage: "Assemblies needs to be disconnected before unanchor",
-        },
-        "7": {
-            constantName: "ENetworkNodeOffline",
-            errorMessage: "Network Node is offline",
-        },
-        "8": {
-            constantName: "EUnauthorizedSponsor",
-            errorMessage: "Unauthorized sponsor",
-        },
-        "9": {
-            constantName: "ETransactionNotSponsored",
-            errorMessage: "Transaction not sponsored",
-        },
+    e148a2146cffc32181e7e984c0f6f5229ba26b0234a68251dff2958df01f1cc0: {
+        packageName: "world",
+        modules: null,
     },
-    energy: {
-        "0": {
-            constantName: "ETypeIdEmpty",
-            errorMessage: "Assembly type id cannot be empty",
-        },
-        "1": {
-            constantName: "EInvalidEnergyAmount",
-            errorMessage: "Energy amount must be greater than 0",
-        },
-        "2": {
-            constantName: "EIncorrectAssemblyType",
-            errorMessage: "Energy requirement for this assembly type is not configured",
-        },
-        "3": {
-            constantName: "EInsufficientAvailableEnergy",
-            errorMessage: "Insufficient available energy",
-        },
-        "4": {
-            constantName: "EInvalidMaxEnergyProduction",
-            errorMessage: "Max energy production must be greater than 0",
-        },
-        "5": {
-            constantName: "ENotProducingEnergy",
-            errorMessage: "Energy source is currently not producing energy",
-        },
-        "6": {
-            constantName: "EProducingEnergy",
-            errorMessage: "Energy source is already producing energy",
-        },
+    d2fd1224f881e7a705dbc211888af11655c315f2ee0f03fe680fc3176e6e4780: {
+        packageName: "world",
+        modules: null,
     },
-    fuel: {
-        "0": {
-            constantName: "ETypeIdEmtpy",
-            errorMessage: "Fuel Type Id cannot be empty",
-        },
-        "1": {
-            constantName: "EInvalidFuelEfficiency",
-            errorMessage: "Invalid Fuel Efficiency",
-        },
-        "2": {
-            constantName: "EIncorrectFuelType",
-            errorMessage: "Fuel Efficiency for this fuel type is not configured",
-        },
-        "3": {
-            constantName: "EInsufficientFuel",
-            errorMessage: "Insufficient fuel quantity",
-        },
-        "4": {
-            constantName: "EInvalidDepositQuantity",
-            errorMessage: "Deposit quantity must be greater than 0",
-        },
-        "5": {
-            constantName: "EInvalidWithdrawQuantity",
-            errorMessage: "Withdraw quantity must be greater than 0",
-        },
-        "6": {
-            constantName: "EFuelCapacityExceeded",
-            errorMessage: "Fuel capacity would be exceeded",
-        },
-        "7": {
-            constantName: "EInvalidMaxCapacity",
-            errorMessage: "Fuel max capacity must be greater than 0",
-        },
-        "8": {
-            constantName: "EInvalidVolume",
-            errorMessage: "Fuel volume must be greater than 0",
-        },
-        "9": {
-            constantName: "EFuelTypeMismatch",
-            errorMessage: "Cannot deposit fuel of different type. Withdraw existing fuel first",
-        },
-        "10": {
-            constantName: "EInvalidBurnRate",
-            errorMessage: "Burn rate must be at least the minimum configured burn rate",
-        },
-        "11": {
-            constantName: "EFuelNotBurning",
-            errorMessage: "Fuel is not currently burning",
-        },
-        "12": {
-            constantName: "EFuelAlreadyBurning",
-            errorMessage: "Fuel is already burning",
-        },
-        "13": {
-            constantName: "ENoFuelToBurn",
-            errorMessage: "No fuel available to burn",
-        },
-    },
-    inventory: {
-        "0": {
-            constantName: "ETypeIdEmpty",
-            errorMessage: "Type ID cannot be empty",
-        },
-        "1": {
-            constantName: "EInventoryInvalidCapacity",
-            errorMessage: "Inventory Capacity cannot be 0",
-        },
-        "2": {
-            constantName: "EInventoryInsufficientCapacity",
-            errorMessage: "Insufficient capacity in the inventory",
-        },
-        "3": {
-            constantName: "EItemDoesNotExist",
-            errorMessage: "Item not found",
-        },
-        "4": {
-            constantName: "EInventoryInsufficientQuantity",
-            errorMessage: "Insufficient quantity in inventory",
-        },
-    },
-    location: {
-        "0": {
-            constantName: "ENotInProximity",
-            errorMessage: "Structures are not in proximity",
-        },
-        "1": {
-            constantName: "EInvalidHashLength",
-            errorMessage: "Invalid length for SHA256",
-        },
-        "2": {
-            constantName: "EUnverifiedSender",
-            errorMessage: "The proof was not signed for the sender",
-        },
-        "3": {
-            constantName: "EInvalidLocationHash",
-            errorMessage: "Invalid location hash",
-        },
-        "4": {
-            constantName: "EUnauthorizedServer",
-            errorMessage: "Message signed by unauthorized server",
-        },
-        "5": {
-            constantName: "ESignatureVerificationFailed",
-            errorMessage: "Signature verification failed",
-        },
-        "6": {
-            constantName: "EDeadlineExpired",
-            errorMessage: "Deadline has expired",
-        },
-        "7": {
-            constantName: "EInvalidDistance",
-            errorMessage: "Invalid Distance",
-        },
-    },
-    status: {
-        "0": {
-            constantName: "EAssemblyInvalidStatus",
-            errorMessage: "Assembly status is invalid",
-        },
+    "07e6b810c2dff6df56ea7fbad9ff32f4d84cbee53e496267515887b712924bd1": {
+        packageName: "world",
+        modules: null,
     },
 };
 
+/** Published package addresses (64 hex digits, no 0x) from each package's Published.toml */
+export const PACKAGE_ADDRESSES: Record<string, string> = {
+    "6407060579895a8b30f7d30d2447046eb80ecc23f0c9acde09222b2a505583c9": "assets",
+    "2a66a89b5a735738ffa4423ac024d23571326163f324f9051557617319e59d60": "assets",
+    f0446b93345c1118f21239d7ac58fb82d005219b2016e100f074e4d17162a465: "assets",
+    "33226d2eedda428eb7e1a56faf525bd5300f9394a5d61ffbbbcb3993d45a7145": "world",
+    "920e577e1bf078bad19385aaa82e7332ef92b4973dcf8534797b129f9814d631": "world",
+    e148a2146cffc32181e7e984c0f6f5229ba26b0234a68251dff2958df01f1cc0: "world",
+    "353988e063b4683580e3603dbe9e91fefd8f6a06263a646d43fd3a2f3ef6b8c1": "world",
+    d2fd1224f881e7a705dbc211888af11655c315f2ee0f03fe680fc3176e6e4780: "world",
+    "28b497559d65ab320d9da4613bf2498d5946b2c0ae3597ccfda3072ce127448c": "world",
+    "07e6b810c2dff6df56ea7fbad9ff32f4d84cbee53e496267515887b712924bd1": "world",
+    d12a70c74c1e759445d6f209b01d43d860e97fcf2ef72ccbbd00afd828043f75: "world",
+};
+
+function normalizeAddress(address: string): string {
+    return address.toLowerCase().replace(/^0x/, "").padStart(64, "0");
+}
+
+/**
+ * Maps another published address (e.g. a localnet or fresh testnet deployment) to a package
+ */
+export function registerPackageAddress(address: string, packageName: string): void {
+    PACKAGE_ADDRESSES[normalizeAddress(address)] = packageName;
+}
+
+/**
+ * Resolves the package of an abort location: by its address when known, otherwise by the module
+ * name when exactly one package defines it
+ */
+export function resolvePackageName(
+    address: string | undefined,
+    moduleName: string
+): string | undefined {
+    const normalized = address ? normalizeAddress(address) : undefined;
+    const known = normalized
+        ? (ERROR_MAP_VERSIONS[normalized]?.packageName ?? PACKAGE_ADDRESSES[normalized])
+        : undefined;
+    if (known) return known;
+    const candidates = Object.keys(ERROR_MAP).filter((name) => ERROR_MAP[name][moduleName]);
+    return candidates.length === 1 ? candidates[0] : undefined;
+}
+
 /**
- * Gets the error constant name for a given module and error code
+ * Gets the error constant name for a given package, module and error code
  */
-export function getErrorConstantName(moduleName: string, errorCode: number): string | undefined {
-    return ERROR_MAP[moduleName]?.[errorCode]?.constantName;
+export function getErrorConstantName(
+    packageName: string | undefined,
+    moduleName: string,
+    errorCode: number
+): string | undefined {
+    return getErrorInfo(packageName, moduleName, errorCode)?.constantName;
 }
 
 /**
- * Gets the error message for a given module and error code
+ * Gets the error message for a given package, module and error code
  */
-export function getErrorMessage(moduleName: string, errorCode: number): string | undefined {
-    return ERROR_MAP[moduleName]?.[errorCode]?.errorMessage;
+export function getErrorMessage(
+    packageName: string | undefined,
+    moduleName: string,
+    errorCode: number
+): string | undefined {
+    return getErrorInfo(packageName, moduleName, errorCode)?.errorMessage;
 }
 
 /**
- * Gets both the error constant name and message for a given module and error code
+ * Gets both the error constant name and message for a given package, module and error code
  */
 export function getErrorInfo(
+    packageName: string | undefined,
+    moduleName: string,
+    errorCode: number
+): ErrorInfo | undefined {
+    if (!packageName) return undefined;
+    return ERROR_MAP[packageName]?.[moduleName]?.[errorCode];
+}
+
+/**
+ * Like `getErrorInfo`, but looked up in the map a recorded package version was published with.
+ * `packageVersion` is the storage ID that ran (the transaction's call target or the version it
+ * links against), not the original ID an abort location reports. A recorded version without a
+ * snapshot returns undefined, leaving the constant to its bytecode; an unknown or missing version
+ * uses the current sources
+ */
+export function getVersionedErrorInfo(
+    packageVersion: string | undefined,
+    packageName: string | undefined,
     moduleName: string,
     errorCode: number
-): { constantName: string; errorMessage: string } | undefined {
-    return ERROR_MAP[moduleName]?.[errorCode];
+): ErrorInfo | undefined {
+    const version = packageVersion
+        ? ERROR_MAP_VERSIONS[normalizeAddress(packageVersion)]
+        : undefined;
+    if (version) return version.modules?.[moduleName]?.[errorCode];
+    return getErrorInfo(packageName, moduleName, errorCode);
 }
@@ -0,0 +1,27 @@
+// Entry point for using the decoder as a library (ts-scripts, relay); the web app imports the
+// modules directly.
+export { decodeCleverErrorCode, formatDecodedError, isValidAbortCode } from "./decoder.js";
+export { extractAbortCode, formatParsedError, parseMoveError } from "./parser.js";
+export type { ParsedError } from "./parser.js";
+export {
+    ERROR_MAP,
+    ERROR_MAP_VERSIONS,
+    PACKAGE_ADDRESSES,
+    getErrorConstantName,
+    getErrorInfo,
+    getErrorMessage,
+    getVersionedErrorInfo,
+    registerPackageAddress,
+    resolvePackageName,
+} from "./error-map.js";
+export type { ErrorInfo } from "./error-map.js";
+export {
+    fetchPackagePools,
+    formatConstantValue,
+    parseModulePools,
+    resolveCleverErrorFromBytecode,
+    resolvePackageVersion,
+} from "./bytecode.js";
+export type { ModulePools } from "./bytecode.js";
+export { decodeMoveAbort, decodeMoveAbortWithBytecode, formatMoveAbort } from "./abort.js";
+export type { DecodedAbort } from "./abort.js";
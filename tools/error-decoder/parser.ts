@@ -1,4 +1,5 @@
 import { decodeCleverErrorCode } from "./decoder.js";
+import { resolvePackageName } from "./error-map.js";
 
 /**
  * Extracts abort code from a Move error message string
@@ -15,6 +16,8 @@ export function extractAbortCode(errorMessage: string): string | null {
  * Parses a full Move error string and extracts all relevant information
  */
 export interface ParsedError {
+    /** Package the aborting module belongs to, resolved from its address (see `resolvePackageName`). */
+    packageName: string | undefined;
     moduleName: string;
     functionName: string;
     address: string;
@@ -58,6 +61,7 @@ export function parseMoveError(errorMessage: string): ParsedError | null {
     }
 
     return {
+        packageName: resolvePackageName(address, moduleName),
         moduleName,
         functionName,
         address,
@@ -74,6 +78,7 @@ export function parseMoveError(errorMessage: string): ParsedError | null {
 export function formatParsedError(parsed: ParsedError): string {
     return JSON.stringify(
         {
+            package: parsed.packageName,
             module: parsed.moduleName,
             function: parsed.functionName,
             address: parsed.address,
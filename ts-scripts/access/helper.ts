@@ -0,0 +1,108 @@
+import { bcs } from "@mysten/sui/bcs";
+import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Transaction } from "@mysten/sui/transactions";
+import { HydratedWorldConfig, MODULES } from "../utils/config";
+import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { InitializedContext } from "../utils/helper";
+import { getTableValue } from "../utils/move-content";
+
+/** Whether `address` is in the `ServerAddressRegistry`, i.e. its location proofs are accepted. */
+export async function isAuthorizedServerAddress(
+    client: SuiJsonRpcClient,
+    config: HydratedWorldConfig,
+    address: string,
+    senderAddress?: string
+): Promise<boolean | null> {
+    try {
+        const bytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+            target: `${config.packageId}::${MODULES.ACCESS}::is_authorized_server_address`,
+            senderAddress,
+            arguments: (tx) => [tx.object(config.serverAddressRegistry), tx.pure.address(address)],
+        });
+
+        if (!bytes) {
+            console.warn("Error checking server address registry");
+            return null;
+        }
+
+        return bcs.bool().parse(bytes);
+    } catch (error) {
+        console.warn(
+            "Failed to check server address registry:",
+            error instanceof Error ? error.message : error
+        );
+        return null;
+    }
+}
+
+/**
+ * Whether `address` is in the `AdminACL` sponsor table. There is no Move getter for it, so the
+ * table entry is read directly.
+ */
+export async function isAuthorizedSponsor(
+    client: SuiJsonRpcClient,
+    config: HydratedWorldConfig,
+    address: string
+): Promise<boolean | null> {
+    try {
+        const value = await getTableValue(client, config.adminAcl, "authorized_sponsors", {
+            type: "address",
+            value: address,
+        });
+        return value === true;
+    } catch (error) {
+        console.warn(
+            "Failed to check admin ACL sponsors:",
+            error instanceof Error ? error.message : error
+        );
+        return null;
+    }
+}
+
+/** Adds `address` to the `ServerAddressRegistry`. `ctx` must hold the GovernorCap. */
+export async function registerServerAddress(ctx: InitializedContext, address: string) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    tx.moveCall({
+        target: `${config.packageId}::${MODULES.ACCESS}::register_server_address`,
+        arguments: [
+            tx.object(config.serverAddressRegistry),
+            tx.object(config.governorCap),
+            tx.pure.address(address),
+        ],
+    });
+    const result = await client.signAndExecuteTransaction({
+        signer: keypair,
+        transaction: tx,
+        options: { showEffects: true, showObjectChanges: true },
+    });
+    if (result.effects?.status?.status === "failure") {
+        throw new Error(`register_server_address failed: ${JSON.stringify(result.effects.status)}`);
+    }
+    return result;
+}
+
+/** Adds every sponsor to the `AdminACL` in one transaction. `ctx` must hold the GovernorCap. */
+export async function addSponsorsToAcl(ctx: InitializedContext, sponsorAddresses: string[]) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    for (const sponsorAddress of sponsorAddresses) {
+        tx.moveCall({
+            target: `${config.packageId}::${MODULES.ACCESS}::add_sponsor_to_acl`,
+            arguments: [
+                tx.object(config.adminAcl),
+                tx.object(config.governorCap),
+                tx.pure.address(sponsorAddress),
+            ],
+        });
+    }
+    const result = await client.signAndExecuteTransaction({
+        signer: keypair,
+        transaction: tx,
+        options: { showEffects: true, showObjectChanges: true },
+    });
+    if (result.effects?.status?.status === "failure") {
+        throw new Error(`add_sponsor_to_acl failed: ${JSON.stringify(result.effects.status)}`);
+    }
+    return result;
+}
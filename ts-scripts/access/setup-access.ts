@@ -1,8 +1,13 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
-import { MODULES, Network } from "../utils/config";
+import { Network } from "../utils/config";
 import { delay } from "../utils/delay";
 import { handleError, hydrateWorldConfig, initializeContext, requireEnv } from "../utils/helper";
+import {
+    addSponsorsToAcl,
+    isAuthorizedServerAddress,
+    isAuthorizedSponsor,
+    registerServerAddress,
+} from "./helper";
 
 function getSponsorAddresses(raw: string): string[] {
     return raw
@@ -24,7 +29,7 @@ function getAccessSetupEnv() {
 async function setupAccess() {
     const { network, governorKey, adminAddress, sponsorAddresses } = getAccessSetupEnv();
     const ctx = initializeContext(network, governorKey);
-    const { client, keypair } = ctx;
+    const { client } = ctx;
     const config = await hydrateWorldConfig(ctx);
 
     const packageId = config.packageId;
@@ -40,49 +45,28 @@ async function setupAccess() {
         throw new Error("SPONSOR_ADDRESSES must contain at least one address");
     }
 
-    const target = `${packageId}::${MODULES.ACCESS}`;
-
+    // Both calls abort on an address that is already present, so re-runs skip those.
     console.log("1. register_server_address...");
-    const tx1 = new Transaction();
-    tx1.moveCall({
-        target: `${target}::register_server_address`,
-        arguments: [
-            tx1.object(serverAddressRegistry),
-            tx1.object(governorCap),
-            tx1.pure.address(adminAddress),
-        ],
-    });
-    const r1 = await client.signAndExecuteTransaction({
-        signer: keypair,
-        transaction: tx1,
-        options: { showObjectChanges: true },
-    });
-    console.log("   Digest:", r1.digest);
-    if (r1.effects?.status?.status === "failure") {
-        throw new Error(`register_server_address failed: ${JSON.stringify(r1.effects.status)}`);
+    if (await isAuthorizedServerAddress(client, config, adminAddress, ctx.address)) {
+        console.log(`   ${adminAddress} is already registered`);
+    } else {
+        const r1 = await registerServerAddress(ctx, adminAddress);
+        console.log("   Digest:", r1.digest);
+        await delay(5000);
     }
-    await delay(5000);
 
-    console.log(`2. add_sponsor_to_acl (${sponsorAddresses.length} sponsors, atomic)...`);
-    const tx2 = new Transaction();
+    const missingSponsors: string[] = [];
     for (const sponsorAddress of sponsorAddresses) {
-        tx2.moveCall({
-            target: `${target}::add_sponsor_to_acl`,
-            arguments: [
-                tx2.object(adminAcl),
-                tx2.object(governorCap),
-                tx2.pure.address(sponsorAddress),
-            ],
-        });
+        if (!(await isAuthorizedSponsor(client, config, sponsorAddress))) {
+            missingSponsors.push(sponsorAddress);
+        }
     }
-    const r2 = await client.signAndExecuteTransaction({
-        signer: keypair,
-        transaction: tx2,
-        options: { showObjectChanges: true },
-    });
-    console.log("   Digest:", r2.digest);
-    if (r2.effects?.status?.status === "failure") {
-        throw new Error(`add_sponsor_to_acl failed: ${JSON.stringify(r2.effects.status)}`);
+    console.log(
+        `2. add_sponsor_to_acl (${missingSponsors.length} of ${sponsorAddresses.length} sponsors, atomic)...`
+    );
+    if (missingSponsors.length > 0) {
+        const r2 = await addSponsorsToAcl(ctx, missingSponsors);
+        console.log("   Digest:", r2.digest);
     }
 
     console.log("\n==== Access setup complete ====");
@@ -0,0 +1,74 @@
+import { bcs } from "@mysten/sui/bcs";
+import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Transaction } from "@mysten/sui/transactions";
+import { HydratedWorldConfig, MODULES } from "../utils/config";
+import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { InitializedContext } from "../utils/helper";
+import * as world from "../sdk";
+
+export async function getOwnerCap(
+    assemblyId: string,
+    client: SuiJsonRpcClient,
+    config: HydratedWorldConfig,
+    senderAddress?: string
+): Promise<string | null> {
+    try {
+        const bytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+            target: `${config.packageId}::${MODULES.ASSEMBLY}::owner_cap_id`,
+            senderAddress,
+            arguments: (tx) => [tx.object(assemblyId)],
+        });
+        if (!bytes) return null;
+        return bcs.Address.parse(bytes);
+    } catch (error) {
+        console.warn("Failed to get ownerCap:", error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+export async function onlineAssembly(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string,
+    assemblyId: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const ownerCapId = await getOwnerCap(assemblyId, client, config, address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for ${assemblyId}`);
+    }
+
+    const tx = new Transaction();
+
+    const assemblyType = world.worldType(config.packageId, MODULES.ASSEMBLY, "Assembly");
+
+    // 1. Borrow OwnerCap from character (Receiving ticket = object ref of OwnerCap owned by character)
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: assemblyType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    // 2. Use the borrowed OwnerCap to bring the assembly online
+    world.assembly.online(tx, config.packageId, {
+        assembly: assemblyId,
+        networkNode: networkNodeId,
+        energyConfig: config.energyConfig,
+        ownerCap,
+    });
+
+    // 3. Return the OwnerCap to the character
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: assemblyType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+}
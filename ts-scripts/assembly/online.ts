@@ -1,9 +1,4 @@
 import "dotenv/config";
-import { bcs } from "@mysten/sui/bcs";
-import { Transaction } from "@mysten/sui/transactions";
-import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { HydratedWorldConfig, getConfig, MODULES } from "../utils/config";
 import { deriveObjectId } from "../utils/derive-object-id";
 import { NWN_ITEM_ID, ASSEMBLY_ITEM_ID, GAME_CHARACTER_ID } from "../utils/constants";
 import {
@@ -13,77 +8,7 @@ import {
     initializeContext,
     requireEnv,
 } from "../utils/helper";
-import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
-
-export async function online(
-    networkObjectId: string,
-    assemblyId: string,
-    ownerCapId: string,
-    client: SuiJsonRpcClient,
-    keypair: Ed25519Keypair,
-    config: HydratedWorldConfig
-) {
-    console.log("\n==== Bringing Assembly Online ====");
-
-    const characterId = deriveObjectId(config.objectRegistry, GAME_CHARACTER_ID, config.packageId);
-
-    const tx = new Transaction();
-
-    // 1. Borrow OwnerCap from character (Receiving ticket = object ref of OwnerCap owned by character)
-    const [ownerCap, receipt] = tx.moveCall({
-        target: `${config.packageId}::${MODULES.CHARACTER}::borrow_owner_cap`,
-        typeArguments: [`${config.packageId}::${MODULES.ASSEMBLY}::Assembly`],
-        arguments: [tx.object(characterId), tx.object(ownerCapId)],
-    });
-
-    // 2. Use the borrowed OwnerCap to bring the assembly online
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.ASSEMBLY}::online`,
-        arguments: [
-            tx.object(assemblyId),
-            tx.object(networkObjectId),
-            tx.object(config.energyConfig),
-            ownerCap,
-        ],
-    });
-
-    // 3. Return the OwnerCap to the character
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.CHARACTER}::return_owner_cap`,
-        typeArguments: [`${config.packageId}::${MODULES.ASSEMBLY}::Assembly`],
-        arguments: [tx.object(characterId), ownerCap, receipt],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showObjectChanges: true, showEffects: true },
-    });
-
-    console.log("\n Assembly brought online successfully!");
-    console.log("Transaction digest:", result.digest);
-    return result;
-}
-
-export async function getOwnerCap(
-    assemblyId: string,
-    client: SuiJsonRpcClient,
-    config: HydratedWorldConfig,
-    senderAddress?: string
-): Promise<string | null> {
-    try {
-        const bytes = await devInspectMoveCallFirstReturnValueBytes(client, {
-            target: `${config.packageId}::${MODULES.ASSEMBLY}::owner_cap_id`,
-            senderAddress,
-            arguments: (tx) => [tx.object(assemblyId)],
-        });
-        if (!bytes) return null;
-        return bcs.Address.parse(bytes);
-    } catch (error) {
-        console.warn("Failed to get ownerCap:", error instanceof Error ? error.message : error);
-        return null;
-    }
-}
+import { onlineAssembly } from "./helper";
 
 async function main() {
     try {
@@ -91,26 +16,28 @@ async function main() {
         const playerKey = requireEnv("PLAYER_A_PRIVATE_KEY");
         const ctx = initializeContext(env.network, playerKey);
         const config = await hydrateWorldConfig(ctx);
-        const { client, keypair } = ctx;
 
+        const characterId = deriveObjectId(
+            config.objectRegistry,
+            GAME_CHARACTER_ID,
+            config.packageId
+        );
         const networkNodeObject = deriveObjectId(
             config.objectRegistry,
             NWN_ITEM_ID,
             config.packageId
         );
-
         const assemblyObject = deriveObjectId(
             config.objectRegistry,
             ASSEMBLY_ITEM_ID,
             config.packageId
         );
 
-        const assemblyOwnerCap = await getOwnerCap(assemblyObject, client, config, ctx.address);
-        if (!assemblyOwnerCap) {
-            throw new Error(`OwnerCap not found for ${assemblyObject}`);
-        }
+        console.log("\n==== Bringing Assembly Online ====");
+        const result = await onlineAssembly(ctx, characterId, networkNodeObject, assemblyObject);
 
-        await online(networkNodeObject, assemblyObject, assemblyOwnerCap, client, keypair, config);
+        console.log("\n Assembly brought online successfully!");
+        console.log("Transaction digest:", result.digest);
     } catch (error) {
         handleError(error);
     }
@@ -9,7 +9,8 @@
  */
 import "dotenv/config";
 import { Transaction } from "@mysten/sui/transactions";
-import { createClient, keypairFromPrivateKey } from "../utils/client";
+import { createClient } from "../utils/client";
+import { resolveSigner } from "../utils/signer";
 
 const COIN_REGISTRY_ID = "0xc";
 
@@ -35,7 +36,7 @@ async function main() {
         console.error("Set GOVERNOR_PRIVATE_KEY in .env");
         process.exit(1);
     }
-    const keypair = keypairFromPrivateKey(privateKey);
+    const keypair = resolveSigner(privateKey);
     const sender = keypair.getPublicKey().toSuiAddress();
 
     const coinType = `${packageId}::EVE::EVE`;
@@ -0,0 +1,72 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { getOriginalPackageId, InitializedContext } from "../utils/helper";
+
+export const EVE_DECIMALS = 9;
+
+/** Converts an EVE amount (`100`, `0.5`) to base units; at most 9 decimals are kept exactly. */
+export function parseEveAmount(amount: string): bigint {
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(amount.trim());
+    if (!match || (match[2]?.length ?? 0) > EVE_DECIMALS) {
+        throw new Error(
+            `Expected an EVE amount with at most ${EVE_DECIMALS} decimals, got "${amount}"`
+        );
+    }
+    const [, whole, fraction = ""] = match;
+    const raw =
+        BigInt(whole) * 10n ** BigInt(EVE_DECIMALS) + BigInt(fraction.padEnd(EVE_DECIMALS, "0"));
+    if (raw === 0n) throw new Error("The EVE amount must be positive");
+    return raw;
+}
+
+/** Formats base units of EVE as an EVE amount. */
+export function formatEveAmount(raw: bigint): string {
+    const scale = 10n ** BigInt(EVE_DECIMALS);
+    const fraction = (raw % scale).toString().padStart(EVE_DECIMALS, "0").replace(/0+$/, "");
+    return fraction ? `${raw / scale}.${fraction}` : `${raw / scale}`;
+}
+
+/**
+ * Sends `amount` base units of EVE from the signer to `recipient`, split from the signer's largest
+ * EVE coin. The coin type is built from the original ID of the assets package.
+ */
+export async function transferEve(
+    ctx: Pick<InitializedContext, "client" | "keypair" | "address">,
+    assetsPackageId: string,
+    recipient: string,
+    amount: bigint
+) {
+    const { client, keypair, address } = ctx;
+    const originalId = await getOriginalPackageId(client, assetsPackageId);
+    const coinType = `${originalId}::EVE::EVE`;
+
+    let largest: { coinObjectId: string; balance: bigint } | undefined;
+    let cursor: string | null | undefined = null;
+    do {
+        const page = await client.getCoins({ owner: address, coinType, cursor });
+        for (const coin of page.data) {
+            const balance = BigInt(coin.balance);
+            if (!largest || balance > largest.balance) {
+                largest = { coinObjectId: coin.coinObjectId, balance };
+            }
+        }
+        cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    if (!largest) throw new Error(`${address} holds no EVE coins`);
+    if (largest.balance < amount) {
+        throw new Error(
+            `Insufficient balance: the largest EVE coin holds ${formatEveAmount(largest.balance)} EVE, need ${formatEveAmount(amount)} EVE`
+        );
+    }
+
+    const tx = new Transaction();
+    tx.setSender(address);
+    const [toSend] = tx.splitCoins(tx.object(largest.coinObjectId), [amount]);
+    tx.transferObjects([toSend], recipient);
+
+    return await client.signAndExecuteTransaction({
+        signer: keypair,
+        transaction: tx,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+}
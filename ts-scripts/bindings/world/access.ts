@@ -0,0 +1,280 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import type { AddressArg, IdArg, ObjectArg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+
+export const MODULE = "access";
+
+export const EVENTS = ["OwnerCapCreatedEvent"] as const;
+
+export const AdminACL = bcs.struct("AdminACL", {
+    id: bcs.Address,
+    authorized_sponsors: bcs.struct("Table", { id: bcs.Address, size: bcs.u64() }),
+});
+
+export const OwnerCap = bcs.struct("OwnerCap", {
+    id: bcs.Address,
+    authorized_object_id: bcs.Address,
+});
+
+export const OwnerCapCreatedEvent = bcs.struct("OwnerCapCreatedEvent", {
+    owner_cap_id: bcs.Address,
+    authorized_object_id: bcs.Address,
+});
+
+export const OwnerCapTransferred = bcs.struct("OwnerCapTransferred", {
+    owner_cap_id: bcs.Address,
+    authorized_object_id: bcs.Address,
+    previous_owner: bcs.Address,
+    owner: bcs.Address,
+});
+
+export const ReturnOwnerCapReceipt = bcs.struct("ReturnOwnerCapReceipt", {
+    owner_id: bcs.Address,
+    owner_cap_id: bcs.Address,
+});
+
+export const ServerAddressRegistry = bcs.struct("ServerAddressRegistry", {
+    id: bcs.Address,
+    authorized_address: bcs.struct("Table", { id: bcs.Address, size: bcs.u64() }),
+});
+
+export type OwnerCapCreatedEvent = {
+    owner_cap_id: string;
+    authorized_object_id: string;
+};
+
+/** `add_sponsor_to_acl(&mut AdminACL, &GovernorCap, address)` */
+export function addSponsorToAcl(
+    tx: Transaction,
+    packageId: string,
+    args: { adminAcl: ObjectArg; governorCap: ObjectArg; arg2: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::add_sponsor_to_acl`,
+        arguments: [
+            tx.object(args.adminAcl),
+            tx.object(args.governorCap),
+            pure.address(tx, args.arg2),
+        ],
+    });
+}
+
+/** `admin_acl_id(&AdminACL): ID` */
+export function adminAclId(
+    tx: Transaction,
+    packageId: string,
+    args: { adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::admin_acl_id`,
+        arguments: [tx.object(args.adminAcl)],
+    });
+}
+
+/** `create_owner_cap(&AdminACL, &T0, &mut TxContext): OwnerCap<T0>` */
+export function createOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; adminAcl: ObjectArg; object: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::create_owner_cap`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.adminAcl), tx.object(args.object)],
+    });
+}
+
+/** `create_owner_cap_by_id(ID, &AdminACL, &mut TxContext): OwnerCap<T0>` */
+export function createOwnerCapById(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; arg0: IdArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::create_owner_cap_by_id`,
+        typeArguments: args.typeArguments,
+        arguments: [pure.id(tx, args.arg0), tx.object(args.adminAcl)],
+    });
+}
+
+/** `delete_owner_cap(OwnerCap<T0>, &AdminACL, &TxContext)` */
+export function deleteOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; ownerCap: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::delete_owner_cap`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.ownerCap), tx.object(args.adminAcl)],
+    });
+}
+
+/** `is_authorized(&OwnerCap<T0>, ID): bool` */
+export function isAuthorized(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; ownerCap: ObjectArg; arg1: IdArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::is_authorized`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.ownerCap), pure.id(tx, args.arg1)],
+    });
+}
+
+/** `is_authorized_server_address(&ServerAddressRegistry, address): bool` */
+export function isAuthorizedServerAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { serverAddressRegistry: ObjectArg; arg1: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::is_authorized_server_address`,
+        arguments: [tx.object(args.serverAddressRegistry), pure.address(tx, args.arg1)],
+    });
+}
+
+/** `receive_owner_cap(&mut UID, Receiving<OwnerCap<T0>>): OwnerCap<T0>` */
+export function receiveOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; uid: ObjectArg; receiving: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::receive_owner_cap`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.uid), tx.object(args.receiving)],
+    });
+}
+
+/** `register_server_address(&mut ServerAddressRegistry, &GovernorCap, address)` */
+export function registerServerAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { serverAddressRegistry: ObjectArg; governorCap: ObjectArg; arg2: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::register_server_address`,
+        arguments: [
+            tx.object(args.serverAddressRegistry),
+            tx.object(args.governorCap),
+            pure.address(tx, args.arg2),
+        ],
+    });
+}
+
+/** `remove_server_address(&mut ServerAddressRegistry, &GovernorCap, address)` */
+export function removeServerAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { serverAddressRegistry: ObjectArg; governorCap: ObjectArg; arg2: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::remove_server_address`,
+        arguments: [
+            tx.object(args.serverAddressRegistry),
+            tx.object(args.governorCap),
+            pure.address(tx, args.arg2),
+        ],
+    });
+}
+
+/** `return_owner_cap_to_object(OwnerCap<T0>, ReturnOwnerCapReceipt, address)` */
+export function returnOwnerCapToObject(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        ownerCap: ObjectArg;
+        returnOwnerCapReceipt: TransactionArgument;
+        arg2: AddressArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::return_owner_cap_to_object`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.ownerCap),
+            args.returnOwnerCapReceipt,
+            pure.address(tx, args.arg2),
+        ],
+    });
+}
+
+/** `server_address_registry_id(&ServerAddressRegistry): ID` */
+export function serverAddressRegistryId(
+    tx: Transaction,
+    packageId: string,
+    args: { serverAddressRegistry: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::server_address_registry_id`,
+        arguments: [tx.object(args.serverAddressRegistry)],
+    });
+}
+
+/** `transfer_owner_cap(OwnerCap<T0>, address)` */
+export function transferOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; ownerCap: ObjectArg; arg1: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::transfer_owner_cap`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.ownerCap), pure.address(tx, args.arg1)],
+    });
+}
+
+/** `transfer_owner_cap_to_address(OwnerCap<T0>, address, &mut TxContext)` */
+export function transferOwnerCapToAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; ownerCap: ObjectArg; arg1: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::transfer_owner_cap_to_address`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.ownerCap), pure.address(tx, args.arg1)],
+    });
+}
+
+/** `transfer_owner_cap_with_receipt(OwnerCap<T0>, ReturnOwnerCapReceipt, address, &mut TxContext)` */
+export function transferOwnerCapWithReceipt(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        ownerCap: ObjectArg;
+        returnOwnerCapReceipt: TransactionArgument;
+        arg2: AddressArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::transfer_owner_cap_with_receipt`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.ownerCap),
+            args.returnOwnerCapReceipt,
+            pure.address(tx, args.arg2),
+        ],
+    });
+}
+
+/** `verify_sponsor(&AdminACL, &TxContext)` */
+export function verifySponsor(
+    tx: Transaction,
+    packageId: string,
+    args: { adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::access::verify_sponsor`,
+        arguments: [tx.object(args.adminAcl)],
+    });
+}
@@ -0,0 +1,347 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import type { BytesArg, ObjectArg, StringArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+import { Location } from "./location";
+import { Metadata } from "./metadata";
+import { AssemblyStatus } from "./status";
+
+export const MODULE = "assembly";
+
+export const EVENTS = ["AssemblyCreatedEvent"] as const;
+
+export const Assembly = bcs.struct("Assembly", {
+    id: bcs.Address,
+    key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+    status: AssemblyStatus,
+    location: Location,
+    energy_source_id: bcs.option(bcs.Address),
+    metadata: bcs.option(Metadata),
+});
+
+export const AssemblyCreatedEvent = bcs.struct("AssemblyCreatedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+});
+
+export type AssemblyCreatedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    owner_cap_id: string;
+    type_id: string;
+};
+
+/** `anchor(&mut ObjectRegistry, &mut NetworkNode, &Character, &AdminACL, u64, u64, vector<u8>, &mut TxContext): Assembly` */
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectRegistry: ObjectArg;
+        networkNode: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        arg4: U64Arg;
+        arg5: U64Arg;
+        arg6: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::anchor`,
+        arguments: [
+            tx.object(args.objectRegistry),
+            tx.object(args.networkNode),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg4),
+            pure.u64(tx, args.arg5),
+            pure.bytes(tx, args.arg6),
+        ],
+    });
+}
+
+/** `energy_source_id(&Assembly): &Option<ID>` */
+export function energySourceId(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::energy_source_id`,
+        arguments: [tx.object(args.assembly)],
+    });
+}
+
+/** `id(&Assembly): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::id`,
+        arguments: [tx.object(args.assembly)],
+    });
+}
+
+/** `offline(&mut Assembly, &mut NetworkNode, &EnergyConfig, &OwnerCap<Assembly>)` */
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::offline`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `offline_connected_assembly(&mut Assembly, OfflineAssemblies, &mut NetworkNode, &EnergyConfig): OfflineAssemblies` */
+export function offlineConnectedAssembly(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        offlineAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::offline_connected_assembly`,
+        arguments: [
+            tx.object(args.assembly),
+            args.offlineAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+/** `offline_orphaned_assembly(&mut Assembly, HandleOrphanedAssemblies, &mut NetworkNode, &EnergyConfig): HandleOrphanedAssemblies` */
+export function offlineOrphanedAssembly(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        handleOrphanedAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::offline_orphaned_assembly`,
+        arguments: [
+            tx.object(args.assembly),
+            args.handleOrphanedAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+/** `online(&mut Assembly, &mut NetworkNode, &EnergyConfig, &OwnerCap<Assembly>)` */
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::online`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `owner_cap_id(&Assembly): ID` */
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::owner_cap_id`,
+        arguments: [tx.object(args.assembly)],
+    });
+}
+
+/** `reveal_location(&Assembly, &mut LocationRegistry, &AdminACL, u64, String, String, String, &TxContext)` */
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        locationRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg3: U64Arg;
+        arg4: StringArg;
+        arg5: StringArg;
+        arg6: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::reveal_location`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.locationRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg3),
+            pure.string(tx, args.arg4),
+            pure.string(tx, args.arg5),
+            pure.string(tx, args.arg6),
+        ],
+    });
+}
+
+/** `share_assembly(Assembly, &AdminACL, &TxContext)` */
+export function shareAssembly(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::share_assembly`,
+        arguments: [tx.object(args.assembly), tx.object(args.adminAcl)],
+    });
+}
+
+/** `status(&Assembly): &AssemblyStatus` */
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::status`,
+        arguments: [tx.object(args.assembly)],
+    });
+}
+
+/** `unanchor(Assembly, &mut NetworkNode, &EnergyConfig, &AdminACL, &TxContext)` */
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::unanchor`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `unanchor_orphan(Assembly, &AdminACL, &TxContext)` */
+export function unanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::unanchor_orphan`,
+        arguments: [tx.object(args.assembly), tx.object(args.adminAcl)],
+    });
+}
+
+/** `update_energy_source(&mut Assembly, &mut NetworkNode, &AdminACL, &TxContext)` */
+export function updateEnergySource(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::update_energy_source`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `update_energy_source_connected_assembly(&mut Assembly, UpdateEnergySources, &NetworkNode): UpdateEnergySources` */
+export function updateEnergySourceConnectedAssembly(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; updateEnergySources: TransactionArgument; networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::update_energy_source_connected_assembly`,
+        arguments: [
+            tx.object(args.assembly),
+            args.updateEnergySources,
+            tx.object(args.networkNode),
+        ],
+    });
+}
+
+/** `update_metadata_description(&mut Assembly, &OwnerCap<Assembly>, String)` */
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::update_metadata_description`,
+        arguments: [tx.object(args.assembly), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
+
+/** `update_metadata_name(&mut Assembly, &OwnerCap<Assembly>, String)` */
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::update_metadata_name`,
+        arguments: [tx.object(args.assembly), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
+
+/** `update_metadata_url(&mut Assembly, &OwnerCap<Assembly>, String)` */
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::assembly::update_metadata_url`,
+        arguments: [tx.object(args.assembly), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
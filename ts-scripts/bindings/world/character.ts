@@ -0,0 +1,305 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import type { AddressArg, ObjectArg, StringArg, U32Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+import { Metadata } from "./metadata";
+
+export const MODULE = "character";
+
+export const EVENTS = ["CharacterCreatedEvent"] as const;
+
+export const Character = bcs.struct("Character", {
+    id: bcs.Address,
+    key: TenantItemId,
+    tribe_id: bcs.u32(),
+    character_address: bcs.Address,
+    metadata: bcs.option(Metadata),
+    owner_cap_id: bcs.Address,
+});
+
+export const CharacterCreatedEvent = bcs.struct("CharacterCreatedEvent", {
+    character_id: bcs.Address,
+    key: TenantItemId,
+    tribe_id: bcs.u32(),
+    character_address: bcs.Address,
+});
+
+export const PlayerProfile = bcs.struct("PlayerProfile", {
+    id: bcs.Address,
+    character_id: bcs.Address,
+});
+
+export type CharacterCreatedEvent = {
+    character_id: string;
+    key: { item_id: string; tenant: string };
+    tribe_id: number;
+    character_address: string;
+};
+
+/** `borrow_owner_cap(&mut Character, Receiving<OwnerCap<T0>>, &TxContext): (OwnerCap<T0>, ReturnOwnerCapReceipt)` */
+export function borrowOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; character: ObjectArg; receiving: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::borrow_owner_cap`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.character), tx.object(args.receiving)],
+    });
+}
+
+/** `character_address(&Character): address` */
+export function characterAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::character_address`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+/** `create_character(&mut ObjectRegistry, &AdminACL, u32, String, u32, address, String, &mut TxContext): Character` */
+export function createCharacter(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg2: U32Arg;
+        arg3: StringArg;
+        arg4: U32Arg;
+        arg5: AddressArg;
+        arg6: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::create_character`,
+        arguments: [
+            tx.object(args.objectRegistry),
+            tx.object(args.adminAcl),
+            pure.u32(tx, args.arg2),
+            pure.string(tx, args.arg3),
+            pure.u32(tx, args.arg4),
+            pure.address(tx, args.arg5),
+            pure.string(tx, args.arg6),
+        ],
+    });
+}
+
+/** `delete_character(Character, &AdminACL, &TxContext)` */
+export function deleteCharacter(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::delete_character`,
+        arguments: [tx.object(args.character), tx.object(args.adminAcl)],
+    });
+}
+
+/** `id(&Character): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::id`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+/** `key(&Character): TenantItemId` */
+export function key(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::key`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+/** `owner_cap_id(&Character): ID` */
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::owner_cap_id`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+/** `player_profile_id(&PlayerProfile): ID` */
+export function playerProfileId(
+    tx: Transaction,
+    packageId: string,
+    args: { playerProfile: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::player_profile_id`,
+        arguments: [tx.object(args.playerProfile)],
+    });
+}
+
+/** `return_owner_cap(&Character, OwnerCap<T0>, ReturnOwnerCapReceipt)` */
+export function returnOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+        returnOwnerCapReceipt: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::return_owner_cap`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            args.returnOwnerCapReceipt,
+        ],
+    });
+}
+
+/** `share_character(Character, &AdminACL, &TxContext)` */
+export function shareCharacter(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::share_character`,
+        arguments: [tx.object(args.character), tx.object(args.adminAcl)],
+    });
+}
+
+/** `tenant(&Character): String` */
+export function tenant(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::tenant`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+/** `tribe(&Character): u32` */
+export function tribe(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::tribe`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+/** `update_address(&mut Character, &AdminACL, address, &TxContext)` */
+export function updateAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg; arg2: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::update_address`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.address(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_metadata_description(&mut Character, &OwnerCap<Character>, String)` */
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::update_metadata_description`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_metadata_name(&mut Character, &OwnerCap<Character>, String)` */
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::update_metadata_name`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_metadata_url(&mut Character, &OwnerCap<Character>, String)` */
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::update_metadata_url`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_tenant_id(&mut Character, &AdminACL, String, &TxContext)` */
+export function updateTenantId(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::update_tenant_id`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_tribe(&mut Character, &AdminACL, u32, &TxContext)` */
+export function updateTribe(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg; arg2: U32Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::character::update_tribe`,
+        arguments: [tx.object(args.character), tx.object(args.adminAcl), pure.u32(tx, args.arg2)],
+    });
+}
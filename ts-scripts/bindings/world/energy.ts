@@ -0,0 +1,179 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import type { ObjectArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+
+export const MODULE = "energy";
+
+export const EVENTS = [
+    "StartEnergyProductionEvent",
+    "StopEnergyProductionEvent",
+    "EnergyReservedEvent",
+    "EnergyReleasedEvent",
+] as const;
+
+export const EnergyConfig = bcs.struct("EnergyConfig", {
+    id: bcs.Address,
+    assembly_energy: bcs.struct("Table", { id: bcs.Address, size: bcs.u64() }),
+});
+
+export const EnergyReleasedEvent = bcs.struct("EnergyReleasedEvent", {
+    energy_source_id: bcs.Address,
+    assembly_type_id: bcs.u64(),
+    energy_released: bcs.u64(),
+    total_reserved_energy: bcs.u64(),
+});
+
+export const EnergyReservedEvent = bcs.struct("EnergyReservedEvent", {
+    energy_source_id: bcs.Address,
+    assembly_type_id: bcs.u64(),
+    energy_reserved: bcs.u64(),
+    total_reserved_energy: bcs.u64(),
+});
+
+export const EnergySource = bcs.struct("EnergySource", {
+    max_energy_production: bcs.u64(),
+    current_energy_production: bcs.u64(),
+    total_reserved_energy: bcs.u64(),
+});
+
+export const StartEnergyProductionEvent = bcs.struct("StartEnergyProductionEvent", {
+    energy_source_id: bcs.Address,
+    current_energy_production: bcs.u64(),
+});
+
+export const StopEnergyProductionEvent = bcs.struct("StopEnergyProductionEvent", {
+    energy_source_id: bcs.Address,
+});
+
+export type StartEnergyProductionEvent = {
+    energy_source_id: string;
+    current_energy_production: string;
+};
+
+export type StopEnergyProductionEvent = {
+    energy_source_id: string;
+};
+
+export type EnergyReservedEvent = {
+    energy_source_id: string;
+    assembly_type_id: string;
+    energy_reserved: string;
+    total_reserved_energy: string;
+};
+
+export type EnergyReleasedEvent = {
+    energy_source_id: string;
+    assembly_type_id: string;
+    energy_released: string;
+    total_reserved_energy: string;
+};
+
+/** `assembly_energy(&EnergyConfig, u64): u64` */
+export function assemblyEnergy(
+    tx: Transaction,
+    packageId: string,
+    args: { energyConfig: ObjectArg; arg1: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::energy::assembly_energy`,
+        arguments: [tx.object(args.energyConfig), pure.u64(tx, args.arg1)],
+    });
+}
+
+/** `available_energy(&EnergySource): u64` */
+export function availableEnergy(
+    tx: Transaction,
+    packageId: string,
+    args: { energySource: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::energy::available_energy`,
+        arguments: [args.energySource],
+    });
+}
+
+/** `current_energy_production(&EnergySource): u64` */
+export function currentEnergyProduction(
+    tx: Transaction,
+    packageId: string,
+    args: { energySource: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::energy::current_energy_production`,
+        arguments: [args.energySource],
+    });
+}
+
+/** `id(&EnergyConfig): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { energyConfig: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::energy::id`,
+        arguments: [tx.object(args.energyConfig)],
+    });
+}
+
+/** `max_energy_production(&EnergySource): u64` */
+export function maxEnergyProduction(
+    tx: Transaction,
+    packageId: string,
+    args: { energySource: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::energy::max_energy_production`,
+        arguments: [args.energySource],
+    });
+}
+
+/** `remove_energy_config(&mut EnergyConfig, &AdminACL, u64, &TxContext)` */
+export function removeEnergyConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { energyConfig: ObjectArg; adminAcl: ObjectArg; arg2: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::energy::remove_energy_config`,
+        arguments: [
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg2),
+        ],
+    });
+}
+
+/** `set_energy_config(&mut EnergyConfig, &AdminACL, u64, u64, &TxContext)` */
+export function setEnergyConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { energyConfig: ObjectArg; adminAcl: ObjectArg; arg2: U64Arg; arg3: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::energy::set_energy_config`,
+        arguments: [
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg2),
+            pure.u64(tx, args.arg3),
+        ],
+    });
+}
+
+/** `total_reserved_energy(&EnergySource): u64` */
+export function totalReservedEnergy(
+    tx: Transaction,
+    packageId: string,
+    args: { energySource: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::energy::total_reserved_energy`,
+        arguments: [args.energySource],
+    });
+}
@@ -0,0 +1,39 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionResult } from "@mysten/sui/transactions";
+import type { ObjectArg } from "../../sdk/args";
+
+export const MODULE = "extension_freeze";
+
+export const EVENTS = ["ExtensionConfigFrozenEvent"] as const;
+
+export const ExtensionConfigFrozenEvent = bcs.struct("ExtensionConfigFrozenEvent", {
+    assembly_id: bcs.Address,
+});
+
+export const ExtensionFrozen = bcs.struct("ExtensionFrozen", {
+    dummy_field: bcs.bool(),
+});
+
+export const ExtensionFrozenKey = bcs.struct("ExtensionFrozenKey", {
+    dummy_field: bcs.bool(),
+});
+
+export type ExtensionConfigFrozenEvent = {
+    assembly_id: string;
+};
+
+/** `is_extension_frozen(&UID): bool` */
+export function isExtensionFrozen(
+    tx: Transaction,
+    packageId: string,
+    args: { uid: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::extension_freeze::is_extension_frozen`,
+        arguments: [tx.object(args.uid)],
+    });
+}
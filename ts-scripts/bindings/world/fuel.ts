@@ -0,0 +1,223 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import type { ObjectArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+
+export const MODULE = "fuel";
+
+export const EVENTS = [
+    "FuelEvent",
+    "FuelEfficiencySetEvent",
+    "FuelEfficiencyRemovedEvent",
+] as const;
+
+export const Action = bcs.enum("Action", {
+    DEPOSITED: null,
+    WITHDRAWN: null,
+    BURNING_STARTED: null,
+    BURNING_STOPPED: null,
+    BURNING_UPDATED: null,
+    DELETED: null,
+});
+
+export const Fuel = bcs.struct("Fuel", {
+    max_capacity: bcs.u64(),
+    burn_rate_in_ms: bcs.u64(),
+    type_id: bcs.option(bcs.u64()),
+    unit_volume: bcs.option(bcs.u64()),
+    quantity: bcs.u64(),
+    is_burning: bcs.bool(),
+    previous_cycle_elapsed_time: bcs.u64(),
+    burn_start_time: bcs.u64(),
+    last_updated: bcs.u64(),
+});
+
+export const FuelConfig = bcs.struct("FuelConfig", {
+    id: bcs.Address,
+    fuel_efficiency: bcs.struct("Table", { id: bcs.Address, size: bcs.u64() }),
+});
+
+export const FuelEfficiencyRemovedEvent = bcs.struct("FuelEfficiencyRemovedEvent", {
+    fuel_type_id: bcs.u64(),
+});
+
+export const FuelEfficiencySetEvent = bcs.struct("FuelEfficiencySetEvent", {
+    fuel_type_id: bcs.u64(),
+    efficiency: bcs.u64(),
+});
+
+export const FuelEvent = bcs.struct("FuelEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    type_id: bcs.u64(),
+    old_quantity: bcs.u64(),
+    new_quantity: bcs.u64(),
+    is_burning: bcs.bool(),
+    action: Action,
+});
+
+export type FuelEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    type_id: string;
+    old_quantity: string;
+    new_quantity: string;
+    is_burning: boolean;
+    action: {
+        "@variant":
+            | "DEPOSITED"
+            | "WITHDRAWN"
+            | "BURNING_STARTED"
+            | "BURNING_STOPPED"
+            | "BURNING_UPDATED"
+            | "DELETED";
+    };
+};
+
+export type FuelEfficiencySetEvent = {
+    fuel_type_id: string;
+    efficiency: string;
+};
+
+export type FuelEfficiencyRemovedEvent = {
+    fuel_type_id: string;
+};
+
+/** `fuel_efficiency(&FuelConfig, u64): u64` */
+export function fuelEfficiency(
+    tx: Transaction,
+    packageId: string,
+    args: { fuelConfig: ObjectArg; arg1: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::fuel_efficiency`,
+        arguments: [tx.object(args.fuelConfig), pure.u64(tx, args.arg1)],
+    });
+}
+
+/** `has_enough_fuel(&Fuel, &FuelConfig, &Clock): bool` */
+export function hasEnoughFuel(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument; fuelConfig: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::has_enough_fuel`,
+        arguments: [
+            args.fuel,
+            tx.object(args.fuelConfig),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `id(&FuelConfig): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { fuelConfig: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::id`,
+        arguments: [tx.object(args.fuelConfig)],
+    });
+}
+
+/** `is_burning(&Fuel): bool` */
+export function isBurning(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::is_burning`,
+        arguments: [args.fuel],
+    });
+}
+
+/** `need_update(&Fuel, &FuelConfig, &Clock): bool` */
+export function needUpdate(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument; fuelConfig: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::need_update`,
+        arguments: [
+            args.fuel,
+            tx.object(args.fuelConfig),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `quantity(&Fuel): u64` */
+export function quantity(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::quantity`,
+        arguments: [args.fuel],
+    });
+}
+
+/** `set_fuel_efficiency(&mut FuelConfig, &AdminACL, u64, u64, &TxContext)` */
+export function setFuelEfficiency(
+    tx: Transaction,
+    packageId: string,
+    args: { fuelConfig: ObjectArg; adminAcl: ObjectArg; arg2: U64Arg; arg3: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::set_fuel_efficiency`,
+        arguments: [
+            tx.object(args.fuelConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg2),
+            pure.u64(tx, args.arg3),
+        ],
+    });
+}
+
+/** `type_id(&Fuel): Option<u64>` */
+export function typeId(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::type_id`,
+        arguments: [args.fuel],
+    });
+}
+
+/** `unset_fuel_efficiency(&mut FuelConfig, &AdminACL, u64, &TxContext)` */
+export function unsetFuelEfficiency(
+    tx: Transaction,
+    packageId: string,
+    args: { fuelConfig: ObjectArg; adminAcl: ObjectArg; arg2: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::unset_fuel_efficiency`,
+        arguments: [tx.object(args.fuelConfig), tx.object(args.adminAcl), pure.u64(tx, args.arg2)],
+    });
+}
+
+/** `volume(&Fuel): Option<u64>` */
+export function volume(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::fuel::volume`,
+        arguments: [args.fuel],
+    });
+}
@@ -0,0 +1,849 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import type { BytesArg, ObjectArg, StringArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+import { Location } from "./location";
+import { Metadata } from "./metadata";
+import { AssemblyStatus, Status } from "./status";
+
+export const MODULE = "gate";
+
+export const EVENTS = [
+    "GateCreatedEvent",
+    "GateLinkedEvent",
+    "GateUnlinkedEvent",
+    "JumpEvent",
+    "JumpPermitIssuedEvent",
+    "ExtensionAuthorizedEvent",
+    "ExtensionRevokedEvent",
+] as const;
+
+export const ExtensionAuthorizedEvent = bcs.struct("ExtensionAuthorizedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    extension_type: bcs.struct("TypeName", { name: bcs.string() }),
+    previous_extension: bcs.option(bcs.struct("TypeName", { name: bcs.string() })),
+    owner_cap_id: bcs.Address,
+});
+
+export const ExtensionRevokedEvent = bcs.struct("ExtensionRevokedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    revoked_extension: bcs.struct("TypeName", { name: bcs.string() }),
+    owner_cap_id: bcs.Address,
+});
+
+export const Gate = bcs.struct("Gate", {
+    id: bcs.Address,
+    key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+    linked_gate_id: bcs.option(bcs.Address),
+    status: AssemblyStatus,
+    location: Location,
+    energy_source_id: bcs.option(bcs.Address),
+    metadata: bcs.option(Metadata),
+    extension: bcs.option(bcs.struct("TypeName", { name: bcs.string() })),
+});
+
+export const GateConfig = bcs.struct("GateConfig", {
+    id: bcs.Address,
+    max_distance_by_type: bcs.struct("Table", { id: bcs.Address, size: bcs.u64() }),
+});
+
+export const GateCreatedEvent = bcs.struct("GateCreatedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+    location_hash: bcs.vector(bcs.u8()),
+    status: Status,
+});
+
+export const GateLinkedEvent = bcs.struct("GateLinkedEvent", {
+    source_gate_id: bcs.Address,
+    source_gate_key: TenantItemId,
+    destination_gate_id: bcs.Address,
+    destination_gate_key: TenantItemId,
+});
+
+export const GateUnlinkedEvent = bcs.struct("GateUnlinkedEvent", {
+    source_gate_id: bcs.Address,
+    source_gate_key: TenantItemId,
+    destination_gate_id: bcs.Address,
+    destination_gate_key: TenantItemId,
+});
+
+export const JumpEvent = bcs.struct("JumpEvent", {
+    source_gate_id: bcs.Address,
+    source_gate_key: TenantItemId,
+    destination_gate_id: bcs.Address,
+    destination_gate_key: TenantItemId,
+    character_id: bcs.Address,
+    character_key: TenantItemId,
+});
+
+export const JumpPermit = bcs.struct("JumpPermit", {
+    id: bcs.Address,
+    character_id: bcs.Address,
+    route_hash: bcs.vector(bcs.u8()),
+    expires_at_timestamp_ms: bcs.u64(),
+});
+
+export const JumpPermitIssuedEvent = bcs.struct("JumpPermitIssuedEvent", {
+    jump_permit_id: bcs.Address,
+    source_gate_id: bcs.Address,
+    source_gate_key: TenantItemId,
+    destination_gate_id: bcs.Address,
+    destination_gate_key: TenantItemId,
+    character_id: bcs.Address,
+    character_key: TenantItemId,
+    route_hash: bcs.vector(bcs.u8()),
+    expires_at_timestamp_ms: bcs.u64(),
+    extension_type: bcs.struct("TypeName", { name: bcs.string() }),
+});
+
+export type GateCreatedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    owner_cap_id: string;
+    type_id: string;
+    location_hash: number[];
+    status: { "@variant": "NULL" | "OFFLINE" | "ONLINE" };
+};
+
+export type GateLinkedEvent = {
+    source_gate_id: string;
+    source_gate_key: { item_id: string; tenant: string };
+    destination_gate_id: string;
+    destination_gate_key: { item_id: string; tenant: string };
+};
+
+export type GateUnlinkedEvent = {
+    source_gate_id: string;
+    source_gate_key: { item_id: string; tenant: string };
+    destination_gate_id: string;
+    destination_gate_key: { item_id: string; tenant: string };
+};
+
+export type JumpEvent = {
+    source_gate_id: string;
+    source_gate_key: { item_id: string; tenant: string };
+    destination_gate_id: string;
+    destination_gate_key: { item_id: string; tenant: string };
+    character_id: string;
+    character_key: { item_id: string; tenant: string };
+};
+
+export type JumpPermitIssuedEvent = {
+    jump_permit_id: string;
+    source_gate_id: string;
+    source_gate_key: { item_id: string; tenant: string };
+    destination_gate_id: string;
+    destination_gate_key: { item_id: string; tenant: string };
+    character_id: string;
+    character_key: { item_id: string; tenant: string };
+    route_hash: number[];
+    expires_at_timestamp_ms: string;
+    extension_type: { name: string };
+};
+
+export type ExtensionAuthorizedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    extension_type: { name: string };
+    previous_extension: { name: string } | null;
+    owner_cap_id: string;
+};
+
+export type ExtensionRevokedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    revoked_extension: { name: string };
+    owner_cap_id: string;
+};
+
+/** `anchor(&mut ObjectRegistry, &mut NetworkNode, &Character, &AdminACL, u64, u64, vector<u8>, &mut TxContext): Gate` */
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectRegistry: ObjectArg;
+        networkNode: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        arg4: U64Arg;
+        arg5: U64Arg;
+        arg6: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::anchor`,
+        arguments: [
+            tx.object(args.objectRegistry),
+            tx.object(args.networkNode),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg4),
+            pure.u64(tx, args.arg5),
+            pure.bytes(tx, args.arg6),
+        ],
+    });
+}
+
+/** `are_gates_linked(&Gate, &Gate): bool` */
+export function areGatesLinked(
+    tx: Transaction,
+    packageId: string,
+    args: { gate1: ObjectArg; gate2: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::are_gates_linked`,
+        arguments: [tx.object(args.gate1), tx.object(args.gate2)],
+    });
+}
+
+/** `authorize_extension(&mut Gate, &OwnerCap<Gate>)` */
+export function authorizeExtension(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; gate: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::authorize_extension`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap)],
+    });
+}
+
+/** `delete_jump_permit(JumpPermit)` */
+export function deleteJumpPermit(
+    tx: Transaction,
+    packageId: string,
+    args: { jumpPermit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::delete_jump_permit`,
+        arguments: [tx.object(args.jumpPermit)],
+    });
+}
+
+/** `delete_jump_permit_with_auth(&Gate, JumpPermit, T0)` */
+export function deleteJumpPermitWithAuth(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        gate: ObjectArg;
+        jumpPermit: ObjectArg;
+        value: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::delete_jump_permit_with_auth`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.gate), tx.object(args.jumpPermit), args.value],
+    });
+}
+
+/** `energy_source_id(&Gate): &Option<ID>` */
+export function energySourceId(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::energy_source_id`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `extension_type(&Gate): &Option<TypeName>` */
+export function extensionType(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::extension_type`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `freeze_extension_config(&mut Gate, &OwnerCap<Gate>)` */
+export function freezeExtensionConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::freeze_extension_config`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap)],
+    });
+}
+
+/** `gate_config_id(&GateConfig): ID` */
+export function gateConfigId(
+    tx: Transaction,
+    packageId: string,
+    args: { gateConfig: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::gate_config_id`,
+        arguments: [tx.object(args.gateConfig)],
+    });
+}
+
+/** `id(&Gate): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::id`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `is_extension_configured(&Gate): bool` */
+export function isExtensionConfigured(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::is_extension_configured`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `is_extension_frozen(&Gate): bool` */
+export function isExtensionFrozen(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::is_extension_frozen`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `is_online(&Gate): bool` */
+export function isOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::is_online`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `issue_jump_permit(&Gate, &Gate, &Character, T0, u64, &mut TxContext)` */
+export function issueJumpPermit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        gate1: ObjectArg;
+        gate2: ObjectArg;
+        character: ObjectArg;
+        value: TransactionArgument;
+        arg4: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::issue_jump_permit`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.gate1),
+            tx.object(args.gate2),
+            tx.object(args.character),
+            args.value,
+            pure.u64(tx, args.arg4),
+        ],
+    });
+}
+
+/** `issue_jump_permit_with_id(&Gate, &Gate, &Character, T0, u64, &mut TxContext): ID` */
+export function issueJumpPermitWithId(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        gate1: ObjectArg;
+        gate2: ObjectArg;
+        character: ObjectArg;
+        value: TransactionArgument;
+        arg4: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::issue_jump_permit_with_id`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.gate1),
+            tx.object(args.gate2),
+            tx.object(args.character),
+            args.value,
+            pure.u64(tx, args.arg4),
+        ],
+    });
+}
+
+/** `jump(&Gate, &Gate, &Character, &AdminACL, &mut TxContext)` */
+export function jump(
+    tx: Transaction,
+    packageId: string,
+    args: { gate1: ObjectArg; gate2: ObjectArg; character: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::jump`,
+        arguments: [
+            tx.object(args.gate1),
+            tx.object(args.gate2),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `jump_permit_id(&JumpPermit): ID` */
+export function jumpPermitId(
+    tx: Transaction,
+    packageId: string,
+    args: { jumpPermit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::jump_permit_id`,
+        arguments: [tx.object(args.jumpPermit)],
+    });
+}
+
+/** `jump_with_permit(&Gate, &Gate, &Character, JumpPermit, &AdminACL, &Clock, &mut TxContext)` */
+export function jumpWithPermit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate1: ObjectArg;
+        gate2: ObjectArg;
+        character: ObjectArg;
+        jumpPermit: ObjectArg;
+        adminAcl: ObjectArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::jump_with_permit`,
+        arguments: [
+            tx.object(args.gate1),
+            tx.object(args.gate2),
+            tx.object(args.character),
+            tx.object(args.jumpPermit),
+            tx.object(args.adminAcl),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `link_gates(&mut Gate, &mut Gate, &GateConfig, &ServerAddressRegistry, &AdminACL, &OwnerCap<Gate>, &OwnerCap<Gate>, vector<u8>, &Clock, &mut TxContext)` */
+export function linkGates(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate1: ObjectArg;
+        gate2: ObjectArg;
+        gateConfig: ObjectArg;
+        serverAddressRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        ownerCap1: ObjectArg;
+        ownerCap2: ObjectArg;
+        arg7: BytesArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::link_gates`,
+        arguments: [
+            tx.object(args.gate1),
+            tx.object(args.gate2),
+            tx.object(args.gateConfig),
+            tx.object(args.serverAddressRegistry),
+            tx.object(args.adminAcl),
+            tx.object(args.ownerCap1),
+            tx.object(args.ownerCap2),
+            pure.bytes(tx, args.arg7),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `linked_gate_id(&Gate): Option<ID>` */
+export function linkedGateId(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::linked_gate_id`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `location(&Gate): &Location` */
+export function location(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::location`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `offline(&mut Gate, &mut NetworkNode, &EnergyConfig, &OwnerCap<Gate>)` */
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; networkNode: ObjectArg; energyConfig: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::offline`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `offline_connected_gate(&mut Gate, OfflineAssemblies, &mut NetworkNode, &EnergyConfig): OfflineAssemblies` */
+export function offlineConnectedGate(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate: ObjectArg;
+        offlineAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::offline_connected_gate`,
+        arguments: [
+            tx.object(args.gate),
+            args.offlineAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+/** `offline_orphaned_gate(&mut Gate, HandleOrphanedAssemblies, &mut NetworkNode, &EnergyConfig): HandleOrphanedAssemblies` */
+export function offlineOrphanedGate(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate: ObjectArg;
+        handleOrphanedAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::offline_orphaned_gate`,
+        arguments: [
+            tx.object(args.gate),
+            args.handleOrphanedAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+/** `online(&mut Gate, &mut NetworkNode, &EnergyConfig, &OwnerCap<Gate>)` */
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; networkNode: ObjectArg; energyConfig: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::online`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `owner_cap_id(&Gate): ID` */
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::owner_cap_id`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `reveal_location(&Gate, &mut LocationRegistry, &AdminACL, u64, String, String, String, &TxContext)` */
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate: ObjectArg;
+        locationRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg3: U64Arg;
+        arg4: StringArg;
+        arg5: StringArg;
+        arg6: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::reveal_location`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.locationRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg3),
+            pure.string(tx, args.arg4),
+            pure.string(tx, args.arg5),
+            pure.string(tx, args.arg6),
+        ],
+    });
+}
+
+/** `revoke_extension_authorization(&mut Gate, &OwnerCap<Gate>)` */
+export function revokeExtensionAuthorization(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::revoke_extension_authorization`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap)],
+    });
+}
+
+/** `route_hash(&Gate, &Gate): vector<u8>` */
+export function routeHash(
+    tx: Transaction,
+    packageId: string,
+    args: { gate1: ObjectArg; gate2: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::route_hash`,
+        arguments: [tx.object(args.gate1), tx.object(args.gate2)],
+    });
+}
+
+/** `set_max_distance(&mut GateConfig, &AdminACL, u64, u64, &TxContext)` */
+export function setMaxDistance(
+    tx: Transaction,
+    packageId: string,
+    args: { gateConfig: ObjectArg; adminAcl: ObjectArg; arg2: U64Arg; arg3: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::set_max_distance`,
+        arguments: [
+            tx.object(args.gateConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg2),
+            pure.u64(tx, args.arg3),
+        ],
+    });
+}
+
+/** `share_gate(Gate, &AdminACL, &TxContext)` */
+export function shareGate(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::share_gate`,
+        arguments: [tx.object(args.gate), tx.object(args.adminAcl)],
+    });
+}
+
+/** `status(&Gate): &AssemblyStatus` */
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::status`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+/** `unanchor(Gate, &mut NetworkNode, &EnergyConfig, &AdminACL, &TxContext)` */
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; networkNode: ObjectArg; energyConfig: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::unanchor`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `unanchor_orphan(Gate, &AdminACL, &TxContext)` */
+export function unanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::unanchor_orphan`,
+        arguments: [tx.object(args.gate), tx.object(args.adminAcl)],
+    });
+}
+
+/** `unlink_and_unanchor(Gate, &mut Gate, &mut NetworkNode, &EnergyConfig, &AdminACL, &TxContext)` */
+export function unlinkAndUnanchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate1: ObjectArg;
+        gate2: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::unlink_and_unanchor`,
+        arguments: [
+            tx.object(args.gate1),
+            tx.object(args.gate2),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `unlink_and_unanchor_orphan(Gate, &mut Gate, &AdminACL, &TxContext)` */
+export function unlinkAndUnanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { gate1: ObjectArg; gate2: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::unlink_and_unanchor_orphan`,
+        arguments: [tx.object(args.gate1), tx.object(args.gate2), tx.object(args.adminAcl)],
+    });
+}
+
+/** `unlink_gates(&mut Gate, &mut Gate, &OwnerCap<Gate>, &OwnerCap<Gate>)` */
+export function unlinkGates(
+    tx: Transaction,
+    packageId: string,
+    args: { gate1: ObjectArg; gate2: ObjectArg; ownerCap1: ObjectArg; ownerCap2: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::unlink_gates`,
+        arguments: [
+            tx.object(args.gate1),
+            tx.object(args.gate2),
+            tx.object(args.ownerCap1),
+            tx.object(args.ownerCap2),
+        ],
+    });
+}
+
+/** `unlink_gates_by_admin(&mut Gate, &mut Gate, &AdminACL, &TxContext)` */
+export function unlinkGatesByAdmin(
+    tx: Transaction,
+    packageId: string,
+    args: { gate1: ObjectArg; gate2: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::unlink_gates_by_admin`,
+        arguments: [tx.object(args.gate1), tx.object(args.gate2), tx.object(args.adminAcl)],
+    });
+}
+
+/** `update_energy_source(&mut Gate, &mut NetworkNode, &AdminACL, &TxContext)` */
+export function updateEnergySource(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::update_energy_source`,
+        arguments: [tx.object(args.gate), tx.object(args.networkNode), tx.object(args.adminAcl)],
+    });
+}
+
+/** `update_energy_source_connected_gate(&mut Gate, UpdateEnergySources, &NetworkNode): UpdateEnergySources` */
+export function updateEnergySourceConnectedGate(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; updateEnergySources: TransactionArgument; networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::update_energy_source_connected_gate`,
+        arguments: [tx.object(args.gate), args.updateEnergySources, tx.object(args.networkNode)],
+    });
+}
+
+/** `update_metadata_description(&mut Gate, &OwnerCap<Gate>, String)` */
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::update_metadata_description`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
+
+/** `update_metadata_name(&mut Gate, &OwnerCap<Gate>, String)` */
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::update_metadata_name`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
+
+/** `update_metadata_url(&mut Gate, &OwnerCap<Gate>, String)` */
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::gate::update_metadata_url`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
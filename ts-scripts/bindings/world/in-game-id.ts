@@ -0,0 +1,39 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+
+export const MODULE = "in_game_id";
+
+export const EVENTS = [] as const;
+
+export const TenantItemId = bcs.struct("TenantItemId", {
+    item_id: bcs.u64(),
+    tenant: bcs.string(),
+});
+
+/** `item_id(&TenantItemId): u64` */
+export function itemId(
+    tx: Transaction,
+    packageId: string,
+    args: { tenantItemId: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::in_game_id::item_id`,
+        arguments: [args.tenantItemId],
+    });
+}
+
+/** `tenant(&TenantItemId): String` */
+export function tenant(
+    tx: Transaction,
+    packageId: string,
+    args: { tenantItemId: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::in_game_id::tenant`,
+        arguments: [args.tenantItemId],
+    });
+}
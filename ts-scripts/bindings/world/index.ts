@@ -0,0 +1,26 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+export * as access from "./access";
+export * as assembly from "./assembly";
+export * as character from "./character";
+export * as energy from "./energy";
+export * as extensionFreeze from "./extension-freeze";
+export * as fuel from "./fuel";
+export * as gate from "./gate";
+export * as inGameId from "./in-game-id";
+export * as inventory from "./inventory";
+export * as killmail from "./killmail";
+export * as killmailRegistry from "./killmail-registry";
+export * as location from "./location";
+export * as metadata from "./metadata";
+export * as networkNode from "./network-node";
+export * as objectRegistry from "./object-registry";
+export * as rift from "./rift";
+export * as sigVerify from "./sig-verify";
+export * as status from "./status";
+export * as storageUnit from "./storage-unit";
+export * as turret from "./turret";
+export * as world from "./world";
+export { MODULES } from "./modules";
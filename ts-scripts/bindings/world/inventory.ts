@@ -0,0 +1,261 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import type { ObjectArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+import { Location } from "./location";
+
+export const MODULE = "inventory";
+
+export const EVENTS = [
+    "ItemMintedEvent",
+    "ItemBurnedEvent",
+    "ItemDepositedEvent",
+    "ItemWithdrawnEvent",
+    "ItemDestroyedEvent",
+] as const;
+
+export const ItemEntry = bcs.struct("ItemEntry", {
+    tenant: bcs.string(),
+    type_id: bcs.u64(),
+    item_id: bcs.u64(),
+    volume: bcs.u64(),
+    quantity: bcs.u32(),
+});
+
+export const Inventory = bcs.struct("Inventory", {
+    max_capacity: bcs.u64(),
+    used_capacity: bcs.u64(),
+    items: bcs.struct("VecMap", {
+        contents: bcs.vector(bcs.struct("Entry", { key: bcs.u64(), value: ItemEntry })),
+    }),
+});
+
+export const Item = bcs.struct("Item", {
+    id: bcs.Address,
+    parent_id: bcs.Address,
+    tenant: bcs.string(),
+    type_id: bcs.u64(),
+    item_id: bcs.u64(),
+    volume: bcs.u64(),
+    quantity: bcs.u32(),
+    location: Location,
+});
+
+export const ItemBurnedEvent = bcs.struct("ItemBurnedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    character_id: bcs.Address,
+    character_key: TenantItemId,
+    item_id: bcs.u64(),
+    type_id: bcs.u64(),
+    quantity: bcs.u32(),
+});
+
+export const ItemDepositedEvent = bcs.struct("ItemDepositedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    character_id: bcs.Address,
+    character_key: TenantItemId,
+    item_id: bcs.u64(),
+    type_id: bcs.u64(),
+    quantity: bcs.u32(),
+});
+
+export const ItemDepositedEventV2 = bcs.struct("ItemDepositedEventV2", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    inventory_key: bcs.Address,
+    character_id: bcs.Address,
+    character_key: TenantItemId,
+    item_id: bcs.u64(),
+    type_id: bcs.u64(),
+    quantity: bcs.u32(),
+});
+
+export const ItemDestroyedEvent = bcs.struct("ItemDestroyedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    item_id: bcs.u64(),
+    type_id: bcs.u64(),
+    quantity: bcs.u32(),
+});
+
+export const ItemMintedEvent = bcs.struct("ItemMintedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    character_id: bcs.Address,
+    character_key: TenantItemId,
+    item_id: bcs.u64(),
+    type_id: bcs.u64(),
+    quantity: bcs.u32(),
+});
+
+export const ItemWithdrawnEvent = bcs.struct("ItemWithdrawnEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    character_id: bcs.Address,
+    character_key: TenantItemId,
+    item_id: bcs.u64(),
+    type_id: bcs.u64(),
+    quantity: bcs.u32(),
+});
+
+export const ItemWithdrawnEventV2 = bcs.struct("ItemWithdrawnEventV2", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    inventory_key: bcs.Address,
+    character_id: bcs.Address,
+    character_key: TenantItemId,
+    item_id: bcs.u64(),
+    type_id: bcs.u64(),
+    quantity: bcs.u32(),
+});
+
+export type ItemMintedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    character_id: string;
+    character_key: { item_id: string; tenant: string };
+    item_id: string;
+    type_id: string;
+    quantity: number;
+};
+
+export type ItemBurnedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    character_id: string;
+    character_key: { item_id: string; tenant: string };
+    item_id: string;
+    type_id: string;
+    quantity: number;
+};
+
+export type ItemDepositedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    character_id: string;
+    character_key: { item_id: string; tenant: string };
+    item_id: string;
+    type_id: string;
+    quantity: number;
+};
+
+export type ItemWithdrawnEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    character_id: string;
+    character_key: { item_id: string; tenant: string };
+    item_id: string;
+    type_id: string;
+    quantity: number;
+};
+
+export type ItemDestroyedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    item_id: string;
+    type_id: string;
+    quantity: number;
+};
+
+/** `contains_item(&Inventory, u64): bool` */
+export function containsItem(
+    tx: Transaction,
+    packageId: string,
+    args: { inventory: TransactionArgument; arg1: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::inventory::contains_item`,
+        arguments: [args.inventory, pure.u64(tx, args.arg1)],
+    });
+}
+
+/** `get_item_location_hash(&Item): vector<u8>` */
+export function getItemLocationHash(
+    tx: Transaction,
+    packageId: string,
+    args: { item: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::inventory::get_item_location_hash`,
+        arguments: [tx.object(args.item)],
+    });
+}
+
+/** `id(&Item): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { item: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::inventory::id`,
+        arguments: [tx.object(args.item)],
+    });
+}
+
+/** `max_capacity(&Inventory): u64` */
+export function maxCapacity(
+    tx: Transaction,
+    packageId: string,
+    args: { inventory: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::inventory::max_capacity`,
+        arguments: [args.inventory],
+    });
+}
+
+/** `parent_id(&Item): ID` */
+export function parentId(
+    tx: Transaction,
+    packageId: string,
+    args: { item: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::inventory::parent_id`,
+        arguments: [tx.object(args.item)],
+    });
+}
+
+/** `quantity(&Item): u32` */
+export function quantity(
+    tx: Transaction,
+    packageId: string,
+    args: { item: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::inventory::quantity`,
+        arguments: [tx.object(args.item)],
+    });
+}
+
+/** `tenant(&Item): String` */
+export function tenant(
+    tx: Transaction,
+    packageId: string,
+    args: { item: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::inventory::tenant`,
+        arguments: [tx.object(args.item)],
+    });
+}
+
+/** `type_id(&Item): u64` */
+export function typeId(
+    tx: Transaction,
+    packageId: string,
+    args: { item: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::inventory::type_id`,
+        arguments: [tx.object(args.item)],
+    });
+}
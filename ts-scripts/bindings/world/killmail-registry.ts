@@ -0,0 +1,39 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import type { ObjectArg } from "../../sdk/args";
+
+export const MODULE = "killmail_registry";
+
+export const EVENTS = [] as const;
+
+export const KillmailRegistry = bcs.struct("KillmailRegistry", {
+    id: bcs.Address,
+});
+
+/** `id(&KillmailRegistry): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { killmailRegistry: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail_registry::id`,
+        arguments: [tx.object(args.killmailRegistry)],
+    });
+}
+
+/** `object_exists(&KillmailRegistry, TenantItemId): bool` */
+export function objectExists(
+    tx: Transaction,
+    packageId: string,
+    args: { killmailRegistry: ObjectArg; tenantItemId: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail_registry::object_exists`,
+        arguments: [tx.object(args.killmailRegistry), args.tenantItemId],
+    });
+}
@@ -0,0 +1,215 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionResult } from "@mysten/sui/transactions";
+import type { ObjectArg, U64Arg, U8Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+
+export const MODULE = "killmail";
+
+export const EVENTS = ["KillmailCreatedEvent"] as const;
+
+export const LossType = bcs.enum("LossType", {
+    SHIP: null,
+    STRUCTURE: null,
+});
+
+export const Killmail = bcs.struct("Killmail", {
+    id: bcs.Address,
+    key: TenantItemId,
+    killer_id: TenantItemId,
+    victim_id: TenantItemId,
+    reported_by_character_id: TenantItemId,
+    kill_timestamp: bcs.u64(),
+    loss_type: LossType,
+    solar_system_id: TenantItemId,
+});
+
+export const KillmailCreatedEvent = bcs.struct("KillmailCreatedEvent", {
+    key: TenantItemId,
+    killer_id: TenantItemId,
+    victim_id: TenantItemId,
+    reported_by_character_id: TenantItemId,
+    loss_type: LossType,
+    kill_timestamp: bcs.u64(),
+    solar_system_id: TenantItemId,
+});
+
+export type KillmailCreatedEvent = {
+    key: { item_id: string; tenant: string };
+    killer_id: { item_id: string; tenant: string };
+    victim_id: { item_id: string; tenant: string };
+    reported_by_character_id: { item_id: string; tenant: string };
+    loss_type: { "@variant": "SHIP" | "STRUCTURE" };
+    kill_timestamp: string;
+    solar_system_id: { item_id: string; tenant: string };
+};
+
+/** `create_killmail(&mut KillmailRegistry, &AdminACL, u64, u64, u64, &Character, u64, u8, u64, &mut TxContext)` */
+export function createKillmail(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        killmailRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg2: U64Arg;
+        arg3: U64Arg;
+        arg4: U64Arg;
+        character: ObjectArg;
+        arg6: U64Arg;
+        arg7: U8Arg;
+        arg8: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::create_killmail`,
+        arguments: [
+            tx.object(args.killmailRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg2),
+            pure.u64(tx, args.arg3),
+            pure.u64(tx, args.arg4),
+            tx.object(args.character),
+            pure.u64(tx, args.arg6),
+            pure.u8(tx, args.arg7),
+            pure.u64(tx, args.arg8),
+        ],
+    });
+}
+
+/** `id(&Killmail): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `is_ship_loss(&Killmail): bool` */
+export function isShipLoss(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::is_ship_loss`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `is_structure_loss(&Killmail): bool` */
+export function isStructureLoss(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::is_structure_loss`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `key(&Killmail): TenantItemId` */
+export function key(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::key`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `kill_timestamp(&Killmail): u64` */
+export function killTimestamp(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::kill_timestamp`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `killer_id(&Killmail): TenantItemId` */
+export function killerId(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::killer_id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `loss_type(&Killmail): LossType` */
+export function lossType(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::loss_type`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `reported_by_character_id(&Killmail): TenantItemId` */
+export function reportedByCharacterId(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::reported_by_character_id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `ship(): LossType` */
+export function ship(tx: Transaction, packageId: string): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::ship`,
+    });
+}
+
+/** `solar_system_id(&Killmail): TenantItemId` */
+export function solarSystemId(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::solar_system_id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+/** `structure(): LossType` */
+export function structure(tx: Transaction, packageId: string): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::structure`,
+    });
+}
+
+/** `victim_id(&Killmail): TenantItemId` */
+export function victimId(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::killmail::victim_id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
@@ -0,0 +1,279 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import type { AddressArg, BytesArg, IdArg, ObjectArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+
+export const MODULE = "location";
+
+export const EVENTS = ["LocationRevealedEvent"] as const;
+
+export const Coordinates = bcs.struct("Coordinates", {
+    solarsystem: bcs.u64(),
+    x: bcs.string(),
+    y: bcs.string(),
+    z: bcs.string(),
+});
+
+export const Location = bcs.struct("Location", {
+    location_hash: bcs.vector(bcs.u8()),
+});
+
+export const LocationProofMessage = bcs.struct("LocationProofMessage", {
+    server_address: bcs.Address,
+    player_address: bcs.Address,
+    source_structure_id: bcs.Address,
+    source_location_hash: bcs.vector(bcs.u8()),
+    target_structure_id: bcs.Address,
+    target_location_hash: bcs.vector(bcs.u8()),
+    distance: bcs.u64(),
+    data: bcs.vector(bcs.u8()),
+    deadline_ms: bcs.u64(),
+});
+
+export const LocationProof = bcs.struct("LocationProof", {
+    message: LocationProofMessage,
+    signature: bcs.vector(bcs.u8()),
+});
+
+export const LocationRegistry = bcs.struct("LocationRegistry", {
+    id: bcs.Address,
+    locations: bcs.struct("Table", { id: bcs.Address, size: bcs.u64() }),
+});
+
+export const LocationRevealedEvent = bcs.struct("LocationRevealedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    type_id: bcs.u64(),
+    owner_cap_id: bcs.Address,
+    location_hash: bcs.vector(bcs.u8()),
+    solarsystem: bcs.u64(),
+    x: bcs.string(),
+    y: bcs.string(),
+    z: bcs.string(),
+});
+
+export type LocationRevealedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    type_id: string;
+    owner_cap_id: string;
+    location_hash: number[];
+    solarsystem: string;
+    x: string;
+    y: string;
+    z: string;
+};
+
+/** `create_location_proof(address, address, ID, vector<u8>, ID, vector<u8>, u64, vector<u8>, u64, vector<u8>): LocationProof` */
+export function createLocationProof(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        arg0: AddressArg;
+        arg1: AddressArg;
+        arg2: IdArg;
+        arg3: BytesArg;
+        arg4: IdArg;
+        arg5: BytesArg;
+        arg6: U64Arg;
+        arg7: BytesArg;
+        arg8: U64Arg;
+        arg9: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::create_location_proof`,
+        arguments: [
+            pure.address(tx, args.arg0),
+            pure.address(tx, args.arg1),
+            pure.id(tx, args.arg2),
+            pure.bytes(tx, args.arg3),
+            pure.id(tx, args.arg4),
+            pure.bytes(tx, args.arg5),
+            pure.u64(tx, args.arg6),
+            pure.bytes(tx, args.arg7),
+            pure.u64(tx, args.arg8),
+            pure.bytes(tx, args.arg9),
+        ],
+    });
+}
+
+/** `get_location(&LocationRegistry, ID): Option<Coordinates>` */
+export function getLocation(
+    tx: Transaction,
+    packageId: string,
+    args: { locationRegistry: ObjectArg; arg1: IdArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::get_location`,
+        arguments: [tx.object(args.locationRegistry), pure.id(tx, args.arg1)],
+    });
+}
+
+/** `hash(&Location): vector<u8>` */
+export function hash(
+    tx: Transaction,
+    packageId: string,
+    args: { location: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::hash`,
+        arguments: [args.location],
+    });
+}
+
+/** `id(&LocationRegistry): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { locationRegistry: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::id`,
+        arguments: [tx.object(args.locationRegistry)],
+    });
+}
+
+/** `solarsystem(&Coordinates): u64` */
+export function solarsystem(
+    tx: Transaction,
+    packageId: string,
+    args: { coordinates: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::solarsystem`,
+        arguments: [args.coordinates],
+    });
+}
+
+/** `update(&mut Location, &AdminACL, vector<u8>, &TxContext)` */
+export function update(
+    tx: Transaction,
+    packageId: string,
+    args: { location: TransactionArgument; adminAcl: ObjectArg; arg2: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::update`,
+        arguments: [args.location, tx.object(args.adminAcl), pure.bytes(tx, args.arg2)],
+    });
+}
+
+/** `verify_distance(&Location, &ServerAddressRegistry, vector<u8>, u64, &mut TxContext)` */
+export function verifyDistance(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        location: TransactionArgument;
+        serverAddressRegistry: ObjectArg;
+        arg2: BytesArg;
+        arg3: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::verify_distance`,
+        arguments: [
+            args.location,
+            tx.object(args.serverAddressRegistry),
+            pure.bytes(tx, args.arg2),
+            pure.u64(tx, args.arg3),
+        ],
+    });
+}
+
+/** `verify_proximity(&Location, LocationProof, &ServerAddressRegistry, &Clock, &mut TxContext)` */
+export function verifyProximity(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        location: TransactionArgument;
+        locationProof: TransactionArgument;
+        serverAddressRegistry: ObjectArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::verify_proximity`,
+        arguments: [
+            args.location,
+            args.locationProof,
+            tx.object(args.serverAddressRegistry),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `verify_proximity_proof_from_bytes(&ServerAddressRegistry, &Location, vector<u8>, &Clock, &mut TxContext)` */
+export function verifyProximityProofFromBytes(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        serverAddressRegistry: ObjectArg;
+        location: TransactionArgument;
+        arg2: BytesArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::verify_proximity_proof_from_bytes`,
+        arguments: [
+            tx.object(args.serverAddressRegistry),
+            args.location,
+            pure.bytes(tx, args.arg2),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `verify_same_location(vector<u8>, vector<u8>)` */
+export function verifySameLocation(
+    tx: Transaction,
+    packageId: string,
+    args: { arg0: BytesArg; arg1: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::verify_same_location`,
+        arguments: [pure.bytes(tx, args.arg0), pure.bytes(tx, args.arg1)],
+    });
+}
+
+/** `x(&Coordinates): String` */
+export function x(
+    tx: Transaction,
+    packageId: string,
+    args: { coordinates: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::x`,
+        arguments: [args.coordinates],
+    });
+}
+
+/** `y(&Coordinates): String` */
+export function y(
+    tx: Transaction,
+    packageId: string,
+    args: { coordinates: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::y`,
+        arguments: [args.coordinates],
+    });
+}
+
+/** `z(&Coordinates): String` */
+export function z(
+    tx: Transaction,
+    packageId: string,
+    args: { coordinates: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::location::z`,
+        arguments: [args.coordinates],
+    });
+}
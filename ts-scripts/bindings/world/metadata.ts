@@ -0,0 +1,70 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { TenantItemId } from "./in-game-id";
+
+export const MODULE = "metadata";
+
+export const EVENTS = ["MetadataChangedEvent"] as const;
+
+export const Metadata = bcs.struct("Metadata", {
+    assembly_id: bcs.Address,
+    name: bcs.string(),
+    description: bcs.string(),
+    url: bcs.string(),
+});
+
+export const MetadataChangedEvent = bcs.struct("MetadataChangedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    name: bcs.string(),
+    description: bcs.string(),
+    url: bcs.string(),
+});
+
+export type MetadataChangedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    name: string;
+    description: string;
+    url: string;
+};
+
+/** `description(&Metadata): String` */
+export function description(
+    tx: Transaction,
+    packageId: string,
+    args: { metadata: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::metadata::description`,
+        arguments: [args.metadata],
+    });
+}
+
+/** `name(&Metadata): String` */
+export function name(
+    tx: Transaction,
+    packageId: string,
+    args: { metadata: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::metadata::name`,
+        arguments: [args.metadata],
+    });
+}
+
+/** `url(&Metadata): String` */
+export function url(
+    tx: Transaction,
+    packageId: string,
+    args: { metadata: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::metadata::url`,
+        arguments: [args.metadata],
+    });
+}
@@ -0,0 +1,27 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+export const MODULES = {
+    ACCESS: "access",
+    ASSEMBLY: "assembly",
+    CHARACTER: "character",
+    ENERGY: "energy",
+    EXTENSION_FREEZE: "extension_freeze",
+    FUEL: "fuel",
+    GATE: "gate",
+    IN_GAME_ID: "in_game_id",
+    INVENTORY: "inventory",
+    KILLMAIL: "killmail",
+    KILLMAIL_REGISTRY: "killmail_registry",
+    LOCATION: "location",
+    METADATA: "metadata",
+    NETWORK_NODE: "network_node",
+    OBJECT_REGISTRY: "object_registry",
+    RIFT: "rift",
+    SIG_VERIFY: "sig_verify",
+    STATUS: "status",
+    STORAGE_UNIT: "storage_unit",
+    TURRET: "turret",
+    WORLD: "world",
+} as const;
@@ -0,0 +1,494 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import type { BytesArg, IdArg, IdVectorArg, ObjectArg, StringArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { EnergySource } from "./energy";
+import { Fuel } from "./fuel";
+import { TenantItemId } from "./in-game-id";
+import { Location } from "./location";
+import { Metadata } from "./metadata";
+import { AssemblyStatus } from "./status";
+
+export const MODULE = "network_node";
+
+export const EVENTS = ["NetworkNodeCreatedEvent"] as const;
+
+export const HandleOrphanedAssemblies = bcs.struct("HandleOrphanedAssemblies", {
+    assembly_ids: bcs.vector(bcs.Address),
+});
+
+export const NetworkNode = bcs.struct("NetworkNode", {
+    id: bcs.Address,
+    key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+    status: AssemblyStatus,
+    location: Location,
+    fuel: Fuel,
+    energy_source: EnergySource,
+    metadata: bcs.option(Metadata),
+    connected_assembly_ids: bcs.vector(bcs.Address),
+});
+
+export const NetworkNodeCreatedEvent = bcs.struct("NetworkNodeCreatedEvent", {
+    network_node_id: bcs.Address,
+    assembly_key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+    fuel_max_capacity: bcs.u64(),
+    fuel_burn_rate_in_ms: bcs.u64(),
+    max_energy_production: bcs.u64(),
+});
+
+export const OfflineAssemblies = bcs.struct("OfflineAssemblies", {
+    assembly_ids: bcs.vector(bcs.Address),
+});
+
+export const UpdateEnergySources = bcs.struct("UpdateEnergySources", {
+    assembly_ids: bcs.vector(bcs.Address),
+});
+
+export type NetworkNodeCreatedEvent = {
+    network_node_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    owner_cap_id: string;
+    type_id: string;
+    fuel_max_capacity: string;
+    fuel_burn_rate_in_ms: string;
+    max_energy_production: string;
+};
+
+/** `anchor(&mut ObjectRegistry, &Character, &AdminACL, u64, u64, vector<u8>, u64, u64, u64, &mut TxContext): NetworkNode` */
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectRegistry: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        arg3: U64Arg;
+        arg4: U64Arg;
+        arg5: BytesArg;
+        arg6: U64Arg;
+        arg7: U64Arg;
+        arg8: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::anchor`,
+        arguments: [
+            tx.object(args.objectRegistry),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg3),
+            pure.u64(tx, args.arg4),
+            pure.bytes(tx, args.arg5),
+            pure.u64(tx, args.arg6),
+            pure.u64(tx, args.arg7),
+            pure.u64(tx, args.arg8),
+        ],
+    });
+}
+
+/** `connect_assemblies(&mut NetworkNode, &AdminACL, vector<ID>, &TxContext): UpdateEnergySources` */
+export function connectAssemblies(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; adminAcl: ObjectArg; arg2: IdVectorArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::connect_assemblies`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+            pure.idVector(tx, args.arg2),
+        ],
+    });
+}
+
+/** `connected_assemblies(&NetworkNode): vector<ID>` */
+export function connectedAssemblies(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::connected_assemblies`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+/** `deposit_fuel(&mut NetworkNode, &AdminACL, &OwnerCap<NetworkNode>, u64, u64, u64, &Clock, &mut TxContext)` */
+export function depositFuel(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        networkNode: ObjectArg;
+        adminAcl: ObjectArg;
+        ownerCap: ObjectArg;
+        arg3: U64Arg;
+        arg4: U64Arg;
+        arg5: U64Arg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::deposit_fuel`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.arg3),
+            pure.u64(tx, args.arg4),
+            pure.u64(tx, args.arg5),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `destroy_network_node(NetworkNode, HandleOrphanedAssemblies, &AdminACL, &TxContext)` */
+export function destroyNetworkNode(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        networkNode: ObjectArg;
+        handleOrphanedAssemblies: TransactionArgument;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::destroy_network_node`,
+        arguments: [
+            tx.object(args.networkNode),
+            args.handleOrphanedAssemblies,
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `destroy_offline_assemblies(OfflineAssemblies)` */
+export function destroyOfflineAssemblies(
+    tx: Transaction,
+    packageId: string,
+    args: { offlineAssemblies: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::destroy_offline_assemblies`,
+        arguments: [args.offlineAssemblies],
+    });
+}
+
+/** `destroy_orphaned_assemblies(HandleOrphanedAssemblies)` */
+export function destroyOrphanedAssemblies(
+    tx: Transaction,
+    packageId: string,
+    args: { handleOrphanedAssemblies: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::destroy_orphaned_assemblies`,
+        arguments: [args.handleOrphanedAssemblies],
+    });
+}
+
+/** `destroy_update_energy_sources(UpdateEnergySources)` */
+export function destroyUpdateEnergySources(
+    tx: Transaction,
+    packageId: string,
+    args: { updateEnergySources: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::destroy_update_energy_sources`,
+        arguments: [args.updateEnergySources],
+    });
+}
+
+/** `fuel_quantity(&NetworkNode): u64` */
+export function fuelQuantity(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::fuel_quantity`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+/** `id(&NetworkNode): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::id`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+/** `ids_length(&OfflineAssemblies): u64` */
+export function idsLength(
+    tx: Transaction,
+    packageId: string,
+    args: { offlineAssemblies: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::ids_length`,
+        arguments: [args.offlineAssemblies],
+    });
+}
+
+/** `is_assembly_connected(&NetworkNode, ID): bool` */
+export function isAssemblyConnected(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; arg1: IdArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::is_assembly_connected`,
+        arguments: [tx.object(args.networkNode), pure.id(tx, args.arg1)],
+    });
+}
+
+/** `is_network_node_online(&NetworkNode): bool` */
+export function isNetworkNodeOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::is_network_node_online`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+/** `need_update(&NetworkNode, &FuelConfig, &Clock): bool` */
+export function needUpdate(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; fuelConfig: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::need_update`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.fuelConfig),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `offline(&mut NetworkNode, &FuelConfig, &OwnerCap<NetworkNode>, &Clock): OfflineAssemblies` */
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; fuelConfig: ObjectArg; ownerCap: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::offline`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.fuelConfig),
+            tx.object(args.ownerCap),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `online(&mut NetworkNode, &OwnerCap<NetworkNode>, &Clock)` */
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; ownerCap: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::online`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.ownerCap),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `orphaned_assemblies_length(&HandleOrphanedAssemblies): u64` */
+export function orphanedAssembliesLength(
+    tx: Transaction,
+    packageId: string,
+    args: { handleOrphanedAssemblies: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::orphaned_assemblies_length`,
+        arguments: [args.handleOrphanedAssemblies],
+    });
+}
+
+/** `owner_cap_id(&NetworkNode): ID` */
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::owner_cap_id`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+/** `reveal_location(&NetworkNode, &mut LocationRegistry, &AdminACL, u64, String, String, String, &TxContext)` */
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        networkNode: ObjectArg;
+        locationRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg3: U64Arg;
+        arg4: StringArg;
+        arg5: StringArg;
+        arg6: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::reveal_location`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.locationRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg3),
+            pure.string(tx, args.arg4),
+            pure.string(tx, args.arg5),
+            pure.string(tx, args.arg6),
+        ],
+    });
+}
+
+/** `share_network_node(NetworkNode, &AdminACL, &TxContext)` */
+export function shareNetworkNode(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::share_network_node`,
+        arguments: [tx.object(args.networkNode), tx.object(args.adminAcl)],
+    });
+}
+
+/** `unanchor(&mut NetworkNode, &AdminACL, &TxContext): HandleOrphanedAssemblies` */
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::unanchor`,
+        arguments: [tx.object(args.networkNode), tx.object(args.adminAcl)],
+    });
+}
+
+/** `update_energy_sources_ids_length(&UpdateEnergySources): u64` */
+export function updateEnergySourcesIdsLength(
+    tx: Transaction,
+    packageId: string,
+    args: { updateEnergySources: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::update_energy_sources_ids_length`,
+        arguments: [args.updateEnergySources],
+    });
+}
+
+/** `update_fuel(&mut NetworkNode, &FuelConfig, &AdminACL, &Clock, &TxContext): OfflineAssemblies` */
+export function updateFuel(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; fuelConfig: ObjectArg; adminAcl: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::update_fuel`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.fuelConfig),
+            tx.object(args.adminAcl),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `update_metadata_description(&mut NetworkNode, &OwnerCap<NetworkNode>, String)` */
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::update_metadata_description`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_metadata_name(&mut NetworkNode, &OwnerCap<NetworkNode>, String)` */
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::update_metadata_name`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_metadata_url(&mut NetworkNode, &OwnerCap<NetworkNode>, String)` */
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::update_metadata_url`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `withdraw_fuel(&mut NetworkNode, &AdminACL, &OwnerCap<NetworkNode>, u64, u64, &mut TxContext)` */
+export function withdrawFuel(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        networkNode: ObjectArg;
+        adminAcl: ObjectArg;
+        ownerCap: ObjectArg;
+        arg3: U64Arg;
+        arg4: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::network_node::withdraw_fuel`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.arg3),
+            pure.u64(tx, args.arg4),
+        ],
+    });
+}
@@ -0,0 +1,39 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import type { ObjectArg } from "../../sdk/args";
+
+export const MODULE = "object_registry";
+
+export const EVENTS = [] as const;
+
+export const ObjectRegistry = bcs.struct("ObjectRegistry", {
+    id: bcs.Address,
+});
+
+/** `id(&ObjectRegistry): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { objectRegistry: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::object_registry::id`,
+        arguments: [tx.object(args.objectRegistry)],
+    });
+}
+
+/** `object_exists(&ObjectRegistry, TenantItemId): bool` */
+export function objectExists(
+    tx: Transaction,
+    packageId: string,
+    args: { objectRegistry: ObjectArg; tenantItemId: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::object_registry::object_exists`,
+        arguments: [tx.object(args.objectRegistry), args.tenantItemId],
+    });
+}
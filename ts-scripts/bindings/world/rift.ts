@@ -0,0 +1,164 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionResult } from "@mysten/sui/transactions";
+import type { BytesArg, ObjectArg, StringArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+import { Location } from "./location";
+
+export const MODULE = "rift";
+
+export const EVENTS = ["RiftSpawnedEvent", "RiftLocationBroadcastEvent"] as const;
+
+export const Rift = bcs.struct("Rift", {
+    id: bcs.Address,
+    key: TenantItemId,
+    location: Location,
+});
+
+export const RiftLocationBroadcastEvent = bcs.struct("RiftLocationBroadcastEvent", {
+    rift_id: bcs.Address,
+    rift_key: TenantItemId,
+    location_hash: bcs.vector(bcs.u8()),
+    solarsystem: bcs.u64(),
+    x: bcs.string(),
+    y: bcs.string(),
+    z: bcs.string(),
+});
+
+export const RiftSpawnedEvent = bcs.struct("RiftSpawnedEvent", {
+    rift_id: bcs.Address,
+    rift_key: TenantItemId,
+    location_hash: bcs.vector(bcs.u8()),
+});
+
+export type RiftSpawnedEvent = {
+    rift_id: string;
+    rift_key: { item_id: string; tenant: string };
+    location_hash: number[];
+};
+
+export type RiftLocationBroadcastEvent = {
+    rift_id: string;
+    rift_key: { item_id: string; tenant: string };
+    location_hash: number[];
+    solarsystem: string;
+    x: string;
+    y: string;
+    z: string;
+};
+
+/** `broadcast_location(&Rift, &mut LocationRegistry, &AdminACL, u64, String, String, String, &TxContext)` */
+export function broadcastLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        rift: ObjectArg;
+        locationRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg3: U64Arg;
+        arg4: StringArg;
+        arg5: StringArg;
+        arg6: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::rift::broadcast_location`,
+        arguments: [
+            tx.object(args.rift),
+            tx.object(args.locationRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg3),
+            pure.string(tx, args.arg4),
+            pure.string(tx, args.arg5),
+            pure.string(tx, args.arg6),
+        ],
+    });
+}
+
+/** `despawn(Rift, &AdminACL, &TxContext)` */
+export function despawn(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::rift::despawn`,
+        arguments: [tx.object(args.rift), tx.object(args.adminAcl)],
+    });
+}
+
+/** `id(&Rift): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::rift::id`,
+        arguments: [tx.object(args.rift)],
+    });
+}
+
+/** `key(&Rift): TenantItemId` */
+export function key(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::rift::key`,
+        arguments: [tx.object(args.rift)],
+    });
+}
+
+/** `location_hash(&Rift): vector<u8>` */
+export function locationHash(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::rift::location_hash`,
+        arguments: [tx.object(args.rift)],
+    });
+}
+
+/** `share_rift(Rift, &AdminACL, &TxContext)` */
+export function shareRift(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::rift::share_rift`,
+        arguments: [tx.object(args.rift), tx.object(args.adminAcl)],
+    });
+}
+
+/** `spawn(&mut ObjectRegistry, &AdminACL, u64, String, vector<u8>, &mut TxContext): Rift` */
+export function spawn(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg2: U64Arg;
+        arg3: StringArg;
+        arg4: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::rift::spawn`,
+        arguments: [
+            tx.object(args.objectRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg2),
+            pure.string(tx, args.arg3),
+            pure.bytes(tx, args.arg4),
+        ],
+    });
+}
@@ -0,0 +1,39 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import type { Transaction, TransactionResult } from "@mysten/sui/transactions";
+import type { AddressArg, BytesArg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+
+export const MODULE = "sig_verify";
+
+export const EVENTS = [] as const;
+
+/** `derive_address_from_public_key(vector<u8>): address` */
+export function deriveAddressFromPublicKey(
+    tx: Transaction,
+    packageId: string,
+    args: { arg0: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::sig_verify::derive_address_from_public_key`,
+        arguments: [pure.bytes(tx, args.arg0)],
+    });
+}
+
+/** `verify_signature(vector<u8>, vector<u8>, address): bool` */
+export function verifySignature(
+    tx: Transaction,
+    packageId: string,
+    args: { arg0: BytesArg; arg1: BytesArg; arg2: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::sig_verify::verify_signature`,
+        arguments: [
+            pure.bytes(tx, args.arg0),
+            pure.bytes(tx, args.arg1),
+            pure.address(tx, args.arg2),
+        ],
+    });
+}
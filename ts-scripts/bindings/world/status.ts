@@ -0,0 +1,66 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { TenantItemId } from "./in-game-id";
+
+export const MODULE = "status";
+
+export const EVENTS = ["StatusChangedEvent"] as const;
+
+export const Action = bcs.enum("Action", {
+    ANCHORED: null,
+    ONLINE: null,
+    OFFLINE: null,
+    UNANCHORED: null,
+});
+
+export const Status = bcs.enum("Status", {
+    NULL: null,
+    OFFLINE: null,
+    ONLINE: null,
+});
+
+export const AssemblyStatus = bcs.struct("AssemblyStatus", {
+    status: Status,
+});
+
+export const StatusChangedEvent = bcs.struct("StatusChangedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    status: Status,
+    action: Action,
+});
+
+export type StatusChangedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    status: { "@variant": "NULL" | "OFFLINE" | "ONLINE" };
+    action: { "@variant": "ANCHORED" | "ONLINE" | "OFFLINE" | "UNANCHORED" };
+};
+
+/** `is_online(&AssemblyStatus): bool` */
+export function isOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { assemblyStatus: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::status::is_online`,
+        arguments: [args.assemblyStatus],
+    });
+}
+
+/** `status(&AssemblyStatus): Status` */
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { assemblyStatus: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::status::status`,
+        arguments: [args.assemblyStatus],
+    });
+}
@@ -0,0 +1,743 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import type { BytesArg, IdArg, ObjectArg, StringArg, U32Arg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+import { Location } from "./location";
+import { Metadata } from "./metadata";
+import { AssemblyStatus, Status } from "./status";
+
+export const MODULE = "storage_unit";
+
+export const EVENTS = [
+    "StorageUnitCreatedEvent",
+    "ExtensionAuthorizedEvent",
+    "ExtensionRevokedEvent",
+] as const;
+
+export const ExtensionAuthorizedEvent = bcs.struct("ExtensionAuthorizedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    extension_type: bcs.struct("TypeName", { name: bcs.string() }),
+    previous_extension: bcs.option(bcs.struct("TypeName", { name: bcs.string() })),
+    owner_cap_id: bcs.Address,
+});
+
+export const ExtensionRevokedEvent = bcs.struct("ExtensionRevokedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    revoked_extension: bcs.struct("TypeName", { name: bcs.string() }),
+    owner_cap_id: bcs.Address,
+});
+
+export const StorageUnit = bcs.struct("StorageUnit", {
+    id: bcs.Address,
+    key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+    status: AssemblyStatus,
+    location: Location,
+    inventory_keys: bcs.vector(bcs.Address),
+    energy_source_id: bcs.option(bcs.Address),
+    metadata: bcs.option(Metadata),
+    extension: bcs.option(bcs.struct("TypeName", { name: bcs.string() })),
+});
+
+export const StorageUnitCreatedEvent = bcs.struct("StorageUnitCreatedEvent", {
+    storage_unit_id: bcs.Address,
+    assembly_key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+    max_capacity: bcs.u64(),
+    location_hash: bcs.vector(bcs.u8()),
+    status: Status,
+});
+
+export type StorageUnitCreatedEvent = {
+    storage_unit_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    owner_cap_id: string;
+    type_id: string;
+    max_capacity: string;
+    location_hash: number[];
+    status: { "@variant": "NULL" | "OFFLINE" | "ONLINE" };
+};
+
+export type ExtensionAuthorizedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    extension_type: { name: string };
+    previous_extension: { name: string } | null;
+    owner_cap_id: string;
+};
+
+export type ExtensionRevokedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    revoked_extension: { name: string };
+    owner_cap_id: string;
+};
+
+/** `anchor(&mut ObjectRegistry, &mut NetworkNode, &Character, &AdminACL, u64, u64, u64, vector<u8>, &mut TxContext): StorageUnit` */
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectRegistry: ObjectArg;
+        networkNode: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        arg4: U64Arg;
+        arg5: U64Arg;
+        arg6: U64Arg;
+        arg7: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::anchor`,
+        arguments: [
+            tx.object(args.objectRegistry),
+            tx.object(args.networkNode),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg4),
+            pure.u64(tx, args.arg5),
+            pure.u64(tx, args.arg6),
+            pure.bytes(tx, args.arg7),
+        ],
+    });
+}
+
+/** `authorize_extension(&mut StorageUnit, &OwnerCap<StorageUnit>)` */
+export function authorizeExtension(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; storageUnit: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::authorize_extension`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.storageUnit), tx.object(args.ownerCap)],
+    });
+}
+
+/** `chain_item_to_game_inventory(&mut StorageUnit, &ServerAddressRegistry, &Character, &OwnerCap<T0>, u64, u32, vector<u8>, &Clock, &mut TxContext)` */
+export function chainItemToGameInventory(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        serverAddressRegistry: ObjectArg;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+        arg4: U64Arg;
+        arg5: U32Arg;
+        arg6: BytesArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::chain_item_to_game_inventory`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.serverAddressRegistry),
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.arg4),
+            pure.u32(tx, args.arg5),
+            pure.bytes(tx, args.arg6),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+/** `deposit_by_owner(&mut StorageUnit, Item, &Character, &OwnerCap<T0>, &mut TxContext)` */
+export function depositByOwner(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        item: ObjectArg;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::deposit_by_owner`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.item),
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `deposit_item(&mut StorageUnit, &Character, Item, T0, &mut TxContext)` */
+export function depositItem(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        item: ObjectArg;
+        value: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::deposit_item`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            tx.object(args.item),
+            args.value,
+        ],
+    });
+}
+
+/** `deposit_to_open_inventory(&mut StorageUnit, &Character, Item, T0, &mut TxContext)` */
+export function depositToOpenInventory(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        item: ObjectArg;
+        value: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::deposit_to_open_inventory`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            tx.object(args.item),
+            args.value,
+        ],
+    });
+}
+
+/** `deposit_to_owned(&mut StorageUnit, &Character, Item, T0, &mut TxContext)` */
+export function depositToOwned(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        item: ObjectArg;
+        value: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::deposit_to_owned`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            tx.object(args.item),
+            args.value,
+        ],
+    });
+}
+
+/** `energy_source_id(&StorageUnit): &Option<ID>` */
+export function energySourceId(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::energy_source_id`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+/** `freeze_extension_config(&mut StorageUnit, &OwnerCap<StorageUnit>)` */
+export function freezeExtensionConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::freeze_extension_config`,
+        arguments: [tx.object(args.storageUnit), tx.object(args.ownerCap)],
+    });
+}
+
+/** `game_item_to_chain_inventory(&mut StorageUnit, &AdminACL, &Character, &OwnerCap<T0>, u64, u64, u64, u32, &mut TxContext)` */
+export function gameItemToChainInventory(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        adminAcl: ObjectArg;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+        arg4: U64Arg;
+        arg5: U64Arg;
+        arg6: U64Arg;
+        arg7: U32Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::game_item_to_chain_inventory`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.adminAcl),
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.arg4),
+            pure.u64(tx, args.arg5),
+            pure.u64(tx, args.arg6),
+            pure.u32(tx, args.arg7),
+        ],
+    });
+}
+
+/** `has_open_storage(&StorageUnit): bool` */
+export function hasOpenStorage(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::has_open_storage`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+/** `id(&StorageUnit): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::id`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+/** `inventory(&StorageUnit, ID): &Inventory` */
+export function inventory(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; arg1: IdArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::inventory`,
+        arguments: [tx.object(args.storageUnit), pure.id(tx, args.arg1)],
+    });
+}
+
+/** `is_extension_frozen(&StorageUnit): bool` */
+export function isExtensionFrozen(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::is_extension_frozen`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+/** `location(&StorageUnit): &Location` */
+export function location(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::location`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+/** `offline(&mut StorageUnit, &mut NetworkNode, &EnergyConfig, &OwnerCap<StorageUnit>)` */
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::offline`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `offline_connected_storage_unit(&mut StorageUnit, OfflineAssemblies, &mut NetworkNode, &EnergyConfig): OfflineAssemblies` */
+export function offlineConnectedStorageUnit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        offlineAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::offline_connected_storage_unit`,
+        arguments: [
+            tx.object(args.storageUnit),
+            args.offlineAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+/** `offline_orphaned_storage_unit(&mut StorageUnit, HandleOrphanedAssemblies, &mut NetworkNode, &EnergyConfig): HandleOrphanedAssemblies` */
+export function offlineOrphanedStorageUnit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        handleOrphanedAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::offline_orphaned_storage_unit`,
+        arguments: [
+            tx.object(args.storageUnit),
+            args.handleOrphanedAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+/** `online(&mut StorageUnit, &mut NetworkNode, &EnergyConfig, &OwnerCap<StorageUnit>)` */
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::online`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `open_storage_key(&StorageUnit): ID` */
+export function openStorageKey(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::open_storage_key`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+/** `owner_cap_id(&StorageUnit): ID` */
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::owner_cap_id`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+/** `reveal_location(&StorageUnit, &mut LocationRegistry, &AdminACL, u64, String, String, String, &TxContext)` */
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        locationRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg3: U64Arg;
+        arg4: StringArg;
+        arg5: StringArg;
+        arg6: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::reveal_location`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.locationRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg3),
+            pure.string(tx, args.arg4),
+            pure.string(tx, args.arg5),
+            pure.string(tx, args.arg6),
+        ],
+    });
+}
+
+/** `revoke_extension_authorization(&mut StorageUnit, &OwnerCap<StorageUnit>)` */
+export function revokeExtensionAuthorization(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::revoke_extension_authorization`,
+        arguments: [tx.object(args.storageUnit), tx.object(args.ownerCap)],
+    });
+}
+
+/** `share_storage_unit(StorageUnit, &AdminACL, &TxContext)` */
+export function shareStorageUnit(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::share_storage_unit`,
+        arguments: [tx.object(args.storageUnit), tx.object(args.adminAcl)],
+    });
+}
+
+/** `status(&StorageUnit): &AssemblyStatus` */
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::status`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+/** `unanchor(StorageUnit, &mut NetworkNode, &EnergyConfig, &AdminACL, &TxContext)` */
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::unanchor`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `unanchor_orphan(StorageUnit, &AdminACL, &TxContext)` */
+export function unanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::unanchor_orphan`,
+        arguments: [tx.object(args.storageUnit), tx.object(args.adminAcl)],
+    });
+}
+
+/** `update_energy_source(&mut StorageUnit, &mut NetworkNode, &AdminACL, &TxContext)` */
+export function updateEnergySource(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::update_energy_source`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `update_energy_source_connected_storage_unit(&mut StorageUnit, UpdateEnergySources, &NetworkNode): UpdateEnergySources` */
+export function updateEnergySourceConnectedStorageUnit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        updateEnergySources: TransactionArgument;
+        networkNode: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::update_energy_source_connected_storage_unit`,
+        arguments: [
+            tx.object(args.storageUnit),
+            args.updateEnergySources,
+            tx.object(args.networkNode),
+        ],
+    });
+}
+
+/** `update_metadata_description(&mut StorageUnit, &OwnerCap<StorageUnit>, String)` */
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::update_metadata_description`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_metadata_name(&mut StorageUnit, &OwnerCap<StorageUnit>, String)` */
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::update_metadata_name`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `update_metadata_url(&mut StorageUnit, &OwnerCap<StorageUnit>, String)` */
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::update_metadata_url`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.arg2),
+        ],
+    });
+}
+
+/** `withdraw_by_owner(&mut StorageUnit, &Character, &OwnerCap<T0>, u64, u32, &mut TxContext): Item` */
+export function withdrawByOwner(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+        arg3: U64Arg;
+        arg4: U32Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::withdraw_by_owner`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.arg3),
+            pure.u32(tx, args.arg4),
+        ],
+    });
+}
+
+/** `withdraw_from_open_inventory(&mut StorageUnit, &Character, T0, u64, u32, &mut TxContext): Item` */
+export function withdrawFromOpenInventory(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        value: TransactionArgument;
+        arg3: U64Arg;
+        arg4: U32Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::withdraw_from_open_inventory`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            args.value,
+            pure.u64(tx, args.arg3),
+            pure.u32(tx, args.arg4),
+        ],
+    });
+}
+
+/** `withdraw_item(&mut StorageUnit, &Character, T0, u64, u32, &mut TxContext): Item` */
+export function withdrawItem(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        value: TransactionArgument;
+        arg3: U64Arg;
+        arg4: U32Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::storage_unit::withdraw_item`,
+        typeArguments: args.typeArguments,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            args.value,
+            pure.u64(tx, args.arg3),
+            pure.u32(tx, args.arg4),
+        ],
+    });
+}
@@ -0,0 +1,853 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import type { BytesArg, ObjectArg, StringArg, U64Arg } from "../../sdk/args";
+import * as pure from "../../sdk/pure";
+import { TenantItemId } from "./in-game-id";
+import { Location } from "./location";
+import { Metadata } from "./metadata";
+import { AssemblyStatus } from "./status";
+
+export const MODULE = "turret";
+
+export const EVENTS = [
+    "TurretCreatedEvent",
+    "PriorityListUpdatedEvent",
+    "ExtensionAuthorizedEvent",
+    "ExtensionRevokedEvent",
+] as const;
+
+export const BehaviourChangeReason = bcs.enum("BehaviourChangeReason", {
+    UNSPECIFIED: null,
+    ENTERED: null,
+    STARTED_ATTACK: null,
+    STOPPED_ATTACK: null,
+});
+
+export const ExtensionAuthorizedEvent = bcs.struct("ExtensionAuthorizedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    extension_type: bcs.struct("TypeName", { name: bcs.string() }),
+    previous_extension: bcs.option(bcs.struct("TypeName", { name: bcs.string() })),
+    owner_cap_id: bcs.Address,
+});
+
+export const ExtensionRevokedEvent = bcs.struct("ExtensionRevokedEvent", {
+    assembly_id: bcs.Address,
+    assembly_key: TenantItemId,
+    revoked_extension: bcs.struct("TypeName", { name: bcs.string() }),
+    owner_cap_id: bcs.Address,
+});
+
+export const OnlineReceipt = bcs.struct("OnlineReceipt", {
+    turret_id: bcs.Address,
+});
+
+export const TargetCandidate = bcs.struct("TargetCandidate", {
+    item_id: bcs.u64(),
+    type_id: bcs.u64(),
+    group_id: bcs.u64(),
+    character_id: bcs.u32(),
+    character_tribe: bcs.u32(),
+    hp_ratio: bcs.u64(),
+    shield_ratio: bcs.u64(),
+    armor_ratio: bcs.u64(),
+    is_aggressor: bcs.bool(),
+    priority_weight: bcs.u64(),
+    behaviour_change: BehaviourChangeReason,
+});
+
+export const PriorityListUpdatedEvent = bcs.struct("PriorityListUpdatedEvent", {
+    turret_id: bcs.Address,
+    priority_list: bcs.vector(TargetCandidate),
+});
+
+export const ReturnTargetPriorityList = bcs.struct("ReturnTargetPriorityList", {
+    target_item_id: bcs.u64(),
+    priority_weight: bcs.u64(),
+});
+
+export const Turret = bcs.struct("Turret", {
+    id: bcs.Address,
+    key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+    status: AssemblyStatus,
+    location: Location,
+    energy_source_id: bcs.option(bcs.Address),
+    metadata: bcs.option(Metadata),
+    extension: bcs.option(bcs.struct("TypeName", { name: bcs.string() })),
+});
+
+export const TurretCreatedEvent = bcs.struct("TurretCreatedEvent", {
+    turret_id: bcs.Address,
+    turret_key: TenantItemId,
+    owner_cap_id: bcs.Address,
+    type_id: bcs.u64(),
+});
+
+export type TurretCreatedEvent = {
+    turret_id: string;
+    turret_key: { item_id: string; tenant: string };
+    owner_cap_id: string;
+    type_id: string;
+};
+
+export type PriorityListUpdatedEvent = {
+    turret_id: string;
+    priority_list: {
+        item_id: string;
+        type_id: string;
+        group_id: string;
+        character_id: number;
+        character_tribe: number;
+        hp_ratio: string;
+        shield_ratio: string;
+        armor_ratio: string;
+        is_aggressor: boolean;
+        priority_weight: string;
+        behaviour_change: {
+            "@variant": "UNSPECIFIED" | "ENTERED" | "STARTED_ATTACK" | "STOPPED_ATTACK";
+        };
+    }[];
+};
+
+export type ExtensionAuthorizedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    extension_type: { name: string };
+    previous_extension: { name: string } | null;
+    owner_cap_id: string;
+};
+
+export type ExtensionRevokedEvent = {
+    assembly_id: string;
+    assembly_key: { item_id: string; tenant: string };
+    revoked_extension: { name: string };
+    owner_cap_id: string;
+};
+
+/** `anchor(&mut ObjectRegistry, &mut NetworkNode, &Character, &AdminACL, u64, u64, vector<u8>, &mut TxContext): Turret` */
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectRegistry: ObjectArg;
+        networkNode: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        arg4: U64Arg;
+        arg5: U64Arg;
+        arg6: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::anchor`,
+        arguments: [
+            tx.object(args.objectRegistry),
+            tx.object(args.networkNode),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg4),
+            pure.u64(tx, args.arg5),
+            pure.bytes(tx, args.arg6),
+        ],
+    });
+}
+
+/** `armor_ratio(&TargetCandidate): u64` */
+export function armorRatio(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::armor_ratio`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `authorize_extension(&mut Turret, &OwnerCap<Turret>)` */
+export function authorizeExtension(
+    tx: Transaction,
+    packageId: string,
+    args: { typeArguments: [string]; turret: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::authorize_extension`,
+        typeArguments: args.typeArguments,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap)],
+    });
+}
+
+/** `behaviour_change(&TargetCandidate): BehaviourChangeReason` */
+export function behaviourChange(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::behaviour_change`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `character_id(&TargetCandidate): u32` */
+export function characterId(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::character_id`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `character_tribe(&TargetCandidate): u32` */
+export function characterTribe(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::character_tribe`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `destroy_online_receipt(OnlineReceipt, T0)` */
+export function destroyOnlineReceipt(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        typeArguments: [string];
+        onlineReceipt: TransactionArgument;
+        value: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::destroy_online_receipt`,
+        typeArguments: args.typeArguments,
+        arguments: [args.onlineReceipt, args.value],
+    });
+}
+
+/** `energy_source_id(&Turret): &Option<ID>` */
+export function energySourceId(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::energy_source_id`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `extension(&Turret): &Option<TypeName>` */
+export function extension(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::extension`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `extension_type(&Turret): TypeName` */
+export function extensionType(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::extension_type`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `freeze_extension_config(&mut Turret, &OwnerCap<Turret>)` */
+export function freezeExtensionConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::freeze_extension_config`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap)],
+    });
+}
+
+/** `get_target_priority_list(&Turret, &Character, vector<u8>, OnlineReceipt): vector<u8>` */
+export function getTargetPriorityList(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        character: ObjectArg;
+        arg2: BytesArg;
+        onlineReceipt: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::get_target_priority_list`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.character),
+            pure.bytes(tx, args.arg2),
+            args.onlineReceipt,
+        ],
+    });
+}
+
+/** `group_id(&TargetCandidate): u64` */
+export function groupId(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::group_id`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `hp_ratio(&TargetCandidate): u64` */
+export function hpRatio(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::hp_ratio`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `id(&Turret): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::id`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `is_aggressor(&TargetCandidate): bool` */
+export function isAggressor(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::is_aggressor`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `is_extension_configured(&Turret): bool` */
+export function isExtensionConfigured(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::is_extension_configured`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `is_extension_frozen(&Turret): bool` */
+export function isExtensionFrozen(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::is_extension_frozen`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `is_online(&Turret): bool` */
+export function isOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::is_online`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `item_id(&TargetCandidate): u64` */
+export function itemId(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::item_id`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `key(&Turret): TenantItemId` */
+export function key(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::key`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `location(&Turret): &Location` */
+export function location(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::location`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `metadata(&Turret): &Option<Metadata>` */
+export function metadata(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::metadata`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `new_return_target_priority_list(u64, u64): ReturnTargetPriorityList` */
+export function newReturnTargetPriorityList(
+    tx: Transaction,
+    packageId: string,
+    args: { arg0: U64Arg; arg1: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::new_return_target_priority_list`,
+        arguments: [pure.u64(tx, args.arg0), pure.u64(tx, args.arg1)],
+    });
+}
+
+/** `offline(&mut Turret, &mut NetworkNode, &EnergyConfig, &OwnerCap<Turret>)` */
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::offline`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `offline_connected_turret(&mut Turret, OfflineAssemblies, &mut NetworkNode, &EnergyConfig): OfflineAssemblies` */
+export function offlineConnectedTurret(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        offlineAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::offline_connected_turret`,
+        arguments: [
+            tx.object(args.turret),
+            args.offlineAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+/** `offline_orphaned_turret(&mut Turret, HandleOrphanedAssemblies, &mut NetworkNode, &EnergyConfig): HandleOrphanedAssemblies` */
+export function offlineOrphanedTurret(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        handleOrphanedAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::offline_orphaned_turret`,
+        arguments: [
+            tx.object(args.turret),
+            args.handleOrphanedAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+/** `online(&mut Turret, &mut NetworkNode, &EnergyConfig, &OwnerCap<Turret>)` */
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::online`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+/** `owner_cap_id(&Turret): ID` */
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::owner_cap_id`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `peel_target_candidate(vector<u8>): TargetCandidate` */
+export function peelTargetCandidate(
+    tx: Transaction,
+    packageId: string,
+    args: { arg0: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::peel_target_candidate`,
+        arguments: [pure.bytes(tx, args.arg0)],
+    });
+}
+
+/** `priority_weight(&TargetCandidate): u64` */
+export function priorityWeight(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::priority_weight`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `return_priority_weight(&ReturnTargetPriorityList): u64` */
+export function returnPriorityWeight(
+    tx: Transaction,
+    packageId: string,
+    args: { returnTargetPriorityList: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::return_priority_weight`,
+        arguments: [args.returnTargetPriorityList],
+    });
+}
+
+/** `return_target_item_id(&ReturnTargetPriorityList): u64` */
+export function returnTargetItemId(
+    tx: Transaction,
+    packageId: string,
+    args: { returnTargetPriorityList: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::return_target_item_id`,
+        arguments: [args.returnTargetPriorityList],
+    });
+}
+
+/** `reveal_location(&Turret, &mut LocationRegistry, &AdminACL, u64, String, String, String, &TxContext)` */
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        locationRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        arg3: U64Arg;
+        arg4: StringArg;
+        arg5: StringArg;
+        arg6: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::reveal_location`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.locationRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.arg3),
+            pure.string(tx, args.arg4),
+            pure.string(tx, args.arg5),
+            pure.string(tx, args.arg6),
+        ],
+    });
+}
+
+/** `revoke_extension_authorization(&mut Turret, &OwnerCap<Turret>)` */
+export function revokeExtensionAuthorization(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::revoke_extension_authorization`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap)],
+    });
+}
+
+/** `share_turret(Turret, &AdminACL, &TxContext)` */
+export function shareTurret(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::share_turret`,
+        arguments: [tx.object(args.turret), tx.object(args.adminAcl)],
+    });
+}
+
+/** `shield_ratio(&TargetCandidate): u64` */
+export function shieldRatio(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::shield_ratio`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `status(&Turret): &AssemblyStatus` */
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::status`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `target_type_id(&TargetCandidate): u64` */
+export function targetTypeId(
+    tx: Transaction,
+    packageId: string,
+    args: { targetCandidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::target_type_id`,
+        arguments: [args.targetCandidate],
+    });
+}
+
+/** `turret_id(&OnlineReceipt): ID` */
+export function turretId(
+    tx: Transaction,
+    packageId: string,
+    args: { onlineReceipt: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::turret_id`,
+        arguments: [args.onlineReceipt],
+    });
+}
+
+/** `type_id(&Turret): u64` */
+export function typeId(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::type_id`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+/** `unanchor(Turret, &mut NetworkNode, &EnergyConfig, &AdminACL, &TxContext)` */
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::unanchor`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+/** `unanchor_orphan(Turret, &AdminACL, &TxContext)` */
+export function unanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::unanchor_orphan`,
+        arguments: [tx.object(args.turret), tx.object(args.adminAcl)],
+    });
+}
+
+/** `unpack_candidate_list(vector<u8>): vector<TargetCandidate>` */
+export function unpackCandidateList(
+    tx: Transaction,
+    packageId: string,
+    args: { arg0: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::unpack_candidate_list`,
+        arguments: [pure.bytes(tx, args.arg0)],
+    });
+}
+
+/** `unpack_priority_list(vector<u8>): vector<TargetCandidate>` */
+export function unpackPriorityList(
+    tx: Transaction,
+    packageId: string,
+    args: { arg0: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::unpack_priority_list`,
+        arguments: [pure.bytes(tx, args.arg0)],
+    });
+}
+
+/** `unpack_return_priority_list(vector<u8>): vector<ReturnTargetPriorityList>` */
+export function unpackReturnPriorityList(
+    tx: Transaction,
+    packageId: string,
+    args: { arg0: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::unpack_return_priority_list`,
+        arguments: [pure.bytes(tx, args.arg0)],
+    });
+}
+
+/** `update_energy_source(&mut Turret, &mut NetworkNode, &AdminACL, &TxContext)` */
+export function updateEnergySource(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::update_energy_source`,
+        arguments: [tx.object(args.turret), tx.object(args.networkNode), tx.object(args.adminAcl)],
+    });
+}
+
+/** `update_energy_source_connected_turret(&mut Turret, UpdateEnergySources, &NetworkNode): UpdateEnergySources` */
+export function updateEnergySourceConnectedTurret(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; updateEnergySources: TransactionArgument; networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::update_energy_source_connected_turret`,
+        arguments: [tx.object(args.turret), args.updateEnergySources, tx.object(args.networkNode)],
+    });
+}
+
+/** `update_metadata_description(&mut Turret, &OwnerCap<Turret>, String)` */
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::update_metadata_description`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
+
+/** `update_metadata_name(&mut Turret, &OwnerCap<Turret>, String)` */
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::update_metadata_name`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
+
+/** `update_metadata_url(&mut Turret, &OwnerCap<Turret>, String)` */
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg; arg2: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::update_metadata_url`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap), pure.string(tx, args.arg2)],
+    });
+}
+
+/** `verify_online(&Turret): OnlineReceipt` */
+export function verifyOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::turret::verify_online`,
+        arguments: [tx.object(args.turret)],
+    });
+}
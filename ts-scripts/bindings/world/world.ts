@@ -0,0 +1,28 @@
+// Auto-generated file - do not edit manually
+// This file is generated by tools/codegen/generate-bindings.ts
+// Run: npm run codegen:bindings
+
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionResult } from "@mysten/sui/transactions";
+import type { ObjectArg } from "../../sdk/args";
+
+export const MODULE = "world";
+
+export const EVENTS = [] as const;
+
+export const GovernorCap = bcs.struct("GovernorCap", {
+    id: bcs.Address,
+    governor: bcs.Address,
+});
+
+/** `id(&GovernorCap): ID` */
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { governorCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::world::id`,
+        arguments: [tx.object(args.governorCap)],
+    });
+}
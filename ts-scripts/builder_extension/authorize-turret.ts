@@ -1,6 +1,4 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
-import { MODULES } from "../utils/config";
 import { deriveObjectId } from "../utils/derive-object-id";
 import { GAME_CHARACTER_ID, TURRET_ITEM_ID } from "../utils/constants";
 import {
@@ -10,58 +8,12 @@ import {
     initializeContext,
     requireEnv,
 } from "../utils/helper";
-import { getOwnerCap } from "../turret/helper";
+import { authorizeTurretExtension } from "../turret/helper";
 import { requireBuilderPackageId } from "../utils/builder-extension";
 import { MODULE as extensionModule } from "./modules";
 
 const builderPackageId = requireBuilderPackageId();
 
-async function authorizeExtension(
-    ctx: ReturnType<typeof initializeContext>,
-    turretId: string,
-    authType: string
-) {
-    const { client, keypair } = ctx;
-    const characterId = deriveObjectId(
-        ctx.config.objectRegistry,
-        GAME_CHARACTER_ID,
-        ctx.config.packageId
-    );
-    const ownerCapId = await getOwnerCap(turretId, client, ctx.config, ctx.address);
-    if (!ownerCapId) {
-        throw new Error(`OwnerCap not found for turret ${turretId}`);
-    }
-
-    const tx = new Transaction();
-
-    const [ownerCap, receipt] = tx.moveCall({
-        target: `${ctx.config.packageId}::${MODULES.CHARACTER}::borrow_owner_cap`,
-        typeArguments: [`${ctx.config.packageId}::${MODULES.TURRET}::Turret`],
-        arguments: [tx.object(characterId), tx.object(ownerCapId)],
-    });
-
-    tx.moveCall({
-        target: `${ctx.config.packageId}::${MODULES.TURRET}::authorize_extension`,
-        typeArguments: [authType],
-        arguments: [tx.object(turretId), ownerCap],
-    });
-
-    tx.moveCall({
-        target: `${ctx.config.packageId}::${MODULES.CHARACTER}::return_owner_cap`,
-        typeArguments: [`${ctx.config.packageId}::${MODULES.TURRET}::Turret`],
-        arguments: [tx.object(characterId), ownerCap, receipt],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showEffects: true, showObjectChanges: true, showEvents: true },
-    });
-    console.log("Extension authorized. Auth type:", authType);
-    console.log("Transaction digest:", result.digest);
-    return result;
-}
-
 async function main() {
     try {
         const env = getEnvConfig();
@@ -69,6 +21,11 @@ async function main() {
         const ctx = initializeContext(env.network, playerKey);
         await hydrateWorldConfig(ctx);
 
+        const characterId = deriveObjectId(
+            ctx.config.objectRegistry,
+            GAME_CHARACTER_ID,
+            ctx.config.packageId
+        );
         const turretId = deriveObjectId(
             ctx.config.objectRegistry,
             TURRET_ITEM_ID,
@@ -76,7 +33,9 @@ async function main() {
         );
         const authType = `${builderPackageId}::${extensionModule.TURRET}::TurretAuth`;
 
-        await authorizeExtension(ctx, turretId, authType);
+        const result = await authorizeTurretExtension(ctx, characterId, turretId, authType);
+        console.log("Extension authorized. Auth type:", authType);
+        console.log("Transaction digest:", result.digest);
     } catch (error) {
         handleError(error);
     }
@@ -0,0 +1,134 @@
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { getCharacterOwnerCap } from "../character/helper";
+import { BuilderGateExtensionIds } from "../utils/builder-extension";
+import { MODULES } from "../utils/config";
+import { CLOCK_OBJECT_ID } from "../utils/constants";
+import { InitializedContext } from "../utils/helper";
+import { executeSponsoredTransaction } from "../utils/transaction";
+import * as world from "../sdk";
+import { MODULE as extensionModule } from "./modules";
+
+/** The route a permit is issued for, and the character it is issued to. */
+export type PermitRoute = {
+    characterId: string;
+    sourceGateId: string;
+    destinationGateId: string;
+};
+
+/**
+ * Issues a `JumpPermit` for the route through `tribe_permit`, which checks the character against
+ * the tribe rule of the extension config. `ctx` must hold the builder `AdminCap`.
+ */
+export async function issueTribeJumpPermit(
+    ctx: InitializedContext,
+    ids: BuilderGateExtensionIds,
+    route: PermitRoute
+) {
+    const { client, keypair } = ctx;
+    const tx = new Transaction();
+    tx.moveCall({
+        target: `${ids.builderPackageId}::${extensionModule.TRIBE_PERMIT}::issue_jump_permit`,
+        arguments: [
+            tx.object(ids.extensionConfigId),
+            tx.object(route.sourceGateId),
+            tx.object(route.destinationGateId),
+            tx.object(route.characterId),
+            tx.object(ids.adminCapId),
+            tx.object(CLOCK_OBJECT_ID),
+        ],
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true, showEvents: true },
+    });
+}
+
+/**
+ * Hands a corpse from the character's inventory in the storage unit to `corpse_gate_bounty`, which
+ * issues a `JumpPermit` for the route in return. Sponsored by the admin keypair.
+ */
+export async function collectCorpseBounty(
+    ctx: InitializedContext,
+    adminKeypair: Signer,
+    ids: Pick<BuilderGateExtensionIds, "builderPackageId" | "extensionConfigId">,
+    route: PermitRoute & { storageUnitId: string; corpseTypeId: bigint }
+) {
+    const { client, keypair, config, address } = ctx;
+    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
+
+    const ownerCapId = await getCharacterOwnerCap(route.characterId, client, config, address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for ${route.characterId}`);
+    }
+
+    const tx = new Transaction();
+    tx.setSender(address);
+    tx.setGasOwner(adminAddress);
+
+    const characterType = world.worldType(config.packageId, MODULES.CHARACTER, "Character");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: characterType,
+        character: route.characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    tx.moveCall({
+        target: `${ids.builderPackageId}::${extensionModule.CORPSE_GATE_BOUNTY}::collect_corpse_bounty`,
+        typeArguments: [characterType],
+        arguments: [
+            tx.object(ids.extensionConfigId),
+            tx.object(route.storageUnitId),
+            tx.object(route.sourceGateId),
+            tx.object(route.destinationGateId),
+            tx.object(route.characterId),
+            ownerCap,
+            tx.pure.u64(route.corpseTypeId),
+            tx.object(CLOCK_OBJECT_ID),
+        ],
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: characterType,
+        character: route.characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await executeSponsoredTransaction(
+        tx,
+        client,
+        keypair,
+        adminKeypair,
+        address,
+        adminAddress,
+        { showEffects: true, showObjectChanges: true, showEvents: true }
+    );
+}
+
+/**
+ * Deletes a `JumpPermit` held by the signer through `tribe_permit`, the extension authorized on
+ * the source gate. Builder versions published before `delete_jump_permit` was added lack it, so
+ * `builderPackageId` must name a version that has it.
+ */
+export async function deleteJumpPermitViaExtension(
+    ctx: InitializedContext,
+    builderPackageId: string,
+    sourceGateId: string,
+    jumpPermitId: string
+) {
+    const { client, keypair } = ctx;
+    const tx = new Transaction();
+    tx.moveCall({
+        target: `${builderPackageId}::${extensionModule.TRIBE_PERMIT}::delete_jump_permit`,
+        arguments: [tx.object(sourceGateId), tx.object(jumpPermitId)],
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true, showEvents: true },
+    });
+}
@@ -1,5 +1,4 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
 import {
     hydrateWorldConfig,
     initializeContext,
@@ -7,61 +6,34 @@ import {
     getEnvConfig,
     requireEnv,
 } from "../utils/helper";
-import { keypairFromPrivateKey } from "../utils/client";
-import { MODULES } from "../utils/config";
-import { deriveObjectId } from "../utils/derive-object-id";
+import { resolveSigner } from "../utils/signer";
 import { GAME_CHARACTER_B_ID, GAME_CHARACTER_C_ID, GAME_CHARACTER_ID } from "../utils/constants";
 import { delay, getDelayMs } from "../utils/delay";
+import { createCharacter } from "./helper";
 
 const TRIBE_ID = 100;
 
-async function createCharacter(
+async function create(
     tenant: string,
     characterAddress: string,
     gameCharacterId: number,
     ctx: ReturnType<typeof initializeContext>
 ): Promise<string> {
-    const { client, keypair, config } = ctx;
-    const adminAcl = config.adminAcl;
     console.log("\n==== Creating a character ====");
     console.log("Game Character ID:", gameCharacterId);
     console.log("Tribe ID:", TRIBE_ID);
 
-    // Pre-compute the character ID before creation
-    const precomputedCharacterId = deriveObjectId(
-        config.objectRegistry,
+    const { characterId, result } = await createCharacter(ctx, {
+        tenant,
+        characterAddress,
         gameCharacterId,
-        config.packageId
-    );
-    console.log("Pre-computed Character ID:", precomputedCharacterId);
-
-    const tx = new Transaction();
-    const [character] = tx.moveCall({
-        target: `${config.packageId}::${MODULES.CHARACTER}::create_character`,
-        arguments: [
-            tx.object(config.objectRegistry),
-            tx.object(adminAcl),
-            tx.pure.u32(gameCharacterId),
-            tx.pure.string(tenant),
-            tx.pure.u32(TRIBE_ID),
-            tx.pure.address(characterAddress),
-            tx.pure.string("frontier-character-a"),
-        ],
-    });
-
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.CHARACTER}::share_character`,
-        arguments: [character, tx.object(adminAcl)],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showObjectChanges: true },
+        tribeId: TRIBE_ID,
+        name: "frontier-character-a",
     });
 
+    console.log("Pre-computed Character ID:", characterId);
     console.log("Transaction digest:", result.digest);
-    return precomputedCharacterId;
+    return characterId;
 }
 
 async function main() {
@@ -72,20 +44,18 @@ async function main() {
 
         const playerKey = requireEnv("PLAYER_B_PRIVATE_KEY");
         const playerKeyA = requireEnv("PLAYER_A_PRIVATE_KEY");
-        const playerAddressB = keypairFromPrivateKey(playerKey).getPublicKey().toSuiAddress();
-        const playerAddressA = keypairFromPrivateKey(playerKeyA).getPublicKey().toSuiAddress();
+        const playerAddressB = resolveSigner(playerKey).getPublicKey().toSuiAddress();
+        const playerAddressA = resolveSigner(playerKeyA).getPublicKey().toSuiAddress();
 
-        await createCharacter(env.tenant, playerAddressA, GAME_CHARACTER_ID, ctx);
+        await create(env.tenant, playerAddressA, GAME_CHARACTER_ID, ctx);
         await delay(getDelayMs());
-        await createCharacter(env.tenant, playerAddressB, GAME_CHARACTER_B_ID, ctx);
+        await create(env.tenant, playerAddressB, GAME_CHARACTER_B_ID, ctx);
 
         if (process.env.PLAYER_C_PRIVATE_KEY) {
             await delay(getDelayMs());
-            await createCharacter(
+            await create(
                 env.tenant,
-                keypairFromPrivateKey(process.env.PLAYER_C_PRIVATE_KEY)
-                    .getPublicKey()
-                    .toSuiAddress(),
+                resolveSigner(process.env.PLAYER_C_PRIVATE_KEY).getPublicKey().toSuiAddress(),
                 GAME_CHARACTER_C_ID,
                 ctx
             );
@@ -1,7 +1,10 @@
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Transaction } from "@mysten/sui/transactions";
 import { getConfig, MODULES } from "../utils/config";
 import { bcs } from "@mysten/sui/bcs";
+import { deriveObjectId } from "../utils/derive-object-id";
 import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { InitializedContext } from "../utils/helper";
 
 export async function getCharacterOwnerCap(
     characterId: string,
@@ -26,3 +29,55 @@ export async function getCharacterOwnerCap(
         return null;
     }
 }
+
+export interface CreateCharacterParams {
+    tenant: string;
+    characterAddress: string;
+    gameCharacterId: number;
+    tribeId: number;
+    name: string;
+}
+
+/**
+ * Creates and shares a character. Must be signed by a sponsor registered in the AdminACL.
+ * Returns the derived character object ID alongside the transaction result.
+ */
+export async function createCharacter(ctx: InitializedContext, params: CreateCharacterParams) {
+    const { client, keypair, config } = ctx;
+    const adminAcl = config.adminAcl;
+
+    // Pre-compute the character ID before creation
+    const characterId = deriveObjectId(
+        config.objectRegistry,
+        params.gameCharacterId,
+        config.packageId,
+        params.tenant
+    );
+
+    const tx = new Transaction();
+    const [character] = tx.moveCall({
+        target: `${config.packageId}::${MODULES.CHARACTER}::create_character`,
+        arguments: [
+            tx.object(config.objectRegistry),
+            tx.object(adminAcl),
+            tx.pure.u32(params.gameCharacterId),
+            tx.pure.string(params.tenant),
+            tx.pure.u32(params.tribeId),
+            tx.pure.address(params.characterAddress),
+            tx.pure.string(params.name),
+        ],
+    });
+
+    tx.moveCall({
+        target: `${config.packageId}::${MODULES.CHARACTER}::share_character`,
+        arguments: [character, tx.object(adminAcl)],
+    });
+
+    const result = await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true },
+    });
+
+    return { characterId, result };
+}
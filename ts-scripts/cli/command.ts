@@ -0,0 +1,14 @@
+import type { ParseArgsConfig } from "node:util";
+import type { Network } from "../utils/config";
+import type { OptionValues } from "./context";
+import type { CommandResult } from "./output";
+
+export interface CliCommand {
+    summary: string;
+    /** Command-specific flags, shown in `--help` (e.g. `--gate <id> --node <id>`). */
+    usage: string;
+    options: NonNullable<ParseArgsConfig["options"]>;
+    run(network: Network, values: OptionValues): Promise<CommandResult>;
+}
+
+export type CommandGroup = Record<string, CliCommand>;
@@ -0,0 +1,71 @@
+import {
+    addSponsorsToAcl,
+    isAuthorizedServerAddress,
+    isAuthorizedSponsor,
+    registerServerAddress,
+} from "../../access/helper";
+import { waitForSuccess } from "../../utils/transaction";
+import type { CommandGroup } from "../command";
+import { signerContext, stringOption } from "../context";
+
+export const accessCommands: CommandGroup = {
+    setup: {
+        summary:
+            "Register a server address and add AdminACL sponsors that are missing (GovernorCap)",
+        usage: "[--server-address <address>] [--sponsor <address,...>]",
+        options: { "server-address": { type: "string" }, sponsor: { type: "string" } },
+        async run(network, values) {
+            const serverAddress = stringOption(values, "server-address");
+            const sponsors = (stringOption(values, "sponsor") ?? "")
+                .split(",")
+                .map((s) => s.trim().toLowerCase())
+                .filter(Boolean);
+            if (!serverAddress && sponsors.length === 0) {
+                throw new Error("Pass --server-address and/or --sponsor");
+            }
+            // During development the governor and the admin are usually the same key.
+            const defaultKeyEnv = process.env.GOVERNOR_PRIVATE_KEY
+                ? "GOVERNOR_PRIVATE_KEY"
+                : "ADMIN_PRIVATE_KEY";
+            const ctx = await signerContext(network, values, defaultKeyEnv);
+            const digests: string[] = [];
+
+            // Both calls abort on an address that is already present, so those are skipped.
+            let serverAddressRegistered: boolean | undefined;
+            if (serverAddress) {
+                const registered = await isAuthorizedServerAddress(
+                    ctx.client,
+                    ctx.config,
+                    serverAddress,
+                    ctx.address
+                );
+                if (registered === null) {
+                    throw new Error("Could not read the ServerAddressRegistry");
+                }
+                if (!registered) {
+                    const { digest } = await registerServerAddress(ctx, serverAddress);
+                    digests.push(await waitForSuccess(ctx.client, digest));
+                }
+                serverAddressRegistered = !registered;
+            }
+
+            const missing: string[] = [];
+            for (const sponsor of sponsors) {
+                const authorized = await isAuthorizedSponsor(ctx.client, ctx.config, sponsor);
+                if (authorized === null) throw new Error("Could not read the AdminACL");
+                if (!authorized) missing.push(sponsor);
+            }
+            if (missing.length > 0) {
+                const { digest } = await addSponsorsToAcl(ctx, missing);
+                digests.push(await waitForSuccess(ctx.client, digest));
+            }
+
+            return {
+                serverAddress,
+                serverAddressRegistered,
+                sponsorsAdded: missing,
+                digests,
+            };
+        },
+    },
+};
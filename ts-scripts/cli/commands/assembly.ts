@@ -0,0 +1,24 @@
+import { onlineAssembly } from "../../assembly/helper";
+import type { CommandGroup } from "../command";
+import { requireOption, resolveObjectId, signerContext } from "../context";
+import { transactionResult } from "../output";
+
+export const assemblyCommands: CommandGroup = {
+    online: {
+        summary: "Bring an assembly online",
+        usage: "--assembly <id> --node <id> --character <id>",
+        options: {
+            assembly: { type: "string" },
+            node: { type: "string" },
+            character: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const assemblyId = resolveObjectId(ctx.config, requireOption(values, "assembly"));
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await onlineAssembly(ctx, characterId, networkNodeId, assemblyId);
+            return transactionResult(result, { assemblyId });
+        },
+    },
+};
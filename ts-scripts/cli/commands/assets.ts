@@ -0,0 +1,36 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { parseEveAmount, transferEve } from "../../assets/helper";
+import { createClient } from "../../utils/client";
+import { getDefaultAssetsPackageId } from "../../utils/helper";
+import type { CommandGroup } from "../command";
+import { requireOption, resolveKeypair, stringOption } from "../context";
+import { transactionResult } from "../output";
+
+export const assetsCommands: CommandGroup = {
+    "transfer-eve": {
+        summary: "Send EVE to an address from the signer's largest EVE coin",
+        usage: "--recipient <address> --amount <EVE> [--assets-package-id <id>]",
+        options: {
+            recipient: { type: "string" },
+            amount: { type: "string" },
+            "assets-package-id": { type: "string" },
+        },
+        async run(network, values) {
+            const assetsPackageId =
+                stringOption(values, "assets-package-id") ?? getDefaultAssetsPackageId(network);
+            if (!assetsPackageId) {
+                throw new Error("Pass --assets-package-id or set ASSETS_PACKAGE_ID");
+            }
+            const keypair = resolveKeypair(values, "key", "GOVERNOR_PRIVATE_KEY");
+            const ctx = {
+                client: createClient(network),
+                keypair,
+                address: keypair.getPublicKey().toSuiAddress(),
+            };
+            const recipient = normalizeSuiAddress(requireOption(values, "recipient"));
+            const amount = parseEveAmount(requireOption(values, "amount"));
+            const result = await transferEve(ctx, assetsPackageId, recipient, amount);
+            return transactionResult(result, { recipient, amount });
+        },
+    },
+};
@@ -0,0 +1,108 @@
+import {
+    collectCorpseBounty,
+    deleteJumpPermitViaExtension,
+    issueTribeJumpPermit,
+} from "../../builder_extension/helper";
+import { findJumpPermitId } from "../../gate/helper";
+import {
+    requireBuilderPackageId,
+    resolveBuilderGateExtensionIds,
+} from "../../utils/builder-extension";
+import type { CommandGroup } from "../command";
+import {
+    bigintOption,
+    requireOption,
+    resolveKeypair,
+    resolveObjectId,
+    signerContext,
+    stringOption,
+} from "../context";
+import { transactionResult } from "../output";
+
+/**
+ * Commands for the example builder extension package (`extension_examples`). Its package ID is
+ * `BUILDER_PACKAGE_ID` or the extracted object IDs; its `ExtensionConfig` and `AdminCap` come from
+ * the same place.
+ */
+export const builderExtensionCommands: CommandGroup = {
+    "issue-tribe-jump-permit": {
+        summary: "Issue a JumpPermit to a character of the configured tribe (builder AdminCap)",
+        usage: "--from <gate> --to <gate> --character <id>",
+        options: {
+            from: { type: "string" },
+            to: { type: "string" },
+            character: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const ids = resolveBuilderGateExtensionIds({ adminAddressOwner: ctx.address });
+            const route = {
+                sourceGateId: resolveObjectId(ctx.config, requireOption(values, "from")),
+                destinationGateId: resolveObjectId(ctx.config, requireOption(values, "to")),
+                characterId: resolveObjectId(ctx.config, requireOption(values, "character")),
+            };
+            const result = await issueTribeJumpPermit(ctx, ids, route);
+            return transactionResult(result, route);
+        },
+    },
+    "collect-corpse-bounty": {
+        summary: "Hand in a corpse from a storage unit for a JumpPermit (sponsored)",
+        usage: "--storage-unit <id> --from <gate> --to <gate> --character <id> --corpse-type-id <id>",
+        options: {
+            "storage-unit": { type: "string" },
+            from: { type: "string" },
+            to: { type: "string" },
+            character: { type: "string" },
+            "corpse-type-id": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const sponsor = resolveKeypair(values, "sponsor-key", "ADMIN_PRIVATE_KEY");
+            const ids = resolveBuilderGateExtensionIds({
+                adminAddressOwner: sponsor.getPublicKey().toSuiAddress(),
+            });
+            const route = {
+                storageUnitId: resolveObjectId(ctx.config, requireOption(values, "storage-unit")),
+                sourceGateId: resolveObjectId(ctx.config, requireOption(values, "from")),
+                destinationGateId: resolveObjectId(ctx.config, requireOption(values, "to")),
+                characterId: resolveObjectId(ctx.config, requireOption(values, "character")),
+                corpseTypeId: bigintOption(values, "corpse-type-id"),
+            };
+            const result = await collectCorpseBounty(ctx, sponsor, ids, route);
+            return transactionResult(result, route);
+        },
+    },
+    "delete-jump-permit": {
+        summary: "Delete a JumpPermit the signer holds through the tribe_permit extension",
+        usage: "--from <gate> [--permit <id> | --character <id>] [--builder-package-id <id>]",
+        options: {
+            from: { type: "string" },
+            permit: { type: "string" },
+            character: { type: "string" },
+            "builder-package-id": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const builderPackageId =
+                stringOption(values, "builder-package-id") ?? requireBuilderPackageId();
+            const sourceGateId = resolveObjectId(ctx.config, requireOption(values, "from"));
+            const character = stringOption(values, "character");
+            const jumpPermitId =
+                stringOption(values, "permit") ??
+                (await findJumpPermitId(
+                    ctx.client,
+                    ctx.config,
+                    ctx.address,
+                    character && resolveObjectId(ctx.config, character)
+                ));
+            if (!jumpPermitId) throw new Error(`${ctx.address} holds no JumpPermit`);
+            const result = await deleteJumpPermitViaExtension(
+                ctx,
+                builderPackageId,
+                sourceGateId,
+                jumpPermitId
+            );
+            return transactionResult(result, { jumpPermitId });
+        },
+    },
+};
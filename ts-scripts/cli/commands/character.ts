@@ -0,0 +1,29 @@
+import { getTenant } from "../../utils/config";
+import { createCharacter } from "../../character/helper";
+import type { CommandGroup } from "../command";
+import { numberOption, requireOption, signerContext, stringOption } from "../context";
+import { transactionResult } from "../output";
+
+export const characterCommands: CommandGroup = {
+    create: {
+        summary: "Create and share a character (signed by an AdminACL sponsor)",
+        usage: "--game-id <id> --address <address> [--tribe <id>] [--name <name>]",
+        options: {
+            "game-id": { type: "string" },
+            address: { type: "string" },
+            tribe: { type: "string" },
+            name: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const { characterId, result } = await createCharacter(ctx, {
+                tenant: getTenant(),
+                characterAddress: requireOption(values, "address"),
+                gameCharacterId: numberOption(values, "game-id"),
+                tribeId: numberOption(values, "tribe", 100),
+                name: stringOption(values, "name") ?? "",
+            });
+            return transactionResult(result, { characterId });
+        },
+    },
+};
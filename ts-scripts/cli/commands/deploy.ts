@@ -0,0 +1,64 @@
+import { DEPLOY_STEPS, pendingDeploySteps, runDeploy } from "../../deploy/pipeline";
+import { deployStatePath, loadDeployState } from "../../deploy/state";
+import type { CommandGroup } from "../command";
+import { signerReference, stringOption } from "../context";
+
+export const deployCommands: CommandGroup = {
+    run: {
+        summary: "Publish and configure the world package, resuming after the last finished step",
+        usage: "[--from <step>] [--only <step>] [--confirm-mainnet] [--republish]",
+        options: {
+            from: { type: "string" },
+            only: { type: "string" },
+            "confirm-mainnet": { type: "boolean", default: false },
+            republish: { type: "boolean", default: false },
+        },
+        async run(network, values) {
+            const adminKey = signerReference(values, "key", "ADMIN_PRIVATE_KEY");
+            // During development the governor and the admin are usually the same key.
+            const governorKey = process.env.GOVERNOR_PRIVATE_KEY || adminKey;
+            const state = await runDeploy(
+                { network, governorKey, adminKey, republish: values.republish === true },
+                {
+                    from: stringOption(values, "from"),
+                    only: stringOption(values, "only"),
+                    confirmMainnet: values["confirm-mainnet"] === true,
+                },
+                (step, record) => {
+                    if (values.json) return;
+                    const detail = record.note ?? record.error ?? "";
+                    console.log(`${record.status.padEnd(7)}${step.name.padEnd(26)}${detail}`);
+                    for (const digest of record.digests) console.log(`${" ".repeat(33)}${digest}`);
+                }
+            );
+            if (values.json) return state;
+            console.log(`Deployed world to ${network}. State: ${deployStatePath(network)}`);
+            return {};
+        },
+    },
+    status: {
+        summary: "Show which deploy steps are done and which the next run executes",
+        usage: "",
+        options: {},
+        async run(network, values) {
+            const state = loadDeployState(network);
+            const pending = new Set(pendingDeploySteps(state, { confirmMainnet: false }));
+            const steps = DEPLOY_STEPS.map((step) => ({
+                name: step.name,
+                summary: step.summary,
+                destructive: step.destructive,
+                pending: pending.has(step),
+                ...state.steps[step.name],
+            }));
+            if (values.json) return { network, packageId: state.packageId ?? null, steps };
+            console.log(`Network: ${network}  Package: ${state.packageId ?? "(not published)"}`);
+            for (const step of steps) {
+                const status = step.status ?? "pending";
+                const detail = step.error ?? step.note ?? step.summary;
+                const flag = step.destructive ? " [destructive]" : "";
+                console.log(`  ${status.padEnd(8)}${step.name.padEnd(26)}${detail}${flag}`);
+            }
+            return {};
+        },
+    },
+};
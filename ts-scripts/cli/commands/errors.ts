@@ -0,0 +1,159 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/jsonRpc";
+import {
+    decodeCleverErrorCode,
+    DecodedAbort,
+    formatMoveAbort,
+    getErrorInfo,
+    getVersionedErrorInfo,
+    resolveCleverErrorFromBytecode,
+    resolvePackageName,
+} from "../../../tools/error-decoder";
+import { createClient } from "../../utils/client";
+import { getConfig } from "../../utils/config";
+import { decodeAbort, decodeAbortWithBytecode } from "../../utils/move-abort";
+import type { CommandGroup } from "../command";
+import type { CommandResult } from "../output";
+import { stringOption } from "../context";
+
+/** Drops fields the input could not provide, so text output has no `undefined` lines. */
+function defined(result: CommandResult): CommandResult {
+    return Object.fromEntries(Object.entries(result).filter(([, value]) => value !== undefined));
+}
+
+function abortResult(abort: DecodedAbort, original: string): CommandResult {
+    return defined({
+        summary: formatMoveAbort(abort),
+        package: abort.packageName,
+        packageVersion: abort.packageVersion,
+        module: abort.moduleName,
+        function: abort.functionName,
+        line: abort.lineNumber,
+        constant: abort.constantName,
+        message: abort.errorMessage,
+        abortCode: abort.abortCode,
+        commandIndex: abort.commandIndex,
+        note: abort.note,
+        original,
+    });
+}
+
+/** Package of the Move call at `commandIndex`: the version an abort in that command ran under. */
+function calledPackage(
+    response: SuiTransactionBlockResponse,
+    commandIndex: number
+): string | undefined {
+    const kind = response.transaction?.data.transaction;
+    if (kind?.kind !== "ProgrammableTransaction") return undefined;
+    const command = kind.transactions[commandIndex];
+    return command && "MoveCall" in command ? command.MoveCall.package : undefined;
+}
+
+type CodeLocation = { module?: string; packageName?: string; address?: string };
+
+/**
+ * A bare abort code carries no location, so the constant is only found with `--module`: in the
+ * error map, or in the module's bytecode when `--address` names its package. An `--address` that
+ * is a recorded package version selects the map that version was published with. When that
+ * bytecode cannot be read, the constant from the current sources is reported with a `note`.
+ */
+async function decodeCode(
+    code: string,
+    location: CodeLocation,
+    rpcUrl: string
+): Promise<CommandResult> {
+    const fields = decodeCleverErrorCode(code);
+    const clever = BigInt(code) >> 63n === 1n;
+    if (!clever) return { abortCode: code, clever };
+    const moduleName = location.module;
+    const pkg = moduleName
+        ? (location.packageName ?? resolvePackageName(location.address, moduleName))
+        : undefined;
+    let info = moduleName
+        ? getVersionedErrorInfo(location.address, pkg, moduleName, fields.error_code)
+        : undefined;
+    let note: string | undefined;
+    if (!info && moduleName && location.address) {
+        try {
+            info = await resolveCleverErrorFromBytecode(
+                rpcUrl,
+                location.address,
+                moduleName,
+                fields.identifier_index,
+                fields.constant_index
+            );
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            info = getErrorInfo(pkg, moduleName, fields.error_code);
+            if (!info) throw error;
+            note = `From the current sources; the module bytecode could not be read: ${reason}`;
+        }
+    }
+    return defined({
+        abortCode: code,
+        clever,
+        package: pkg,
+        module: moduleName,
+        line: fields.line_number,
+        errorCode: fields.error_code,
+        constant: info?.constantName,
+        message: info?.errorMessage || undefined,
+        note,
+    });
+}
+
+export const errorsCommands: CommandGroup = {
+    decode: {
+        summary: "Decode a Move abort from a code, an error message or a transaction digest",
+        usage: "(--code <abort> [--module <name>] [--package <name> | --address <id>] | --error <message> [--called-package <id>] | --digest <digest>)",
+        options: {
+            code: { type: "string" },
+            module: { type: "string" },
+            package: { type: "string" },
+            address: { type: "string" },
+            error: { type: "string" },
+            "called-package": { type: "string" },
+            digest: { type: "string" },
+        },
+        async run(network, values) {
+            const code = stringOption(values, "code");
+            const error = stringOption(values, "error");
+            const digest = stringOption(values, "digest");
+            if ([code, error, digest].filter(Boolean).length !== 1) {
+                throw new Error("Pass exactly one of --code, --error or --digest");
+            }
+
+            // Constants of packages missing from the error maps are read from their bytecode.
+            const rpcUrl = getConfig(network).url;
+            if (code) {
+                const location = {
+                    module: stringOption(values, "module"),
+                    packageName: stringOption(values, "package"),
+                    address: stringOption(values, "address"),
+                };
+                return await decodeCode(code, location, rpcUrl);
+            }
+            if (error) {
+                const calledPackageId = stringOption(values, "called-package");
+                const abort = await decodeAbortWithBytecode(error, rpcUrl, calledPackageId);
+                if (!abort) throw new Error("No MoveAbort found in the error message");
+                return abortResult(abort, error);
+            }
+
+            const response = await createClient(network).getTransactionBlock({
+                digest: digest!,
+                options: { showEffects: true, showInput: true },
+            });
+            const status = response.effects?.status;
+            if (status?.status === "success") return { digest, status: "success" };
+            const message = status?.error ?? "unknown error";
+            // The abort names the package's original ID; the call target gives the version that ran.
+            const commandIndex = decodeAbort(message)?.commandIndex;
+            const calledPackageId =
+                commandIndex === undefined ? undefined : calledPackage(response, commandIndex);
+            const abort = await decodeAbortWithBytecode(message, rpcUrl, calledPackageId);
+            // A failure other than an abort (gas, object versions) has nothing to decode.
+            if (!abort) return { digest, status: "failure", error: message };
+            return { digest, status: "failure", ...abortResult(abort, message) };
+        },
+    },
+};
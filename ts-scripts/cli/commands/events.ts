@@ -0,0 +1,106 @@
+import type { CommandGroup } from "../command";
+import {
+    numberOption,
+    OptionValues,
+    readOnlyContext,
+    requireOption,
+    stringOption,
+} from "../context";
+
+/**
+ * The store needs `node:sqlite` (Node 22.13+), so it is only loaded by the events commands
+ * rather than by every CLI invocation.
+ */
+async function openStore(network: string, values: OptionValues) {
+    const [indexer, store] = await Promise.all([
+        import("../../indexer/indexer"),
+        import("../../indexer/store"),
+    ]);
+    const dbPath = stringOption(values, "db") ?? store.getDefaultEventStorePath(network);
+    return { ...indexer, ...store, dbPath, db: store.openEventStore(dbPath) };
+}
+
+export const eventsCommands: CommandGroup = {
+    sync: {
+        summary: "Index world events into the local SQLite store (resumes from the saved cursor)",
+        usage: "[--db <file>] [--module <name,...>] [--follow] [--interval <seconds>]",
+        options: {
+            db: { type: "string" },
+            module: { type: "string" },
+            follow: { type: "boolean", default: false },
+            interval: { type: "string" },
+        },
+        async run(network, values) {
+            const { client, config } = await readOnlyContext(network);
+            const { db, dbPath, followWorldEvents, syncWorldEvents } = await openStore(
+                network,
+                values
+            );
+            const modules = stringOption(values, "module")
+                ?.split(",")
+                .map((m) => m.trim());
+
+            try {
+                if (!values.follow) {
+                    const stored = await syncWorldEvents(client, db, config.packageId, { modules });
+                    return { db: dbPath, stored };
+                }
+
+                const controller = new AbortController();
+                process.once("SIGINT", () => controller.abort());
+                process.once("SIGTERM", () => controller.abort());
+                let total = 0;
+                await followWorldEvents(
+                    client,
+                    db,
+                    config.packageId,
+                    numberOption(values, "interval", 10) * 1000,
+                    controller.signal,
+                    {
+                        modules,
+                        onPage: (module, count) => {
+                            total += count;
+                            if (count > 0 && !values.json) {
+                                console.log(`${module}: stored ${count} events`);
+                            }
+                        },
+                    }
+                );
+                return { db: dbPath, stored: total };
+            } finally {
+                db.close();
+            }
+        },
+    },
+    list: {
+        summary: "List indexed events from a table, newest first",
+        usage: "--table <name> [--where <column=value>]... [--limit <n>] [--db <file>]",
+        options: {
+            db: { type: "string" },
+            table: { type: "string" },
+            where: { type: "string", multiple: true },
+            limit: { type: "string" },
+        },
+        async run(network, values) {
+            const { db, queryTable } = await openStore(network, values);
+            try {
+                const filters: Record<string, string> = {};
+                for (const clause of (values.where as string[] | undefined) ?? []) {
+                    const [column, ...rest] = clause.split("=");
+                    if (rest.length === 0)
+                        throw new Error(`--where expects column=value, got "${clause}"`);
+                    filters[column] = rest.join("=");
+                }
+                const rows = queryTable(
+                    db,
+                    requireOption(values, "table"),
+                    filters,
+                    numberOption(values, "limit", 50)
+                );
+                return { rows };
+            } finally {
+                db.close();
+            }
+        },
+    },
+};
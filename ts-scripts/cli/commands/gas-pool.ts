@@ -0,0 +1,102 @@
+import { createClient } from "../../utils/client";
+import type { Network } from "../../utils/config";
+import {
+    createGasPool,
+    GasPool,
+    mergeDust,
+    refreshGasPool,
+    splitGasCoins,
+} from "../../utils/gas-pool";
+import type { CommandGroup } from "../command";
+import { bigintOption, numberOption, OptionValues, resolveKeypair } from "../context";
+
+const MIN_BALANCE_OPTION = { "min-balance": { type: "string" } } as const;
+
+/** The pool of the `--key` account (default ADMIN_PRIVATE_KEY, the usual sponsor). */
+function poolFor(network: Network, values: OptionValues): GasPool {
+    const keypair = resolveKeypair(values, "key", "ADMIN_PRIVATE_KEY");
+    return createGasPool(
+        createClient(network),
+        keypair,
+        bigintOption(values, "min-balance", 50_000_000n)
+    );
+}
+
+function describePool(pool: GasPool) {
+    const coins = [...pool.coins.values()].sort((a, b) =>
+        a.balance > b.balance ? -1 : a.balance < b.balance ? 1 : 0
+    );
+    return {
+        owner: pool.owner,
+        minBalance: pool.minBalance.toString(),
+        usable: coins.filter((coin) => coin.balance >= pool.minBalance).length,
+        coins: coins.map((coin) => ({
+            objectId: coin.objectId,
+            version: coin.version,
+            balance: coin.balance.toString(),
+        })),
+    };
+}
+
+function printPool(pool: GasPool) {
+    const status = describePool(pool);
+    console.log(`Owner: ${status.owner}`);
+    console.log(
+        `Usable coins (>= ${status.minBalance} MIST): ${status.usable} of ${status.coins.length}`
+    );
+    for (const coin of status.coins) {
+        console.log(`  ${coin.objectId}  v${coin.version}  ${coin.balance}`);
+    }
+}
+
+export const gasPoolCommands: CommandGroup = {
+    status: {
+        summary: "List the sponsor's SUI coins and how many can pay gas concurrently",
+        usage: "[--min-balance <mist>]",
+        options: MIN_BALANCE_OPTION,
+        async run(network, values) {
+            const pool = poolFor(network, values);
+            await refreshGasPool(pool);
+            if (values.json) return describePool(pool);
+            printPool(pool);
+            return {};
+        },
+    },
+    split: {
+        summary: "Split the sponsor's SUI so it holds --count coins for parallel transactions",
+        usage: "--count <n> [--balance <mist>] [--min-balance <mist>]",
+        options: {
+            count: { type: "string" },
+            balance: { type: "string" },
+            ...MIN_BALANCE_OPTION,
+        },
+        async run(network, values) {
+            const pool = poolFor(network, values);
+            const count = numberOption(values, "count");
+            if (count === 0) throw new Error("--count must be at least 1");
+            // Default to twice the minimum so a split coin stays usable for a few transactions.
+            const balance = bigintOption(values, "balance", pool.minBalance * 2n);
+            if (balance < pool.minBalance) {
+                throw new Error(`--balance must be at least --min-balance (${pool.minBalance})`);
+            }
+            const digest = await splitGasCoins(pool, count, balance);
+            if (values.json) return { digest, ...describePool(pool) };
+            console.log(digest ? `Split in ${digest}` : `Already ${count} coins of ${balance}`);
+            printPool(pool);
+            return {};
+        },
+    },
+    merge: {
+        summary: "Merge coins below --min-balance back into the largest coin",
+        usage: "[--min-balance <mist>]",
+        options: MIN_BALANCE_OPTION,
+        async run(network, values) {
+            const pool = poolFor(network, values);
+            const digest = await mergeDust(pool);
+            if (values.json) return { digest, ...describePool(pool) };
+            console.log(digest ? `Merged dust in ${digest}` : "No dust to merge");
+            printPool(pool);
+            return {};
+        },
+    },
+};
@@ -0,0 +1,226 @@
+import {
+    anchorGate,
+    authorizeGateExtension,
+    deleteJumpPermit,
+    findJumpPermitId,
+    jump,
+    jumpWithPermit,
+    linkGates,
+    onlineGate,
+    setGateMaxDistance,
+    unlinkGates,
+} from "../../gate/helper";
+import { generateLocationProof } from "../../utils/proof";
+import { waitForSuccess } from "../../utils/transaction";
+import type { CommandGroup } from "../command";
+import {
+    bigintOption,
+    bigintPairsOption,
+    requireOption,
+    resolveKeypair,
+    resolveObjectId,
+    signerContext,
+    stringOption,
+} from "../context";
+import { transactionResult } from "../output";
+
+export const gateCommands: CommandGroup = {
+    anchor: {
+        summary: "Anchor a gate on a network node and share it (AdminACL sponsor)",
+        usage: "--item-id <id> --type-id <id> --node <id> --character <id> --location-hash <hex>",
+        options: {
+            "item-id": { type: "string" },
+            "type-id": { type: "string" },
+            node: { type: "string" },
+            character: { type: "string" },
+            "location-hash": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const itemId = bigintOption(values, "item-id");
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await anchorGate(ctx, characterId, networkNodeId, {
+                itemId,
+                typeId: bigintOption(values, "type-id"),
+                locationHash: requireOption(values, "location-hash"),
+            });
+            return transactionResult(result, {
+                gateId: resolveObjectId(ctx.config, itemId.toString()),
+            });
+        },
+    },
+    online: {
+        summary: "Bring a gate online",
+        usage: "--gate <id> --node <id> --character <id>",
+        options: {
+            gate: { type: "string" },
+            node: { type: "string" },
+            character: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const gateId = resolveObjectId(ctx.config, requireOption(values, "gate"));
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await onlineGate(ctx, characterId, networkNodeId, gateId);
+            return transactionResult(result, { gateId });
+        },
+    },
+    link: {
+        summary: "Link two gates (sponsored; the sponsor key signs the location proof)",
+        usage: "--from <id> --to <id> --character <id> --location-hash <hex>",
+        options: {
+            from: { type: "string" },
+            to: { type: "string" },
+            character: { type: "string" },
+            "location-hash": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const sponsor = resolveKeypair(values, "sponsor-key", "ADMIN_PRIVATE_KEY");
+            const sourceGateId = resolveObjectId(ctx.config, requireOption(values, "from"));
+            const destinationGateId = resolveObjectId(ctx.config, requireOption(values, "to"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+
+            const proofHex = await generateLocationProof(
+                sponsor,
+                ctx.address,
+                characterId,
+                sourceGateId,
+                requireOption(values, "location-hash")
+            );
+            const result = await linkGates(
+                ctx,
+                sponsor,
+                characterId,
+                sourceGateId,
+                destinationGateId,
+                proofHex
+            );
+            return transactionResult(result, { sourceGateId, destinationGateId });
+        },
+    },
+    jump: {
+        summary: "Jump a character between two linked gates (sponsored)",
+        usage: "--from <id> --to <id> --character <id>",
+        options: {
+            from: { type: "string" },
+            to: { type: "string" },
+            character: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const sponsor = resolveKeypair(values, "sponsor-key", "ADMIN_PRIVATE_KEY");
+            const sourceGateId = resolveObjectId(ctx.config, requireOption(values, "from"));
+            const destinationGateId = resolveObjectId(ctx.config, requireOption(values, "to"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await jump(ctx, sponsor, characterId, sourceGateId, destinationGateId);
+            return transactionResult(result, { sourceGateId, destinationGateId });
+        },
+    },
+    unlink: {
+        summary: "Unlink two linked gates owned by the character",
+        usage: "--from <id> --to <id> --character <id>",
+        options: {
+            from: { type: "string" },
+            to: { type: "string" },
+            character: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const sourceGateId = resolveObjectId(ctx.config, requireOption(values, "from"));
+            const destinationGateId = resolveObjectId(ctx.config, requireOption(values, "to"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await unlinkGates(ctx, characterId, sourceGateId, destinationGateId);
+            return transactionResult(result, { sourceGateId, destinationGateId });
+        },
+    },
+    "jump-with-permit": {
+        summary: "Jump a character between two linked gates with a JumpPermit (sponsored)",
+        usage: "--from <id> --to <id> --character <id> [--permit <id>]",
+        options: {
+            from: { type: "string" },
+            to: { type: "string" },
+            character: { type: "string" },
+            permit: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const sponsor = resolveKeypair(values, "sponsor-key", "ADMIN_PRIVATE_KEY");
+            const sourceGateId = resolveObjectId(ctx.config, requireOption(values, "from"));
+            const destinationGateId = resolveObjectId(ctx.config, requireOption(values, "to"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const jumpPermitId =
+                stringOption(values, "permit") ??
+                (await findJumpPermitId(ctx.client, ctx.config, ctx.address, characterId));
+            if (!jumpPermitId) throw new Error(`${ctx.address} holds no JumpPermit`);
+            const result = await jumpWithPermit(
+                ctx,
+                sponsor,
+                characterId,
+                sourceGateId,
+                destinationGateId,
+                jumpPermitId
+            );
+            return transactionResult(result, { sourceGateId, destinationGateId, jumpPermitId });
+        },
+    },
+    "delete-jump-permit": {
+        summary:
+            "Delete a JumpPermit the signer holds (needs a world version with delete_jump_permit)",
+        usage: "[--permit <id> | --character <id>]",
+        options: { permit: { type: "string" }, character: { type: "string" } },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const character = stringOption(values, "character");
+            const jumpPermitId =
+                stringOption(values, "permit") ??
+                (await findJumpPermitId(
+                    ctx.client,
+                    ctx.config,
+                    ctx.address,
+                    character && resolveObjectId(ctx.config, character)
+                ));
+            if (!jumpPermitId) throw new Error(`${ctx.address} holds no JumpPermit`);
+            const result = await deleteJumpPermit(ctx, jumpPermitId);
+            return transactionResult(result, { jumpPermitId });
+        },
+    },
+    "configure-distance": {
+        summary: "Set the max jump distance of gate types in GateConfig (AdminACL sponsor)",
+        usage: "--type-id <id,...> --max-distance <n,...>",
+        options: { "type-id": { type: "string" }, "max-distance": { type: "string" } },
+        async run(network, values) {
+            const pairs = bigintPairsOption(values, "type-id", "max-distance");
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const updated = [];
+            for (const [typeId, maxDistance] of pairs) {
+                const { digest } = await setGateMaxDistance(ctx, typeId, maxDistance);
+                updated.push({
+                    typeId,
+                    maxDistance,
+                    digest: await waitForSuccess(ctx.client, digest),
+                });
+            }
+            return { updated };
+        },
+    },
+    "authorize-extension": {
+        summary: "Authorize an extension's witness type on a gate",
+        usage: "--gate <id> --character <id> --auth-type <package::module::Type>",
+        options: {
+            gate: { type: "string" },
+            character: { type: "string" },
+            "auth-type": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const gateId = resolveObjectId(ctx.config, requireOption(values, "gate"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const authType = requireOption(values, "auth-type");
+            const result = await authorizeGateExtension(ctx, characterId, gateId, authType);
+            return transactionResult(result, { gateId, authType });
+        },
+    },
+};
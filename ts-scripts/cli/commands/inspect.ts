@@ -0,0 +1,16 @@
+import { inspectAssembly } from "../../inspect/inspector";
+import type { CommandGroup } from "../command";
+import { readOnlyContext, requireOption, resolveObjectId } from "../context";
+
+export const inspectCommands: CommandGroup = {
+    assembly: {
+        summary: "Decode an assembly's full on-chain state (any kind)",
+        usage: "--item <itemId|objectId>",
+        options: { item: { type: "string" } },
+        async run(network, values) {
+            const { client, config } = await readOnlyContext(network);
+            const objectId = resolveObjectId(config, requireOption(values, "item"));
+            return inspectAssembly(client, config, objectId);
+        },
+    },
+};
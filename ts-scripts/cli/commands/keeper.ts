@@ -0,0 +1,74 @@
+import { loadKeeperConfig } from "../../keeper/config";
+import { KeeperTarget, runKeeper, runKeeperPass } from "../../keeper/keeper";
+import { createKeeperMetrics, serveMetrics } from "../../keeper/metrics";
+import { createClient } from "../../utils/client";
+import { resolveSigner } from "../../utils/signer";
+import { requireEnv } from "../../utils/helper";
+import type { CommandGroup } from "../command";
+import { numberOption, requireOption, resolveObjectId, signerContext } from "../context";
+
+export const keeperCommands: CommandGroup = {
+    run: {
+        summary: "Keep network nodes fuelled: update_fuel when due, refuel from storage units",
+        usage: "--config <file> [--interval <seconds>] [--metrics-port <port>] [--once]",
+        options: {
+            config: { type: "string" },
+            interval: { type: "string" },
+            "metrics-port": { type: "string" },
+            once: { type: "boolean", default: false },
+        },
+        async run(network, values) {
+            const keeperConfig = loadKeeperConfig(requireOption(values, "config"));
+            // update_fuel and deposit_fuel must be sent or sponsored by an AdminACL sponsor.
+            const adminCtx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const { config } = adminCtx;
+
+            const targets: KeeperTarget[] = keeperConfig.nodes.map(({ node, refuel }) => {
+                const networkNodeId = resolveObjectId(config, node);
+                if (!refuel) return { networkNodeId };
+                const keypair = resolveSigner(requireEnv(refuel.keyEnv ?? "PLAYER_A_PRIVATE_KEY"));
+                return {
+                    networkNodeId,
+                    refuel: {
+                        ctx: {
+                            client: createClient(network),
+                            keypair,
+                            config,
+                            address: keypair.getPublicKey().toSuiAddress(),
+                        },
+                        characterId: resolveObjectId(config, refuel.character),
+                        storageUnitId: resolveObjectId(config, refuel.storageUnit),
+                        threshold: refuel.threshold,
+                        target: refuel.target,
+                        typeId: refuel.typeId === undefined ? undefined : BigInt(refuel.typeId),
+                    },
+                };
+            });
+
+            const metrics = createKeeperMetrics();
+            if (values.once) {
+                await runKeeperPass(adminCtx, adminCtx.keypair, targets, metrics);
+                return {};
+            }
+
+            const port = numberOption(values, "metrics-port", keeperConfig.metricsPort ?? 0);
+            const server = port > 0 ? serveMetrics(metrics, port) : null;
+            const controller = new AbortController();
+            process.once("SIGINT", () => controller.abort());
+            process.once("SIGTERM", () => controller.abort());
+            try {
+                await runKeeper(
+                    adminCtx,
+                    adminCtx.keypair,
+                    targets,
+                    metrics,
+                    numberOption(values, "interval", keeperConfig.intervalSeconds) * 1000,
+                    controller.signal
+                );
+            } finally {
+                server?.close();
+            }
+            return {};
+        },
+    },
+};
@@ -0,0 +1,63 @@
+import * as fs from "node:fs";
+import { encryptKeypair, readKeystore, resolveLocalKeypair } from "../../utils/signer";
+import { requireEnv } from "../../utils/helper";
+import type { CommandGroup } from "../command";
+import { requireOption, resolveKeypair, signerReference, stringOption } from "../context";
+
+export const keysCommands: CommandGroup = {
+    list: {
+        summary: "List the Sui CLI keystore profiles usable as keystore:<alias>",
+        usage: "",
+        options: {},
+        async run(_network, values) {
+            const entries = readKeystore().map(({ alias, address, scheme }) => ({
+                alias: alias ?? null,
+                address,
+                scheme,
+            }));
+            if (values.json) return { keys: entries };
+            for (const entry of entries) {
+                console.log(
+                    `${(entry.alias ?? "-").padEnd(24)} ${entry.scheme.padEnd(10)} ${entry.address}`
+                );
+            }
+            return {};
+        },
+    },
+    address: {
+        summary:
+            "Resolve --key (private key, keystore:, encrypted:, remote:) and print its address",
+        usage: "[--key <ref> | --key-env <VAR>]",
+        options: {},
+        async run(_network, values) {
+            const signer = resolveKeypair(values, "key", "ADMIN_PRIVATE_KEY");
+            const result = { address: signer.toSuiAddress(), scheme: signer.getKeyScheme() };
+            if (values.json) return result;
+            console.log(`${result.address} (${result.scheme})`);
+            return {};
+        },
+    },
+    encrypt: {
+        summary: "Write --key to a passphrase-encrypted file usable as encrypted:<file>",
+        usage: "--out <file> [--key <ref> | --key-env <VAR>] [--passphrase-env <VAR>]",
+        options: {
+            out: { type: "string" },
+            "passphrase-env": { type: "string" },
+        },
+        async run(_network, values) {
+            const out = requireOption(values, "out");
+            if (fs.existsSync(out)) throw new Error(`${out} already exists`);
+            const keypair = resolveLocalKeypair(
+                signerReference(values, "key", "ADMIN_PRIVATE_KEY")
+            );
+            const passphrase = requireEnv(
+                stringOption(values, "passphrase-env") ?? "SUI_KEY_PASSPHRASE"
+            );
+            const file = encryptKeypair(keypair, passphrase);
+            fs.writeFileSync(out, JSON.stringify(file, null, 2) + "\n", { mode: 0o600 });
+            if (values.json) return { out, address: file.address };
+            console.log(`Encrypted key for ${file.address} written to ${out}`);
+            return {};
+        },
+    },
+};
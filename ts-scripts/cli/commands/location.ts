@@ -0,0 +1,85 @@
+import * as fs from "node:fs";
+import { parse } from "yaml";
+import {
+    checkLocationHashFixtures,
+    hashLocations,
+    HashByteOrder,
+    LocationInput,
+    locationHashInputs,
+    poseidonHash,
+    poseidonOnChain,
+} from "../../location/hash";
+import type { CommandGroup } from "../command";
+import { readOnlyContext, requireOption, stringOption } from "../context";
+
+type NamedLocation = LocationInput & { name?: string };
+
+function loadLocations(filePath: string): NamedLocation[] {
+    if (!fs.existsSync(filePath)) throw new Error(`Locations file not found at ${filePath}`);
+    const raw = parse(fs.readFileSync(filePath, "utf-8"), { intAsBigInt: true }) as unknown;
+    const list = Array.isArray(raw) ? raw : (raw as { locations?: unknown })?.locations;
+    if (!Array.isArray(list) || list.length === 0) {
+        throw new Error("Locations file must be a list (or { locations: [...] }) of locations");
+    }
+    return list as NamedLocation[];
+}
+
+export const locationCommands: CommandGroup = {
+    hash: {
+        summary: "Compute location hashes and reveal_location coordinates from coordinates",
+        usage: "(--solarsystem <id> --x <n> --y <n> --z <n> [--salt <n>] | --file <json|yaml>) [--byte-order be|le] [--check-chain]",
+        options: {
+            solarsystem: { type: "string" },
+            x: { type: "string" },
+            y: { type: "string" },
+            z: { type: "string" },
+            salt: { type: "string" },
+            file: { type: "string" },
+            "byte-order": { type: "string" },
+            "check-chain": { type: "boolean", default: false },
+        },
+        async run(network, values) {
+            const byteOrder = (stringOption(values, "byte-order") ?? "le") as HashByteOrder;
+            if (byteOrder !== "be" && byteOrder !== "le") {
+                throw new Error(`--byte-order must be be or le, got "${byteOrder}"`);
+            }
+            const file = stringOption(values, "file");
+            const locations: NamedLocation[] = file
+                ? loadLocations(file)
+                : [
+                      {
+                          solarsystem: requireOption(values, "solarsystem"),
+                          x: requireOption(values, "x"),
+                          y: requireOption(values, "y"),
+                          z: requireOption(values, "z"),
+                          salt: stringOption(values, "salt"),
+                      },
+                  ];
+
+            checkLocationHashFixtures();
+            const hashed = hashLocations(locations, byteOrder).map(
+                ({ location, hash, coordinates }) => ({
+                    name: location.name,
+                    hash,
+                    coordinates,
+                })
+            );
+            if (!values["check-chain"]) return { locations: hashed };
+
+            // Cross-check against sui::poseidon::poseidon_bn254 for the same field inputs.
+            const { client } = await readOnlyContext(network);
+            const mismatches: string[] = [];
+            for (const [index, location] of locations.entries()) {
+                const inputs = locationHashInputs(location);
+                const onChain = await poseidonOnChain(client, inputs);
+                if (onChain !== poseidonHash(inputs)) {
+                    mismatches.push(location.name ?? `locations[${index}]`);
+                }
+            }
+            if (mismatches.length > 0) {
+                throw new Error(`Hash differs from poseidon_bn254 for ${mismatches.join(", ")}`);
+            }
+            return { locations: hashed, checkedOnChain: true };
+        },
+    },
+};
@@ -0,0 +1,400 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { inspectAssembly } from "../../inspect/inspector";
+import { EnergyRequest, planEnergyBudget } from "../../network-node/energy-planner";
+import { forecastFuel, fuelStateFromView, needUpdate } from "../../network-node/fuel-simulator";
+import {
+    anchorNetworkNode,
+    depositFuel,
+    getAssemblyEnergy,
+    getConnectedAssemblies,
+    getFuelEfficiency,
+    getFuelQuantity,
+    isNetworkNodeOnline,
+    needsFuelUpdate,
+    offlineNetworkNode,
+    onlineNetworkNode,
+    setEnergyConfig,
+    setFuelEfficiency,
+    unanchorNetworkNode,
+    updateFuel,
+} from "../../network-node/helper";
+import {
+    buildTopology,
+    formatTopology,
+    getOwnedNetworkNodeIds,
+    TOPOLOGY_FORMATS,
+    TopologyFormat,
+} from "../../network-node/topology";
+import type { HydratedWorldConfig } from "../../utils/config";
+import { getClockMs } from "../../utils/move-content";
+import { waitForSuccess } from "../../utils/transaction";
+import type { CommandGroup } from "../command";
+import {
+    bigintOption,
+    bigintPairsOption,
+    numberOption,
+    OptionValues,
+    readOnlyContext,
+    requireOption,
+    resolveKeypair,
+    resolveObjectId,
+    signerContext,
+    stringOption,
+} from "../context";
+import { transactionResult } from "../output";
+
+const ZERO_ADDRESS = "0x0";
+
+/** Network nodes from `--node <id,...>` and/or the nodes owned by `--character`. */
+async function resolveNetworkNodeIds(
+    client: SuiJsonRpcClient,
+    config: HydratedWorldConfig,
+    values: OptionValues
+): Promise<string[]> {
+    const character = stringOption(values, "character");
+    const nodes = stringOption(values, "node");
+    if (!character && !nodes) throw new Error("Pass --character or --node");
+    const networkNodeIds = character
+        ? await getOwnedNetworkNodeIds(client, config.packageId, resolveObjectId(config, character))
+        : [];
+    for (const node of nodes?.split(",") ?? []) {
+        networkNodeIds.push(resolveObjectId(config, node.trim()));
+    }
+    return [...new Set(networkNodeIds)];
+}
+
+function formatDuration(ms: bigint): string {
+    const minutes = ms / 60_000n;
+    const [days, hours] = [minutes / 1440n, (minutes % 1440n) / 60n];
+    return `${days}d ${hours}h ${minutes % 60n}m`;
+}
+
+export const networkNodeCommands: CommandGroup = {
+    status: {
+        summary: "Show fuel, online state and connected assemblies",
+        usage: "--node <id>",
+        options: { node: { type: "string" } },
+        async run(network, values) {
+            const { client, config } = await readOnlyContext(network);
+            const networkNodeId = resolveObjectId(config, requireOption(values, "node"));
+            const [fuelQuantity, online, connectedAssemblies] = await Promise.all([
+                getFuelQuantity(networkNodeId, client, config, ZERO_ADDRESS),
+                isNetworkNodeOnline(networkNodeId, client, config, ZERO_ADDRESS),
+                getConnectedAssemblies(networkNodeId, client, config, ZERO_ADDRESS),
+            ]);
+            return { networkNodeId, online, fuelQuantity, connectedAssemblies };
+        },
+    },
+    anchor: {
+        summary: "Anchor a network node for a character and share it (AdminACL sponsor)",
+        usage: "--item-id <id> --type-id <id> --character <id> --location-hash <hex> [--fuel-max-capacity <n>] [--fuel-burn-rate-ms <ms>] [--max-energy <n>]",
+        options: {
+            "item-id": { type: "string" },
+            "type-id": { type: "string" },
+            character: { type: "string" },
+            "location-hash": { type: "string" },
+            "fuel-max-capacity": { type: "string" },
+            "fuel-burn-rate-ms": { type: "string" },
+            "max-energy": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const itemId = bigintOption(values, "item-id");
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await anchorNetworkNode(ctx, characterId, {
+                itemId,
+                typeId: bigintOption(values, "type-id"),
+                locationHash: requireOption(values, "location-hash"),
+                fuelMaxCapacity: bigintOption(values, "fuel-max-capacity", 10000n),
+                fuelBurnRateInMs: bigintOption(values, "fuel-burn-rate-ms", 3_600_000n),
+                maxEnergyProduction: bigintOption(values, "max-energy", 100n),
+            });
+            return transactionResult(result, {
+                networkNodeId: resolveObjectId(ctx.config, itemId.toString()),
+            });
+        },
+    },
+    unanchor: {
+        summary:
+            "Destroy a network node, taking its connected assemblies offline (AdminACL sponsor)",
+        usage: "--node <id>",
+        options: { node: { type: "string" } },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const { result, connectedAssemblies } = await unanchorNetworkNode(ctx, networkNodeId);
+            return transactionResult(result, { networkNodeId, connectedAssemblies });
+        },
+    },
+    online: {
+        summary: "Bring a network node online",
+        usage: "--node <id> --character <id>",
+        options: { node: { type: "string" }, character: { type: "string" } },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await onlineNetworkNode(ctx, characterId, networkNodeId);
+            return transactionResult(result, { networkNodeId });
+        },
+    },
+    offline: {
+        summary: "Take a network node offline along with its connected assemblies",
+        usage: "--node <id> --character <id>",
+        options: { node: { type: "string" }, character: { type: "string" } },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const { result, connectedAssemblies } = await offlineNetworkNode(
+                ctx,
+                characterId,
+                networkNodeId
+            );
+            return transactionResult(result, { networkNodeId, connectedAssemblies });
+        },
+    },
+    "deposit-fuel": {
+        summary: "Deposit fuel into a network node (sponsored)",
+        usage: "--node <id> --character <id> --type-id <id> --quantity <n> [--volume <n>]",
+        options: {
+            node: { type: "string" },
+            character: { type: "string" },
+            "type-id": { type: "string" },
+            quantity: { type: "string" },
+            volume: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const sponsor = resolveKeypair(values, "sponsor-key", "ADMIN_PRIVATE_KEY");
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await depositFuel(ctx, sponsor, characterId, networkNodeId, {
+                typeId: bigintOption(values, "type-id"),
+                volume: bigintOption(values, "volume", 10n),
+                quantity: bigintOption(values, "quantity"),
+            });
+            return transactionResult(result, { networkNodeId });
+        },
+    },
+    "update-fuel": {
+        summary:
+            "Burn elapsed fuel and offline connected assemblies if depleted (AdminACL sponsor)",
+        usage: "--node <id>",
+        options: { node: { type: "string" } },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const { result, connectedAssemblies } = await updateFuel(ctx, networkNodeId);
+            const fuelQuantity = await getFuelQuantity(
+                networkNodeId,
+                ctx.client,
+                ctx.config,
+                ctx.address
+            );
+            return transactionResult(result, { networkNodeId, connectedAssemblies, fuelQuantity });
+        },
+    },
+    "configure-fuel": {
+        summary: "Set the efficiency (%) of fuel types in FuelConfig (AdminACL sponsor)",
+        usage: "--type-id <id,...> --efficiency <n,...>",
+        options: { "type-id": { type: "string" }, efficiency: { type: "string" } },
+        async run(network, values) {
+            const pairs = bigintPairsOption(values, "type-id", "efficiency");
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const updated = [];
+            for (const [typeId, efficiency] of pairs) {
+                const { digest } = await setFuelEfficiency(ctx, typeId, efficiency);
+                updated.push({
+                    typeId,
+                    efficiency,
+                    digest: await waitForSuccess(ctx.client, digest),
+                });
+            }
+            return { updated };
+        },
+    },
+    "configure-energy": {
+        summary: "Set the energy of assembly types in EnergyConfig (AdminACL sponsor)",
+        usage: "--type-id <id,...> --energy <n,...>",
+        options: { "type-id": { type: "string" }, energy: { type: "string" } },
+        async run(network, values) {
+            const pairs = bigintPairsOption(values, "type-id", "energy");
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const updated = [];
+            for (const [typeId, energy] of pairs) {
+                const { digest } = await setEnergyConfig(ctx, typeId, energy);
+                updated.push({ typeId, energy, digest: await waitForSuccess(ctx.client, digest) });
+            }
+            return { updated };
+        },
+    },
+    "forecast-fuel": {
+        summary: "Forecast time-to-empty and the fuel needed to stay online for N days",
+        usage: "(--character <id> | --node <id,...>) [--days <n>]",
+        options: {
+            character: { type: "string" },
+            node: { type: "string" },
+            days: { type: "string" },
+        },
+        async run(network, values) {
+            const { client, config } = await readOnlyContext(network);
+            const days = numberOption(values, "days", 7);
+            const networkNodeIds = await resolveNetworkNodeIds(client, config, values);
+            const nowMs = await getClockMs(client);
+
+            const forecasts = [];
+            for (const networkNodeId of networkNodeIds) {
+                const view = await inspectAssembly(client, config, networkNodeId);
+                if (view.kind !== "network_node" || !view.fuel) {
+                    throw new Error(
+                        `Object ${networkNodeId} is a ${view.kind}, not a network node`
+                    );
+                }
+                const fuel = fuelStateFromView(view.fuel);
+                if (fuel.typeId === null) {
+                    forecasts.push({ networkNodeId, itemId: view.itemId, fuelType: null });
+                    continue;
+                }
+                const efficiency = await getFuelEfficiency(
+                    fuel.typeId,
+                    client,
+                    config,
+                    ZERO_ADDRESS
+                );
+                if (efficiency === null) {
+                    throw new Error(`Fuel efficiency is not configured for type ${fuel.typeId}`);
+                }
+
+                // Cross-check the port against the contract's own `need_update` at chain time.
+                const onChain = await needsFuelUpdate(networkNodeId, client, config, ZERO_ADDRESS);
+                const simulated = needUpdate(fuel, efficiency, nowMs);
+                const forecast = forecastFuel(fuel, efficiency, nowMs, days);
+                forecasts.push({
+                    networkNodeId,
+                    itemId: view.itemId,
+                    status: view.status,
+                    fuelType: fuel.typeId,
+                    efficiency,
+                    ...forecast,
+                    depletesAt:
+                        forecast.depletesAtMs === null
+                            ? null
+                            : new Date(Number(forecast.depletesAtMs)).toISOString(),
+                    timeToEmpty:
+                        forecast.timeToEmptyMs === null
+                            ? null
+                            : formatDuration(forecast.timeToEmptyMs),
+                    needUpdate: simulated,
+                    validation:
+                        onChain === null
+                            ? "unavailable"
+                            : onChain === simulated
+                              ? "match"
+                              : "mismatch",
+                });
+            }
+            return { clockMs: nowMs, days, nodes: forecasts };
+        },
+    },
+    topology: {
+        summary: "Export the network node → assembly → linked gate graph (JSON, DOT, Mermaid)",
+        usage: "(--character <id> | --node <id,...>) [--format json|dot|mermaid] [--out <file>]",
+        options: {
+            character: { type: "string" },
+            node: { type: "string" },
+            format: { type: "string" },
+            out: { type: "string" },
+        },
+        async run(network, values) {
+            const { client, config } = await readOnlyContext(network);
+            const format = (stringOption(values, "format") ?? "json") as TopologyFormat;
+            if (!TOPOLOGY_FORMATS.includes(format)) {
+                throw new Error(
+                    `Unknown format "${format}" (expected one of ${TOPOLOGY_FORMATS.join(", ")})`
+                );
+            }
+
+            const networkNodeIds = await resolveNetworkNodeIds(client, config, values);
+            const topology = await buildTopology(client, config, networkNodeIds);
+            const out = stringOption(values, "out");
+            if (out) {
+                fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+                fs.writeFileSync(out, formatTopology(topology, format) + "\n", "utf-8");
+                return {
+                    file: out,
+                    format,
+                    nodes: topology.nodes.length,
+                    edges: topology.edges.length,
+                };
+            }
+            if (values.json) {
+                return format === "json"
+                    ? { ...topology }
+                    : { format, graph: formatTopology(topology, format) };
+            }
+            // Printed unwrapped so the output can be piped into `dot`, `jq` or a .mmd file.
+            console.log(formatTopology(topology, format));
+            return {};
+        },
+    },
+    "plan-energy": {
+        summary:
+            "Check whether assemblies fit the node's energy budget before bringing them online",
+        usage: "--node <id> (--assembly <id,...> | --type <typeId,...>)",
+        options: {
+            node: { type: "string" },
+            assembly: { type: "string" },
+            type: { type: "string" },
+        },
+        async run(network, values) {
+            const { client, config } = await readOnlyContext(network);
+            const networkNodeId = resolveObjectId(config, requireOption(values, "node"));
+            const node = await inspectAssembly(client, config, networkNodeId);
+            if (node.kind !== "network_node" || !node.energy) {
+                throw new Error(`Object ${networkNodeId} is a ${node.kind}, not a network node`);
+            }
+
+            const planned: { label: string; typeId: bigint }[] = [];
+            const skipped: { label: string; reason: string }[] = [];
+            for (const value of stringOption(values, "assembly")?.split(",") ?? []) {
+                const assembly = await inspectAssembly(
+                    client,
+                    config,
+                    resolveObjectId(config, value.trim())
+                );
+                if (assembly.status === "ONLINE") {
+                    // Its energy is already part of the node's total_reserved_energy.
+                    skipped.push({ label: assembly.objectId, reason: "already online" });
+                    continue;
+                }
+                planned.push({ label: assembly.objectId, typeId: BigInt(assembly.typeId) });
+            }
+            for (const value of stringOption(values, "type")?.split(",") ?? []) {
+                planned.push({ label: `type:${value.trim()}`, typeId: BigInt(value.trim()) });
+            }
+            if (planned.length === 0 && skipped.length === 0) {
+                throw new Error("Pass --assembly or --type");
+            }
+
+            const requests: EnergyRequest[] = [];
+            for (const { label, typeId } of planned) {
+                const required = await getAssemblyEnergy(typeId, client, config, ZERO_ADDRESS);
+                if (required === null) {
+                    throw new Error(`Could not read the energy requirement for type ${typeId}`);
+                }
+                requests.push({ label, typeId, required });
+            }
+
+            return {
+                networkNodeId,
+                status: node.status,
+                maxEnergyProduction: node.energy.maxEnergyProduction,
+                ...planEnergyBudget(node.energy, requests),
+                skipped,
+            };
+        },
+    },
+};
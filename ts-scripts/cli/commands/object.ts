@@ -0,0 +1,20 @@
+import { getTenant } from "../../utils/config";
+import type { CommandGroup } from "../command";
+import { readOnlyContext, requireOption, resolveObjectId } from "../context";
+
+export const objectCommands: CommandGroup = {
+    id: {
+        summary: "Derive the object ID of an in-game item",
+        usage: "--item <itemId>",
+        options: { item: { type: "string" } },
+        async run(network, values) {
+            const { config } = await readOnlyContext(network);
+            const itemId = requireOption(values, "item");
+            return {
+                itemId,
+                tenant: getTenant(),
+                objectId: resolveObjectId(config, itemId),
+            };
+        },
+    },
+};
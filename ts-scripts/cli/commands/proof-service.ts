@@ -0,0 +1,69 @@
+import { isAuthorizedServerAddress } from "../../access/helper";
+import { loadProofServiceConfig } from "../../proof-service/config";
+import { ProofPolicy } from "../../proof-service/policy";
+import { serveProofService } from "../../proof-service/server";
+import { requireEnv } from "../../utils/helper";
+import type { CommandGroup } from "../command";
+import { numberOption, requireOption, resolveObjectId, signerContext } from "../context";
+
+export const proofServiceCommands: CommandGroup = {
+    serve: {
+        summary: "Serve a local HTTP signer for location proofs",
+        usage: "--config <file> [--port <port>]",
+        options: {
+            config: { type: "string" },
+            port: { type: "string" },
+        },
+        async run(network, values) {
+            const serviceConfig = loadProofServiceConfig(requireOption(values, "config"));
+            // The signing key must be registered in the ServerAddressRegistry (setup-access).
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            if (ctx.keypair.getKeyScheme() !== "ED25519") {
+                throw new Error("Location proofs must be signed with an Ed25519 key");
+            }
+            const registered = await isAuthorizedServerAddress(
+                ctx.client,
+                ctx.config,
+                ctx.address,
+                ctx.address
+            );
+            if (registered === false) {
+                throw new Error(`${ctx.address} is not registered in the ServerAddressRegistry`);
+            }
+
+            const policy: ProofPolicy = {
+                maxDeadlineMs: BigInt(serviceConfig.maxDeadlineSeconds) * 1000n,
+                defaultDeadlineMs: BigInt(serviceConfig.defaultDeadlineSeconds) * 1000n,
+                allowedStructures: serviceConfig.allowedStructures
+                    ? new Set(
+                          serviceConfig.allowedStructures.map((id) =>
+                              resolveObjectId(ctx.config, id)
+                          )
+                      )
+                    : null,
+                rateLimit: serviceConfig.rateLimit
+                    ? {
+                          requests: serviceConfig.rateLimit.requests,
+                          windowMs: serviceConfig.rateLimit.windowSeconds * 1000,
+                      }
+                    : null,
+            };
+            const port = numberOption(values, "port", serviceConfig.port);
+            const server = serveProofService(ctx.keypair, policy, {
+                host: serviceConfig.host,
+                port,
+                token: serviceConfig.tokenEnv ? requireEnv(serviceConfig.tokenEnv) : null,
+            });
+            console.log(
+                `Signing location proofs as ${ctx.address} on http://${serviceConfig.host}:${port}`
+            );
+
+            await new Promise<void>((resolve) => {
+                process.once("SIGINT", resolve);
+                process.once("SIGTERM", resolve);
+            });
+            await new Promise((resolve) => server.close(resolve));
+            return {};
+        },
+    },
+};
@@ -0,0 +1,35 @@
+import * as fs from "node:fs";
+import { verifyLocationProof } from "../../location/proof-verifier";
+import { getClockMs } from "../../utils/move-content";
+import type { CommandGroup } from "../command";
+import { readOnlyContext, stringOption } from "../context";
+
+export const proofCommands: CommandGroup = {
+    verify: {
+        summary: "Decode a location proof and check signature, server registry and deadline",
+        usage: "(--proof <hex> | --proof-file <file>) [--dev-inspect]",
+        options: {
+            proof: { type: "string" },
+            "proof-file": { type: "string" },
+            "dev-inspect": { type: "boolean", default: false },
+        },
+        async run(network, values) {
+            const file = stringOption(values, "proof-file");
+            const proofHex = file
+                ? fs.readFileSync(file, "utf-8").trim()
+                : stringOption(values, "proof");
+            if (!proofHex) throw new Error("Pass --proof or --proof-file");
+
+            const { client, config } = await readOnlyContext(network);
+            const report = await verifyLocationProof(
+                client,
+                config,
+                proofHex,
+                await getClockMs(client),
+                { devInspect: values["dev-inspect"] === true }
+            );
+            if (!report.valid) process.exitCode = 1;
+            return report;
+        },
+    },
+};
@@ -0,0 +1,62 @@
+import { loadSeedManifest, SeedManifest } from "../../seed/manifest";
+import { planSeed } from "../../seed/plan";
+import { defaultSeedIdMapPath, runSeed, SeedStepResult } from "../../seed/seeder";
+import { getTenant } from "../../utils/config";
+import type { CommandGroup } from "../command";
+import { OptionValues, requireOption, signerContext, stringOption } from "../context";
+
+const MANIFEST_OPTION = { manifest: { type: "string" } } as const;
+
+/** The manifest's tenant applies unless --tenant overrides it. */
+function loadManifest(values: OptionValues): SeedManifest {
+    const manifest = loadSeedManifest(requireOption(values, "manifest"));
+    if (manifest.tenant && !stringOption(values, "tenant")) process.env.TENANT = manifest.tenant;
+    return manifest;
+}
+
+function printStep(result: SeedStepResult) {
+    const detail = result.digest ?? result.objectId ?? "";
+    console.log(`${result.status.padEnd(9)}${result.key.padEnd(40)}${detail}`);
+}
+
+export const seedCommands: CommandGroup = {
+    plan: {
+        summary: "Print the steps a seed manifest runs, in dependency order",
+        usage: "--manifest <file>",
+        options: MANIFEST_OPTION,
+        async run(_network, values) {
+            const steps = planSeed(loadManifest(values));
+            if (values.json) {
+                return steps.map((step) => ({ key: step.key, dependsOn: step.dependsOn }));
+            }
+            steps.forEach((step, index) => {
+                const after = step.dependsOn.length ? `  (after ${step.dependsOn.join(", ")})` : "";
+                console.log(`${String(index + 1).padStart(3)}. ${step.key}${after}`);
+            });
+            return {};
+        },
+    },
+    apply: {
+        summary: "Create everything in a seed manifest, skipping what already exists",
+        usage: "--manifest <file> [--out <file>]",
+        options: {
+            ...MANIFEST_OPTION,
+            out: { type: "string" },
+        },
+        async run(network, values) {
+            const manifest = loadManifest(values);
+            const steps = planSeed(manifest);
+            const admin = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const out = stringOption(values, "out") ?? defaultSeedIdMapPath(network);
+            const idMap = await runSeed(
+                { network, admin, manifest, tenant: getTenant(), owners: new Map() },
+                steps,
+                out,
+                values.json ? undefined : printStep
+            );
+            if (values.json) return idMap;
+            console.log(`ID map written to ${out}`);
+            return {};
+        },
+    },
+};
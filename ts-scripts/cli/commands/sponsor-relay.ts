@@ -0,0 +1,44 @@
+import { resolveAllowlist } from "../../sponsor-relay/allowlist";
+import { loadSponsorRelayConfig } from "../../sponsor-relay/config";
+import { createSponsorRelay } from "../../sponsor-relay/relay";
+import { serveSponsorRelay } from "../../sponsor-relay/server";
+import { requireEnv } from "../../utils/helper";
+import type { CommandGroup } from "../command";
+import { numberOption, requireOption, signerContext } from "../context";
+
+export const sponsorRelayCommands: CommandGroup = {
+    serve: {
+        summary: "Serve an HTTP relay that sponsors allowlisted player transactions",
+        usage: "--config <file> [--port <port>]",
+        options: {
+            config: { type: "string" },
+            port: { type: "string" },
+        },
+        async run(network, values) {
+            const relayConfig = loadSponsorRelayConfig(requireOption(values, "config"));
+            // The sponsor pays gas and must be in the AdminACL for sponsor-gated world calls.
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const relay = createSponsorRelay(
+                ctx.client,
+                ctx.keypair,
+                resolveAllowlist(relayConfig.allowedTargets, ctx.config.packageId),
+                BigInt(relayConfig.maxGasBudget),
+                relayConfig.reservationSeconds * 1000
+            );
+            const port = numberOption(values, "port", relayConfig.port);
+            const server = serveSponsorRelay(relay, {
+                host: relayConfig.host,
+                port,
+                token: relayConfig.tokenEnv ? requireEnv(relayConfig.tokenEnv) : null,
+            });
+            console.log(`Sponsoring as ${ctx.address} on http://${relayConfig.host}:${port}`);
+
+            await new Promise<void>((resolve) => {
+                process.once("SIGINT", resolve);
+                process.once("SIGTERM", resolve);
+            });
+            await new Promise((resolve) => server.close(resolve));
+            return {};
+        },
+    },
+};
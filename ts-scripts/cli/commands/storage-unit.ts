@@ -0,0 +1,169 @@
+import {
+    anchorStorageUnit,
+    authorizeStorageUnitExtension,
+    chainItemToGame,
+    gameItemToChain,
+    onlineStorageUnit,
+} from "../../storage-unit/helper";
+import { generateLocationProof } from "../../utils/proof";
+import type { CommandGroup } from "../command";
+import {
+    bigintOption,
+    numberOption,
+    requireOption,
+    resolveKeypair,
+    resolveObjectId,
+    signerContext,
+} from "../context";
+import { transactionResult } from "../output";
+
+export const storageUnitCommands: CommandGroup = {
+    anchor: {
+        summary: "Anchor a storage unit on a network node and share it (AdminACL sponsor)",
+        usage: "--item-id <id> --type-id <id> --node <id> --character <id> --location-hash <hex> --max-capacity <n>",
+        options: {
+            "item-id": { type: "string" },
+            "type-id": { type: "string" },
+            node: { type: "string" },
+            character: { type: "string" },
+            "location-hash": { type: "string" },
+            "max-capacity": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const itemId = bigintOption(values, "item-id");
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await anchorStorageUnit(ctx, characterId, networkNodeId, {
+                itemId,
+                typeId: bigintOption(values, "type-id"),
+                maxCapacity: bigintOption(values, "max-capacity"),
+                locationHash: requireOption(values, "location-hash"),
+            });
+            return transactionResult(result, {
+                storageUnitId: resolveObjectId(ctx.config, itemId.toString()),
+            });
+        },
+    },
+    online: {
+        summary: "Bring a storage unit online",
+        usage: "--storage-unit <id> --node <id> --character <id>",
+        options: {
+            "storage-unit": { type: "string" },
+            node: { type: "string" },
+            character: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const storageUnitId = resolveObjectId(
+                ctx.config,
+                requireOption(values, "storage-unit")
+            );
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await onlineStorageUnit(ctx, characterId, networkNodeId, storageUnitId);
+            return transactionResult(result, { storageUnitId });
+        },
+    },
+    "game-to-chain": {
+        summary: "Bring a game item into a storage unit inventory (sponsored)",
+        usage: "--storage-unit <id> --character <id> --item-id <id> --type-id <id> --quantity <n> [--volume <n>] [--ephemeral]",
+        options: {
+            "storage-unit": { type: "string" },
+            character: { type: "string" },
+            "item-id": { type: "string" },
+            "type-id": { type: "string" },
+            quantity: { type: "string" },
+            volume: { type: "string" },
+            ephemeral: { type: "boolean", default: false },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const sponsor = resolveKeypair(values, "sponsor-key", "ADMIN_PRIVATE_KEY");
+            const storageUnitId = resolveObjectId(
+                ctx.config,
+                requireOption(values, "storage-unit")
+            );
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const inventory = values.ephemeral ? "ephemeral" : "owner";
+            const result = await gameItemToChain(
+                ctx,
+                sponsor,
+                characterId,
+                storageUnitId,
+                {
+                    itemId: bigintOption(values, "item-id"),
+                    typeId: bigintOption(values, "type-id"),
+                    volume: bigintOption(values, "volume", 10n),
+                    quantity: numberOption(values, "quantity"),
+                },
+                inventory
+            );
+            return transactionResult(result, { storageUnitId, inventory });
+        },
+    },
+    "chain-to-game": {
+        summary: "Move items from a storage unit's owner inventory back to the game",
+        usage: "--storage-unit <id> --character <id> --type-id <id> --quantity <n> --location-hash <hex>",
+        options: {
+            "storage-unit": { type: "string" },
+            character: { type: "string" },
+            "type-id": { type: "string" },
+            quantity: { type: "string" },
+            "location-hash": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            // The sponsor key signs the location proof as the registered server address
+            const server = resolveKeypair(values, "sponsor-key", "ADMIN_PRIVATE_KEY");
+            const storageUnitId = resolveObjectId(
+                ctx.config,
+                requireOption(values, "storage-unit")
+            );
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const proofHex = await generateLocationProof(
+                server,
+                ctx.address,
+                characterId,
+                storageUnitId,
+                requireOption(values, "location-hash")
+            );
+            const result = await chainItemToGame(
+                ctx,
+                characterId,
+                storageUnitId,
+                {
+                    typeId: bigintOption(values, "type-id"),
+                    quantity: numberOption(values, "quantity"),
+                },
+                proofHex
+            );
+            return transactionResult(result, { storageUnitId });
+        },
+    },
+    "authorize-extension": {
+        summary: "Authorize an extension's witness type on a storage unit",
+        usage: "--storage-unit <id> --character <id> --auth-type <package::module::Type>",
+        options: {
+            "storage-unit": { type: "string" },
+            character: { type: "string" },
+            "auth-type": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const storageUnitId = resolveObjectId(
+                ctx.config,
+                requireOption(values, "storage-unit")
+            );
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const authType = requireOption(values, "auth-type");
+            const result = await authorizeStorageUnitExtension(
+                ctx,
+                characterId,
+                storageUnitId,
+                authType
+            );
+            return transactionResult(result, { storageUnitId, authType });
+        },
+    },
+};
@@ -0,0 +1,160 @@
+import {
+    defaultConformanceCases,
+    formatConformance,
+    runConformance,
+} from "../../turret/conformance";
+import {
+    anchorTurret,
+    authorizeTurretExtension,
+    getTurretExtensionInfo,
+    onlineTurret,
+} from "../../turret/helper";
+import { getTurretOwner } from "../../turret/priority";
+import { formatDiffTable, loadScenario, simulateScenario } from "../../turret/simulator";
+import type { CommandGroup } from "../command";
+import {
+    bigintOption,
+    requireOption,
+    resolveObjectId,
+    signerContext,
+    stringOption,
+} from "../context";
+import { transactionResult } from "../output";
+
+export const turretCommands: CommandGroup = {
+    anchor: {
+        summary: "Anchor a turret on a network node and share it (AdminACL sponsor)",
+        usage: "--item-id <id> --type-id <id> --node <id> --character <id> --location-hash <hex>",
+        options: {
+            "item-id": { type: "string" },
+            "type-id": { type: "string" },
+            node: { type: "string" },
+            character: { type: "string" },
+            "location-hash": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "ADMIN_PRIVATE_KEY");
+            const itemId = bigintOption(values, "item-id");
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await anchorTurret(ctx, characterId, networkNodeId, {
+                itemId,
+                typeId: bigintOption(values, "type-id"),
+                locationHash: requireOption(values, "location-hash"),
+            });
+            return transactionResult(result, {
+                turretId: resolveObjectId(ctx.config, itemId.toString()),
+            });
+        },
+    },
+    online: {
+        summary: "Bring a turret online",
+        usage: "--turret <id> --node <id> --character <id>",
+        options: {
+            turret: { type: "string" },
+            node: { type: "string" },
+            character: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const turretId = resolveObjectId(ctx.config, requireOption(values, "turret"));
+            const networkNodeId = resolveObjectId(ctx.config, requireOption(values, "node"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const result = await onlineTurret(ctx, characterId, networkNodeId, turretId);
+            return transactionResult(result, { turretId });
+        },
+    },
+    "authorize-extension": {
+        summary: "Authorize an extension's witness type on a turret",
+        usage: "--turret <id> --character <id> --auth-type <package::module::Type>",
+        options: {
+            turret: { type: "string" },
+            character: { type: "string" },
+            "auth-type": { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const turretId = resolveObjectId(ctx.config, requireOption(values, "turret"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const authType = requireOption(values, "auth-type");
+            const result = await authorizeTurretExtension(ctx, characterId, turretId, authType);
+            return transactionResult(result, { turretId, authType });
+        },
+    },
+    simulate: {
+        summary: "Replay a targeting scenario through the world default and the turret's extension",
+        usage: "--scenario <file> [--turret <id>] [--character <id>] [--baseline-turret <id>]",
+        options: {
+            scenario: { type: "string" },
+            turret: { type: "string" },
+            character: { type: "string" },
+            "baseline-turret": { type: "string" },
+        },
+        async run(network, values) {
+            const scenario = loadScenario(requireOption(values, "scenario"));
+            // devInspect only needs a sender; nothing is signed or executed.
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const turret = stringOption(values, "turret") ?? scenario.turret;
+            const character = stringOption(values, "character") ?? scenario.character;
+            if (!turret || !character) {
+                throw new Error("Pass --turret and --character or set them in the scenario");
+            }
+            const baseline = stringOption(values, "baseline-turret") ?? scenario.baselineTurret;
+            const turretId = resolveObjectId(ctx.config, turret);
+            const { extension, ticks } = await simulateScenario(
+                ctx,
+                scenario,
+                turretId,
+                resolveObjectId(ctx.config, character),
+                baseline === undefined ? undefined : resolveObjectId(ctx.config, baseline)
+            );
+
+            if (values.json) return { turretId, extension, ticks };
+            console.log(`extension: ${extension.typeName ?? "none (world default only)"}`);
+            if (extension.hasExtension && baseline === undefined) {
+                console.log(
+                    "world: not run (pass --baseline-turret with an extension-free turret)"
+                );
+            }
+            console.log(formatDiffTable(ticks));
+            return {};
+        },
+    },
+    conformance: {
+        summary: "Check the TypeScript priority port against the world turret via devInspect",
+        usage: "--turret <id> --character <id> [--scenario <file>]",
+        options: {
+            turret: { type: "string" },
+            character: { type: "string" },
+            scenario: { type: "string" },
+        },
+        async run(network, values) {
+            const ctx = await signerContext(network, values, "PLAYER_A_PRIVATE_KEY");
+            const turretId = resolveObjectId(ctx.config, requireOption(values, "turret"));
+            const characterId = resolveObjectId(ctx.config, requireOption(values, "character"));
+            const extension = await getTurretExtensionInfo(
+                ctx.client,
+                ctx.config.packageId,
+                turretId
+            );
+            if (extension.hasExtension) {
+                throw new Error(
+                    `Turret ${turretId} has extension ${extension.typeName}; use a turret without one`
+                );
+            }
+
+            const owner = await getTurretOwner(ctx.client, characterId);
+            const cases = defaultConformanceCases(owner);
+            const scenarioFile = stringOption(values, "scenario");
+            if (scenarioFile) cases.push(...loadScenario(scenarioFile).ticks);
+            const results = await runConformance(ctx, turretId, characterId, owner, cases);
+
+            const failed = results.filter((result) => !result.conforms).length;
+            if (failed > 0) process.exitCode = 1;
+            if (values.json) return { turretId, owner, results };
+            console.log(formatConformance(results));
+            if (failed > 0) console.error(`${failed} conformance case(s) diverge`);
+            return {};
+        },
+    },
+};
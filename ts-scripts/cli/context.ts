@@ -0,0 +1,173 @@
+import type { ParseArgsConfig } from "node:util";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { Signer } from "@mysten/sui/cryptography";
+import { createClient } from "../utils/client";
+import { resolveSigner } from "../utils/signer";
+import { getConfig, getTenant, HydratedWorldConfig, Network } from "../utils/config";
+import { deriveObjectId } from "../utils/derive-object-id";
+import { hydrateWorldConfig, InitializedContext, requireEnv } from "../utils/helper";
+
+/** Flags accepted by every subcommand. */
+export const GLOBAL_OPTIONS = {
+    network: { type: "string" },
+    "rpc-url": { type: "string" },
+    "package-id": { type: "string" },
+    tenant: { type: "string" },
+    key: { type: "string" },
+    "key-env": { type: "string" },
+    "sponsor-key": { type: "string" },
+    "sponsor-key-env": { type: "string" },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+} as const satisfies ParseArgsConfig["options"];
+
+export type OptionValues = Record<string, string | string[] | boolean | undefined>;
+
+const NETWORKS: Network[] = ["localnet", "testnet", "devnet", "mainnet"];
+
+/**
+ * Applies the connection flags on top of `.env` so the shared helpers (`getConfig`,
+ * `hydrateWorldConfig`, `deriveObjectId`) pick them up.
+ */
+export function applyGlobalOptions(values: OptionValues): Network {
+    const network = (stringOption(values, "network") ??
+        process.env.SUI_NETWORK ??
+        "localnet") as Network;
+    if (!NETWORKS.includes(network)) {
+        throw new Error(`Unknown network "${network}" (expected ${NETWORKS.join(", ")})`);
+    }
+    process.env.SUI_NETWORK = network;
+
+    const rpcUrl = stringOption(values, "rpc-url");
+    if (rpcUrl) process.env.SUI_RPC_URL = rpcUrl;
+    const packageId = stringOption(values, "package-id");
+    if (packageId) process.env.WORLD_PACKAGE_ID = packageId;
+    const tenant = stringOption(values, "tenant");
+    if (tenant) process.env.TENANT = tenant;
+
+    return network;
+}
+
+export function stringOption(values: OptionValues, name: string): string | undefined {
+    const value = values[name];
+    return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+export function requireOption(values: OptionValues, name: string): string {
+    const value = stringOption(values, name);
+    if (!value) throw new Error(`--${name} is required`);
+    return value;
+}
+
+export function numberOption(values: OptionValues, name: string, fallback?: number): number {
+    const raw = stringOption(values, name);
+    if (raw === undefined) {
+        if (fallback === undefined) throw new Error(`--${name} is required`);
+        return fallback;
+    }
+    const value = Number(raw);
+    if (!Number.isSafeInteger(value) || value < 0) {
+        throw new Error(`--${name} must be a non-negative integer, got "${raw}"`);
+    }
+    return value;
+}
+
+function parseBigint(name: string, raw: string): bigint {
+    try {
+        const value = BigInt(raw);
+        if (value >= 0n) return value;
+    } catch {
+        // fall through to the error below
+    }
+    throw new Error(`--${name} must be a non-negative integer, got "${raw}"`);
+}
+
+export function bigintOption(values: OptionValues, name: string, fallback?: bigint): bigint {
+    const raw = stringOption(values, name);
+    if (raw === undefined) {
+        if (fallback === undefined) throw new Error(`--${name} is required`);
+        return fallback;
+    }
+    return parseBigint(name, raw);
+}
+
+/**
+ * Zips two comma-separated integer lists of the same length, e.g. `--type-id 88086,84955
+ * --max-distance 520340175991902420,1040680351983804840`.
+ */
+export function bigintPairsOption(
+    values: OptionValues,
+    keysName: string,
+    valuesName: string
+): [bigint, bigint][] {
+    const [keys, entries] = [keysName, valuesName].map((name) =>
+        requireOption(values, name)
+            .split(",")
+            .map((part) => parseBigint(name, part.trim()))
+    );
+    if (keys.length !== entries.length) {
+        throw new Error(
+            `--${keysName} and --${valuesName} must have the same length. Got ${keys.length} and ${entries.length}`
+        );
+    }
+    return keys.map((key, i) => [key, entries[i]]);
+}
+
+/**
+ * The signer reference for a role: `--<role>`, or the env var named by `--<role>-env` (falling
+ * back to `defaultEnv`). Either may hold a private key or any reference `resolveSigner` accepts.
+ */
+export function signerReference(
+    values: OptionValues,
+    role: "key" | "sponsor-key",
+    defaultEnv: string
+): string {
+    return (
+        stringOption(values, role) ?? requireEnv(stringOption(values, `${role}-env`) ?? defaultEnv)
+    );
+}
+
+/** Resolves the signer for a role (see `signerReference`). */
+export function resolveKeypair(
+    values: OptionValues,
+    role: "key" | "sponsor-key",
+    defaultEnv: string
+): Signer {
+    return resolveSigner(signerReference(values, role, defaultEnv));
+}
+
+/** Signing context for the `--key` account, with world object IDs hydrated. */
+export async function signerContext(
+    network: Network,
+    values: OptionValues,
+    defaultKeyEnv: string
+): Promise<InitializedContext> {
+    const keypair = resolveKeypair(values, "key", defaultKeyEnv);
+    const ctx: InitializedContext = {
+        client: createClient(network),
+        keypair,
+        config: getConfig(network),
+        address: keypair.getPublicKey().toSuiAddress(),
+    };
+    await hydrateWorldConfig(ctx);
+    return ctx;
+}
+
+/** Client and hydrated config for commands that only read chain state. */
+export async function readOnlyContext(network: Network) {
+    const ctx = { client: createClient(network), config: getConfig(network) };
+    await hydrateWorldConfig(ctx);
+    return ctx;
+}
+
+/**
+ * Accepts either an in-game item ID (derived through the object registry) or an on-chain
+ * object ID (`0x…`) and returns the object ID.
+ */
+export function resolveObjectId(config: HydratedWorldConfig, value: string): string {
+    if (value.startsWith("0x")) return normalizeSuiAddress(value);
+    if (!/^\d+$/.test(value)) {
+        throw new Error(`Expected an item ID or 0x object ID, got "${value}"`);
+    }
+    return deriveObjectId(config.objectRegistry, BigInt(value), config.packageId, getTenant());
+}
@@ -0,0 +1,54 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/jsonRpc";
+
+export type CommandResult = Record<string, unknown>;
+
+/** Fails the command when the transaction executed but aborted on-chain. */
+export function transactionResult(
+    response: SuiTransactionBlockResponse,
+    extra: CommandResult = {}
+): CommandResult {
+    const status = response.effects?.status;
+    if (status && status.status !== "success") {
+        throw new Error(
+            `Transaction ${response.digest} failed: ${status.error ?? "unknown error"}`
+        );
+    }
+    return {
+        ...extra,
+        digest: response.digest,
+        events: (response.events ?? []).map((event) => ({
+            type: event.type,
+            data: event.parsedJson,
+        })),
+    };
+}
+
+function jsonReplacer(_key: string, value: unknown) {
+    return typeof value === "bigint" ? value.toString() : value;
+}
+
+export function printResult(result: CommandResult, json: boolean) {
+    if (json) {
+        console.log(JSON.stringify(result, jsonReplacer, 2));
+        return;
+    }
+    for (const [key, value] of Object.entries(result)) {
+        if (key === "events" && Array.isArray(value)) {
+            for (const event of value as { type: string; data: unknown }[]) {
+                console.log(`event: ${event.type.split("::").slice(1).join("::")}`);
+                console.log(`  ${JSON.stringify(event.data, jsonReplacer)}`);
+            }
+            continue;
+        }
+        const text =
+            typeof value === "object" && value !== null
+                ? JSON.stringify(value, jsonReplacer)
+                : String(value);
+        console.log(`${key}: ${text}`);
+    }
+}
+
+export function printJsonError(error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(JSON.stringify({ error: message }));
+}
@@ -0,0 +1,120 @@
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { handleError } from "../utils/helper";
+import type { CommandGroup } from "./command";
+import { accessCommands } from "./commands/access";
+import { assemblyCommands } from "./commands/assembly";
+import { assetsCommands } from "./commands/assets";
+import { builderExtensionCommands } from "./commands/builder-extension";
+import { characterCommands } from "./commands/character";
+import { deployCommands } from "./commands/deploy";
+import { errorsCommands } from "./commands/errors";
+import { eventsCommands } from "./commands/events";
+import { gasPoolCommands } from "./commands/gas-pool";
+import { gateCommands } from "./commands/gate";
+import { inspectCommands } from "./commands/inspect";
+import { keeperCommands } from "./commands/keeper";
+import { keysCommands } from "./commands/keys";
+import { locationCommands } from "./commands/location";
+import { networkNodeCommands } from "./commands/network-node";
+import { objectCommands } from "./commands/object";
+import { proofCommands } from "./commands/proof";
+import { proofServiceCommands } from "./commands/proof-service";
+import { seedCommands } from "./commands/seed";
+import { sponsorRelayCommands } from "./commands/sponsor-relay";
+import { storageUnitCommands } from "./commands/storage-unit";
+import { turretCommands } from "./commands/turret";
+import { applyGlobalOptions, GLOBAL_OPTIONS } from "./context";
+import { printJsonError, printResult } from "./output";
+
+const GROUPS: Record<string, CommandGroup> = {
+    deploy: deployCommands,
+    object: objectCommands,
+    character: characterCommands,
+    "network-node": networkNodeCommands,
+    gate: gateCommands,
+    "storage-unit": storageUnitCommands,
+    assembly: assemblyCommands,
+    turret: turretCommands,
+    "builder-extension": builderExtensionCommands,
+    access: accessCommands,
+    assets: assetsCommands,
+    inspect: inspectCommands,
+    events: eventsCommands,
+    errors: errorsCommands,
+    keeper: keeperCommands,
+    location: locationCommands,
+    proof: proofCommands,
+    "proof-service": proofServiceCommands,
+    "sponsor-relay": sponsorRelayCommands,
+    "gas-pool": gasPoolCommands,
+    keys: keysCommands,
+    seed: seedCommands,
+};
+
+const GLOBAL_USAGE = `Global options:
+  --network <name>            localnet | testnet | devnet | mainnet (default: SUI_NETWORK or localnet)
+  --rpc-url <url>             Override the RPC endpoint (default: SUI_RPC_URL or the network default)
+  --package-id <id>           World package ID (default: WORLD_PACKAGE_ID or the extracted object IDs)
+  --tenant <name>             Tenant used to derive object IDs from item IDs (default: TENANT or dev)
+  --key <ref>                 Signer: suiprivkey, keystore:<alias|address>, encrypted:<file> or
+                              remote:<url>#<public key>
+  --key-env <VAR>             Read the signer key from VAR (default depends on the command)
+  --sponsor-key <ref>         Gas sponsor / server signer for sponsored commands
+  --sponsor-key-env <VAR>     Read the sponsor key from VAR (default: ADMIN_PRIVATE_KEY)
+  --json                      Print machine-readable JSON
+
+Object flags accept an in-game item ID (derived through the object registry) or a 0x object ID.`;
+
+function usage(): string {
+    const lines = ["Usage: world <group> <command> [options]", "", "Commands:"];
+    const commands = Object.entries(GROUPS).flatMap(([groupName, group]) =>
+        Object.entries(group).map(([name, command]) => [`${groupName} ${name}`, command.summary])
+    );
+    const width = Math.max(...commands.map(([name]) => name.length)) + 2;
+    for (const [name, summary] of commands) {
+        lines.push(`  ${name.padEnd(width)}${summary}`);
+    }
+    lines.push("", GLOBAL_USAGE);
+    return lines.join("\n");
+}
+
+async function main() {
+    const [groupName, commandName, ...rest] = process.argv.slice(2);
+    const group = groupName ? GROUPS[groupName] : undefined;
+    const command = group && commandName ? group[commandName] : undefined;
+    if (!command) {
+        const help = !groupName || groupName === "help" || groupName === "--help";
+        (help ? console.log : console.error)(usage());
+        if (!help) process.exit(1);
+        return;
+    }
+
+    const json = rest.includes("--json");
+    try {
+        const { values } = parseArgs({
+            args: rest,
+            options: { ...GLOBAL_OPTIONS, ...command.options },
+            strict: true,
+        });
+        if (values.help) {
+            console.log(
+                `Usage: world ${groupName} ${commandName} ${command.usage} [global options]`
+            );
+            console.log(`\n${command.summary}\n\n${GLOBAL_USAGE}`);
+            return;
+        }
+
+        const network = applyGlobalOptions(values);
+        const result = await command.run(network, values);
+        printResult(result, json);
+    } catch (error) {
+        if (json) {
+            printJsonError(error);
+            process.exit(1);
+        }
+        handleError(error);
+    }
+}
+
+main();
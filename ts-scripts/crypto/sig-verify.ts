@@ -2,7 +2,8 @@ import "dotenv/config";
 import { Transaction } from "@mysten/sui/transactions";
 import { bcs } from "@mysten/sui/bcs";
 import { getConfig, MODULES } from "../utils/config";
-import { createClient, keypairFromPrivateKey } from "../utils/client";
+import { createClient } from "../utils/client";
+import { resolveSigner } from "../utils/signer";
 import { signPersonalMessage, toHex } from "./signMessage";
 import { requireEnv } from "../utils/helper";
 
@@ -22,7 +23,7 @@ async function main() {
     const exportedKey = requireEnv("ADMIN_PRIVATE_KEY");
 
     const client = createClient(network);
-    const keypair = keypairFromPrivateKey(exportedKey);
+    const keypair = resolveSigner(exportedKey);
     const config = getConfig(network);
 
     const address = keypair.getPublicKey().toSuiAddress();
@@ -1,4 +1,4 @@
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Signer } from "@mysten/sui/cryptography";
 import { blake2b } from "@noble/hashes/blake2b";
 import { bcs } from "@mysten/sui/bcs";
 
@@ -35,8 +35,14 @@ export function hashIntentMessage(intentMessage: Uint8Array): Uint8Array {
  */
 export async function signPersonalMessage(
     message: Uint8Array,
-    keypair: Ed25519Keypair
+    keypair: Signer
 ): Promise<Uint8Array> {
+    if (keypair.getKeyScheme() !== "ED25519") {
+        throw new Error(
+            `sig_verify only accepts Ed25519 signatures, got ${keypair.getKeyScheme()}`
+        );
+    }
+
     // Step 1: Create intent message (prepend intent prefix to raw message bytes)
     const intentMessage = createIntentMessage(message);
 
@@ -0,0 +1,303 @@
+/**
+ * Deploys and configures the world package in named steps, the TypeScript counterpart of
+ * `deploy-world.sh` + `configure-world.sh`. Each finished step is recorded in
+ * `deployments/<network>/deploy-state.json`, so a re-run resumes at the first step that is not
+ * done. Access and configuration steps also compare with chain state first and only send what is
+ * missing or different.
+ */
+import {
+    addSponsorsToAcl,
+    isAuthorizedServerAddress,
+    isAuthorizedSponsor,
+    registerServerAddress,
+} from "../access/helper";
+import { getGateMaxDistance, setGateMaxDistance } from "../gate/helper";
+import {
+    getAssemblyEnergy,
+    getFuelEfficiency,
+    setEnergyConfig,
+    setFuelEfficiency,
+} from "../network-node/helper";
+import { createClient } from "../utils/client";
+import type { Network } from "../utils/config";
+import {
+    hydrateWorldConfig,
+    initializeContext,
+    InitializedContext,
+    parseBigIntArray,
+    requireEnv,
+} from "../utils/helper";
+import { resolveSigner } from "../utils/signer";
+import { waitForSuccess } from "../utils/transaction";
+import { extractObjectIds, writeExtractedObjectIds } from "../utils/world-object-ids";
+import { publishPackage } from "./publish";
+import {
+    appendDeployLog,
+    DeployState,
+    DeployStepRecord,
+    loadDeployState,
+    saveDeployState,
+} from "./state";
+
+export type Deployment = {
+    network: Network;
+    state: DeployState;
+    /** Signer reference holding the GovernorCap (access steps). */
+    governorKey: string;
+    /** Signer reference of an AdminACL sponsor (configuration steps). */
+    adminKey: string;
+    /** Lets `publish-world` replace a publication recorded in `Published.toml`. */
+    republish?: boolean;
+};
+
+type StepOutcome = { digests: string[]; note: string };
+
+export type DeployStep = {
+    name: string;
+    summary: string;
+    /** Replaces a deployment or overwrites live configuration; mainnet needs a confirmation. */
+    destructive: boolean;
+    run(deployment: Deployment): Promise<StepOutcome>;
+};
+
+/** Context for a step's signer against the package this deployment published. */
+async function stepContext(deployment: Deployment, signer: string): Promise<InitializedContext> {
+    const ctx = initializeContext(deployment.network, signer);
+    if (deployment.state.packageId) ctx.config.packageId = deployment.state.packageId;
+    await hydrateWorldConfig(ctx);
+    return ctx;
+}
+
+/** Zips two comma-separated env lists (`FUEL_TYPE_IDS` + `FUEL_EFFICIENCIES`, ...). */
+function envPairs(keysEnv: string, valuesEnv: string): [bigint, bigint][] {
+    const keys = parseBigIntArray(process.env[keysEnv]);
+    const values = parseBigIntArray(process.env[valuesEnv]);
+    if (keys.length !== values.length) {
+        throw new Error(
+            `${keysEnv} and ${valuesEnv} arrays must have the same length. Got ${keys.length} and ${values.length}`
+        );
+    }
+    return keys.map((key, i) => [key, values[i]]);
+}
+
+/** Sends `set` for every pair whose on-chain value differs. */
+async function applyPairs(
+    ctx: InitializedContext,
+    pairs: [bigint, bigint][],
+    current: (key: bigint) => Promise<bigint | null>,
+    set: (key: bigint, value: bigint) => Promise<{ digest: string }>
+): Promise<string[]> {
+    const digests: string[] = [];
+    for (const [key, value] of pairs) {
+        if ((await current(key)) === value) continue;
+        const { digest } = await set(key, value);
+        digests.push(await waitForSuccess(ctx.client, digest));
+    }
+    return digests;
+}
+
+export const DEPLOY_STEPS: DeployStep[] = [
+    {
+        name: "publish-world",
+        summary: "Publish contracts/world with the active sui CLI address",
+        destructive: true,
+        async run(deployment) {
+            const packageId = publishPackage("world", deployment.network, "world_package.json", {
+                republish: deployment.republish,
+            });
+            deployment.state.packageId = packageId;
+            return { digests: [], note: `published ${packageId}` };
+        },
+    },
+    {
+        name: "extract-object-ids",
+        summary: "Write extracted-object-ids.json from the publish output",
+        destructive: false,
+        async run(deployment) {
+            const governorAddress = resolveSigner(deployment.governorKey)
+                .getPublicKey()
+                .toSuiAddress();
+            const ids = await extractObjectIds(
+                createClient(deployment.network),
+                deployment.network,
+                governorAddress
+            );
+            const { packageId } = ids.world;
+            if (deployment.state.packageId && deployment.state.packageId !== packageId) {
+                throw new Error(
+                    `world_package.json holds ${packageId}, but this deployment published ${deployment.state.packageId}`
+                );
+            }
+            deployment.state.packageId = packageId;
+            const outPath = writeExtractedObjectIds(ids);
+            return { digests: [], note: `wrote ${outPath}` };
+        },
+    },
+    {
+        name: "register-server-address",
+        summary: "Add ADMIN_ADDRESS to the ServerAddressRegistry",
+        destructive: false,
+        async run(deployment) {
+            const serverAddress = requireEnv("ADMIN_ADDRESS");
+            const ctx = await stepContext(deployment, deployment.governorKey);
+            const registered = await isAuthorizedServerAddress(
+                ctx.client,
+                ctx.config,
+                serverAddress,
+                ctx.address
+            );
+            if (registered === null) throw new Error("Could not read the ServerAddressRegistry");
+            if (registered) return { digests: [], note: `${serverAddress} already registered` };
+            const { digest } = await registerServerAddress(ctx, serverAddress);
+            return {
+                digests: [await waitForSuccess(ctx.client, digest)],
+                note: `registered ${serverAddress}`,
+            };
+        },
+    },
+    {
+        name: "add-sponsors",
+        summary: "Add SPONSOR_ADDRESSES to the AdminACL",
+        destructive: false,
+        async run(deployment) {
+            const sponsors = requireEnv("SPONSOR_ADDRESSES")
+                .split(",")
+                .map((s) => s.trim().toLowerCase())
+                .filter(Boolean);
+            const ctx = await stepContext(deployment, deployment.governorKey);
+            const missing: string[] = [];
+            for (const sponsor of sponsors) {
+                const authorized = await isAuthorizedSponsor(ctx.client, ctx.config, sponsor);
+                if (authorized === null) throw new Error("Could not read the AdminACL");
+                if (!authorized) missing.push(sponsor);
+            }
+            const note = `added ${missing.length} of ${sponsors.length} sponsors`;
+            if (missing.length === 0) return { digests: [], note };
+            const { digest } = await addSponsorsToAcl(ctx, missing);
+            return { digests: [await waitForSuccess(ctx.client, digest)], note };
+        },
+    },
+    {
+        name: "configure-fuel-energy",
+        summary: "Set FUEL_EFFICIENCIES and ENERGY_REQUIRED_VALUES that differ on chain",
+        destructive: true,
+        async run(deployment) {
+            const fuel = envPairs("FUEL_TYPE_IDS", "FUEL_EFFICIENCIES");
+            const energy = envPairs("ASSEMBLY_TYPE_IDS", "ENERGY_REQUIRED_VALUES");
+            const ctx = await stepContext(deployment, deployment.adminKey);
+            const digests = [
+                ...(await applyPairs(
+                    ctx,
+                    fuel,
+                    (typeId) => getFuelEfficiency(typeId, ctx.client, ctx.config, ctx.address),
+                    (typeId, value) => setFuelEfficiency(ctx, typeId, value)
+                )),
+                ...(await applyPairs(
+                    ctx,
+                    energy,
+                    (typeId) => getAssemblyEnergy(typeId, ctx.client, ctx.config, ctx.address),
+                    (typeId, value) => setEnergyConfig(ctx, typeId, value)
+                )),
+            ];
+            return {
+                digests,
+                note: `${digests.length} of ${fuel.length + energy.length} values changed`,
+            };
+        },
+    },
+    {
+        name: "configure-gate-distance",
+        summary: "Set MAX_DISTANCES per GATE_TYPE_IDS that differ on chain",
+        destructive: true,
+        async run(deployment) {
+            const distances = envPairs("GATE_TYPE_IDS", "MAX_DISTANCES");
+            const ctx = await stepContext(deployment, deployment.adminKey);
+            const digests = await applyPairs(
+                ctx,
+                distances,
+                (typeId) => getGateMaxDistance(ctx.client, ctx.config, typeId),
+                (typeId, value) => setGateMaxDistance(ctx, typeId, value)
+            );
+            return { digests, note: `${digests.length} of ${distances.length} values changed` };
+        },
+    },
+];
+
+export type DeployRunOptions = {
+    /** Re-run this step and every step after it, even if recorded as done. */
+    from?: string;
+    /** Run just this step, even if recorded as done. */
+    only?: string;
+    /** Allows destructive steps on mainnet. */
+    confirmMainnet: boolean;
+};
+
+function requireStep(name: string): number {
+    const index = DEPLOY_STEPS.findIndex((step) => step.name === name);
+    if (index < 0) {
+        const names = DEPLOY_STEPS.map((step) => step.name).join(", ");
+        throw new Error(`Unknown deploy step "${name}" (expected one of ${names})`);
+    }
+    return index;
+}
+
+/** Steps `runDeploy` would execute for these options, in order. */
+export function pendingDeploySteps(state: DeployState, options: DeployRunOptions): DeployStep[] {
+    if (options.only) return [DEPLOY_STEPS[requireStep(options.only)]];
+    if (options.from) return DEPLOY_STEPS.slice(requireStep(options.from));
+    return DEPLOY_STEPS.filter((step) => state.steps[step.name]?.status !== "done");
+}
+
+/**
+ * Runs the pending steps in order and records each one. A failed step is recorded with its error
+ * and stops the run; the next run starts again from it.
+ */
+export async function runDeploy(
+    deployment: Omit<Deployment, "state">,
+    options: DeployRunOptions,
+    onStep: (step: DeployStep, record: DeployStepRecord) => void = () => {}
+): Promise<DeployState> {
+    const state = loadDeployState(deployment.network);
+    const pending = pendingDeploySteps(state, options);
+    const destructive = pending.filter((step) => step.destructive).map((step) => step.name);
+    if (deployment.network === "mainnet" && destructive.length > 0 && !options.confirmMainnet) {
+        throw new Error(
+            `Refusing to run ${destructive.join(", ")} on mainnet without --confirm-mainnet`
+        );
+    }
+
+    for (const step of pending) {
+        appendDeployLog(deployment.network, `deploy ${step.name} ${deployment.network}`);
+        const packageId = state.packageId;
+        let record: DeployStepRecord;
+        try {
+            const outcome = await step.run({ ...deployment, state });
+            record = { status: "done", at: new Date().toISOString(), ...outcome };
+        } catch (error) {
+            record = {
+                status: "failed",
+                at: new Date().toISOString(),
+                digests: [],
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+        state.steps[step.name] = record;
+        if (state.packageId !== packageId) {
+            // A new package: whatever later steps did applied to the previous one.
+            for (const later of DEPLOY_STEPS.slice(requireStep(step.name) + 1)) {
+                delete state.steps[later.name];
+            }
+        }
+        saveDeployState(state);
+        appendDeployLog(
+            deployment.network,
+            `deploy ${step.name} ${record.status}`,
+            `${record.note ?? record.error ?? ""}\n`
+        );
+        onStep(step, record);
+        if (record.status === "failed") {
+            throw new Error(`Deploy step ${step.name} failed: ${record.error}`);
+        }
+    }
+    return state;
+}
@@ -0,0 +1,103 @@
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Network } from "../utils/config";
+import { extractJson, getPublishedPackageId, readPublishOutputFile } from "../utils/helper";
+import { appendDeployLog, deployDir } from "./state";
+
+function runSui(args: string[], cwd: string, network: Network) {
+    const result = spawnSync("sui", args, { cwd, encoding: "utf-8", maxBuffer: 64 * 1024 * 1024 });
+    if (result.error) throw new Error(`Could not run sui: ${result.error.message}`);
+    appendDeployLog(
+        network,
+        `sui ${args.join(" ")}`,
+        `${result.stdout}${result.stderr ? `\n--- stderr ---\n${result.stderr}` : ""}`
+    );
+    return result;
+}
+
+/**
+ * Removes this network's `Pub.<network>.toml` pubfile, as `deploy-world.sh` does, so a localnet
+ * `test-publish` creates a new package instead of reusing the last one.
+ */
+function removePubfile(packageDir: string, network: Network) {
+    const pubfile = path.join(packageDir, `Pub.${network}.toml`);
+    if (fs.existsSync(pubfile)) fs.rmSync(pubfile);
+}
+
+function readPublishedToml(packageDir: string): string[] {
+    const publishedPath = path.join(packageDir, "Published.toml");
+    return fs.existsSync(publishedPath) ? fs.readFileSync(publishedPath, "utf-8").split("\n") : [];
+}
+
+/**
+ * Drops the `[published.<network>]` table from the committed `Published.toml`. The old package
+ * stays on chain but this checkout forgets it; records of other environments are kept.
+ */
+function forgetPublishedRecord(packageDir: string, network: Network) {
+    const kept: string[] = [];
+    let inSection = false;
+    for (const line of readPublishedToml(packageDir)) {
+        if (line.startsWith("[")) inSection = line.trim() === `[published.${network}]`;
+        if (!inSection) kept.push(line);
+    }
+    fs.writeFileSync(
+        path.join(packageDir, "Published.toml"),
+        kept.join("\n").replace(/\n{3,}/g, "\n\n")
+    );
+}
+
+/**
+ * Publishes `contracts/<pkg>` with the active sui CLI address (`test-publish` on localnet, like
+ * `scripts/lib.sh`) and writes the JSON output to `deployments/<network>/<outFile>`. Returns the
+ * new package ID.
+ *
+ * Localnet publishes go to the pubfile and leave the committed `Published.toml` alone. On other
+ * networks a package already recorded there cannot be published again, so this refuses unless
+ * `republish` is set, which drops that record first.
+ */
+export function publishPackage(
+    pkg: string,
+    network: Network,
+    outFile: string,
+    options: { republish?: boolean } = {}
+): string {
+    const packageDir = path.resolve(process.cwd(), "contracts", pkg);
+    const outPath = path.join(deployDir(network), outFile);
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+
+    removePubfile(packageDir, network);
+    if (
+        network !== "localnet" &&
+        readPublishedToml(packageDir).some((line) => line.trim() === `[published.${network}]`)
+    ) {
+        if (!options.republish) {
+            throw new Error(
+                `contracts/${pkg}/Published.toml already records a ${network} publication; pass --republish to publish a new package and drop that record`
+            );
+        }
+        forgetPublishedRecord(packageDir, network);
+    }
+
+    const switched = runSui(["client", "switch", "--env", network], packageDir, network);
+    if (switched.status !== 0) {
+        throw new Error(`sui client switch --env ${network} failed: ${switched.stderr.trim()}`);
+    }
+
+    const args =
+        network === "localnet"
+            ? ["client", "test-publish", "--build-env", "testnet", "--json"]
+            : ["client", "publish", "--json"];
+    // JSON goes to stdout and build progress to stderr; only stdout is parsed.
+    const published = runSui(args, packageDir, network);
+    let output: string;
+    try {
+        output = JSON.stringify(JSON.parse(extractJson(published.stdout)), null, 2) + "\n";
+    } catch {
+        throw new Error(
+            `Publishing ${pkg} failed (see deployments/${network}/deploy.log): ${published.stderr.trim()}`
+        );
+    }
+    fs.writeFileSync(outPath, output);
+    return getPublishedPackageId(readPublishOutputFile(outPath).objectChanges);
+}
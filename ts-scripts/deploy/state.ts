@@ -0,0 +1,47 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export type DeployStepRecord = {
+    status: "done" | "failed";
+    /** ISO time the step finished. */
+    at: string;
+    digests: string[];
+    /** What the step did, e.g. "2 of 3 sponsors already in the ACL". */
+    note?: string;
+    error?: string;
+};
+
+/** Progress of `world deploy run`, kept in `deployments/<network>/deploy-state.json`. */
+export type DeployState = {
+    network: string;
+    /** World package the recorded steps ran against; set once `publish-world` is done. */
+    packageId?: string;
+    steps: Record<string, DeployStepRecord>;
+};
+
+export function deployDir(network: string): string {
+    return path.resolve(process.cwd(), "deployments", network);
+}
+
+export function deployStatePath(network: string): string {
+    return path.join(deployDir(network), "deploy-state.json");
+}
+
+export function loadDeployState(network: string): DeployState {
+    const filePath = deployStatePath(network);
+    if (!fs.existsSync(filePath)) return { network, steps: {} };
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as DeployState;
+}
+
+export function saveDeployState(state: DeployState) {
+    const filePath = deployStatePath(state.network);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(state, null, 2) + "\n");
+}
+
+/** Appends a timestamped section to `deployments/<network>/deploy.log`, as the shell scripts do. */
+export function appendDeployLog(network: string, title: string, body = "") {
+    const filePath = path.join(deployDir(network), "deploy.log");
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, `\n=== ${new Date().toISOString()} ${title} ===\n${body}`);
+}
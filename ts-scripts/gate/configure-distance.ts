@@ -1,6 +1,4 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
-import { MODULES } from "../utils/config";
 import {
     getEnvConfig,
     handleError,
@@ -9,37 +7,7 @@ import {
     parseBigIntArray,
 } from "../utils/helper";
 import { delay } from "../utils/delay";
-
-async function setGateMaxDistanceByType(
-    gateConfigId: string,
-    adminAcl: string,
-    typeId: bigint,
-    maxDistance: bigint,
-    ctx: ReturnType<typeof initializeContext>
-) {
-    const { client, keypair, config } = ctx;
-
-    const tx = new Transaction();
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.GATE}::set_max_distance`,
-        arguments: [
-            tx.object(gateConfigId),
-            tx.object(adminAcl),
-            tx.pure.u64(typeId),
-            tx.pure.u64(maxDistance),
-        ],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showEffects: true, showObjectChanges: true },
-    });
-
-    console.log("\nGate max distance updated!");
-    console.log("Transaction digest:", result.digest);
-    return result;
-}
+import { setGateMaxDistance } from "./helper";
 
 async function main() {
     console.log("============= Configure Gate Distance example ==============\n");
@@ -48,12 +16,8 @@ async function main() {
         const env = getEnvConfig();
         const ctx = initializeContext(env.network, env.adminExportedKey);
         const config = await hydrateWorldConfig(ctx);
-        const { client } = ctx;
-
-        const adminAcl = config.adminAcl;
 
-        const gateConfigId = config.gateConfig;
-        if (!gateConfigId) throw new Error("GateConfig object not found");
+        if (!config.gateConfig) throw new Error("GateConfig object not found");
 
         const GATE_TYPE_IDS = parseBigIntArray(process.env.GATE_TYPE_IDS);
         const MAX_DISTANCES = parseBigIntArray(process.env.MAX_DISTANCES);
@@ -67,13 +31,9 @@ async function main() {
             }
 
             for (let i = 0; i < GATE_TYPE_IDS.length; i++) {
-                await setGateMaxDistanceByType(
-                    gateConfigId,
-                    adminAcl,
-                    GATE_TYPE_IDS[i],
-                    MAX_DISTANCES[i],
-                    ctx
-                );
+                const result = await setGateMaxDistance(ctx, GATE_TYPE_IDS[i], MAX_DISTANCES[i]);
+                console.log("\nGate max distance updated!");
+                console.log("Transaction digest:", result.digest);
                 await delay(1000);
             }
         } else {
@@ -1,12 +1,8 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
-import { bcs } from "@mysten/sui/bcs";
-import { MODULES } from "../utils/config";
 import {
     extractEvent,
     getEnvConfig,
     handleError,
-    hexToBytes,
     hydrateWorldConfig,
     initializeContext,
 } from "../utils/helper";
@@ -20,6 +16,7 @@ import {
 } from "../utils/constants";
 import { delay, getDelayMs } from "../utils/delay";
 import { deriveObjectId } from "../utils/derive-object-id";
+import { anchorGate } from "./helper";
 
 async function createGate(
     ctx: ReturnType<typeof initializeContext>,
@@ -27,35 +24,15 @@ async function createGate(
     gateItemId: bigint,
     characterId: number
 ) {
-    const { client, keypair, config } = ctx;
-    const adminAcl = config.adminAcl;
+    const { config } = ctx;
 
     const characterObjectId = deriveObjectId(config.objectRegistry, characterId, config.packageId);
     const networkNodeObjectId = deriveObjectId(config.objectRegistry, nwnId, config.packageId);
 
-    const tx = new Transaction();
-
-    const [gate] = tx.moveCall({
-        target: `${config.packageId}::${MODULES.GATE}::anchor`,
-        arguments: [
-            tx.object(config.objectRegistry),
-            tx.object(networkNodeObjectId),
-            tx.object(characterObjectId),
-            tx.object(adminAcl),
-            tx.pure.u64(gateItemId),
-            tx.pure.u64(GATE_TYPE_ID),
-            tx.pure(bcs.vector(bcs.u8()).serialize(hexToBytes(LOCATION_HASH))),
-        ],
-    });
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.GATE}::share_gate`,
-        arguments: [gate, tx.object(adminAcl)],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showEvents: true, showEffects: true, showObjectChanges: true },
+    const result = await anchorGate(ctx, characterObjectId, networkNodeObjectId, {
+        itemId: gateItemId,
+        typeId: GATE_TYPE_ID,
+        locationHash: LOCATION_HASH,
     });
 
     const gateEvent = extractEvent<{ assembly_id: string; owner_cap_id: string }>(
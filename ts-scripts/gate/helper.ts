@@ -1,7 +1,13 @@
 import { bcs } from "@mysten/sui/bcs";
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
 import { getConfig, MODULES } from "../utils/config";
 import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { getOriginalPackageId, InitializedContext } from "../utils/helper";
+import { asString, getTableValue, moveObjectFields } from "../utils/move-content";
+import { executeSponsoredTransaction } from "../utils/transaction";
+import * as world from "../sdk";
 
 export async function getOwnerCap(
     gateId: string,
@@ -27,3 +33,400 @@ export async function getOwnerCap(
         return null;
     }
 }
+
+/**
+ * Anchors a gate on the network node for the character and shares it (admin ACL). The gate's
+ * object ID is derived from its item ID.
+ */
+export async function anchorGate(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string,
+    gate: { itemId: bigint; typeId: bigint; locationHash: string }
+) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    const [anchored] = world.gate.anchor(tx, config.packageId, {
+        registry: config.objectRegistry,
+        networkNode: networkNodeId,
+        character: characterId,
+        adminAcl: config.adminAcl,
+        ...gate,
+    });
+    world.gate.shareGate(tx, config.packageId, { gate: anchored, adminAcl: config.adminAcl });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEvents: true, showEffects: true, showObjectChanges: true },
+    });
+}
+
+export async function onlineGate(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string,
+    gateId: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const gateOwnerCapId = await getOwnerCap(gateId, client, config, address);
+    if (!gateOwnerCapId) {
+        throw new Error("Gate OwnerCap not found (make sure the character owns the gate)");
+    }
+
+    const tx = new Transaction();
+
+    const gateType = world.worldType(config.packageId, MODULES.GATE, "Gate");
+    const [gateOwnerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCapTicket: gateOwnerCapId,
+    });
+
+    world.gate.online(tx, config.packageId, {
+        gate: gateId,
+        networkNode: networkNodeId,
+        energyConfig: config.energyConfig,
+        ownerCap: gateOwnerCap,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCap: gateOwnerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true, showEvents: true },
+    });
+}
+
+/**
+ * Links two gates owned by the same character. The admin keypair sponsors the transaction;
+ * `proofHex` is a location proof signed by a registered server address.
+ */
+export async function linkGates(
+    ctx: InitializedContext,
+    adminKeypair: Signer,
+    characterId: string,
+    gateAId: string,
+    gateBId: string,
+    proofHex: string
+) {
+    const { client, keypair, config, address } = ctx;
+    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
+
+    const gateAOwnerCapId = await getOwnerCap(gateAId, client, config, address);
+    const gateBOwnerCapId = await getOwnerCap(gateBId, client, config, address);
+    if (!gateAOwnerCapId || !gateBOwnerCapId) {
+        throw new Error("Gate OwnerCaps not found (make sure the character owns both gates)");
+    }
+
+    const tx = new Transaction();
+    tx.setSender(address);
+    tx.setGasOwner(adminAddress);
+
+    const gateType = world.worldType(config.packageId, MODULES.GATE, "Gate");
+    const [gateAOwnerCap, gateAReceipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCapTicket: gateAOwnerCapId,
+    });
+    const [gateBOwnerCap, gateBReceipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCapTicket: gateBOwnerCapId,
+    });
+
+    world.gate.linkGates(tx, config.packageId, {
+        sourceGate: gateAId,
+        destinationGate: gateBId,
+        gateConfig: config.gateConfig,
+        serverRegistry: config.serverAddressRegistry,
+        adminAcl: config.adminAcl,
+        sourceGateOwnerCap: gateAOwnerCap,
+        destinationGateOwnerCap: gateBOwnerCap,
+        distanceProof: proofHex,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCap: gateAOwnerCap,
+        receipt: gateAReceipt,
+    });
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCap: gateBOwnerCap,
+        receipt: gateBReceipt,
+    });
+
+    return await executeSponsoredTransaction(
+        tx,
+        client,
+        keypair,
+        adminKeypair,
+        address,
+        adminAddress,
+        { showEffects: true, showObjectChanges: true, showEvents: true }
+    );
+}
+
+/** Jumps a character between two linked gates, sponsored by the admin keypair. */
+export async function jump(
+    ctx: InitializedContext,
+    adminKeypair: Signer,
+    characterId: string,
+    sourceGateId: string,
+    destinationGateId: string
+) {
+    const { client, keypair, config, address } = ctx;
+    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
+
+    const tx = new Transaction();
+    tx.setSender(address);
+    tx.setGasOwner(adminAddress);
+
+    world.gate.jump(tx, config.packageId, {
+        sourceGate: sourceGateId,
+        destinationGate: destinationGateId,
+        character: characterId,
+        adminAcl: config.adminAcl,
+    });
+
+    return await executeSponsoredTransaction(
+        tx,
+        client,
+        keypair,
+        adminKeypair,
+        address,
+        adminAddress
+    );
+}
+
+/** Unlinks two gates owned by the same character. */
+export async function unlinkGates(
+    ctx: InitializedContext,
+    characterId: string,
+    gateAId: string,
+    gateBId: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const gateAOwnerCapId = await getOwnerCap(gateAId, client, config, address);
+    const gateBOwnerCapId = await getOwnerCap(gateBId, client, config, address);
+    if (!gateAOwnerCapId || !gateBOwnerCapId) {
+        throw new Error("Gate OwnerCaps not found (make sure the character owns both gates)");
+    }
+
+    const tx = new Transaction();
+    const gateType = world.worldType(config.packageId, MODULES.GATE, "Gate");
+    const [gateAOwnerCap, gateAReceipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCapTicket: gateAOwnerCapId,
+    });
+    const [gateBOwnerCap, gateBReceipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCapTicket: gateBOwnerCapId,
+    });
+
+    world.gate.unlinkGates(tx, config.packageId, {
+        sourceGate: gateAId,
+        destinationGate: gateBId,
+        sourceGateOwnerCap: gateAOwnerCap,
+        destinationGateOwnerCap: gateBOwnerCap,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCap: gateAOwnerCap,
+        receipt: gateAReceipt,
+    });
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: gateType,
+        character: characterId,
+        ownerCap: gateBOwnerCap,
+        receipt: gateBReceipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true, showEvents: true },
+    });
+}
+
+/**
+ * The first `JumpPermit` held by `owner`, or the first one issued to `characterId` when given.
+ * The type is built from the original ID of the world package, which object types keep across
+ * upgrades.
+ */
+export async function findJumpPermitId(
+    client: SuiJsonRpcClient,
+    config: ReturnType<typeof getConfig>,
+    owner: string,
+    characterId?: string
+): Promise<string | null> {
+    const originalId = await getOriginalPackageId(client, config.packageId);
+    let cursor: string | null | undefined = null;
+    do {
+        const page = await client.getOwnedObjects({
+            owner,
+            filter: { StructType: `${originalId}::${MODULES.GATE}::JumpPermit` },
+            options: { showContent: true },
+            cursor,
+        });
+        for (const entry of page.data) {
+            const objectId = entry.data?.objectId ?? "jump permit";
+            const { fields } = moveObjectFields(entry, objectId);
+            if (!characterId || asString(fields.character_id) === characterId) return objectId;
+        }
+        cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    return null;
+}
+
+/** Jumps a character between two linked gates with a `JumpPermit`, sponsored by the admin keypair. */
+export async function jumpWithPermit(
+    ctx: InitializedContext,
+    adminKeypair: Signer,
+    characterId: string,
+    sourceGateId: string,
+    destinationGateId: string,
+    jumpPermitId: string
+) {
+    const { client, keypair, config, address } = ctx;
+    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
+
+    const tx = new Transaction();
+    tx.setSender(address);
+    tx.setGasOwner(adminAddress);
+
+    world.gate.jumpWithPermit(tx, config.packageId, {
+        sourceGate: sourceGateId,
+        destinationGate: destinationGateId,
+        character: characterId,
+        jumpPermit: jumpPermitId,
+        adminAcl: config.adminAcl,
+    });
+
+    return await executeSponsoredTransaction(
+        tx,
+        client,
+        keypair,
+        adminKeypair,
+        address,
+        adminAddress,
+        { showEffects: true, showObjectChanges: true, showEvents: true }
+    );
+}
+
+/**
+ * Deletes a `JumpPermit` held by the signer. World versions published before `delete_jump_permit`
+ * was added lack it, so `config.packageId` must name a version that has it.
+ */
+export async function deleteJumpPermit(ctx: InitializedContext, jumpPermitId: string) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    world.gate.deleteJumpPermit(tx, config.packageId, { jumpPermit: jumpPermitId });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true, showEvents: true },
+    });
+}
+
+/**
+ * Max jump distance configured for a gate type in `GateConfig`, or 0 when unset (the Move getter
+ * is package-only, so the table is read directly).
+ */
+export async function getGateMaxDistance(
+    client: SuiJsonRpcClient,
+    config: ReturnType<typeof getConfig>,
+    typeId: bigint
+): Promise<bigint | null> {
+    try {
+        const value = await getTableValue(client, config.gateConfig, "max_distance_by_type", {
+            type: "u64",
+            value: typeId.toString(),
+        });
+        return value === undefined ? 0n : BigInt(String(value));
+    } catch (error) {
+        console.warn(
+            "Failed to get gate max distance:",
+            error instanceof Error ? error.message : error
+        );
+        return null;
+    }
+}
+
+/** Sets the max jump distance for a gate type in `GateConfig` (admin ACL). */
+export async function setGateMaxDistance(
+    ctx: InitializedContext,
+    typeId: bigint,
+    maxDistance: bigint
+) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    world.gate.setMaxDistance(tx, config.packageId, {
+        gateConfig: config.gateConfig,
+        adminAcl: config.adminAcl,
+        typeId,
+        maxDistance,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true },
+    });
+}
+
+/**
+ * Authorizes `authType` (an extension's witness type) on a gate owned by the character.
+ */
+export async function authorizeGateExtension(
+    ctx: InitializedContext,
+    characterId: string,
+    gateId: string,
+    authType: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const ownerCapId = await getOwnerCap(gateId, client, config, address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for gate ${gateId}`);
+    }
+
+    const tx = new Transaction();
+    const objectType = world.worldType(config.packageId, MODULES.GATE, "Gate");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    world.gate.authorizeExtension(tx, config.packageId, { authType, gate: gateId, ownerCap });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true, showEvents: true },
+    });
+}
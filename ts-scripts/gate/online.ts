@@ -1,6 +1,4 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
-import { MODULES } from "../utils/config";
 import {
     getEnvConfig,
     handleError,
@@ -11,58 +9,7 @@ import {
 import { GAME_CHARACTER_ID, GATE_ITEM_ID_1, GATE_ITEM_ID_2, NWN_ITEM_ID } from "../utils/constants";
 import { delay, getDelayMs } from "../utils/delay";
 import { deriveObjectId } from "../utils/derive-object-id";
-import { getOwnerCap } from "./helper";
-
-async function onlineGate(
-    ctx: ReturnType<typeof initializeContext>,
-    characterId: number,
-    nwnId: bigint,
-    gateItemId: bigint
-) {
-    const { client, keypair, config, address } = ctx;
-
-    const characterObjectId = deriveObjectId(config.objectRegistry, characterId, config.packageId);
-    const networkNodeObjectId = deriveObjectId(config.objectRegistry, nwnId, config.packageId);
-    const gateId = deriveObjectId(config.objectRegistry, gateItemId, config.packageId);
-
-    const gateOwnerCapId = await getOwnerCap(gateId, client, config, address);
-    if (!gateOwnerCapId) {
-        throw new Error("Gate OwnerCap not found (make sure the character owns the gate)");
-    }
-
-    const tx = new Transaction();
-
-    const [gateOwnerCap, receipt] = tx.moveCall({
-        target: `${config.packageId}::${MODULES.CHARACTER}::borrow_owner_cap`,
-        typeArguments: [`${config.packageId}::${MODULES.GATE}::Gate`],
-        arguments: [tx.object(characterObjectId), tx.object(gateOwnerCapId)],
-    });
-
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.GATE}::online`,
-        arguments: [
-            tx.object(gateId),
-            tx.object(networkNodeObjectId),
-            tx.object(config.energyConfig),
-            gateOwnerCap,
-        ],
-    });
-
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.CHARACTER}::return_owner_cap`,
-        typeArguments: [`${config.packageId}::${MODULES.GATE}::Gate`],
-        arguments: [tx.object(characterObjectId), gateOwnerCap, receipt],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showObjectChanges: true, showEffects: true, showEvents: true },
-    });
-
-    console.log("\nGates brought online successfully!");
-    console.log("Transaction digest:", result.digest);
-}
+import { onlineGate } from "./helper";
 
 async function main() {
     try {
@@ -71,10 +18,23 @@ async function main() {
         const playerKey = requireEnv("PLAYER_A_PRIVATE_KEY");
         const playerCtx = initializeContext(env.network, playerKey);
         await hydrateWorldConfig(playerCtx);
-
-        await onlineGate(playerCtx, GAME_CHARACTER_ID, NWN_ITEM_ID, GATE_ITEM_ID_1);
-        await delay(getDelayMs());
-        await onlineGate(playerCtx, GAME_CHARACTER_ID, NWN_ITEM_ID, GATE_ITEM_ID_2);
+        const { config } = playerCtx;
+
+        const characterId = deriveObjectId(
+            config.objectRegistry,
+            GAME_CHARACTER_ID,
+            config.packageId
+        );
+        const networkNodeId = deriveObjectId(config.objectRegistry, NWN_ITEM_ID, config.packageId);
+
+        for (const [index, gateItemId] of [GATE_ITEM_ID_1, GATE_ITEM_ID_2].entries()) {
+            if (index > 0) await delay(getDelayMs());
+            const gateId = deriveObjectId(config.objectRegistry, gateItemId, config.packageId);
+            const result = await onlineGate(playerCtx, characterId, networkNodeId, gateId);
+
+            console.log("\nGates brought online successfully!");
+            console.log("Transaction digest:", result.digest);
+        }
     } catch (error) {
         handleError(error);
     }
@@ -0,0 +1,404 @@
+import { MODULES } from "../utils/config";
+import { toHex } from "../utils/helper";
+
+export type ColumnType = "TEXT" | "INTEGER";
+export type RowValue = string | number | null;
+export type EventRow = Record<string, RowValue>;
+
+/** Describes how one or more Move event types map onto a typed SQLite table. */
+export interface EventTable {
+    table: string;
+    columns: Record<string, ColumnType>;
+    /** `module::EventName` → row decoder for the event's `parsedJson`. */
+    decoders: Record<string, (json: Record<string, unknown>) => EventRow>;
+}
+
+/** Modules of the world package that define events, in the order they are indexed. */
+export const EVENT_MODULES = [
+    MODULES.ACCESS,
+    MODULES.CHARACTER,
+    MODULES.NETWORK_NODE,
+    MODULES.ASSEMBLY,
+    MODULES.STORAGE_UNIT,
+    MODULES.GATE,
+    MODULES.TURRET,
+    MODULES.EXTENSION_FREEZE,
+    MODULES.ENERGY,
+    MODULES.FUEL,
+    MODULES.INVENTORY,
+    MODULES.LOCATION,
+    MODULES.METADATA,
+    MODULES.STATUS,
+    MODULES.KILLMAIL,
+    MODULES.RIFT,
+] as const;
+
+// === Typed rows ===
+
+export type JumpRow = {
+    source_gate_id: string;
+    source_gate_item_id: string;
+    destination_gate_id: string;
+    destination_gate_item_id: string;
+    character_id: string;
+    character_item_id: string;
+    tenant: string;
+};
+
+export type InventoryAction = "minted" | "burned" | "deposited" | "withdrawn" | "destroyed";
+
+export type InventoryRow = {
+    action: InventoryAction;
+    assembly_id: string;
+    assembly_item_id: string;
+    inventory_key: string | null;
+    character_id: string | null;
+    character_item_id: string | null;
+    item_id: string;
+    type_id: string;
+    quantity: number;
+    tenant: string;
+};
+
+export type KillmailRow = {
+    killmail_item_id: string;
+    killer_item_id: string;
+    victim_item_id: string;
+    reported_by_item_id: string;
+    loss_type: string;
+    kill_timestamp: string;
+    solar_system_id: string;
+    tenant: string;
+};
+
+export type FuelRow = {
+    assembly_id: string;
+    assembly_item_id: string;
+    type_id: string;
+    old_quantity: string;
+    new_quantity: string;
+    is_burning: number;
+    action: string;
+    tenant: string;
+};
+
+export type StatusRow = {
+    assembly_id: string;
+    assembly_item_id: string;
+    status: string;
+    action: string;
+    tenant: string;
+};
+
+export type EnergyRow = {
+    action: "reserved" | "released";
+    energy_source_id: string;
+    assembly_type_id: string;
+    amount: string;
+    total_reserved_energy: string;
+};
+
+export type LocationRow = {
+    assembly_id: string;
+    assembly_item_id: string;
+    type_id: string;
+    location_hash: string;
+    solarsystem: string;
+    x: string;
+    y: string;
+    z: string;
+    tenant: string;
+};
+
+// === parsedJson field readers ===
+
+function field(json: Record<string, unknown>, name: string): unknown {
+    if (!(name in json)) throw new Error(`Event is missing field "${name}"`);
+    return json[name];
+}
+
+function text(json: Record<string, unknown>, name: string): string {
+    return String(field(json, name));
+}
+
+/**
+ * u64 values are kept as decimal text: SQLite integers are signed 64-bit, so binding anything
+ * above 2^63-1 would throw.
+ */
+function u64(json: Record<string, unknown>, name: string): string {
+    return BigInt(field(json, name) as string | number).toString();
+}
+
+function bool(json: Record<string, unknown>, name: string): number {
+    return field(json, name) ? 1 : 0;
+}
+
+function bytes(json: Record<string, unknown>, name: string): string {
+    return toHex(Uint8Array.from(field(json, name) as number[]));
+}
+
+/** Move enums render as `{ "@variant": "ONLINE" }` (or a bare string on older nodes). */
+function variant(json: Record<string, unknown>, name: string): string {
+    const value = field(json, name);
+    if (typeof value === "string") return value;
+    const tagged = value as { "@variant"?: string; variant?: string };
+    return tagged["@variant"] ?? tagged.variant ?? JSON.stringify(value);
+}
+
+function tenantItem(json: Record<string, unknown>, name: string) {
+    const key = field(json, name) as { item_id: string | number; tenant: string };
+    return { itemId: BigInt(key.item_id).toString(), tenant: key.tenant };
+}
+
+// === Tables ===
+
+function inventoryDecoder(action: InventoryAction, withCharacter: boolean, withInventory: boolean) {
+    return (json: Record<string, unknown>): EventRow => {
+        const assembly = tenantItem(json, "assembly_key");
+        const row: InventoryRow = {
+            action,
+            assembly_id: text(json, "assembly_id"),
+            assembly_item_id: assembly.itemId,
+            inventory_key: withInventory ? text(json, "inventory_key") : null,
+            character_id: withCharacter ? text(json, "character_id") : null,
+            character_item_id: withCharacter ? tenantItem(json, "character_key").itemId : null,
+            item_id: u64(json, "item_id"),
+            type_id: u64(json, "type_id"),
+            quantity: Number(field(json, "quantity")),
+            tenant: assembly.tenant,
+        };
+        return row;
+    };
+}
+
+export const EVENT_TABLES: EventTable[] = [
+    {
+        table: "jumps",
+        columns: {
+            source_gate_id: "TEXT",
+            source_gate_item_id: "TEXT",
+            destination_gate_id: "TEXT",
+            destination_gate_item_id: "TEXT",
+            character_id: "TEXT",
+            character_item_id: "TEXT",
+            tenant: "TEXT",
+        },
+        decoders: {
+            [`${MODULES.GATE}::JumpEvent`]: (json) => {
+                const source = tenantItem(json, "source_gate_key");
+                const row: JumpRow = {
+                    source_gate_id: text(json, "source_gate_id"),
+                    source_gate_item_id: source.itemId,
+                    destination_gate_id: text(json, "destination_gate_id"),
+                    destination_gate_item_id: tenantItem(json, "destination_gate_key").itemId,
+                    character_id: text(json, "character_id"),
+                    character_item_id: tenantItem(json, "character_key").itemId,
+                    tenant: source.tenant,
+                };
+                return row;
+            },
+        },
+    },
+    {
+        table: "inventory_events",
+        columns: {
+            action: "TEXT",
+            assembly_id: "TEXT",
+            assembly_item_id: "TEXT",
+            inventory_key: "TEXT",
+            character_id: "TEXT",
+            character_item_id: "TEXT",
+            item_id: "TEXT",
+            type_id: "TEXT",
+            quantity: "INTEGER",
+            tenant: "TEXT",
+        },
+        decoders: {
+            [`${MODULES.INVENTORY}::ItemMintedEvent`]: inventoryDecoder("minted", true, false),
+            [`${MODULES.INVENTORY}::ItemBurnedEvent`]: inventoryDecoder("burned", true, false),
+            [`${MODULES.INVENTORY}::ItemDepositedEvent`]: inventoryDecoder(
+                "deposited",
+                true,
+                false
+            ),
+            [`${MODULES.INVENTORY}::ItemDepositedEventV2`]: inventoryDecoder(
+                "deposited",
+                true,
+                true
+            ),
+            [`${MODULES.INVENTORY}::ItemWithdrawnEvent`]: inventoryDecoder(
+                "withdrawn",
+                true,
+                false
+            ),
+            [`${MODULES.INVENTORY}::ItemWithdrawnEventV2`]: inventoryDecoder(
+                "withdrawn",
+                true,
+                true
+            ),
+            [`${MODULES.INVENTORY}::ItemDestroyedEvent`]: inventoryDecoder(
+                "destroyed",
+                false,
+                false
+            ),
+        },
+    },
+    {
+        table: "killmails",
+        columns: {
+            killmail_item_id: "TEXT",
+            killer_item_id: "TEXT",
+            victim_item_id: "TEXT",
+            reported_by_item_id: "TEXT",
+            loss_type: "TEXT",
+            kill_timestamp: "TEXT",
+            solar_system_id: "TEXT",
+            tenant: "TEXT",
+        },
+        decoders: {
+            [`${MODULES.KILLMAIL}::KillmailCreatedEvent`]: (json) => {
+                const key = tenantItem(json, "key");
+                const row: KillmailRow = {
+                    killmail_item_id: key.itemId,
+                    killer_item_id: tenantItem(json, "killer_id").itemId,
+                    victim_item_id: tenantItem(json, "victim_id").itemId,
+                    reported_by_item_id: tenantItem(json, "reported_by_character_id").itemId,
+                    loss_type: variant(json, "loss_type"),
+                    kill_timestamp: u64(json, "kill_timestamp"),
+                    solar_system_id: tenantItem(json, "solar_system_id").itemId,
+                    tenant: key.tenant,
+                };
+                return row;
+            },
+        },
+    },
+    {
+        table: "fuel_events",
+        columns: {
+            assembly_id: "TEXT",
+            assembly_item_id: "TEXT",
+            type_id: "TEXT",
+            old_quantity: "TEXT",
+            new_quantity: "TEXT",
+            is_burning: "INTEGER",
+            action: "TEXT",
+            tenant: "TEXT",
+        },
+        decoders: {
+            [`${MODULES.FUEL}::FuelEvent`]: (json) => {
+                const assembly = tenantItem(json, "assembly_key");
+                const row: FuelRow = {
+                    assembly_id: text(json, "assembly_id"),
+                    assembly_item_id: assembly.itemId,
+                    type_id: u64(json, "type_id"),
+                    old_quantity: u64(json, "old_quantity"),
+                    new_quantity: u64(json, "new_quantity"),
+                    is_burning: bool(json, "is_burning"),
+                    action: variant(json, "action"),
+                    tenant: assembly.tenant,
+                };
+                return row;
+            },
+        },
+    },
+    {
+        table: "status_changes",
+        columns: {
+            assembly_id: "TEXT",
+            assembly_item_id: "TEXT",
+            status: "TEXT",
+            action: "TEXT",
+            tenant: "TEXT",
+        },
+        decoders: {
+            [`${MODULES.STATUS}::StatusChangedEvent`]: (json) => {
+                const assembly = tenantItem(json, "assembly_key");
+                const row: StatusRow = {
+                    assembly_id: text(json, "assembly_id"),
+                    assembly_item_id: assembly.itemId,
+                    status: variant(json, "status"),
+                    action: variant(json, "action"),
+                    tenant: assembly.tenant,
+                };
+                return row;
+            },
+        },
+    },
+    {
+        table: "energy_events",
+        columns: {
+            action: "TEXT",
+            energy_source_id: "TEXT",
+            assembly_type_id: "TEXT",
+            amount: "TEXT",
+            total_reserved_energy: "TEXT",
+        },
+        decoders: {
+            [`${MODULES.ENERGY}::EnergyReservedEvent`]: (json) => {
+                const row: EnergyRow = {
+                    action: "reserved",
+                    energy_source_id: text(json, "energy_source_id"),
+                    assembly_type_id: u64(json, "assembly_type_id"),
+                    amount: u64(json, "energy_reserved"),
+                    total_reserved_energy: u64(json, "total_reserved_energy"),
+                };
+                return row;
+            },
+            [`${MODULES.ENERGY}::EnergyReleasedEvent`]: (json) => {
+                const row: EnergyRow = {
+                    action: "released",
+                    energy_source_id: text(json, "energy_source_id"),
+                    assembly_type_id: u64(json, "assembly_type_id"),
+                    amount: u64(json, "energy_released"),
+                    total_reserved_energy: u64(json, "total_reserved_energy"),
+                };
+                return row;
+            },
+        },
+    },
+    {
+        table: "location_reveals",
+        columns: {
+            assembly_id: "TEXT",
+            assembly_item_id: "TEXT",
+            type_id: "TEXT",
+            location_hash: "TEXT",
+            solarsystem: "TEXT",
+            x: "TEXT",
+            y: "TEXT",
+            z: "TEXT",
+            tenant: "TEXT",
+        },
+        decoders: {
+            [`${MODULES.LOCATION}::LocationRevealedEvent`]: (json) => {
+                const assembly = tenantItem(json, "assembly_key");
+                const row: LocationRow = {
+                    assembly_id: text(json, "assembly_id"),
+                    assembly_item_id: assembly.itemId,
+                    type_id: u64(json, "type_id"),
+                    location_hash: bytes(json, "location_hash"),
+                    solarsystem: u64(json, "solarsystem"),
+                    x: text(json, "x"),
+                    y: text(json, "y"),
+                    z: text(json, "z"),
+                    tenant: assembly.tenant,
+                };
+                return row;
+            },
+        },
+    },
+];
+
+/** Returns the typed table and decoded row for an event, or null if it is only stored raw. */
+export function decodeEvent(
+    module: string,
+    eventName: string,
+    parsedJson: unknown
+): { table: string; row: EventRow } | null {
+    const key = `${module}::${eventName}`;
+    for (const { table, decoders } of EVENT_TABLES) {
+        const decode = decoders[key];
+        if (decode) return { table, row: decode(parsedJson as Record<string, unknown>) };
+    }
+    return null;
+}
@@ -0,0 +1,99 @@
+import type { DatabaseSync } from "node:sqlite";
+import type { SuiEvent, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { delay } from "../utils/delay";
+import { getOriginalPackageId } from "../utils/helper";
+import { decodeEvent, EVENT_MODULES } from "./decoders";
+import { getCursor, IndexedEvent, savePage } from "./store";
+
+const PAGE_SIZE = 50;
+
+export type SyncOptions = {
+    modules?: readonly string[];
+    /** Stop after this many pages per module (useful for a bounded catch-up). */
+    maxPages?: number;
+    onPage?: (module: string, stored: number) => void;
+};
+
+function toIndexedEvent(event: SuiEvent): IndexedEvent {
+    const [packageId, module, eventName] = event.type.split("<")[0].split("::");
+    return {
+        txDigest: event.id.txDigest,
+        eventSeq: event.id.eventSeq,
+        timestampMs: event.timestampMs ? BigInt(event.timestampMs) : null,
+        packageId,
+        module,
+        eventName,
+        sender: event.sender,
+        parsedJson: event.parsedJson,
+        typed: decodeEvent(module, eventName, event.parsedJson),
+    };
+}
+
+/**
+ * Pages through `queryEvents` for one module of the world package, starting after the persisted
+ * cursor. `originalId` is the package's original ID: events stay under it after an upgrade.
+ * Returns the number of events stored.
+ */
+export async function syncModule(
+    client: SuiJsonRpcClient,
+    db: DatabaseSync,
+    originalId: string,
+    module: string,
+    options: Pick<SyncOptions, "maxPages" | "onPage"> = {}
+): Promise<number> {
+    const source = `${originalId}::${module}`;
+    let cursor = getCursor(db, source);
+    let stored = 0;
+
+    for (let page = 0; options.maxPages === undefined || page < options.maxPages; page++) {
+        const response = await client.queryEvents({
+            query: { MoveEventModule: { package: originalId, module } },
+            cursor,
+            limit: PAGE_SIZE,
+            order: "ascending",
+        });
+
+        const events = response.data.map(toIndexedEvent);
+        // An empty last page can return a null cursor; keep the previous one in that case.
+        cursor = response.nextCursor ?? cursor;
+        savePage(db, source, events, cursor);
+        stored += events.length;
+        options.onPage?.(module, events.length);
+
+        if (!response.hasNextPage) break;
+    }
+    return stored;
+}
+
+/**
+ * Syncs every event module once, querying by the original ID of `packageId` (the configured,
+ * possibly upgraded, world package). Returns the number of events stored per module.
+ */
+export async function syncWorldEvents(
+    client: SuiJsonRpcClient,
+    db: DatabaseSync,
+    packageId: string,
+    options: SyncOptions = {}
+): Promise<Record<string, number>> {
+    const originalId = await getOriginalPackageId(client, packageId);
+    const totals: Record<string, number> = {};
+    for (const module of options.modules ?? EVENT_MODULES) {
+        totals[module] = await syncModule(client, db, originalId, module, options);
+    }
+    return totals;
+}
+
+/** Keeps syncing until the signal is aborted, sleeping `intervalMs` between passes. */
+export async function followWorldEvents(
+    client: SuiJsonRpcClient,
+    db: DatabaseSync,
+    packageId: string,
+    intervalMs: number,
+    signal: AbortSignal,
+    options: SyncOptions = {}
+) {
+    while (!signal.aborted) {
+        await syncWorldEvents(client, db, packageId, options);
+        if (!signal.aborted) await delay(intervalMs);
+    }
+}
@@ -0,0 +1,147 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { DatabaseSync } from "node:sqlite";
+import type { EventId } from "@mysten/sui/jsonRpc";
+import { EVENT_TABLES, EventRow } from "./decoders";
+
+/** An event as stored in the `events` table, plus its typed row when one exists. */
+export type IndexedEvent = {
+    txDigest: string;
+    eventSeq: string;
+    timestampMs: bigint | null;
+    packageId: string;
+    module: string;
+    eventName: string;
+    sender: string;
+    parsedJson: unknown;
+    typed: { table: string; row: EventRow } | null;
+};
+
+export function getDefaultEventStorePath(network: string): string {
+    return path.resolve(process.cwd(), "deployments", network, "events.db");
+}
+
+/** Opens (or creates) the event store and applies the schema. */
+export function openEventStore(filePath: string): DatabaseSync {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const db = new DatabaseSync(filePath);
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS events (
+            tx_digest TEXT NOT NULL,
+            event_seq TEXT NOT NULL,
+            timestamp_ms INTEGER,
+            package_id TEXT NOT NULL,
+            module TEXT NOT NULL,
+            event_name TEXT NOT NULL,
+            sender TEXT NOT NULL,
+            parsed_json TEXT NOT NULL,
+            PRIMARY KEY (tx_digest, event_seq)
+        );
+        CREATE INDEX IF NOT EXISTS events_by_name ON events (module, event_name, timestamp_ms);
+        CREATE TABLE IF NOT EXISTS cursors (
+            source TEXT PRIMARY KEY,
+            tx_digest TEXT NOT NULL,
+            event_seq TEXT NOT NULL,
+            updated_at_ms INTEGER NOT NULL
+        );
+    `);
+    for (const { table, columns } of EVENT_TABLES) {
+        const definitions = Object.entries(columns).map(([name, type]) => `${name} ${type}`);
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS ${table} (
+                tx_digest TEXT NOT NULL,
+                event_seq TEXT NOT NULL,
+                timestamp_ms INTEGER,
+                ${definitions.join(",\n                ")},
+                PRIMARY KEY (tx_digest, event_seq)
+            );
+        `);
+    }
+    return db;
+}
+
+export function getCursor(db: DatabaseSync, source: string): EventId | null {
+    const row = db
+        .prepare("SELECT tx_digest, event_seq FROM cursors WHERE source = ?")
+        .get(source) as { tx_digest: string; event_seq: string } | undefined;
+    return row ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null;
+}
+
+/**
+ * Writes a page of events and advances the source cursor in one transaction, so a restart
+ * resumes from the last page that was fully stored. Re-inserting a stored event is a no-op.
+ */
+export function savePage(
+    db: DatabaseSync,
+    source: string,
+    events: IndexedEvent[],
+    cursor: EventId | null
+) {
+    const insertEvent = db.prepare(`
+        INSERT OR IGNORE INTO events
+            (tx_digest, event_seq, timestamp_ms, package_id, module, event_name, sender, parsed_json)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const saveCursor = db.prepare(`
+        INSERT INTO cursors (source, tx_digest, event_seq, updated_at_ms) VALUES (?, ?, ?, ?)
+        ON CONFLICT (source) DO UPDATE SET
+            tx_digest = excluded.tx_digest,
+            event_seq = excluded.event_seq,
+            updated_at_ms = excluded.updated_at_ms
+    `);
+
+    db.exec("BEGIN");
+    try {
+        for (const event of events) {
+            insertEvent.run(
+                event.txDigest,
+                event.eventSeq,
+                event.timestampMs,
+                event.packageId,
+                event.module,
+                event.eventName,
+                event.sender,
+                JSON.stringify(event.parsedJson)
+            );
+            if (event.typed) {
+                const { table, row } = event.typed;
+                const columns = ["tx_digest", "event_seq", "timestamp_ms", ...Object.keys(row)];
+                db.prepare(
+                    `INSERT OR IGNORE INTO ${table} (${columns.join(", ")})
+                     VALUES (${columns.map(() => "?").join(", ")})`
+                ).run(event.txDigest, event.eventSeq, event.timestampMs, ...Object.values(row));
+            }
+        }
+        if (cursor) {
+            saveCursor.run(source, cursor.txDigest, cursor.eventSeq, Date.now());
+        }
+        db.exec("COMMIT");
+    } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+    }
+}
+
+/** Reads rows from a typed table (or `events`), newest first. */
+export function queryTable(
+    db: DatabaseSync,
+    table: string,
+    filters: Record<string, string | number | bigint> = {},
+    limit = 50
+): Record<string, unknown>[] {
+    const known = ["events", ...EVENT_TABLES.map((t) => t.table)];
+    if (!known.includes(table)) {
+        throw new Error(`Unknown table "${table}" (expected one of ${known.join(", ")})`);
+    }
+    const where = Object.keys(filters).map((column) => {
+        if (!/^[a-z_]+$/.test(column)) throw new Error(`Invalid column "${column}"`);
+        return `${column} = ?`;
+    });
+    const sql = [
+        `SELECT * FROM ${table}`,
+        where.length > 0 ? `WHERE ${where.join(" AND ")}` : "",
+        "ORDER BY timestamp_ms DESC, tx_digest, event_seq LIMIT ?",
+    ].join(" ");
+    return db.prepare(sql).all(...Object.values(filters), limit) as Record<string, unknown>[];
+}
@@ -0,0 +1,270 @@
+import { blake2b } from "@noble/hashes/blake2b";
+import type { SuiJsonRpcClient, SuiObjectResponse } from "@mysten/sui/jsonRpc";
+import { fromHex, normalizeSuiAddress, toHex } from "@mysten/sui/utils";
+import { HydratedWorldConfig, MODULES } from "../utils/config";
+import { getOriginalPackageId } from "../utils/helper";
+import {
+    asOptionalString,
+    asString,
+    bytesToHex,
+    enumVariant,
+    fieldsOf,
+    moveObjectFields,
+} from "../utils/move-content";
+
+export type AssemblyKind = "gate" | "storage_unit" | "turret" | "assembly" | "network_node";
+
+const KIND_BY_TYPE: Record<string, AssemblyKind> = {
+    [`${MODULES.GATE}::Gate`]: "gate",
+    [`${MODULES.STORAGE_UNIT}::StorageUnit`]: "storage_unit",
+    [`${MODULES.TURRET}::Turret`]: "turret",
+    [`${MODULES.ASSEMBLY}::Assembly`]: "assembly",
+    [`${MODULES.NETWORK_NODE}::NetworkNode`]: "network_node",
+};
+
+export type InventoryItemView = {
+    typeId: string;
+    itemId: string;
+    tenant: string;
+    volume: string;
+    quantity: number;
+};
+
+export type InventoryView = {
+    key: string;
+    /**
+     * `owner` for the owner cap's inventory, `open` for the contract-only open storage slot and
+     * `ephemeral` for inventories keyed by another character's owner cap.
+     */
+    role: "owner" | "open" | "ephemeral";
+    maxCapacity: string;
+    usedCapacity: string;
+    items: InventoryItemView[];
+};
+
+export type FuelView = {
+    typeId: string | null;
+    unitVolume: string | null;
+    quantity: string;
+    maxCapacity: string;
+    burnRateInMs: string;
+    isBurning: boolean;
+    burnStartTime: string;
+    previousCycleElapsedTime: string;
+    lastUpdated: string;
+};
+
+export type EnergyView = {
+    maxEnergyProduction: string;
+    currentEnergyProduction: string;
+    totalReservedEnergy: string;
+};
+
+export type AssemblyView = {
+    kind: AssemblyKind;
+    objectId: string;
+    type: string;
+    version: string;
+    itemId: string;
+    tenant: string;
+    typeId: string;
+    status: string;
+    ownerCapId: string;
+    locationHash: string;
+    metadata: { name: string; description: string; url: string } | null;
+    energySourceId?: string | null;
+    /** Energy figures of the network node this assembly draws from, when it is connected. */
+    energySource?: EnergyView | null;
+    extension?: { type: string | null; frozen: boolean };
+    linkedGateId?: string | null;
+    fuel?: FuelView;
+    energy?: EnergyView;
+    connectedAssemblyIds?: string[];
+    inventories?: InventoryView[];
+};
+
+/** Mirrors `storage_unit::open_storage_key_from_id`: blake2b256(bcs(id) ++ "open_inventory"). */
+export function openStorageKey(storageUnitId: string): string {
+    const seed = new Uint8Array([
+        ...fromHex(storageUnitId),
+        ...new TextEncoder().encode("open_inventory"),
+    ]);
+    return "0x" + toHex(blake2b(seed, { dkLen: 32 }));
+}
+
+/**
+ * Returns the assembly kind for a full object type, or null for anything else. `originalId` is
+ * the world package's original ID, which object types keep across upgrades.
+ */
+export function detectAssemblyKind(type: string, originalId: string): AssemblyKind | null {
+    const [typePackage, module, name] = type.split("<")[0].split("::");
+    if (normalizeSuiAddress(typePackage) !== normalizeSuiAddress(originalId)) return null;
+    return KIND_BY_TYPE[`${module}::${name}`] ?? null;
+}
+
+function decodeEnergy(value: unknown): EnergyView {
+    const fields = fieldsOf(value);
+    return {
+        maxEnergyProduction: asString(fields.max_energy_production),
+        currentEnergyProduction: asString(fields.current_energy_production),
+        totalReservedEnergy: asString(fields.total_reserved_energy),
+    };
+}
+
+function decodeFuel(value: unknown): FuelView {
+    const fields = fieldsOf(value);
+    return {
+        typeId: asOptionalString(fields.type_id),
+        unitVolume: asOptionalString(fields.unit_volume),
+        quantity: asString(fields.quantity),
+        maxCapacity: asString(fields.max_capacity),
+        burnRateInMs: asString(fields.burn_rate_in_ms),
+        isBurning: Boolean(fields.is_burning),
+        burnStartTime: asString(fields.burn_start_time),
+        previousCycleElapsedTime: asString(fields.previous_cycle_elapsed_time),
+        lastUpdated: asString(fields.last_updated),
+    };
+}
+
+function decodeInventory(key: string, role: InventoryView["role"], value: unknown): InventoryView {
+    const fields = fieldsOf(value);
+    const contents = fieldsOf(fields.items).contents as unknown[];
+    return {
+        key,
+        role,
+        maxCapacity: asString(fields.max_capacity),
+        usedCapacity: asString(fields.used_capacity),
+        items: contents.map((entry) => {
+            const item = fieldsOf(fieldsOf(entry).value);
+            return {
+                typeId: asString(item.type_id),
+                itemId: asString(item.item_id),
+                tenant: asString(item.tenant),
+                volume: asString(item.volume),
+                quantity: Number(item.quantity),
+            };
+        }),
+    };
+}
+
+async function isExtensionFrozen(
+    client: SuiJsonRpcClient,
+    originalId: string,
+    objectId: string
+): Promise<boolean> {
+    const response = await client.getDynamicFieldObject({
+        parentId: objectId,
+        name: {
+            type: `${originalId}::${MODULES.EXTENSION_FREEZE}::ExtensionFrozenKey`,
+            value: { dummy_field: false },
+        },
+    });
+    return response.data !== undefined && response.data !== null;
+}
+
+async function fetchInventories(
+    client: SuiJsonRpcClient,
+    storageUnitId: string,
+    ownerCapId: string,
+    keys: string[]
+): Promise<InventoryView[]> {
+    const openKey = openStorageKey(storageUnitId);
+    return Promise.all(
+        keys.map(async (key) => {
+            const response = await client.getDynamicFieldObject({
+                parentId: storageUnitId,
+                name: { type: "0x2::object::ID", value: key },
+            });
+            const { fields } = moveObjectFields(response, key);
+            const role = key === ownerCapId ? "owner" : key === openKey ? "open" : "ephemeral";
+            return decodeInventory(key, role, fields.value);
+        })
+    );
+}
+
+async function fetchEnergySource(
+    client: SuiJsonRpcClient,
+    networkNodeId: string
+): Promise<EnergyView | null> {
+    const response = await client.getObject({
+        id: networkNodeId,
+        options: { showContent: true },
+    });
+    if (!response.data) return null;
+    return decodeEnergy(moveObjectFields(response, networkNodeId).fields.energy_source);
+}
+
+/**
+ * Reads an assembly object and decodes its fields and dynamic fields into a single view.
+ * Everything is read with plain object queries, so no sender or gas is needed.
+ */
+export async function inspectAssembly(
+    client: SuiJsonRpcClient,
+    config: HydratedWorldConfig,
+    objectId: string
+): Promise<AssemblyView> {
+    const response = await client.getObject({
+        id: objectId,
+        options: { showType: true, showContent: true },
+    });
+    const { type, fields } = moveObjectFields(response, objectId);
+    const originalId = await getOriginalPackageId(client, config.packageId);
+    const kind = detectAssemblyKind(type, originalId);
+    if (!kind) {
+        throw new Error(`Object ${objectId} is a ${type}, not a world assembly`);
+    }
+
+    const key = fieldsOf(fields.key);
+    const metadata = fields.metadata ? fieldsOf(fields.metadata) : null;
+    const view: AssemblyView = {
+        kind,
+        objectId,
+        type,
+        version: response.data!.version,
+        itemId: asString(key.item_id),
+        tenant: asString(key.tenant),
+        typeId: asString(fields.type_id),
+        status: enumVariant(fieldsOf(fields.status).status),
+        ownerCapId: asString(fields.owner_cap_id),
+        locationHash: bytesToHex(fieldsOf(fields.location).location_hash),
+        metadata: metadata
+            ? {
+                  name: asString(metadata.name),
+                  description: asString(metadata.description),
+                  url: asString(metadata.url),
+              }
+            : null,
+    };
+
+    if (kind === "network_node") {
+        view.fuel = decodeFuel(fields.fuel);
+        view.energy = decodeEnergy(fields.energy_source);
+        view.connectedAssemblyIds = (fields.connected_assembly_ids as unknown[]).map(asString);
+        return view;
+    }
+
+    view.energySourceId = asOptionalString(fields.energy_source_id);
+    view.energySource = view.energySourceId
+        ? await fetchEnergySource(client, view.energySourceId)
+        : null;
+
+    if (kind !== "assembly") {
+        const extension = fields.extension ? fieldsOf(fields.extension) : null;
+        view.extension = {
+            type: extension ? asString(extension.name) : null,
+            frozen: await isExtensionFrozen(client, originalId, objectId),
+        };
+    }
+    if (kind === "gate") {
+        view.linkedGateId = asOptionalString(fields.linked_gate_id);
+    }
+    if (kind === "storage_unit") {
+        view.inventories = await fetchInventories(
+            client,
+            objectId,
+            view.ownerCapId,
+            (fields.inventory_keys as unknown[]).map(asString)
+        );
+    }
+    return view;
+}
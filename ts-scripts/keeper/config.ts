@@ -0,0 +1,72 @@
+import * as fs from "node:fs";
+
+/** Tops a node up from a storage unit when its fuel drops below `threshold` units. */
+export type RefuelConfig = {
+    /** Character that owns both the network node and the storage unit. */
+    character: string;
+    storageUnit: string;
+    threshold: number;
+    /** Quantity to fill up to (capped by the node's capacity and the storage unit's stock). */
+    target: number;
+    /** Fuel type to load when the node has none yet; otherwise the node's current type is used. */
+    typeId?: string;
+    /** Env var holding the character's private key (default: PLAYER_A_PRIVATE_KEY). */
+    keyEnv?: string;
+};
+
+export type KeeperNodeConfig = {
+    /** Item ID or 0x object ID of the network node. */
+    node: string;
+    refuel?: RefuelConfig;
+};
+
+export type KeeperConfig = {
+    intervalSeconds: number;
+    /** Port for the `/metrics` and `/healthz` endpoint; omit to disable it. */
+    metricsPort?: number;
+    nodes: KeeperNodeConfig[];
+};
+
+function requirePositiveInteger(value: unknown, field: string): number {
+    if (typeof value !== "number" || !Number.isSafeInteger(value) || value <= 0) {
+        throw new Error(`Keeper config: ${field} must be a positive integer`);
+    }
+    return value;
+}
+
+export function loadKeeperConfig(filePath: string): KeeperConfig {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Keeper config not found at ${filePath}`);
+    }
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Partial<KeeperConfig>;
+    if (!Array.isArray(raw.nodes) || raw.nodes.length === 0) {
+        throw new Error("Keeper config: nodes must list at least one network node");
+    }
+    raw.nodes.forEach((entry, index) => {
+        if (typeof entry.node !== "string" || entry.node === "") {
+            throw new Error(`Keeper config: nodes[${index}].node is required`);
+        }
+        if (entry.refuel) {
+            const field = `nodes[${index}].refuel`;
+            if (!entry.refuel.character || !entry.refuel.storageUnit) {
+                throw new Error(`Keeper config: ${field} needs character and storageUnit`);
+            }
+            requirePositiveInteger(entry.refuel.threshold, `${field}.threshold`);
+            requirePositiveInteger(entry.refuel.target, `${field}.target`);
+            if (entry.refuel.target <= entry.refuel.threshold) {
+                throw new Error(`Keeper config: ${field}.target must be above threshold`);
+            }
+        }
+    });
+    return {
+        intervalSeconds:
+            raw.intervalSeconds === undefined
+                ? 60
+                : requirePositiveInteger(raw.intervalSeconds, "intervalSeconds"),
+        metricsPort:
+            raw.metricsPort === undefined
+                ? undefined
+                : requirePositiveInteger(raw.metricsPort, "metricsPort"),
+        nodes: raw.nodes,
+    };
+}
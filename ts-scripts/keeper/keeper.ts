@@ -0,0 +1,202 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { Signer } from "@mysten/sui/cryptography";
+import { inspectAssembly } from "../inspect/inspector";
+import { forecastFuel, fuelStateFromView } from "../network-node/fuel-simulator";
+import {
+    getFuelEfficiency,
+    needsFuelUpdate,
+    refuelFromStorageUnit,
+    updateFuel,
+} from "../network-node/helper";
+import { InitializedContext } from "../utils/helper";
+import { getClockMs } from "../utils/move-content";
+import { generateLocationProof } from "../utils/proof";
+import { incrementMetric, KeeperMetrics, setMetric } from "./metrics";
+
+export type KeeperTarget = {
+    networkNodeId: string;
+    refuel?: {
+        /** Context signed by the character's account (the refuel transaction sender). */
+        ctx: InitializedContext;
+        characterId: string;
+        storageUnitId: string;
+        threshold: number;
+        target: number;
+        typeId?: bigint;
+    };
+};
+
+/** Writes one structured log line (JSON) per keeper event. */
+export function logEvent(level: "info" | "warn" | "error", event: string, fields = {}) {
+    const line = JSON.stringify(
+        { time: new Date().toISOString(), level, event, ...fields },
+        (_, v) => (typeof v === "bigint" ? v.toString() : v)
+    );
+    (level === "error" ? console.error : console.log)(line);
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Works out how many units to move from the storage unit: up to `target`, limited by the node's
+ * remaining capacity and the storage unit's owner-inventory stock of that fuel type.
+ */
+async function planRefuel(adminCtx: InitializedContext, target: KeeperTarget) {
+    const refuel = target.refuel!;
+    const node = await inspectAssembly(adminCtx.client, adminCtx.config, target.networkNodeId);
+    const fuel = fuelStateFromView(node.fuel!);
+    if (fuel.quantity >= BigInt(refuel.threshold)) return null;
+
+    const typeId = fuel.typeId ?? refuel.typeId;
+    if (typeId === undefined) {
+        throw new Error("Node has no fuel type yet; set refuel.typeId in the keeper config");
+    }
+    const storage = await inspectAssembly(adminCtx.client, adminCtx.config, refuel.storageUnitId);
+    const stock = storage.inventories
+        ?.find((inventory) => inventory.role === "owner")
+        ?.items.find((item) => BigInt(item.typeId) === typeId);
+    if (!stock || stock.quantity === 0) {
+        logEvent("warn", "refuel_no_stock", {
+            networkNodeId: target.networkNodeId,
+            storageUnitId: refuel.storageUnitId,
+            typeId,
+        });
+        return null;
+    }
+
+    const volume = fuel.unitVolume ?? BigInt(stock.volume);
+    const capacity = fuel.maxCapacity / volume - fuel.quantity;
+    const wanted = BigInt(refuel.target) - fuel.quantity;
+    const quantity = [wanted, capacity, BigInt(stock.quantity)].reduce((a, b) => (a < b ? a : b));
+    if (quantity <= 0n) return null;
+    return { typeId, volume, quantity: Number(quantity), locationHash: storage.locationHash };
+}
+
+async function checkNode(
+    adminCtx: InitializedContext,
+    adminKeypair: Signer,
+    target: KeeperTarget,
+    metrics: KeeperMetrics
+) {
+    const { client, config } = adminCtx;
+    const labels = { node: target.networkNodeId };
+
+    if (await needsFuelUpdate(target.networkNodeId, client, config, adminCtx.address)) {
+        const { result, connectedAssemblies } = await updateFuel(adminCtx, target.networkNodeId);
+        incrementMetric(metrics, "world_keeper_fuel_updates_total", labels);
+        const status = result.effects?.status;
+        if (status?.status === "success") {
+            logEvent("info", "fuel_updated", {
+                networkNodeId: target.networkNodeId,
+                digest: result.digest,
+                connectedAssemblies,
+            });
+        } else {
+            // The transaction executed but aborted, so the node was not updated; keep checking the rest.
+            incrementMetric(metrics, "world_keeper_errors_total", labels);
+            logEvent("error", "fuel_update_failed", {
+                networkNodeId: target.networkNodeId,
+                digest: result.digest,
+                status: status?.status,
+                error: status?.error,
+            });
+        }
+    }
+
+    if (target.refuel) {
+        const plan = await planRefuel(adminCtx, target);
+        if (plan) {
+            const { ctx, characterId, storageUnitId } = target.refuel;
+            const proofHex = await generateLocationProof(
+                adminKeypair,
+                ctx.address,
+                characterId,
+                storageUnitId,
+                plan.locationHash
+            );
+            const result = await refuelFromStorageUnit(
+                ctx,
+                adminKeypair,
+                characterId,
+                target.networkNodeId,
+                storageUnitId,
+                plan,
+                proofHex
+            );
+            incrementMetric(metrics, "world_keeper_refuels_total", labels);
+            incrementMetric(metrics, "world_keeper_refuel_units_total", labels, plan.quantity);
+            logEvent("info", "refueled", {
+                networkNodeId: target.networkNodeId,
+                storageUnitId,
+                typeId: plan.typeId,
+                quantity: plan.quantity,
+                digest: result.digest,
+                status: result.effects?.status.status,
+            });
+        }
+    }
+
+    const node = await inspectAssembly(client, config, target.networkNodeId);
+    const fuel = fuelStateFromView(node.fuel!);
+    setMetric(metrics, "world_keeper_fuel_quantity", Number(fuel.quantity), labels);
+    setMetric(metrics, "world_keeper_node_online", node.status === "ONLINE" ? 1 : 0, labels);
+    if (fuel.typeId !== null) {
+        const efficiency = await getFuelEfficiency(fuel.typeId, client, config, adminCtx.address);
+        const forecast =
+            efficiency === null
+                ? null
+                : forecastFuel(fuel, efficiency, await getClockMs(client), 0);
+        if (forecast?.timeToEmptyMs != null) {
+            const seconds = Number(forecast.timeToEmptyMs / 1000n);
+            setMetric(metrics, "world_keeper_seconds_to_empty", seconds, labels);
+        }
+    }
+}
+
+/** Checks every target once. A failing node is logged and counted; the others still run. */
+export async function runKeeperPass(
+    adminCtx: InitializedContext,
+    adminKeypair: Signer,
+    targets: KeeperTarget[],
+    metrics: KeeperMetrics
+) {
+    for (const target of targets) {
+        try {
+            await checkNode(adminCtx, adminKeypair, target, metrics);
+        } catch (error) {
+            incrementMetric(metrics, "world_keeper_errors_total", { node: target.networkNodeId });
+            logEvent("error", "node_failed", {
+                networkNodeId: target.networkNodeId,
+                error: errorMessage(error),
+            });
+        }
+    }
+    incrementMetric(metrics, "world_keeper_passes_total");
+    setMetric(metrics, "world_keeper_last_pass_timestamp_seconds", Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Runs passes until the signal is aborted, sleeping `intervalMs` between them. An abort ends the
+ * sleep at once rather than after the interval.
+ */
+export async function runKeeper(
+    adminCtx: InitializedContext,
+    adminKeypair: Signer,
+    targets: KeeperTarget[],
+    metrics: KeeperMetrics,
+    intervalMs: number,
+    signal: AbortSignal
+) {
+    logEvent("info", "keeper_started", { nodes: targets.length, intervalMs });
+    while (!signal.aborted) {
+        await runKeeperPass(adminCtx, adminKeypair, targets, metrics);
+        try {
+            await sleep(intervalMs, undefined, { signal });
+        } catch (error) {
+            if (!signal.aborted) throw error;
+        }
+    }
+    logEvent("info", "keeper_stopped");
+}
@@ -0,0 +1,97 @@
+import * as http from "node:http";
+
+type Labels = Record<string, string>;
+
+type Metric = {
+    type: "counter" | "gauge";
+    help: string;
+    values: Map<string, { labels: Labels; value: number }>;
+};
+
+/** In-memory counters and gauges rendered in the Prometheus text format. */
+export type KeeperMetrics = Map<string, Metric>;
+
+const DEFINITIONS: Record<string, Pick<Metric, "type" | "help">> = {
+    world_keeper_passes_total: { type: "counter", help: "Completed keeper passes" },
+    world_keeper_fuel_updates_total: { type: "counter", help: "update_fuel transactions sent" },
+    world_keeper_refuels_total: { type: "counter", help: "Refuel transactions sent" },
+    world_keeper_refuel_units_total: { type: "counter", help: "Fuel units deposited" },
+    world_keeper_errors_total: { type: "counter", help: "Failed node checks or transactions" },
+    world_keeper_fuel_quantity: { type: "gauge", help: "Fuel units left in the node" },
+    world_keeper_node_online: { type: "gauge", help: "1 when the node is online" },
+    world_keeper_seconds_to_empty: { type: "gauge", help: "Forecast seconds until depletion" },
+    world_keeper_last_pass_timestamp_seconds: {
+        type: "gauge",
+        help: "Unix time of the last completed pass",
+    },
+};
+
+export function createKeeperMetrics(): KeeperMetrics {
+    return new Map(
+        Object.entries(DEFINITIONS).map(([name, definition]) => [
+            name,
+            { ...definition, values: new Map() },
+        ])
+    );
+}
+
+function series(metrics: KeeperMetrics, name: string) {
+    const metric = metrics.get(name);
+    if (!metric) throw new Error(`Unknown keeper metric ${name}`);
+    return metric.values;
+}
+
+export function incrementMetric(
+    metrics: KeeperMetrics,
+    name: string,
+    labels: Labels = {},
+    amount = 1
+) {
+    const values = series(metrics, name);
+    const key = JSON.stringify(labels);
+    values.set(key, { labels, value: (values.get(key)?.value ?? 0) + amount });
+}
+
+export function setMetric(
+    metrics: KeeperMetrics,
+    name: string,
+    value: number,
+    labels: Labels = {}
+) {
+    series(metrics, name).set(JSON.stringify(labels), { labels, value });
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+export function renderMetrics(metrics: KeeperMetrics): string {
+    const lines: string[] = [];
+    for (const [name, metric] of metrics) {
+        lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+        for (const { labels, value } of metric.values.values()) {
+            const rendered = Object.entries(labels)
+                .map(([key, label]) => `${key}="${escapeLabel(label)}"`)
+                .join(",");
+            lines.push(`${name}${rendered ? `{${rendered}}` : ""} ${value}`);
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+/** Serves `/metrics` (Prometheus text) and `/healthz` until the returned server is closed. */
+export function serveMetrics(metrics: KeeperMetrics, port: number): http.Server {
+    return http
+        .createServer((request, response) => {
+            if (request.url === "/metrics") {
+                response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+                response.end(renderMetrics(metrics));
+            } else if (request.url === "/healthz") {
+                response.writeHead(200, { "Content-Type": "text/plain" });
+                response.end("ok\n");
+            } else {
+                response.writeHead(404).end();
+            }
+        })
+        .listen(port);
+}
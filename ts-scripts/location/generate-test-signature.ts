@@ -1,5 +1,5 @@
 import "dotenv/config";
-import { keypairFromPrivateKey } from "../utils/client";
+import { resolveSigner } from "../utils/signer";
 import { LOCATION_HASH, GAME_CHARACTER_ID, STORAGE_A_ITEM_ID } from "../utils/constants";
 import { deriveObjectId } from "../utils/derive-object-id";
 import {
@@ -32,10 +32,10 @@ async function main() {
         await hydrateWorldConfig(ctx);
         const { config } = ctx;
 
-        const adminKeypair = keypairFromPrivateKey(requireEnv("ADMIN_PRIVATE_KEY"));
+        const adminKeypair = resolveSigner(requireEnv("ADMIN_PRIVATE_KEY"));
         const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
         const playerKey = requireEnv("PLAYER_A_PRIVATE_KEY");
-        const playerAddress = keypairFromPrivateKey(playerKey).getPublicKey().toSuiAddress();
+        const playerAddress = resolveSigner(playerKey).getPublicKey().toSuiAddress();
 
         const characterId = deriveObjectId(
             config.objectRegistry,
@@ -0,0 +1,180 @@
+/**
+ * Location hashes for seeding. `location::Location` documents the hash as a Poseidon2 hash of the
+ * location coordinates but links to `sui::poseidon`, whose only hash is `poseidon_bn254` (the
+ * original Poseidon with circom parameters, not Poseidon2). This module computes that BN254
+ * Poseidon over `[solarsystem, x, y, z]` plus an optional salt, so the hashes are only as good as
+ * the assumption that the game server does the same: `LOCATION_HASH_FIXTURES` pins known hashes
+ * and `poseidonOnChain` checks the TypeScript hash against the Move native for the same inputs.
+ */
+import { bcs } from "@mysten/sui/bcs";
+import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { poseidon4, poseidon5 } from "poseidon-lite";
+import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { toHex } from "../utils/helper";
+
+export const BN254_FIELD_MODULUS =
+    21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+export type LocationInput = {
+    solarsystem: bigint | number | string;
+    /** Integer coordinates; negative values are encoded as `p - |v|` in the field. */
+    x: bigint | number | string;
+    y: bigint | number | string;
+    z: bigint | number | string;
+    /** Optional per-structure salt, appended as a fifth field element. */
+    salt?: bigint | number | string;
+};
+
+/** `Coordinates` as `reveal_location` takes them (solarsystem u64, x/y/z strings). */
+export type Coordinates = {
+    solarsystem: bigint;
+    x: string;
+    y: string;
+    z: string;
+};
+
+/**
+ * Byte order of the 32-byte hash. `le` (the default) matches `bcs::to_bytes` of the `u256` that
+ * `poseidon_bn254` returns, which is how Move code turns the hash into `location_hash` bytes.
+ */
+export type HashByteOrder = "be" | "le";
+
+export type LocationHashFixture = {
+    name: string;
+    /** Where the expected hash comes from. */
+    source: string;
+    location: LocationInput;
+    /** Expected hash in `le` byte order. */
+    hash: string;
+};
+
+/**
+ * Known-good hashes checked by `checkLocationHashFixtures`. The circomlib vectors pin the Poseidon
+ * parameters and the `le` encoding; add a server-issued `{ coordinates, location_hash }` pair here
+ * to pin the server's input layout as well.
+ */
+export const LOCATION_HASH_FIXTURES: LocationHashFixture[] = [
+    {
+        name: "poseidon([1, 2, 3, 4])",
+        source: "circomlib Poseidon test vector",
+        location: { solarsystem: 1, x: 2, y: 3, z: 4 },
+        hash: "0x65042565df25a5ba3d66e01cbb0ee637980b51e440face9dd7fdc1b67d869c29",
+    },
+    {
+        name: "poseidon([1, 2, 3, 4, 5])",
+        source: "circomlib Poseidon test vector",
+        location: { solarsystem: 1, x: 2, y: 3, z: 4, salt: 5 },
+        hash: "0xc023b1ee8f5f1218c916a305d374218b599da4150b4c22158a39a1e44994ab0d",
+    },
+];
+
+function integer(value: bigint | number | string, field: string): bigint {
+    if (typeof value === "number" && !Number.isSafeInteger(value)) {
+        throw new Error(`${field} must be an integer, got ${value}`);
+    }
+    if (typeof value === "string" && !/^-?(\d+|0x[0-9a-fA-F]+)$/.test(value.trim())) {
+        throw new Error(`${field} must be an integer, got "${value}"`);
+    }
+    const text = typeof value === "string" ? value.trim() : value;
+    return typeof text === "string" && text.startsWith("-") ? -BigInt(text.slice(1)) : BigInt(text);
+}
+
+/** Maps a (possibly negative) integer into the BN254 scalar field. */
+export function toFieldElement(value: bigint | number | string, field = "value"): bigint {
+    const n = integer(value, field);
+    if (n >= BN254_FIELD_MODULUS || -n >= BN254_FIELD_MODULUS) {
+        throw new Error(`${field} is outside the BN254 field`);
+    }
+    return n < 0n ? BN254_FIELD_MODULUS + n : n;
+}
+
+export function locationHashInputs(location: LocationInput): bigint[] {
+    const solarsystem = integer(location.solarsystem, "solarsystem");
+    if (solarsystem < 0n || solarsystem > 0xffffffffffffffffn) {
+        throw new Error("solarsystem must fit in u64");
+    }
+    const inputs = [
+        solarsystem,
+        toFieldElement(location.x, "x"),
+        toFieldElement(location.y, "y"),
+        toFieldElement(location.z, "z"),
+    ];
+    if (location.salt !== undefined) inputs.push(toFieldElement(location.salt, "salt"));
+    return inputs;
+}
+
+export function poseidonHash(inputs: bigint[]): bigint {
+    if (inputs.length === 4) return poseidon4(inputs);
+    if (inputs.length === 5) return poseidon5(inputs);
+    throw new Error(`Expected 4 or 5 inputs, got ${inputs.length}`);
+}
+
+export function hashToHex(hash: bigint, byteOrder: HashByteOrder = "le"): string {
+    const bytes = new Uint8Array(32);
+    for (let i = 0, n = hash; i < 32; i++, n >>= 8n) bytes[31 - i] = Number(n & 0xffn);
+    return toHex(byteOrder === "le" ? bytes.reverse() : bytes);
+}
+
+/** 32-byte location hash as 0x hex, ready for `hexToBytes` in the create/anchor scripts. */
+export function computeLocationHash(location: LocationInput, byteOrder: HashByteOrder = "le") {
+    return hashToHex(poseidonHash(locationHashInputs(location)), byteOrder);
+}
+
+/** Throws when `computeLocationHash` disagrees with any fixture. */
+export function checkLocationHashFixtures(fixtures = LOCATION_HASH_FIXTURES) {
+    for (const fixture of fixtures) {
+        const hash = computeLocationHash(fixture.location, "le");
+        if (hash.toLowerCase() !== fixture.hash.toLowerCase()) {
+            throw new Error(
+                `Location hash fixture ${fixture.name} (${fixture.source}) expected ${fixture.hash}, got ${hash}`
+            );
+        }
+    }
+}
+
+export function toCoordinates(location: LocationInput): Coordinates {
+    return {
+        solarsystem: integer(location.solarsystem, "solarsystem"),
+        x: integer(location.x, "x").toString(),
+        y: integer(location.y, "y").toString(),
+        z: integer(location.z, "z").toString(),
+    };
+}
+
+export type HashedLocation<T extends LocationInput = LocationInput> = {
+    location: T;
+    hash: string;
+    coordinates: Coordinates;
+};
+
+/** Hashes a batch; throws on the first invalid entry, naming its index. */
+export function hashLocations<T extends LocationInput>(
+    locations: T[],
+    byteOrder: HashByteOrder = "le"
+): HashedLocation<T>[] {
+    return locations.map((location, index) => {
+        try {
+            return {
+                location,
+                hash: computeLocationHash(location, byteOrder),
+                coordinates: toCoordinates(location),
+            };
+        } catch (error) {
+            throw new Error(`locations[${index}]: ${(error as Error).message}`);
+        }
+    });
+}
+
+/** `0x2::poseidon::poseidon_bn254` via devInspect, for cross-checking `poseidonHash`. */
+export async function poseidonOnChain(
+    client: SuiJsonRpcClient,
+    inputs: bigint[],
+    senderAddress?: string
+): Promise<bigint | null> {
+    const bytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+        target: "0x2::poseidon::poseidon_bn254",
+        senderAddress,
+        arguments: (tx) => [tx.pure(bcs.vector(bcs.u256()).serialize(inputs))],
+    });
+    return bytes ? BigInt(bcs.u256().parse(bytes)) : null;
+}
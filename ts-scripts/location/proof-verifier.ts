@@ -0,0 +1,137 @@
+/**
+ * Decodes a location proof and runs the checks `location::verify_proximity_proof_from_bytes` makes.
+ *
+ * That function takes a `&Location`, which only the world package can build, so it cannot be called
+ * from a PTB. The devInspect cross-check calls `sig_verify::verify_signature` instead, the same
+ * signature check the contract runs, while the registry, target hash and deadline checks read the
+ * same on-chain state the contract reads.
+ */
+import { bcs } from "@mysten/sui/bcs";
+import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { isAuthorizedServerAddress } from "../access/helper";
+import { HydratedWorldConfig, MODULES } from "../utils/config";
+import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { bytesToHex, fieldsOf, moveObjectFields } from "../utils/move-content";
+import { decodeLocationProof, verifyLocationProofSignature } from "../utils/proof";
+
+export type ProofReport = {
+    message: {
+        serverAddress: string;
+        playerAddress: string;
+        sourceStructureId: string;
+        sourceLocationHash: string;
+        targetStructureId: string;
+        targetLocationHash: string;
+        distance: bigint;
+        data: string;
+        deadlineMs: bigint;
+    };
+    signature: { valid: boolean; signerAddress: string | null; error?: string };
+    /** Null when the registry could not be read. */
+    serverRegistered: boolean | null;
+    deadline: { nowMs: bigint; expired: boolean; remainingMs: bigint };
+    /**
+     * Compared with the target structure's on-chain location hash; null when it has none, which
+     * also fails `valid` since the contract needs the target's `Location`.
+     */
+    targetLocationMatches: boolean | null;
+    /** `sig_verify::verify_signature` via devInspect; undefined when not requested. */
+    devInspectSignatureValid?: boolean | null;
+    /** Every check passed, i.e. the proof should verify for `playerAddress` right now. */
+    valid: boolean;
+};
+
+/**
+ * Location hash of the target structure, or null when the object has no `location` field. RPC
+ * failures and a missing object are thrown rather than reported as a mismatch.
+ */
+async function targetLocationHash(
+    client: SuiJsonRpcClient,
+    targetStructureId: string
+): Promise<string | null> {
+    const response = await client.getObject({
+        id: targetStructureId,
+        options: { showContent: true },
+    });
+    const { fields } = moveObjectFields(response, targetStructureId);
+    if (!fields.location) return null;
+    return bytesToHex(fieldsOf(fields.location).location_hash);
+}
+
+/** Runs `sig_verify::verify_signature(message, signature, server_address)` via devInspect. */
+export async function verifySignatureOnChain(
+    client: SuiJsonRpcClient,
+    config: HydratedWorldConfig,
+    messageBytes: Uint8Array,
+    signature: Uint8Array,
+    serverAddress: string,
+    senderAddress?: string
+): Promise<boolean | null> {
+    const bytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+        target: `${config.packageId}::${MODULES.SIG_VERIFY}::verify_signature`,
+        senderAddress,
+        arguments: (tx) => [
+            tx.pure(bcs.vector(bcs.u8()).serialize(Array.from(messageBytes))),
+            tx.pure(bcs.vector(bcs.u8()).serialize(Array.from(signature))),
+            tx.pure.address(serverAddress),
+        ],
+    });
+    // verify_signature aborts (rather than returning false) on a malformed signature.
+    return bytes ? bcs.bool().parse(bytes) : false;
+}
+
+export async function verifyLocationProof(
+    client: SuiJsonRpcClient,
+    config: HydratedWorldConfig,
+    proofHex: string,
+    nowMs: bigint,
+    options: { devInspect?: boolean } = {}
+): Promise<ProofReport> {
+    const { messageBytes, signature: signatureBytes, ...message } = decodeLocationProof(proofHex);
+    const signature = await verifyLocationProofSignature({
+        ...message,
+        messageBytes,
+        signature: signatureBytes,
+    });
+    const serverRegistered = await isAuthorizedServerAddress(
+        client,
+        config,
+        message.serverAddress,
+        message.playerAddress
+    );
+    const onChainHash = await targetLocationHash(client, message.targetStructureId);
+    const targetLocationMatches =
+        onChainHash === null
+            ? null
+            : onChainHash.toLowerCase() === message.targetLocationHash.toLowerCase();
+    const expired = message.deadlineMs <= nowMs;
+    const devInspectSignatureValid = options.devInspect
+        ? await verifySignatureOnChain(
+              client,
+              config,
+              messageBytes,
+              signatureBytes,
+              message.serverAddress,
+              message.playerAddress
+          )
+        : undefined;
+
+    return {
+        message,
+        signature,
+        serverRegistered,
+        deadline: {
+            nowMs,
+            expired,
+            remainingMs: expired ? 0n : message.deadlineMs - nowMs,
+        },
+        targetLocationMatches,
+        devInspectSignatureValid,
+        valid:
+            signature.valid &&
+            serverRegistered === true &&
+            !expired &&
+            targetLocationMatches === true &&
+            devInspectSignatureValid !== false,
+    };
+}
@@ -1,8 +1,4 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
-import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { getConfig, MODULES } from "../utils/config";
 import {
     hydrateWorldConfig,
     initializeContext,
@@ -11,77 +7,7 @@ import {
     parseBigIntArray,
 } from "../utils/helper";
 import { delay } from "../utils/delay";
-
-async function setFuelEfficiency(
-    fuelTypeId: bigint,
-    fuelEfficiency: bigint,
-    adminAcl: string,
-    client: SuiJsonRpcClient,
-    keypair: Ed25519Keypair,
-    config: ReturnType<typeof getConfig>
-) {
-    console.log(`\n==== Setting Fuel Efficiency ====`);
-    console.log(
-        `Fuel Type ID: ${fuelTypeId.toString()}, Efficiency: ${fuelEfficiency.toString()}%`
-    );
-
-    const tx = new Transaction();
-
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.FUEL}::set_fuel_efficiency`,
-        arguments: [
-            tx.object(config.fuelConfig),
-            tx.object(adminAcl),
-            tx.pure.u64(fuelTypeId),
-            tx.pure.u64(fuelEfficiency),
-        ],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showObjectChanges: true, showEffects: true },
-    });
-
-    console.log("\n Fuel efficiency set successfully!");
-    console.log("Transaction digest:", result.digest);
-    return result;
-}
-
-async function setEnergyConfig(
-    assemblyTypeId: bigint,
-    energyRequired: bigint,
-    adminAcl: string,
-    client: SuiJsonRpcClient,
-    keypair: Ed25519Keypair,
-    config: ReturnType<typeof getConfig>
-) {
-    console.log(`\n==== Setting Energy Configuration ====`);
-    console.log(
-        `Assembly Type ID: ${assemblyTypeId.toString()}, Energy Required: ${energyRequired.toString()}`
-    );
-
-    const tx = new Transaction();
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.ENERGY}::set_energy_config`,
-        arguments: [
-            tx.object(config.energyConfig),
-            tx.object(adminAcl),
-            tx.pure.u64(assemblyTypeId),
-            tx.pure.u64(energyRequired),
-        ],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showObjectChanges: true, showEffects: true },
-    });
-
-    console.log("\n Energy configuration set successfully!");
-    console.log("Transaction digest:", result.digest);
-    return result;
-}
+import { setEnergyConfig, setFuelEfficiency } from "./helper";
 
 async function main() {
     console.log("============= Configure Fuel and Energy example ==============\n");
@@ -95,8 +21,6 @@ async function main() {
         const env = getEnvConfig();
         const ctx = initializeContext(env.network, env.adminExportedKey);
         await hydrateWorldConfig(ctx);
-        const { client, keypair, config } = ctx;
-        const adminAcl = config.adminAcl;
 
         // Configure fuel efficiencies
         if (FUEL_TYPE_IDS.length > 0 && FUEL_EFFICIENCIES.length > 0) {
@@ -107,14 +31,13 @@ async function main() {
             }
 
             for (let i = 0; i < FUEL_TYPE_IDS.length; i++) {
-                await setFuelEfficiency(
-                    FUEL_TYPE_IDS[i],
-                    FUEL_EFFICIENCIES[i],
-                    adminAcl,
-                    client,
-                    keypair,
-                    config
+                console.log(`\n==== Setting Fuel Efficiency ====`);
+                console.log(
+                    `Fuel Type ID: ${FUEL_TYPE_IDS[i].toString()}, Efficiency: ${FUEL_EFFICIENCIES[i].toString()}%`
                 );
+                const result = await setFuelEfficiency(ctx, FUEL_TYPE_IDS[i], FUEL_EFFICIENCIES[i]);
+                console.log("\n Fuel efficiency set successfully!");
+                console.log("Transaction digest:", result.digest);
                 await delay(1000);
             }
         } else {
@@ -130,14 +53,17 @@ async function main() {
             }
 
             for (let i = 0; i < ASSEMBLY_TYPE_IDS.length; i++) {
-                await setEnergyConfig(
+                console.log(`\n==== Setting Energy Configuration ====`);
+                console.log(
+                    `Assembly Type ID: ${ASSEMBLY_TYPE_IDS[i].toString()}, Energy Required: ${ENERGY_REQUIRED_VALUES[i].toString()}`
+                );
+                const result = await setEnergyConfig(
+                    ctx,
                     ASSEMBLY_TYPE_IDS[i],
-                    ENERGY_REQUIRED_VALUES[i],
-                    adminAcl,
-                    client,
-                    keypair,
-                    config
+                    ENERGY_REQUIRED_VALUES[i]
                 );
+                console.log("\n Energy configuration set successfully!");
+                console.log("Transaction digest:", result.digest);
                 await delay(1000);
             }
         } else {
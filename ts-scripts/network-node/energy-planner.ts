@@ -0,0 +1,68 @@
+/**
+ * Dry run of `energy::reserve_energy` for a batch of assemblies, so a plan can be checked against a
+ * network node's `EnergySource` before sending `connect_assemblies` or `online` transactions.
+ */
+import type { EnergyView } from "../inspect/inspector";
+
+export type EnergyRequest = {
+    /** Assembly object ID, or `type:<typeId>` for assemblies that do not exist yet. */
+    label: string;
+    typeId: bigint;
+    /** `energy::assembly_energy` for the type (0 when the type is not configured). */
+    required: bigint;
+};
+
+export type EnergyAllocation = EnergyRequest & {
+    availableBefore: bigint;
+    fits: boolean;
+};
+
+export type EnergyPlan = {
+    /** Production the plan was checked against (max production when the node is offline). */
+    production: bigint;
+    nodeProducing: boolean;
+    reservedBefore: bigint;
+    reservedAfter: bigint;
+    requiredTotal: bigint;
+    /** Energy left after reserving every assembly that fits. */
+    headroom: bigint;
+    fitsAll: boolean;
+    allocations: EnergyAllocation[];
+};
+
+/** Port of `energy::available_energy`. */
+export function availableEnergy(production: bigint, reserved: bigint): bigint {
+    return production > reserved ? production - reserved : 0n;
+}
+
+/**
+ * Reserves the requests in order, the way consecutive `online` calls would. A request that does not
+ * fit is reported and skipped (on-chain it aborts with `EInsufficientAvailableEnergy`), and later
+ * requests are still checked against what is left.
+ */
+export function planEnergyBudget(source: EnergyView, requests: EnergyRequest[]): EnergyPlan {
+    const current = BigInt(source.currentEnergyProduction);
+    const nodeProducing = current > 0n;
+    // An offline node starts producing `max_energy_production` with nothing reserved.
+    const production = nodeProducing ? current : BigInt(source.maxEnergyProduction);
+    const reservedBefore = nodeProducing ? BigInt(source.totalReservedEnergy) : 0n;
+
+    let reserved = reservedBefore;
+    const allocations = requests.map((request) => {
+        const availableBefore = availableEnergy(production, reserved);
+        const fits = availableBefore >= request.required;
+        if (fits) reserved += request.required;
+        return { ...request, availableBefore, fits };
+    });
+
+    return {
+        production,
+        nodeProducing,
+        reservedBefore,
+        reservedAfter: reserved,
+        requiredTotal: requests.reduce((sum, request) => sum + request.required, 0n),
+        headroom: availableEnergy(production, reserved),
+        fitsAll: allocations.every((allocation) => allocation.fits),
+        allocations,
+    };
+}
@@ -0,0 +1,146 @@
+/**
+ * TypeScript port of the burn math in `world::fuel`, used to forecast when a network node runs out
+ * of fuel without sending a transaction. Every quantity is a bigint to match Move's u64 arithmetic
+ * (including integer division).
+ */
+import type { FuelView } from "../inspect/inspector";
+
+const PERCENTAGE_DIVISOR = 100n;
+const MS_PER_DAY = 86_400_000n;
+
+/** Mirror of the on-chain `fuel::Fuel` struct. */
+export type FuelState = {
+    maxCapacity: bigint;
+    burnRateInMs: bigint;
+    typeId: bigint | null;
+    unitVolume: bigint | null;
+    quantity: bigint;
+    isBurning: boolean;
+    previousCycleElapsedTime: bigint;
+    burnStartTime: bigint;
+    lastUpdated: bigint;
+};
+
+export function fuelStateFromView(view: FuelView): FuelState {
+    return {
+        maxCapacity: BigInt(view.maxCapacity),
+        burnRateInMs: BigInt(view.burnRateInMs),
+        typeId: view.typeId === null ? null : BigInt(view.typeId),
+        unitVolume: view.unitVolume === null ? null : BigInt(view.unitVolume),
+        quantity: BigInt(view.quantity),
+        isBurning: view.isBurning,
+        previousCycleElapsedTime: BigInt(view.previousCycleElapsedTime),
+        burnStartTime: BigInt(view.burnStartTime),
+        lastUpdated: BigInt(view.lastUpdated),
+    };
+}
+
+/**
+ * Milliseconds one fuel unit lasts: `burn_rate_in_ms * efficiency / 100`. On chain it is at least
+ * `60_000 * 10 / 100` (the minimum burn rate and efficiency), so a zero rate means bad input.
+ */
+export function consumptionRateMs(fuel: FuelState, efficiency: bigint): bigint {
+    const rate = (fuel.burnRateInMs * efficiency) / PERCENTAGE_DIVISOR;
+    if (rate <= 0n) {
+        throw new Error(
+            `Invalid fuel consumption rate ${rate} (burn rate ${fuel.burnRateInMs} ms, efficiency ${efficiency}%)`
+        );
+    }
+    return rate;
+}
+
+/** Port of `fuel::calculate_units_to_consume`. */
+export function calculateUnitsToConsume(
+    fuel: FuelState,
+    efficiency: bigint,
+    nowMs: bigint
+): { units: bigint; remainingElapsedMs: bigint } {
+    if (!fuel.isBurning || fuel.burnStartTime === 0n) {
+        return { units: 0n, remainingElapsedMs: 0n };
+    }
+    const rate = consumptionRateMs(fuel, efficiency);
+    const elapsed = nowMs > fuel.burnStartTime ? nowMs - fuel.burnStartTime : 0n;
+    const totalElapsed = elapsed + fuel.previousCycleElapsedTime;
+    return { units: totalElapsed / rate, remainingElapsedMs: totalElapsed % rate };
+}
+
+/** Port of `fuel::need_update`. */
+export function needUpdate(fuel: FuelState, efficiency: bigint, nowMs: bigint): boolean {
+    if (!fuel.isBurning) return false;
+    return calculateUnitsToConsume(fuel, efficiency, nowMs).units > 0n;
+}
+
+/**
+ * Port of `fuel::update`: returns the state after an `update_fuel` at `nowMs`. When the remaining
+ * quantity cannot cover the elapsed units the node stops burning (and goes offline on-chain).
+ */
+export function simulateUpdate(fuel: FuelState, efficiency: bigint, nowMs: bigint): FuelState {
+    if (!fuel.isBurning || fuel.burnStartTime === 0n || fuel.lastUpdated === nowMs) {
+        return fuel;
+    }
+    const { units, remainingElapsedMs } = calculateUnitsToConsume(fuel, efficiency, nowMs);
+    if (fuel.quantity >= units) {
+        if (units === 0n) return { ...fuel, lastUpdated: nowMs };
+        return {
+            ...fuel,
+            quantity: fuel.quantity - units,
+            previousCycleElapsedTime: 0n,
+            burnStartTime: nowMs - remainingElapsedMs,
+            lastUpdated: nowMs,
+        };
+    }
+    // `stop_burning` recomputes the same units; quantity < units, so the partial cycle is dropped.
+    return { ...fuel, isBurning: false, burnStartTime: 0n, previousCycleElapsedTime: 0n };
+}
+
+/**
+ * Timestamp at which the next `update_fuel` would take the node offline, or null when the node is
+ * not burning. The unit consumed by `start_burning` is burning now, so the node lasts
+ * `quantity + 1` cycles measured from `burn_start_time - previous_cycle_elapsed_time`.
+ */
+export function depletionTimeMs(fuel: FuelState, efficiency: bigint): bigint | null {
+    if (!fuel.isBurning || fuel.burnStartTime === 0n) return null;
+    const rate = consumptionRateMs(fuel, efficiency);
+    return fuel.burnStartTime - fuel.previousCycleElapsedTime + (fuel.quantity + 1n) * rate;
+}
+
+export type FuelForecast = {
+    burning: boolean;
+    quantity: bigint;
+    consumptionRateMs: bigint;
+    /** Null when the node is not burning. */
+    depletesAtMs: bigint | null;
+    timeToEmptyMs: bigint | null;
+    /** Units to deposit so the node stays online until `now + days`. */
+    unitsToDeposit: bigint;
+    /** Units that still fit under `max_capacity`; null until a fuel type (and volume) is set. */
+    depositCapacity: bigint | null;
+};
+
+export function forecastFuel(
+    fuel: FuelState,
+    efficiency: bigint,
+    nowMs: bigint,
+    days: number
+): FuelForecast {
+    const rate = consumptionRateMs(fuel, efficiency);
+    const depletesAtMs = depletionTimeMs(fuel, efficiency);
+    const targetMs = nowMs + BigInt(Math.ceil(days * Number(MS_PER_DAY)));
+
+    // A node that is not burning starts a fresh cycle (consuming one unit) when brought online.
+    const coveredUntil = depletesAtMs ?? nowMs + fuel.quantity * rate;
+    const shortfall = targetMs > coveredUntil ? targetMs - coveredUntil : 0n;
+    const unitsToDeposit = (shortfall + rate - 1n) / rate;
+
+    return {
+        burning: depletesAtMs !== null,
+        quantity: fuel.quantity,
+        consumptionRateMs: rate,
+        depletesAtMs,
+        timeToEmptyMs:
+            depletesAtMs === null ? null : depletesAtMs > nowMs ? depletesAtMs - nowMs : 0n,
+        unitsToDeposit,
+        depositCapacity:
+            fuel.unitVolume === null ? null : fuel.maxCapacity / fuel.unitVolume - fuel.quantity,
+    };
+}
@@ -1,8 +1,15 @@
 import "dotenv/config";
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction, TransactionArgument } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
 import { getConfig, MODULES } from "../utils/config";
 import { bcs } from "@mysten/sui/bcs";
 import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { InitializedContext } from "../utils/helper";
+import { executeSponsoredTransaction } from "../utils/transaction";
+import { getOwnerCap as getStorageUnitOwnerCap } from "../storage-unit/helper";
+import * as world from "../sdk";
 
 export interface AssemblyTypeInfo {
     id: string;
@@ -95,6 +102,96 @@ export async function isNetworkNodeOnline(
     }
 }
 
+export async function needsFuelUpdate(
+    networkNodeId: string,
+    client: SuiJsonRpcClient,
+    config: ReturnType<typeof getConfig>,
+    senderAddress?: string
+): Promise<boolean | null> {
+    try {
+        const bytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+            target: `${config.packageId}::${MODULES.NETWORK_NODE}::need_update`,
+            senderAddress,
+            arguments: (tx) => [
+                tx.object(networkNodeId),
+                tx.object(config.fuelConfig),
+                tx.object(SUI_CLOCK_OBJECT_ID),
+            ],
+        });
+
+        if (!bytes) {
+            console.warn("Error checking whether fuel needs an update");
+            return null;
+        }
+
+        return bcs.bool().parse(bytes);
+    } catch (error) {
+        console.warn(
+            "Failed to check whether fuel needs an update:",
+            error instanceof Error ? error.message : error
+        );
+        return null;
+    }
+}
+
+/** Efficiency percentage (10-100) configured for a fuel type in `FuelConfig`. */
+export async function getFuelEfficiency(
+    fuelTypeId: bigint,
+    client: SuiJsonRpcClient,
+    config: ReturnType<typeof getConfig>,
+    senderAddress?: string
+): Promise<bigint | null> {
+    try {
+        const bytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+            target: `${config.packageId}::${MODULES.FUEL}::fuel_efficiency`,
+            senderAddress,
+            arguments: (tx) => [tx.object(config.fuelConfig), tx.pure.u64(fuelTypeId)],
+        });
+
+        if (!bytes) {
+            console.warn(`Fuel efficiency is not configured for type ${fuelTypeId}`);
+            return null;
+        }
+
+        return BigInt(bcs.u64().parse(bytes));
+    } catch (error) {
+        console.warn(
+            "Failed to get fuel efficiency:",
+            error instanceof Error ? error.message : error
+        );
+        return null;
+    }
+}
+
+/** Energy an assembly type reserves when brought online (`EnergyConfig`; 0 if unconfigured). */
+export async function getAssemblyEnergy(
+    assemblyTypeId: bigint,
+    client: SuiJsonRpcClient,
+    config: ReturnType<typeof getConfig>,
+    senderAddress?: string
+): Promise<bigint | null> {
+    try {
+        const bytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+            target: `${config.packageId}::${MODULES.ENERGY}::assembly_energy`,
+            senderAddress,
+            arguments: (tx) => [tx.object(config.energyConfig), tx.pure.u64(assemblyTypeId)],
+        });
+
+        if (!bytes) {
+            console.warn(`Error getting energy requirement for type ${assemblyTypeId}`);
+            return null;
+        }
+
+        return BigInt(bcs.u64().parse(bytes));
+    } catch (error) {
+        console.warn(
+            "Failed to get assembly energy:",
+            error instanceof Error ? error.message : error
+        );
+        return null;
+    }
+}
+
 export async function getOwnerCap(
     networkNodeId: string,
     client: SuiJsonRpcClient,
@@ -155,3 +252,505 @@ export async function getAssemblyTypes(
         })
     );
 }
+
+/**
+ * Appends the `offline_connected_*` call matching the assembly's kind and returns the updated
+ * `OfflineAssemblies` hot potato.
+ */
+function offlineConnected(
+    tx: Transaction,
+    config: ReturnType<typeof getConfig>,
+    assembly: AssemblyTypeInfo,
+    offlineAssemblies: TransactionArgument,
+    networkNodeId: string
+): TransactionArgument {
+    const { packageId } = config;
+    const args = {
+        offlineAssemblies,
+        networkNode: networkNodeId,
+        energyConfig: config.energyConfig,
+    };
+    switch (assembly.kind) {
+        case "storage_unit":
+            return world.storageUnit.offlineConnectedStorageUnit(tx, packageId, {
+                storageUnit: assembly.id,
+                ...args,
+            })[0];
+        case "gate":
+            return world.gate.offlineConnectedGate(tx, packageId, {
+                gate: assembly.id,
+                ...args,
+            })[0];
+        case "turret":
+            return world.turret.offlineConnectedTurret(tx, packageId, {
+                turret: assembly.id,
+                ...args,
+            })[0];
+        default:
+            return world.assembly.offlineConnectedAssembly(tx, packageId, {
+                assembly: assembly.id,
+                ...args,
+            })[0];
+    }
+}
+
+/**
+ * Appends the `offline_orphaned_*` call matching the assembly's kind and returns the updated
+ * `HandleOrphanedAssemblies` hot potato.
+ */
+function offlineOrphaned(
+    tx: Transaction,
+    config: ReturnType<typeof getConfig>,
+    assembly: AssemblyTypeInfo,
+    orphanedAssemblies: TransactionArgument,
+    networkNodeId: string
+): TransactionArgument {
+    const { packageId } = config;
+    const args = {
+        orphanedAssemblies,
+        networkNode: networkNodeId,
+        energyConfig: config.energyConfig,
+    };
+    switch (assembly.kind) {
+        case "storage_unit":
+            return world.storageUnit.offlineOrphanedStorageUnit(tx, packageId, {
+                storageUnit: assembly.id,
+                ...args,
+            })[0];
+        case "gate":
+            return world.gate.offlineOrphanedGate(tx, packageId, { gate: assembly.id, ...args })[0];
+        case "turret":
+            return world.turret.offlineOrphanedTurret(tx, packageId, {
+                turret: assembly.id,
+                ...args,
+            })[0];
+        default:
+            return world.assembly.offlineOrphanedAssembly(tx, packageId, {
+                assembly: assembly.id,
+                ...args,
+            })[0];
+    }
+}
+
+async function requireOwnerCap(networkNodeId: string, ctx: InitializedContext): Promise<string> {
+    const ownerCapId = await getOwnerCap(networkNodeId, ctx.client, ctx.config, ctx.address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for network node ${networkNodeId}`);
+    }
+    return ownerCapId;
+}
+
+/**
+ * Anchors a network node for the character and shares it (admin ACL). The node's object ID is
+ * derived from its item ID.
+ */
+export async function anchorNetworkNode(
+    ctx: InitializedContext,
+    characterId: string,
+    node: {
+        itemId: bigint;
+        typeId: bigint;
+        locationHash: string;
+        fuelMaxCapacity: bigint;
+        fuelBurnRateInMs: bigint;
+        maxEnergyProduction: bigint;
+    }
+) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    const [networkNode] = world.networkNode.anchor(tx, config.packageId, {
+        registry: config.objectRegistry,
+        character: characterId,
+        adminAcl: config.adminAcl,
+        ...node,
+    });
+    world.networkNode.shareNetworkNode(tx, config.packageId, {
+        networkNode,
+        adminAcl: config.adminAcl,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEvents: true, showEffects: true, showObjectChanges: true },
+    });
+}
+
+/**
+ * Unanchors (destroys) the network node and handles connected assemblies (admin ACL).
+ *
+ * Flow:
+ * 1. Query connected assemblies from the network node and their types
+ * 2. Call unanchor which returns the HandleOrphanedAssemblies hot potato
+ * 3. Call the matching offline_orphaned_* function for each assembly, which brings it offline,
+ *    releases energy and clears its energy source (it can later be attached to another node)
+ * 4. Call destroy_network_node to consume the hot potato and destroy the node
+ */
+export async function unanchorNetworkNode(ctx: InitializedContext, networkNodeId: string) {
+    const { client, keypair, config } = ctx;
+
+    const assemblyIds = (await getConnectedAssemblies(networkNodeId, client, config)) || [];
+    const assemblyTypes = await getAssemblyTypes(assemblyIds, client);
+
+    const tx = new Transaction();
+    const [orphanedAssemblies] = world.networkNode.unanchor(tx, config.packageId, {
+        networkNode: networkNodeId,
+        adminAcl: config.adminAcl,
+    });
+
+    let currentHotPotato: TransactionArgument = orphanedAssemblies;
+    for (const assembly of assemblyTypes) {
+        currentHotPotato = offlineOrphaned(tx, config, assembly, currentHotPotato, networkNodeId);
+    }
+
+    world.networkNode.destroyNetworkNode(tx, config.packageId, {
+        networkNode: networkNodeId,
+        orphanedAssemblies: currentHotPotato,
+        adminAcl: config.adminAcl,
+    });
+
+    const result = await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+    return { result, connectedAssemblies: assemblyIds.length };
+}
+
+export async function onlineNetworkNode(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string
+) {
+    const { client, keypair, config } = ctx;
+    const ownerCapId = await requireOwnerCap(networkNodeId, ctx);
+
+    const tx = new Transaction();
+    const networkNodeType = world.worldType(config.packageId, MODULES.NETWORK_NODE, "NetworkNode");
+
+    // 1. Borrow OwnerCap from character (Receiving ticket = object ref of OwnerCap owned by character)
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: networkNodeType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    // 2. Use the borrowed OwnerCap to bring the network node online
+    world.networkNode.online(tx, config.packageId, { networkNode: networkNodeId, ownerCap });
+
+    // 3. Return the OwnerCap to the character
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: networkNodeType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+}
+
+/**
+ * Takes the network node offline and handles connected assemblies.
+ *
+ * Flow:
+ * 1. Query connected assemblies from the network node
+ * 2. Determine which assemblies are storage units by querying their types
+ * 3. Call offline which returns OfflineAssemblies hot potato
+ * 4. Process each assembly:
+ *    - Call offline_connected_storage_unit for storage units
+ *    - Call offline_connected_assembly for regular assemblies
+ *    - Removes from hot potato and brings assembly offline, releases energy
+ * 5. Destroy the hot potato (validates list is empty)
+ */
+export async function offlineNetworkNode(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string
+) {
+    const { client, keypair, config } = ctx;
+    const ownerCapId = await requireOwnerCap(networkNodeId, ctx);
+
+    // Get connected assembly IDs
+    const assemblyIds = (await getConnectedAssemblies(networkNodeId, client, config)) || [];
+    const assemblyTypes = await getAssemblyTypes(assemblyIds, client);
+
+    const tx = new Transaction();
+    const networkNodeType = world.worldType(config.packageId, MODULES.NETWORK_NODE, "NetworkNode");
+
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: networkNodeType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    // Call offline - returns OfflineAssemblies hot potato
+    const [offlineAssemblies] = world.networkNode.offline(tx, config.packageId, {
+        networkNode: networkNodeId,
+        fuelConfig: config.fuelConfig,
+        ownerCap,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: networkNodeType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    // Process each assembly from the hot potato
+    // The hot potato contains the assembly IDs connected to the network node
+    let currentHotPotato: TransactionArgument = offlineAssemblies;
+    for (const assembly of assemblyTypes) {
+        currentHotPotato = offlineConnected(tx, config, assembly, currentHotPotato, networkNodeId);
+    }
+
+    // Destroy the hot potato after all assemblies are processed
+    // This validates that the list is empty (all assemblies processed)
+    if (assemblyIds.length > 0) {
+        world.networkNode.destroyOfflineAssemblies(tx, config.packageId, {
+            offlineAssemblies: currentHotPotato,
+        });
+    }
+
+    const result = await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+    return { result, connectedAssemblies: assemblyIds.length };
+}
+
+/** Deposits fuel into a network node owned by the character, sponsored by the admin keypair. */
+export async function depositFuel(
+    ctx: InitializedContext,
+    adminKeypair: Signer,
+    characterId: string,
+    networkNodeId: string,
+    fuel: { typeId: bigint; volume: bigint; quantity: bigint }
+) {
+    const { client, keypair: playerKeypair, config, address: playerAddress } = ctx;
+    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
+    const ownerCapId = await requireOwnerCap(networkNodeId, ctx);
+
+    const tx = new Transaction();
+    tx.setSender(playerAddress);
+    tx.setGasOwner(adminAddress);
+
+    // 1. Borrow OwnerCap from character using Receiving ticket.
+    // The OwnerCap is stored in the character (transfer-to-object). We pass its object ID;
+    // the SDK resolves it as a Receiving<OwnerCap<NetworkNode>> argument when the param type is Receiving.
+    const networkNodeType = world.worldType(config.packageId, MODULES.NETWORK_NODE, "NetworkNode");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: networkNodeType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    // 2. Use the borrowed OwnerCap to deposit fuel.
+    world.networkNode.depositFuel(tx, config.packageId, {
+        networkNode: networkNodeId,
+        adminAcl: config.adminAcl,
+        ownerCap,
+        typeId: fuel.typeId,
+        volume: fuel.volume,
+        quantity: fuel.quantity,
+    });
+
+    // 3. Return the OwnerCap to the character.
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: networkNodeType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await executeSponsoredTransaction(
+        tx,
+        client,
+        playerKeypair,
+        adminKeypair,
+        playerAddress,
+        adminAddress
+    );
+}
+
+/**
+ * Moves fuel units out of a storage unit's owner inventory and deposits them into a network node
+ * in one sponsored transaction. The items leave the chain through `chain_item_to_game_inventory`
+ * (which needs a location proof for the storage unit) and the admin-sponsored `deposit_fuel`
+ * credits the same quantity to the node, so the fuel is never counted twice.
+ */
+export async function refuelFromStorageUnit(
+    ctx: InitializedContext,
+    adminKeypair: Signer,
+    characterId: string,
+    networkNodeId: string,
+    storageUnitId: string,
+    fuel: { typeId: bigint; volume: bigint; quantity: number },
+    proofHex: string
+) {
+    const { client, keypair, config, address } = ctx;
+    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
+    const nodeOwnerCapId = await requireOwnerCap(networkNodeId, ctx);
+    const storageOwnerCapId = await getStorageUnitOwnerCap(storageUnitId, client, config, address);
+    if (!storageOwnerCapId) {
+        throw new Error(`OwnerCap not found for storage unit ${storageUnitId}`);
+    }
+
+    const tx = new Transaction();
+    tx.setSender(address);
+    tx.setGasOwner(adminAddress);
+
+    const storageUnitType = world.worldType(config.packageId, MODULES.STORAGE_UNIT, "StorageUnit");
+    const [storageOwnerCap, storageReceipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: storageUnitType,
+        character: characterId,
+        ownerCapTicket: storageOwnerCapId,
+    });
+    world.storageUnit.chainItemToGameInventory(tx, config.packageId, {
+        objectType: storageUnitType,
+        storageUnit: storageUnitId,
+        serverRegistry: config.serverAddressRegistry,
+        character: characterId,
+        ownerCap: storageOwnerCap,
+        typeId: fuel.typeId,
+        quantity: fuel.quantity,
+        locationProof: proofHex,
+    });
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: storageUnitType,
+        character: characterId,
+        ownerCap: storageOwnerCap,
+        receipt: storageReceipt,
+    });
+
+    const networkNodeType = world.worldType(config.packageId, MODULES.NETWORK_NODE, "NetworkNode");
+    const [nodeOwnerCap, nodeReceipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: networkNodeType,
+        character: characterId,
+        ownerCapTicket: nodeOwnerCapId,
+    });
+    world.networkNode.depositFuel(tx, config.packageId, {
+        networkNode: networkNodeId,
+        adminAcl: config.adminAcl,
+        ownerCap: nodeOwnerCap,
+        typeId: fuel.typeId,
+        volume: fuel.volume,
+        quantity: fuel.quantity,
+    });
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: networkNodeType,
+        character: characterId,
+        ownerCap: nodeOwnerCap,
+        receipt: nodeReceipt,
+    });
+
+    return await executeSponsoredTransaction(
+        tx,
+        client,
+        keypair,
+        adminKeypair,
+        address,
+        adminAddress
+    );
+}
+
+/**
+ * Updates fuel for a network node and handles fuel depletion if it occurs.
+ *
+ * Flow:
+ * 1. Query connected assemblies from the network node
+ * 2. Call update_fuel which returns OfflineAssemblies hot potato
+ *    - Empty hot potato if fuel is still burning or NWN is already offline
+ *    - Populated hot potato if fuel gets depleted (NWN changes to offline)
+ * 3. Process each assembly:
+ *    - Call the matching offline_connected_* function for each (safely handles empty hot potato)
+ *    - If hot potato is populated, brings assembly offline and releases energy
+ * 4. Destroy the hot potato (validates list is empty)
+ *
+ * Must be signed by a sponsor registered in the AdminACL.
+ */
+export async function updateFuel(ctx: InitializedContext, networkNodeId: string) {
+    const { client, keypair, config } = ctx;
+
+    // Get connected assemblies before building transaction
+    const assemblyIds = (await getConnectedAssemblies(networkNodeId, client, config)) || [];
+    const assemblyTypes = await getAssemblyTypes(assemblyIds, client);
+
+    const tx = new Transaction();
+
+    // Step 1: Call update_fuel which returns OfflineAssemblies
+    // Returns empty OfflineAssemblies if online, populated if offline (fuel depleted)
+    const [offlineAssemblies] = world.networkNode.updateFuel(tx, config.packageId, {
+        networkNode: networkNodeId,
+        fuelConfig: config.fuelConfig,
+        adminAcl: config.adminAcl,
+    });
+
+    // Step 2: Process each assembly from the hot potato
+    // The hot potato contains the assembly IDs connected to the network node
+    let currentHotPotato: TransactionArgument = offlineAssemblies;
+    for (const assembly of assemblyTypes) {
+        currentHotPotato = offlineConnected(tx, config, assembly, currentHotPotato, networkNodeId);
+    }
+
+    // Step 3: Destroy the hot potato (validates list is empty)
+    world.networkNode.destroyOfflineAssemblies(tx, config.packageId, {
+        offlineAssemblies: currentHotPotato,
+    });
+
+    const result = await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+    return { result, connectedAssemblies: assemblyIds.length };
+}
+
+/** Sets the efficiency percentage of a fuel type in `FuelConfig` (admin ACL). */
+export async function setFuelEfficiency(
+    ctx: InitializedContext,
+    fuelTypeId: bigint,
+    fuelEfficiency: bigint
+) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    world.fuel.setFuelEfficiency(tx, config.packageId, {
+        fuelConfig: config.fuelConfig,
+        adminAcl: config.adminAcl,
+        fuelTypeId,
+        fuelEfficiency,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+}
+
+/** Sets the energy an assembly type reserves when online in `EnergyConfig` (admin ACL). */
+export async function setEnergyConfig(
+    ctx: InitializedContext,
+    assemblyTypeId: bigint,
+    energyRequired: bigint
+) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    world.energy.setEnergyConfig(tx, config.packageId, {
+        energyConfig: config.energyConfig,
+        adminAcl: config.adminAcl,
+        assemblyTypeId,
+        energyRequired,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+}
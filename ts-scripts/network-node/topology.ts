@@ -0,0 +1,216 @@
+import type { SuiJsonRpcClient, SuiObjectResponse } from "@mysten/sui/jsonRpc";
+import { AssemblyKind, detectAssemblyKind } from "../inspect/inspector";
+import { HydratedWorldConfig, MODULES } from "../utils/config";
+import { getOriginalPackageId } from "../utils/helper";
+import {
+    asOptionalString,
+    asString,
+    enumVariant,
+    fieldsOf,
+    moveObjectFields,
+} from "../utils/move-content";
+
+export type TopologyFormat = "json" | "dot" | "mermaid";
+
+export const TOPOLOGY_FORMATS: readonly TopologyFormat[] = ["json", "dot", "mermaid"];
+
+export type TopologyNode = {
+    id: string;
+    kind: AssemblyKind;
+    itemId: string;
+    typeId: string;
+    name: string | null;
+    status: string;
+    /** Set on gates reached only through a link, whose network node was not crawled. */
+    external?: boolean;
+};
+
+export type TopologyEdge = {
+    from: string;
+    to: string;
+    /** `powers`: network node → connected assembly. `linked`: gate ↔ gate (stored once per pair). */
+    relation: "powers" | "linked";
+};
+
+export type Topology = {
+    nodes: TopologyNode[];
+    edges: TopologyEdge[];
+};
+
+const MULTI_GET_LIMIT = 50;
+
+async function fetchObjects(client: SuiJsonRpcClient, ids: string[]): Promise<SuiObjectResponse[]> {
+    const responses: SuiObjectResponse[] = [];
+    for (let i = 0; i < ids.length; i += MULTI_GET_LIMIT) {
+        responses.push(
+            ...(await client.multiGetObjects({
+                ids: ids.slice(i, i + MULTI_GET_LIMIT),
+                options: { showType: true, showContent: true },
+            }))
+        );
+    }
+    return responses;
+}
+
+/**
+ * Lists the network nodes whose `OwnerCap<NetworkNode>` is held by the character. The type is
+ * built from the original ID of the world package, which object types keep across upgrades.
+ */
+export async function getOwnedNetworkNodeIds(
+    client: SuiJsonRpcClient,
+    packageId: string,
+    characterId: string
+): Promise<string[]> {
+    const originalId = await getOriginalPackageId(client, packageId);
+    const ownerCapType = `${originalId}::${MODULES.ACCESS}::OwnerCap<${originalId}::${MODULES.NETWORK_NODE}::NetworkNode>`;
+    const nodeIds: string[] = [];
+    let cursor: string | null | undefined = null;
+    do {
+        const page = await client.getOwnedObjects({
+            owner: characterId,
+            filter: { StructType: ownerCapType },
+            options: { showContent: true },
+            cursor,
+        });
+        for (const entry of page.data) {
+            const { fields } = moveObjectFields(entry, entry.data?.objectId ?? "owner cap");
+            nodeIds.push(asString(fields.authorized_object_id));
+        }
+        cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    return nodeIds;
+}
+
+/**
+ * Crawls the given network nodes: each node, the assemblies connected to it, and the gates its
+ * gates are linked to. Linked gates outside the crawled nodes are included and marked `external`.
+ */
+export async function buildTopology(
+    client: SuiJsonRpcClient,
+    config: HydratedWorldConfig,
+    networkNodeIds: string[]
+): Promise<Topology> {
+    const nodes = new Map<string, TopologyNode>();
+    const edges: TopologyEdge[] = [];
+    const linkedGateIds = new Map<string, string>();
+    const originalId = await getOriginalPackageId(client, config.packageId);
+
+    const addObjects = async (ids: string[], external: boolean) => {
+        const pending = ids.filter((id) => !nodes.has(id));
+        const added: { node: TopologyNode; fields: Record<string, unknown> }[] = [];
+        for (const [index, response] of (await fetchObjects(client, pending)).entries()) {
+            const { type, fields } = moveObjectFields(response, pending[index]);
+            const kind = detectAssemblyKind(type, originalId);
+            if (!kind) {
+                throw new Error(`Object ${pending[index]} is a ${type}, not a world assembly`);
+            }
+            const metadata = fields.metadata ? fieldsOf(fields.metadata) : null;
+            const node: TopologyNode = {
+                id: pending[index],
+                kind,
+                itemId: asString(fieldsOf(fields.key).item_id),
+                typeId: asString(fields.type_id),
+                name: metadata && metadata.name ? asString(metadata.name) : null,
+                status: enumVariant(fieldsOf(fields.status).status),
+                ...(external ? { external } : {}),
+            };
+            nodes.set(node.id, node);
+            added.push({ node, fields });
+        }
+        return added;
+    };
+
+    for (const { node, fields } of await addObjects(networkNodeIds, false)) {
+        if (node.kind !== "network_node") {
+            throw new Error(`Object ${node.id} is a ${node.kind}, not a network node`);
+        }
+        const assemblyIds = (fields.connected_assembly_ids as unknown[]).map(asString);
+        for (const { node: assembly, fields: assemblyFields } of await addObjects(
+            assemblyIds,
+            false
+        )) {
+            if (assembly.kind !== "gate") continue;
+            const linked = asOptionalString(assemblyFields.linked_gate_id);
+            if (linked) linkedGateIds.set(assembly.id, linked);
+        }
+        for (const assemblyId of assemblyIds) {
+            edges.push({ from: node.id, to: assemblyId, relation: "powers" });
+        }
+    }
+
+    await addObjects([...new Set(linkedGateIds.values())], true);
+    for (const [gateId, linkedId] of linkedGateIds) {
+        // Both ends of a link point at each other; keep one edge per pair.
+        if (linkedGateIds.get(linkedId) === gateId && linkedId < gateId) continue;
+        edges.push({ from: gateId, to: linkedId, relation: "linked" });
+    }
+
+    return { nodes: [...nodes.values()], edges };
+}
+
+function nodeLabel(node: TopologyNode): string {
+    const title = node.name ?? `${node.kind} ${node.itemId}`;
+    return `${title}\n${node.kind} · ${node.status}`;
+}
+
+const DOT_SHAPES: Record<AssemblyKind, string> = {
+    network_node: "doubleoctagon",
+    gate: "diamond",
+    storage_unit: "box3d",
+    turret: "triangle",
+    assembly: "box",
+};
+
+export function toDot(topology: Topology): string {
+    const quote = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+    const lines = ["digraph world {", "    rankdir=LR;"];
+    for (const node of topology.nodes) {
+        const attributes = [
+            `label=${quote(nodeLabel(node)).replace(/\n/g, "\\n")}`,
+            `shape=${DOT_SHAPES[node.kind]}`,
+            node.status === "ONLINE" ? "" : "style=dashed",
+            node.external ? "color=gray" : "",
+        ].filter(Boolean);
+        lines.push(`    ${quote(node.id)} [${attributes.join(", ")}];`);
+    }
+    for (const edge of topology.edges) {
+        const attributes = edge.relation === "linked" ? " [dir=both, style=dashed]" : "";
+        lines.push(`    ${quote(edge.from)} -> ${quote(edge.to)}${attributes};`);
+    }
+    lines.push("}");
+    return lines.join("\n");
+}
+
+export function toMermaid(topology: Topology): string {
+    // Full object IDs make the Mermaid source unreadable, so alias every object.
+    const aliases = new Map(topology.nodes.map((node, index) => [node.id, `n${index}`]));
+    const shapes: Record<AssemblyKind, [string, string]> = {
+        network_node: ["{{", "}}"],
+        gate: ["{", "}"],
+        storage_unit: ["[(", ")]"],
+        turret: ["[/", "\\]"],
+        assembly: ["[", "]"],
+    };
+    const lines = ["flowchart LR"];
+    for (const node of topology.nodes) {
+        const [open, close] = shapes[node.kind];
+        const label = nodeLabel(node).replace(/"/g, "#quot;").replace(/\n/g, "<br/>");
+        lines.push(`    ${aliases.get(node.id)}${open}"${label}"${close}`);
+    }
+    for (const edge of topology.edges) {
+        const arrow = edge.relation === "linked" ? "<-.->" : "-->";
+        lines.push(`    ${aliases.get(edge.from)} ${arrow} ${aliases.get(edge.to)}`);
+    }
+    return lines.join("\n");
+}
+
+export function formatTopology(topology: Topology, format: TopologyFormat): string {
+    switch (format) {
+        case "json":
+            return JSON.stringify(topology, null, 2);
+        case "dot":
+            return toDot(topology);
+        case "mermaid":
+            return toMermaid(topology);
+    }
+}
@@ -0,0 +1,63 @@
+import * as fs from "node:fs";
+
+export type ProofServiceConfig = {
+    port: number;
+    /** Interface to bind (default 127.0.0.1; the service is meant to stay local). */
+    host: string;
+    /** Latest deadline a request may ask for, relative to now. */
+    maxDeadlineSeconds: number;
+    /** Deadline used when a request does not set one (capped by `maxDeadlineSeconds`). */
+    defaultDeadlineSeconds: number;
+    /** Item IDs or 0x object IDs; when set, source and target must both be listed. */
+    allowedStructures?: string[];
+    /** Proofs per player per window; omit to disable rate limiting. */
+    rateLimit?: { requests: number; windowSeconds: number };
+    /** Env var holding a bearer token callers must send; omit to accept any local caller. */
+    tokenEnv?: string;
+};
+
+function requirePositiveInteger(value: unknown, field: string): number {
+    if (typeof value !== "number" || !Number.isSafeInteger(value) || value <= 0) {
+        throw new Error(`Proof service config: ${field} must be a positive integer`);
+    }
+    return value;
+}
+
+export function loadProofServiceConfig(filePath: string): ProofServiceConfig {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Proof service config not found at ${filePath}`);
+    }
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Partial<ProofServiceConfig>;
+
+    const maxDeadlineSeconds = requirePositiveInteger(raw.maxDeadlineSeconds, "maxDeadlineSeconds");
+    const defaultDeadlineSeconds =
+        raw.defaultDeadlineSeconds === undefined
+            ? Math.min(300, maxDeadlineSeconds)
+            : requirePositiveInteger(raw.defaultDeadlineSeconds, "defaultDeadlineSeconds");
+    if (defaultDeadlineSeconds > maxDeadlineSeconds) {
+        throw new Error(
+            "Proof service config: defaultDeadlineSeconds must not exceed maxDeadlineSeconds"
+        );
+    }
+    if (
+        raw.allowedStructures !== undefined &&
+        (!Array.isArray(raw.allowedStructures) ||
+            raw.allowedStructures.some((id) => typeof id !== "string"))
+    ) {
+        throw new Error("Proof service config: allowedStructures must be a list of IDs");
+    }
+    if (raw.rateLimit) {
+        requirePositiveInteger(raw.rateLimit.requests, "rateLimit.requests");
+        requirePositiveInteger(raw.rateLimit.windowSeconds, "rateLimit.windowSeconds");
+    }
+
+    return {
+        port: raw.port === undefined ? 8787 : requirePositiveInteger(raw.port, "port"),
+        host: raw.host ?? "127.0.0.1",
+        maxDeadlineSeconds,
+        defaultDeadlineSeconds,
+        allowedStructures: raw.allowedStructures,
+        rateLimit: raw.rateLimit,
+        tokenEnv: raw.tokenEnv,
+    };
+}
@@ -0,0 +1,147 @@
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import { fromHex } from "../utils/helper";
+import type { LocationProofRequest } from "../utils/proof";
+
+export type ProofPolicy = {
+    maxDeadlineMs: bigint;
+    defaultDeadlineMs: bigint;
+    /** Normalized object IDs; null allows any structure. */
+    allowedStructures: Set<string> | null;
+    rateLimit: { requests: number; windowMs: number } | null;
+};
+
+/** Proof timestamps per player inside the current rate-limit window. */
+export type RateLimiter = Map<string, number[]>;
+
+export type ProofDecision =
+    | { ok: true; request: LocationProofRequest }
+    | { ok: false; status: 400 | 403 | 429; error: string };
+
+type RawProofRequest = {
+    player?: unknown;
+    sourceStructureId?: unknown;
+    sourceLocationHash?: unknown;
+    targetStructureId?: unknown;
+    targetLocationHash?: unknown;
+    distance?: unknown;
+    data?: unknown;
+    deadlineMs?: unknown;
+};
+
+function address(value: unknown, field: string): string {
+    if (typeof value !== "string" || !isValidSuiAddress(normalizeSuiAddress(value))) {
+        throw new Error(`${field} must be a 0x address`);
+    }
+    return normalizeSuiAddress(value);
+}
+
+function hex(value: unknown, field: string): string {
+    if (typeof value !== "string" || !/^(0x)?([0-9a-fA-F]{2})*$/.test(value)) {
+        throw new Error(`${field} must be an even-length hex string`);
+    }
+    return value;
+}
+
+function u64(value: unknown, field: string): bigint {
+    if (typeof value !== "string" && typeof value !== "number") {
+        throw new Error(`${field} must be an integer`);
+    }
+    let parsed: bigint;
+    try {
+        parsed = BigInt(value);
+    } catch {
+        throw new Error(`${field} must be an integer`);
+    }
+    if (parsed < 0n || parsed > 0xffffffffffffffffn) throw new Error(`${field} must fit in u64`);
+    return parsed;
+}
+
+function parseRequest(
+    raw: RawProofRequest,
+    policy: ProofPolicy,
+    nowMs: bigint
+): LocationProofRequest {
+    return {
+        playerAddress: address(raw.player, "player"),
+        sourceStructureId: address(raw.sourceStructureId, "sourceStructureId"),
+        sourceLocationHash: hex(raw.sourceLocationHash, "sourceLocationHash"),
+        targetStructureId: address(raw.targetStructureId, "targetStructureId"),
+        targetLocationHash: hex(raw.targetLocationHash, "targetLocationHash"),
+        distance: raw.distance === undefined ? 0n : u64(raw.distance, "distance"),
+        data: raw.data === undefined ? [] : Array.from(fromHex(hex(raw.data, "data"))),
+        deadlineMs:
+            raw.deadlineMs === undefined
+                ? nowMs + policy.defaultDeadlineMs
+                : u64(raw.deadlineMs, "deadlineMs"),
+    };
+}
+
+/**
+ * Records a proof for `player` and reports whether it is within the limit. Players whose newest
+ * proof has left the window are evicted, so the map only holds players active within `windowMs`.
+ */
+export function takeRateLimit(
+    limiter: RateLimiter,
+    policy: ProofPolicy,
+    player: string,
+    nowMs: number
+): boolean {
+    if (!policy.rateLimit) return true;
+    const { requests, windowMs } = policy.rateLimit;
+    for (const [key, times] of limiter) {
+        if (times[times.length - 1] <= nowMs - windowMs) limiter.delete(key);
+    }
+    const recent = (limiter.get(player) ?? []).filter((at) => at > nowMs - windowMs);
+    if (recent.length >= requests) {
+        limiter.set(player, recent);
+        return false;
+    }
+    limiter.set(player, [...recent, nowMs]);
+    return true;
+}
+
+/**
+ * Validates a JSON proof request and applies the policy: deadline in the future and no later than
+ * `maxDeadlineMs` from now, both structures allowed, and the player under the rate limit.
+ */
+export function evaluateProofRequest(
+    body: unknown,
+    policy: ProofPolicy,
+    limiter: RateLimiter,
+    nowMs: number
+): ProofDecision {
+    if (typeof body !== "object" || body === null) {
+        return { ok: false, status: 400, error: "Request body must be a JSON object" };
+    }
+    const now = BigInt(nowMs);
+    let request: LocationProofRequest;
+    try {
+        request = parseRequest(body as RawProofRequest, policy, now);
+    } catch (error) {
+        return { ok: false, status: 400, error: (error as Error).message };
+    }
+
+    if (request.deadlineMs <= now) {
+        return { ok: false, status: 403, error: "deadlineMs is in the past" };
+    }
+    if (request.deadlineMs > now + policy.maxDeadlineMs) {
+        return {
+            ok: false,
+            status: 403,
+            error: `deadlineMs is more than ${policy.maxDeadlineMs} ms ahead`,
+        };
+    }
+    for (const id of [request.sourceStructureId, request.targetStructureId]) {
+        if (policy.allowedStructures && !policy.allowedStructures.has(id)) {
+            return { ok: false, status: 403, error: `Structure ${id} is not allowed` };
+        }
+    }
+    if (!takeRateLimit(limiter, policy, request.playerAddress, nowMs)) {
+        return {
+            ok: false,
+            status: 429,
+            error: `Rate limit exceeded for ${request.playerAddress}`,
+        };
+    }
+    return { ok: true, request };
+}
@@ -0,0 +1,86 @@
+import * as http from "node:http";
+import { Signer } from "@mysten/sui/cryptography";
+import { hasBearerToken, logJson, readJsonBody, sendJson } from "../utils/http";
+import { signLocationProof } from "../utils/proof";
+import { evaluateProofRequest, ProofPolicy, RateLimiter } from "./policy";
+
+export type ProofServiceOptions = {
+    host: string;
+    port: number;
+    /** Bearer token callers must send; null accepts any caller that can reach the port. */
+    token: string | null;
+};
+
+async function handleProof(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    serverKeypair: Signer,
+    policy: ProofPolicy,
+    limiter: RateLimiter
+) {
+    let body: unknown;
+    try {
+        body = await readJsonBody(request);
+    } catch (error) {
+        sendJson(response, 400, { error: (error as Error).message });
+        return;
+    }
+
+    const decision = evaluateProofRequest(body, policy, limiter, Date.now());
+    if (!decision.ok) {
+        logJson("proof_rejected", { status: decision.status, error: decision.error });
+        sendJson(response, decision.status, { error: decision.error });
+        return;
+    }
+
+    const { request: proofRequest } = decision;
+    const proof = await signLocationProof(serverKeypair, proofRequest);
+    logJson("proof_signed", {
+        player: proofRequest.playerAddress,
+        source: proofRequest.sourceStructureId,
+        target: proofRequest.targetStructureId,
+        deadlineMs: proofRequest.deadlineMs,
+    });
+    sendJson(response, 200, {
+        proof,
+        serverAddress: serverKeypair.getPublicKey().toSuiAddress(),
+        deadlineMs: proofRequest.deadlineMs,
+    });
+}
+
+/**
+ * Serves `POST /proof` (JSON request in, hex `LocationProofMessage` + signature out),
+ * `GET /server-address` and `GET /healthz` until the returned server is closed.
+ */
+export function serveProofService(
+    serverKeypair: Signer,
+    policy: ProofPolicy,
+    options: ProofServiceOptions
+): http.Server {
+    const limiter: RateLimiter = new Map();
+    return http
+        .createServer((request, response) => {
+            if (request.method === "GET" && request.url === "/healthz") {
+                response.writeHead(200, { "Content-Type": "text/plain" });
+                response.end("ok\n");
+                return;
+            }
+            if (!hasBearerToken(request, options.token)) {
+                sendJson(response, 401, { error: "Missing or invalid bearer token" });
+                return;
+            }
+            if (request.method === "GET" && request.url === "/server-address") {
+                sendJson(response, 200, {
+                    serverAddress: serverKeypair.getPublicKey().toSuiAddress(),
+                });
+            } else if (request.method === "POST" && request.url === "/proof") {
+                handleProof(request, response, serverKeypair, policy, limiter).catch((error) => {
+                    logJson("proof_failed", { error: (error as Error).message });
+                    sendJson(response, 500, { error: "Failed to sign proof" });
+                });
+            } else {
+                sendJson(response, 404, { error: "Not found" });
+            }
+        })
+        .listen(options.port, options.host);
+}
@@ -0,0 +1,204 @@
+/**
+ * Typed PTB builders for `world::access`.
+ *
+ * `receive_owner_cap` is not exposed: it takes a `&mut UID` and can only be called from Move.
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { MODULES } from "../utils/config";
+import type { AddressArg, IdArg, ObjectArg } from "./args";
+import * as pure from "./pure";
+
+export function transferOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { objectType: string; ownerCap: ObjectArg; owner: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::transfer_owner_cap`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.ownerCap), pure.address(tx, args.owner)],
+    });
+}
+
+export function transferOwnerCapToAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { objectType: string; ownerCap: ObjectArg; newOwner: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::transfer_owner_cap_to_address`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.ownerCap), pure.address(tx, args.newOwner)],
+    });
+}
+
+export function returnOwnerCapToObject(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectType: string;
+        ownerCap: ObjectArg;
+        receipt: TransactionArgument;
+        ownerId: AddressArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::return_owner_cap_to_object`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.ownerCap), args.receipt, pure.address(tx, args.ownerId)],
+    });
+}
+
+export function transferOwnerCapWithReceipt(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectType: string;
+        ownerCap: ObjectArg;
+        receipt: TransactionArgument;
+        newOwner: AddressArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::transfer_owner_cap_with_receipt`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.ownerCap), args.receipt, pure.address(tx, args.newOwner)],
+    });
+}
+
+export function isAuthorizedServerAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { serverAddressRegistry: ObjectArg; address: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::is_authorized_server_address`,
+        arguments: [tx.object(args.serverAddressRegistry), pure.address(tx, args.address)],
+    });
+}
+
+export function isAuthorized(
+    tx: Transaction,
+    packageId: string,
+    args: { objectType: string; ownerCap: ObjectArg; objectId: IdArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::is_authorized`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.ownerCap), pure.id(tx, args.objectId)],
+    });
+}
+
+export function adminAclId(
+    tx: Transaction,
+    packageId: string,
+    args: { adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::admin_acl_id`,
+        arguments: [tx.object(args.adminAcl)],
+    });
+}
+
+export function serverAddressRegistryId(
+    tx: Transaction,
+    packageId: string,
+    args: { registry: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::server_address_registry_id`,
+        arguments: [tx.object(args.registry)],
+    });
+}
+
+export function verifySponsor(
+    tx: Transaction,
+    packageId: string,
+    args: { adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::verify_sponsor`,
+        arguments: [tx.object(args.adminAcl)],
+    });
+}
+
+export function addSponsorToAcl(
+    tx: Transaction,
+    packageId: string,
+    args: { adminAcl: ObjectArg; governorCap: ObjectArg; sponsor: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::add_sponsor_to_acl`,
+        arguments: [
+            tx.object(args.adminAcl),
+            tx.object(args.governorCap),
+            pure.address(tx, args.sponsor),
+        ],
+    });
+}
+
+export function createOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { objectType: string; adminAcl: ObjectArg; obj: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::create_owner_cap`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.adminAcl), tx.object(args.obj)],
+    });
+}
+
+export function createOwnerCapById(
+    tx: Transaction,
+    packageId: string,
+    args: { objectType: string; objectId: IdArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::create_owner_cap_by_id`,
+        typeArguments: [args.objectType],
+        arguments: [pure.id(tx, args.objectId), tx.object(args.adminAcl)],
+    });
+}
+
+export function registerServerAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { serverAddressRegistry: ObjectArg; governorCap: ObjectArg; serverAddress: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::register_server_address`,
+        arguments: [
+            tx.object(args.serverAddressRegistry),
+            tx.object(args.governorCap),
+            pure.address(tx, args.serverAddress),
+        ],
+    });
+}
+
+export function removeServerAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { serverAddressRegistry: ObjectArg; governorCap: ObjectArg; serverAddress: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::remove_server_address`,
+        arguments: [
+            tx.object(args.serverAddressRegistry),
+            tx.object(args.governorCap),
+            pure.address(tx, args.serverAddress),
+        ],
+    });
+}
+
+export function deleteOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { objectType: string; ownerCap: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ACCESS}::delete_owner_cap`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.ownerCap), tx.object(args.adminAcl)],
+    });
+}
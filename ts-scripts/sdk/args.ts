@@ -0,0 +1,23 @@
+import type { TransactionArgument, TransactionObjectInput } from "@mysten/sui/transactions";
+
+/** Object ID, resolved object reference, or the result of an earlier command. */
+export type ObjectArg = TransactionObjectInput;
+
+export type U8Arg = number | TransactionArgument;
+export type U16Arg = number | TransactionArgument;
+export type U32Arg = number | TransactionArgument;
+export type U64Arg = number | bigint | string | TransactionArgument;
+export type U128Arg = number | bigint | string | TransactionArgument;
+export type U256Arg = number | bigint | string | TransactionArgument;
+export type BoolArg = boolean | TransactionArgument;
+export type AddressArg = string | TransactionArgument;
+export type StringArg = string | TransactionArgument;
+export type IdArg = string | TransactionArgument;
+export type IdVectorArg = string[] | TransactionArgument;
+/** `vector<u8>` as raw bytes, a byte array, or a hex string (with or without `0x`). */
+export type BytesArg = Uint8Array | number[] | string | TransactionArgument;
+
+/** Fully qualified world type, e.g. `worldType(packageId, MODULES.GATE, "Gate")`. */
+export function worldType(packageId: string, moduleName: string, structName: string): string {
+    return `${packageId}::${moduleName}::${structName}`;
+}
@@ -0,0 +1,299 @@
+/**
+ * Typed PTB builders for `world::assembly`.
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { MODULES } from "../utils/config";
+import type { BytesArg, ObjectArg, StringArg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::online`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::offline`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; ownerCap: ObjectArg; name: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::update_metadata_name`,
+        arguments: [tx.object(args.assembly), tx.object(args.ownerCap), pure.string(tx, args.name)],
+    });
+}
+
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; ownerCap: ObjectArg; description: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::update_metadata_description`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.description),
+        ],
+    });
+}
+
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; ownerCap: ObjectArg; url: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::update_metadata_url`,
+        arguments: [tx.object(args.assembly), tx.object(args.ownerCap), pure.string(tx, args.url)],
+    });
+}
+
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        registry: ObjectArg;
+        adminAcl: ObjectArg;
+        solarsystem: U64Arg;
+        x: StringArg;
+        y: StringArg;
+        z: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::reveal_location`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.registry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.solarsystem),
+            pure.string(tx, args.x),
+            pure.string(tx, args.y),
+            pure.string(tx, args.z),
+        ],
+    });
+}
+
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::status`,
+        arguments: [tx.object(args.assembly)],
+    });
+}
+
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::owner_cap_id`,
+        arguments: [tx.object(args.assembly)],
+    });
+}
+
+export function energySourceId(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::energy_source_id`,
+        arguments: [tx.object(args.assembly)],
+    });
+}
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::id`,
+        arguments: [tx.object(args.assembly)],
+    });
+}
+
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        registry: ObjectArg;
+        networkNode: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        itemId: U64Arg;
+        typeId: U64Arg;
+        locationHash: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::anchor`,
+        arguments: [
+            tx.object(args.registry),
+            tx.object(args.networkNode),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.itemId),
+            pure.u64(tx, args.typeId),
+            pure.bytes(tx, args.locationHash),
+        ],
+    });
+}
+
+export function shareAssembly(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::share_assembly`,
+        arguments: [tx.object(args.assembly), tx.object(args.adminAcl)],
+    });
+}
+
+export function updateEnergySource(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::update_energy_source`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function updateEnergySourceConnectedAssembly(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; updateEnergySources: TransactionArgument; networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::update_energy_source_connected_assembly`,
+        arguments: [
+            tx.object(args.assembly),
+            args.updateEnergySources,
+            tx.object(args.networkNode),
+        ],
+    });
+}
+
+export function offlineConnectedAssembly(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        offlineAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::offline_connected_assembly`,
+        arguments: [
+            tx.object(args.assembly),
+            args.offlineAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+export function offlineOrphanedAssembly(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        orphanedAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::offline_orphaned_assembly`,
+        arguments: [
+            tx.object(args.assembly),
+            args.orphanedAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        assembly: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::unanchor`,
+        arguments: [
+            tx.object(args.assembly),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function unanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { assembly: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ASSEMBLY}::unanchor_orphan`,
+        arguments: [tx.object(args.assembly), tx.object(args.adminAcl)],
+    });
+}
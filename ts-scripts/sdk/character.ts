@@ -0,0 +1,251 @@
+/**
+ * Typed PTB builders for `world::character`.
+ *
+ * `borrowOwnerCap` returns `[ownerCap, receipt]`; pass both back to `returnOwnerCap` before the
+ * transaction ends.
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { MODULES } from "../utils/config";
+import type { AddressArg, ObjectArg, StringArg, U32Arg } from "./args";
+import * as pure from "./pure";
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::id`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+export function playerProfileId(
+    tx: Transaction,
+    packageId: string,
+    args: { profile: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::player_profile_id`,
+        arguments: [tx.object(args.profile)],
+    });
+}
+
+export function key(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::key`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+export function characterAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::character_address`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+export function tenant(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::tenant`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+export function tribe(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::tribe`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::owner_cap_id`,
+        arguments: [tx.object(args.character)],
+    });
+}
+
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; ownerCap: ObjectArg; name: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::update_metadata_name`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.name),
+        ],
+    });
+}
+
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; ownerCap: ObjectArg; description: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::update_metadata_description`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.description),
+        ],
+    });
+}
+
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; ownerCap: ObjectArg; url: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::update_metadata_url`,
+        arguments: [tx.object(args.character), tx.object(args.ownerCap), pure.string(tx, args.url)],
+    });
+}
+
+export function createCharacter(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        registry: ObjectArg;
+        adminAcl: ObjectArg;
+        gameCharacterId: U32Arg;
+        tenant: StringArg;
+        tribeId: U32Arg;
+        characterAddress: AddressArg;
+        name: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::create_character`,
+        arguments: [
+            tx.object(args.registry),
+            tx.object(args.adminAcl),
+            pure.u32(tx, args.gameCharacterId),
+            pure.string(tx, args.tenant),
+            pure.u32(tx, args.tribeId),
+            pure.address(tx, args.characterAddress),
+            pure.string(tx, args.name),
+        ],
+    });
+}
+
+export function borrowOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: { objectType: string; character: ObjectArg; ownerCapTicket: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::borrow_owner_cap`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.character), tx.object(args.ownerCapTicket)],
+    });
+}
+
+export function returnOwnerCap(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectType: string;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+        receipt: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::return_owner_cap`,
+        typeArguments: [args.objectType],
+        arguments: [tx.object(args.character), tx.object(args.ownerCap), args.receipt],
+    });
+}
+
+export function shareCharacter(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::share_character`,
+        arguments: [tx.object(args.character), tx.object(args.adminAcl)],
+    });
+}
+
+export function updateTribe(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg; tribeId: U32Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::update_tribe`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u32(tx, args.tribeId),
+        ],
+    });
+}
+
+export function updateAddress(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg; characterAddress: AddressArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::update_address`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.address(tx, args.characterAddress),
+        ],
+    });
+}
+
+export function updateTenantId(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg; tenant: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::update_tenant_id`,
+        arguments: [
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.string(tx, args.tenant),
+        ],
+    });
+}
+
+export function deleteCharacter(
+    tx: Transaction,
+    packageId: string,
+    args: { character: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.CHARACTER}::delete_character`,
+        arguments: [tx.object(args.character), tx.object(args.adminAcl)],
+    });
+}
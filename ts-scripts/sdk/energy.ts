@@ -0,0 +1,111 @@
+/**
+ * Typed PTB builders for `world::energy`.
+ *
+ * `EnergySource` is stored inside a network node; obtain it with `networkNode.energy`.
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { MODULES } from "../utils/config";
+import type { ObjectArg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { energyConfig: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ENERGY}::id`,
+        arguments: [tx.object(args.energyConfig)],
+    });
+}
+
+export function assemblyEnergy(
+    tx: Transaction,
+    packageId: string,
+    args: { energyConfig: ObjectArg; typeId: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ENERGY}::assembly_energy`,
+        arguments: [tx.object(args.energyConfig), pure.u64(tx, args.typeId)],
+    });
+}
+
+export function totalReservedEnergy(
+    tx: Transaction,
+    packageId: string,
+    args: { energySource: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ENERGY}::total_reserved_energy`,
+        arguments: [args.energySource],
+    });
+}
+
+export function availableEnergy(
+    tx: Transaction,
+    packageId: string,
+    args: { energySource: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ENERGY}::available_energy`,
+        arguments: [args.energySource],
+    });
+}
+
+export function currentEnergyProduction(
+    tx: Transaction,
+    packageId: string,
+    args: { energySource: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ENERGY}::current_energy_production`,
+        arguments: [args.energySource],
+    });
+}
+
+export function maxEnergyProduction(
+    tx: Transaction,
+    packageId: string,
+    args: { energySource: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ENERGY}::max_energy_production`,
+        arguments: [args.energySource],
+    });
+}
+
+export function setEnergyConfig(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+        assemblyTypeId: U64Arg;
+        energyRequired: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ENERGY}::set_energy_config`,
+        arguments: [
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.assemblyTypeId),
+            pure.u64(tx, args.energyRequired),
+        ],
+    });
+}
+
+export function removeEnergyConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { energyConfig: ObjectArg; adminAcl: ObjectArg; assemblyTypeId: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.ENERGY}::remove_energy_config`,
+        arguments: [
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.assemblyTypeId),
+        ],
+    });
+}
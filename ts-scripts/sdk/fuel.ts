@@ -0,0 +1,138 @@
+/**
+ * Typed PTB builders for `world::fuel`.
+ *
+ * `Fuel` is stored inside a network node; obtain it with `networkNode.fuel` and use these
+ * getters in a devInspect transaction.
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import { MODULES } from "../utils/config";
+import type { ObjectArg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { fuelConfig: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::id`,
+        arguments: [tx.object(args.fuelConfig)],
+    });
+}
+
+export function fuelEfficiency(
+    tx: Transaction,
+    packageId: string,
+    args: { fuelConfig: ObjectArg; fuelTypeId: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::fuel_efficiency`,
+        arguments: [tx.object(args.fuelConfig), pure.u64(tx, args.fuelTypeId)],
+    });
+}
+
+export function quantity(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::quantity`,
+        arguments: [args.fuel],
+    });
+}
+
+export function typeId(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::type_id`,
+        arguments: [args.fuel],
+    });
+}
+
+export function volume(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::volume`,
+        arguments: [args.fuel],
+    });
+}
+
+export function isBurning(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::is_burning`,
+        arguments: [args.fuel],
+    });
+}
+
+export function hasEnoughFuel(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument; fuelConfig: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::has_enough_fuel`,
+        arguments: [
+            args.fuel,
+            tx.object(args.fuelConfig),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function needUpdate(
+    tx: Transaction,
+    packageId: string,
+    args: { fuel: TransactionArgument; fuelConfig: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::need_update`,
+        arguments: [
+            args.fuel,
+            tx.object(args.fuelConfig),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function setFuelEfficiency(
+    tx: Transaction,
+    packageId: string,
+    args: { fuelConfig: ObjectArg; adminAcl: ObjectArg; fuelTypeId: U64Arg; fuelEfficiency: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::set_fuel_efficiency`,
+        arguments: [
+            tx.object(args.fuelConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.fuelTypeId),
+            pure.u64(tx, args.fuelEfficiency),
+        ],
+    });
+}
+
+export function unsetFuelEfficiency(
+    tx: Transaction,
+    packageId: string,
+    args: { fuelConfig: ObjectArg; adminAcl: ObjectArg; fuelTypeId: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.FUEL}::unset_fuel_efficiency`,
+        arguments: [
+            tx.object(args.fuelConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.fuelTypeId),
+        ],
+    });
+}
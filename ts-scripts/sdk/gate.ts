@@ -0,0 +1,669 @@
+/**
+ * Typed PTB builders for `world::gate`.
+ *
+ * Linking, jumping and extension calls take `OwnerCap<Gate>` arguments that are normally
+ * borrowed from the owning character via `character.borrowOwnerCap` in the same transaction.
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import { MODULES } from "../utils/config";
+import type { BytesArg, ObjectArg, StringArg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function authorizeExtension(
+    tx: Transaction,
+    packageId: string,
+    args: { authType: string; gate: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::authorize_extension`,
+        typeArguments: [args.authType],
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap)],
+    });
+}
+
+export function freezeExtensionConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::freeze_extension_config`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap)],
+    });
+}
+
+export function revokeExtensionAuthorization(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::revoke_extension_authorization`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap)],
+    });
+}
+
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; networkNode: ObjectArg; energyConfig: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::online`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; networkNode: ObjectArg; energyConfig: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::offline`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function linkGates(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        sourceGate: ObjectArg;
+        destinationGate: ObjectArg;
+        gateConfig: ObjectArg;
+        serverRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        sourceGateOwnerCap: ObjectArg;
+        destinationGateOwnerCap: ObjectArg;
+        distanceProof: BytesArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::link_gates`,
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.gateConfig),
+            tx.object(args.serverRegistry),
+            tx.object(args.adminAcl),
+            tx.object(args.sourceGateOwnerCap),
+            tx.object(args.destinationGateOwnerCap),
+            pure.bytes(tx, args.distanceProof),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function unlinkGates(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        sourceGate: ObjectArg;
+        destinationGate: ObjectArg;
+        sourceGateOwnerCap: ObjectArg;
+        destinationGateOwnerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::unlink_gates`,
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.sourceGateOwnerCap),
+            tx.object(args.destinationGateOwnerCap),
+        ],
+    });
+}
+
+export function issueJumpPermit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        authType: string;
+        sourceGate: ObjectArg;
+        destinationGate: ObjectArg;
+        character: ObjectArg;
+        auth: TransactionArgument;
+        expiresAtTimestampMs: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::issue_jump_permit`,
+        typeArguments: [args.authType],
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.character),
+            args.auth,
+            pure.u64(tx, args.expiresAtTimestampMs),
+        ],
+    });
+}
+
+export function issueJumpPermitWithId(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        authType: string;
+        sourceGate: ObjectArg;
+        destinationGate: ObjectArg;
+        character: ObjectArg;
+        auth: TransactionArgument;
+        expiresAtTimestampMs: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::issue_jump_permit_with_id`,
+        typeArguments: [args.authType],
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.character),
+            args.auth,
+            pure.u64(tx, args.expiresAtTimestampMs),
+        ],
+    });
+}
+
+export function deleteJumpPermit(
+    tx: Transaction,
+    packageId: string,
+    args: { jumpPermit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::delete_jump_permit`,
+        arguments: [tx.object(args.jumpPermit)],
+    });
+}
+
+export function deleteJumpPermitWithAuth(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        authType: string;
+        sourceGate: ObjectArg;
+        jumpPermit: ObjectArg;
+        auth: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::delete_jump_permit_with_auth`,
+        typeArguments: [args.authType],
+        arguments: [tx.object(args.sourceGate), tx.object(args.jumpPermit), args.auth],
+    });
+}
+
+export function jump(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        sourceGate: ObjectArg;
+        destinationGate: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::jump`,
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function jumpWithPermit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        sourceGate: ObjectArg;
+        destinationGate: ObjectArg;
+        character: ObjectArg;
+        jumpPermit: ObjectArg;
+        adminAcl: ObjectArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::jump_with_permit`,
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.character),
+            tx.object(args.jumpPermit),
+            tx.object(args.adminAcl),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function updateEnergySourceConnectedGate(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; updateEnergySources: TransactionArgument; networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::update_energy_source_connected_gate`,
+        arguments: [tx.object(args.gate), args.updateEnergySources, tx.object(args.networkNode)],
+    });
+}
+
+export function offlineConnectedGate(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate: ObjectArg;
+        offlineAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::offline_connected_gate`,
+        arguments: [
+            tx.object(args.gate),
+            args.offlineAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+export function offlineOrphanedGate(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate: ObjectArg;
+        orphanedAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::offline_orphaned_gate`,
+        arguments: [
+            tx.object(args.gate),
+            args.orphanedAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg; name: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::update_metadata_name`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap), pure.string(tx, args.name)],
+    });
+}
+
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg; description: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::update_metadata_description`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.description),
+        ],
+    });
+}
+
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; ownerCap: ObjectArg; url: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::update_metadata_url`,
+        arguments: [tx.object(args.gate), tx.object(args.ownerCap), pure.string(tx, args.url)],
+    });
+}
+
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        gate: ObjectArg;
+        registry: ObjectArg;
+        adminAcl: ObjectArg;
+        solarsystem: U64Arg;
+        x: StringArg;
+        y: StringArg;
+        z: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::reveal_location`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.registry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.solarsystem),
+            pure.string(tx, args.x),
+            pure.string(tx, args.y),
+            pure.string(tx, args.z),
+        ],
+    });
+}
+
+export function gateConfigId(
+    tx: Transaction,
+    packageId: string,
+    args: { config: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::gate_config_id`,
+        arguments: [tx.object(args.config)],
+    });
+}
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::id`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function jumpPermitId(
+    tx: Transaction,
+    packageId: string,
+    args: { permit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::jump_permit_id`,
+        arguments: [tx.object(args.permit)],
+    });
+}
+
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::status`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function location(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::location`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function isOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::is_online`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function areGatesLinked(
+    tx: Transaction,
+    packageId: string,
+    args: { gateA: ObjectArg; gateB: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::are_gates_linked`,
+        arguments: [tx.object(args.gateA), tx.object(args.gateB)],
+    });
+}
+
+export function linkedGateId(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::linked_gate_id`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function routeHash(
+    tx: Transaction,
+    packageId: string,
+    args: { sourceGate: ObjectArg; destinationGate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::route_hash`,
+        arguments: [tx.object(args.sourceGate), tx.object(args.destinationGate)],
+    });
+}
+
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::owner_cap_id`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function energySourceId(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::energy_source_id`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function extensionType(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::extension_type`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function isExtensionConfigured(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::is_extension_configured`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function isExtensionFrozen(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::is_extension_frozen`,
+        arguments: [tx.object(args.gate)],
+    });
+}
+
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        registry: ObjectArg;
+        networkNode: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        itemId: U64Arg;
+        typeId: U64Arg;
+        locationHash: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::anchor`,
+        arguments: [
+            tx.object(args.registry),
+            tx.object(args.networkNode),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.itemId),
+            pure.u64(tx, args.typeId),
+            pure.bytes(tx, args.locationHash),
+        ],
+    });
+}
+
+export function shareGate(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::share_gate`,
+        arguments: [tx.object(args.gate), tx.object(args.adminAcl)],
+    });
+}
+
+export function updateEnergySource(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::update_energy_source`,
+        arguments: [tx.object(args.gate), tx.object(args.networkNode), tx.object(args.adminAcl)],
+    });
+}
+
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; networkNode: ObjectArg; energyConfig: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::unanchor`,
+        arguments: [
+            tx.object(args.gate),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function unanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { gate: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::unanchor_orphan`,
+        arguments: [tx.object(args.gate), tx.object(args.adminAcl)],
+    });
+}
+
+export function unlinkAndUnanchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        sourceGate: ObjectArg;
+        destinationGate: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::unlink_and_unanchor`,
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function unlinkAndUnanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { sourceGate: ObjectArg; destinationGate: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::unlink_and_unanchor_orphan`,
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function setMaxDistance(
+    tx: Transaction,
+    packageId: string,
+    args: { gateConfig: ObjectArg; adminAcl: ObjectArg; typeId: U64Arg; maxDistance: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::set_max_distance`,
+        arguments: [
+            tx.object(args.gateConfig),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.typeId),
+            pure.u64(tx, args.maxDistance),
+        ],
+    });
+}
+
+export function unlinkGatesByAdmin(
+    tx: Transaction,
+    packageId: string,
+    args: { sourceGate: ObjectArg; destinationGate: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.GATE}::unlink_gates_by_admin`,
+        arguments: [
+            tx.object(args.sourceGate),
+            tx.object(args.destinationGate),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
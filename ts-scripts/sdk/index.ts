@@ -0,0 +1,27 @@
+/**
+ * Typed transaction builders for the world package.
+ *
+ * Each module namespace mirrors a Move module and exposes one function per public Move function.
+ * Builders append a `moveCall` to the given transaction and return its result, so calls can be
+ * chained inside a single PTB:
+ *
+ *   const [ownerCap, receipt] = character.borrowOwnerCap(tx, packageId, { ... });
+ *   gate.online(tx, packageId, { gate: gateId, ownerCap, ... });
+ *   character.returnOwnerCap(tx, packageId, { ownerCap, receipt, ... });
+ *
+ * Pure arguments accept plain values or the result of an earlier command; object arguments accept
+ * an object ID or a command result. `&Clock` parameters default to `0x6`.
+ */
+export * as access from "./access";
+export * as assembly from "./assembly";
+export * as character from "./character";
+export * as energy from "./energy";
+export * as fuel from "./fuel";
+export * as gate from "./gate";
+export * as killmail from "./killmail";
+export * as location from "./location";
+export * as networkNode from "./network-node";
+export * as rift from "./rift";
+export * as storageUnit from "./storage-unit";
+export * as turret from "./turret";
+export * from "./args";
@@ -0,0 +1,160 @@
+/**
+ * Typed PTB builders for `world::killmail`.
+ */
+import type { Transaction, TransactionResult } from "@mysten/sui/transactions";
+import { MODULES } from "../utils/config";
+import type { ObjectArg, U64Arg, U8Arg } from "./args";
+import * as pure from "./pure";
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function ship(tx: Transaction, packageId: string): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::ship`,
+    });
+}
+
+export function structure(tx: Transaction, packageId: string): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::structure`,
+    });
+}
+
+export function key(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::key`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function killerId(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::killer_id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function victimId(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::victim_id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function reportedByCharacterId(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::reported_by_character_id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function killTimestamp(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::kill_timestamp`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function lossType(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::loss_type`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function solarSystemId(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::solar_system_id`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function isStructureLoss(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::is_structure_loss`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function isShipLoss(
+    tx: Transaction,
+    packageId: string,
+    args: { killmail: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::is_ship_loss`,
+        arguments: [tx.object(args.killmail)],
+    });
+}
+
+export function createKillmail(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        registry: ObjectArg;
+        adminAcl: ObjectArg;
+        itemId: U64Arg;
+        killerId: U64Arg;
+        victimId: U64Arg;
+        reportedByCharacter: ObjectArg;
+        killTimestamp: U64Arg;
+        lossType: U8Arg;
+        solarSystemId: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.KILLMAIL}::create_killmail`,
+        arguments: [
+            tx.object(args.registry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.itemId),
+            pure.u64(tx, args.killerId),
+            pure.u64(tx, args.victimId),
+            tx.object(args.reportedByCharacter),
+            pure.u64(tx, args.killTimestamp),
+            pure.u8(tx, args.lossType),
+            pure.u64(tx, args.solarSystemId),
+        ],
+    });
+}
@@ -0,0 +1,203 @@
+/**
+ * Typed PTB builders for `world::location`.
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import { MODULES } from "../utils/config";
+import type { AddressArg, BytesArg, IdArg, ObjectArg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function createLocationProof(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        serverAddress: AddressArg;
+        playerAddress: AddressArg;
+        sourceStructureId: IdArg;
+        sourceLocationHash: BytesArg;
+        targetStructureId: IdArg;
+        targetLocationHash: BytesArg;
+        distance: U64Arg;
+        data: BytesArg;
+        deadlineMs: U64Arg;
+        signature: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::create_location_proof`,
+        arguments: [
+            pure.address(tx, args.serverAddress),
+            pure.address(tx, args.playerAddress),
+            pure.id(tx, args.sourceStructureId),
+            pure.bytes(tx, args.sourceLocationHash),
+            pure.id(tx, args.targetStructureId),
+            pure.bytes(tx, args.targetLocationHash),
+            pure.u64(tx, args.distance),
+            pure.bytes(tx, args.data),
+            pure.u64(tx, args.deadlineMs),
+            pure.bytes(tx, args.signature),
+        ],
+    });
+}
+
+export function verifyProximity(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        location: TransactionArgument;
+        proof: TransactionArgument;
+        serverRegistry: ObjectArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::verify_proximity`,
+        arguments: [
+            args.location,
+            args.proof,
+            tx.object(args.serverRegistry),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function verifyProximityProofFromBytes(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        serverRegistry: ObjectArg;
+        location: TransactionArgument;
+        proofBytes: BytesArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::verify_proximity_proof_from_bytes`,
+        arguments: [
+            tx.object(args.serverRegistry),
+            args.location,
+            pure.bytes(tx, args.proofBytes),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function verifyDistance(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        location: TransactionArgument;
+        serverRegistry: ObjectArg;
+        proofBytes: BytesArg;
+        maxDistance: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::verify_distance`,
+        arguments: [
+            args.location,
+            tx.object(args.serverRegistry),
+            pure.bytes(tx, args.proofBytes),
+            pure.u64(tx, args.maxDistance),
+        ],
+    });
+}
+
+export function verifySameLocation(
+    tx: Transaction,
+    packageId: string,
+    args: { locationAHash: BytesArg; locationBHash: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::verify_same_location`,
+        arguments: [pure.bytes(tx, args.locationAHash), pure.bytes(tx, args.locationBHash)],
+    });
+}
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { registry: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::id`,
+        arguments: [tx.object(args.registry)],
+    });
+}
+
+export function hash(
+    tx: Transaction,
+    packageId: string,
+    args: { location: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::hash`,
+        arguments: [args.location],
+    });
+}
+
+export function getLocation(
+    tx: Transaction,
+    packageId: string,
+    args: { registry: ObjectArg; assemblyId: IdArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::get_location`,
+        arguments: [tx.object(args.registry), pure.id(tx, args.assemblyId)],
+    });
+}
+
+export function solarsystem(
+    tx: Transaction,
+    packageId: string,
+    args: { data: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::solarsystem`,
+        arguments: [args.data],
+    });
+}
+
+export function x(
+    tx: Transaction,
+    packageId: string,
+    args: { data: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::x`,
+        arguments: [args.data],
+    });
+}
+
+export function y(
+    tx: Transaction,
+    packageId: string,
+    args: { data: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::y`,
+        arguments: [args.data],
+    });
+}
+
+export function z(
+    tx: Transaction,
+    packageId: string,
+    args: { data: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::z`,
+        arguments: [args.data],
+    });
+}
+
+export function update(
+    tx: Transaction,
+    packageId: string,
+    args: { location: TransactionArgument; adminAcl: ObjectArg; locationHash: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.LOCATION}::update`,
+        arguments: [args.location, tx.object(args.adminAcl), pure.bytes(tx, args.locationHash)],
+    });
+}
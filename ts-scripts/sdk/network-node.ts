@@ -0,0 +1,406 @@
+/**
+ * Typed PTB builders for `world::network_node`.
+ *
+ * `update_fuel`, `offline`, `connect_assemblies` and `unanchor` return hot potatoes that must be
+ * threaded through the per-assembly handlers and destroyed in the same transaction.
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import { MODULES } from "../utils/config";
+import type { BytesArg, IdArg, IdVectorArg, ObjectArg, StringArg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function depositFuel(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        networkNode: ObjectArg;
+        adminAcl: ObjectArg;
+        ownerCap: ObjectArg;
+        typeId: U64Arg;
+        volume: U64Arg;
+        quantity: U64Arg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::deposit_fuel`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.typeId),
+            pure.u64(tx, args.volume),
+            pure.u64(tx, args.quantity),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function withdrawFuel(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        networkNode: ObjectArg;
+        adminAcl: ObjectArg;
+        ownerCap: ObjectArg;
+        typeId: U64Arg;
+        quantity: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::withdraw_fuel`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.typeId),
+            pure.u64(tx, args.quantity),
+        ],
+    });
+}
+
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; ownerCap: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::online`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.ownerCap),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; fuelConfig: ObjectArg; ownerCap: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::offline`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.fuelConfig),
+            tx.object(args.ownerCap),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; ownerCap: ObjectArg; name: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::update_metadata_name`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.name),
+        ],
+    });
+}
+
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; ownerCap: ObjectArg; description: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::update_metadata_description`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.description),
+        ],
+    });
+}
+
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; ownerCap: ObjectArg; url: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::update_metadata_url`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.url),
+        ],
+    });
+}
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::id`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+export function connectedAssemblies(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::connected_assemblies`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+export function isAssemblyConnected(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; assemblyId: IdArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::is_assembly_connected`,
+        arguments: [tx.object(args.networkNode), pure.id(tx, args.assemblyId)],
+    });
+}
+
+export function isNetworkNodeOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::is_network_node_online`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::owner_cap_id`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+export function fuelQuantity(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::fuel_quantity`,
+        arguments: [tx.object(args.networkNode)],
+    });
+}
+
+export function idsLength(
+    tx: Transaction,
+    packageId: string,
+    args: { offlineAssemblies: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::ids_length`,
+        arguments: [args.offlineAssemblies],
+    });
+}
+
+export function orphanedAssembliesLength(
+    tx: Transaction,
+    packageId: string,
+    args: { orphanedAssemblies: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::orphaned_assemblies_length`,
+        arguments: [args.orphanedAssemblies],
+    });
+}
+
+export function updateEnergySourcesIdsLength(
+    tx: Transaction,
+    packageId: string,
+    args: { updateEnergySources: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::update_energy_sources_ids_length`,
+        arguments: [args.updateEnergySources],
+    });
+}
+
+export function needUpdate(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; fuelConfig: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::need_update`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.fuelConfig),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        networkNode: ObjectArg;
+        registry: ObjectArg;
+        adminAcl: ObjectArg;
+        solarsystem: U64Arg;
+        x: StringArg;
+        y: StringArg;
+        z: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::reveal_location`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.registry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.solarsystem),
+            pure.string(tx, args.x),
+            pure.string(tx, args.y),
+            pure.string(tx, args.z),
+        ],
+    });
+}
+
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        registry: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        itemId: U64Arg;
+        typeId: U64Arg;
+        locationHash: BytesArg;
+        fuelMaxCapacity: U64Arg;
+        fuelBurnRateInMs: U64Arg;
+        maxEnergyProduction: U64Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::anchor`,
+        arguments: [
+            tx.object(args.registry),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.itemId),
+            pure.u64(tx, args.typeId),
+            pure.bytes(tx, args.locationHash),
+            pure.u64(tx, args.fuelMaxCapacity),
+            pure.u64(tx, args.fuelBurnRateInMs),
+            pure.u64(tx, args.maxEnergyProduction),
+        ],
+    });
+}
+
+export function shareNetworkNode(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::share_network_node`,
+        arguments: [tx.object(args.networkNode), tx.object(args.adminAcl)],
+    });
+}
+
+export function connectAssemblies(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; adminAcl: ObjectArg; assemblyIds: IdVectorArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::connect_assemblies`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+            pure.idVector(tx, args.assemblyIds),
+        ],
+    });
+}
+
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::unanchor`,
+        arguments: [tx.object(args.networkNode), tx.object(args.adminAcl)],
+    });
+}
+
+export function destroyNetworkNode(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; orphanedAssemblies: TransactionArgument; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::destroy_network_node`,
+        arguments: [tx.object(args.networkNode), args.orphanedAssemblies, tx.object(args.adminAcl)],
+    });
+}
+
+export function updateFuel(
+    tx: Transaction,
+    packageId: string,
+    args: { networkNode: ObjectArg; fuelConfig: ObjectArg; adminAcl: ObjectArg; clock?: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::update_fuel`,
+        arguments: [
+            tx.object(args.networkNode),
+            tx.object(args.fuelConfig),
+            tx.object(args.adminAcl),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function destroyOfflineAssemblies(
+    tx: Transaction,
+    packageId: string,
+    args: { offlineAssemblies: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::destroy_offline_assemblies`,
+        arguments: [args.offlineAssemblies],
+    });
+}
+
+export function destroyUpdateEnergySources(
+    tx: Transaction,
+    packageId: string,
+    args: { updateEnergySources: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::destroy_update_energy_sources`,
+        arguments: [args.updateEnergySources],
+    });
+}
+
+export function destroyOrphanedAssemblies(
+    tx: Transaction,
+    packageId: string,
+    args: { orphanedAssemblies: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.NETWORK_NODE}::destroy_orphaned_assemblies`,
+        arguments: [args.orphanedAssemblies],
+    });
+}
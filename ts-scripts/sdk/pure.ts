@@ -0,0 +1,78 @@
+import { bcs } from "@mysten/sui/bcs";
+import type { Transaction, TransactionArgument } from "@mysten/sui/transactions";
+import { fromHex } from "@mysten/sui/utils";
+import type {
+    AddressArg,
+    BoolArg,
+    BytesArg,
+    IdArg,
+    IdVectorArg,
+    StringArg,
+    U128Arg,
+    U16Arg,
+    U256Arg,
+    U32Arg,
+    U64Arg,
+    U8Arg,
+} from "./args";
+
+/** Pure argument encoders: pass command results through, serialize plain values. */
+function isTransactionArgument(value: unknown): value is TransactionArgument {
+    if (typeof value === "function") return true;
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Uint8Array)
+    );
+}
+
+export function u8(tx: Transaction, value: U8Arg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.u8(value);
+}
+
+export function u16(tx: Transaction, value: U16Arg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.u16(value);
+}
+
+export function u32(tx: Transaction, value: U32Arg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.u32(value);
+}
+
+export function u64(tx: Transaction, value: U64Arg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.u64(value);
+}
+
+export function u128(tx: Transaction, value: U128Arg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.u128(value);
+}
+
+export function u256(tx: Transaction, value: U256Arg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.u256(value);
+}
+
+export function bool(tx: Transaction, value: BoolArg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.bool(value);
+}
+
+export function address(tx: Transaction, value: AddressArg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.address(value);
+}
+
+export function string(tx: Transaction, value: StringArg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.string(value);
+}
+
+export function id(tx: Transaction, value: IdArg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.id(value);
+}
+
+export function idVector(tx: Transaction, value: IdVectorArg): TransactionArgument {
+    return isTransactionArgument(value) ? value : tx.pure.vector("id", value);
+}
+
+export function bytes(tx: Transaction, value: BytesArg): TransactionArgument {
+    if (isTransactionArgument(value)) return value;
+    const raw = typeof value === "string" ? fromHex(value) : Uint8Array.from(value);
+    return tx.pure(bcs.vector(bcs.u8()).serialize(raw));
+}
@@ -0,0 +1,112 @@
+/**
+ * Typed PTB builders for `world::rift`.
+ */
+import type { Transaction, TransactionResult } from "@mysten/sui/transactions";
+import { MODULES } from "../utils/config";
+import type { BytesArg, ObjectArg, StringArg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.RIFT}::id`,
+        arguments: [tx.object(args.rift)],
+    });
+}
+
+export function key(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.RIFT}::key`,
+        arguments: [tx.object(args.rift)],
+    });
+}
+
+export function locationHash(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.RIFT}::location_hash`,
+        arguments: [tx.object(args.rift)],
+    });
+}
+
+export function spawn(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        registry: ObjectArg;
+        adminAcl: ObjectArg;
+        itemId: U64Arg;
+        tenant: StringArg;
+        locationHash: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.RIFT}::spawn`,
+        arguments: [
+            tx.object(args.registry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.itemId),
+            pure.string(tx, args.tenant),
+            pure.bytes(tx, args.locationHash),
+        ],
+    });
+}
+
+export function shareRift(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.RIFT}::share_rift`,
+        arguments: [tx.object(args.rift), tx.object(args.adminAcl)],
+    });
+}
+
+export function broadcastLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        rift: ObjectArg;
+        locationRegistry: ObjectArg;
+        adminAcl: ObjectArg;
+        solarsystem: U64Arg;
+        x: StringArg;
+        y: StringArg;
+        z: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.RIFT}::broadcast_location`,
+        arguments: [
+            tx.object(args.rift),
+            tx.object(args.locationRegistry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.solarsystem),
+            pure.string(tx, args.x),
+            pure.string(tx, args.y),
+            pure.string(tx, args.z),
+        ],
+    });
+}
+
+export function despawn(
+    tx: Transaction,
+    packageId: string,
+    args: { rift: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.RIFT}::despawn`,
+        arguments: [tx.object(args.rift), tx.object(args.adminAcl)],
+    });
+}
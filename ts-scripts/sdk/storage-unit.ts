@@ -0,0 +1,635 @@
+/**
+ * Typed PTB builders for `world::storage_unit`.
+ *
+ * Owner-cap based deposit/withdraw calls are generic over the cap's object type
+ * (`StorageUnit` for the owner inventory, `Character` for a player's own inventory).
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { SUI_CLOCK_OBJECT_ID } from "@mysten/sui/utils";
+import { MODULES } from "../utils/config";
+import type { BytesArg, IdArg, ObjectArg, StringArg, U32Arg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function authorizeExtension(
+    tx: Transaction,
+    packageId: string,
+    args: { authType: string; storageUnit: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::authorize_extension`,
+        typeArguments: [args.authType],
+        arguments: [tx.object(args.storageUnit), tx.object(args.ownerCap)],
+    });
+}
+
+export function freezeExtensionConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::freeze_extension_config`,
+        arguments: [tx.object(args.storageUnit), tx.object(args.ownerCap)],
+    });
+}
+
+export function revokeExtensionAuthorization(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::revoke_extension_authorization`,
+        arguments: [tx.object(args.storageUnit), tx.object(args.ownerCap)],
+    });
+}
+
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::online`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::offline`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function chainItemToGameInventory(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectType: string;
+        storageUnit: ObjectArg;
+        serverRegistry: ObjectArg;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+        typeId: U64Arg;
+        quantity: U32Arg;
+        locationProof: BytesArg;
+        clock?: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::chain_item_to_game_inventory`,
+        typeArguments: [args.objectType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.serverRegistry),
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.typeId),
+            pure.u32(tx, args.quantity),
+            pure.bytes(tx, args.locationProof),
+            tx.object(args.clock ?? SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+}
+
+export function depositItem(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        authType: string;
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        item: ObjectArg;
+        auth: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::deposit_item`,
+        typeArguments: [args.authType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            tx.object(args.item),
+            args.auth,
+        ],
+    });
+}
+
+export function withdrawItem(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        authType: string;
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        auth: TransactionArgument;
+        typeId: U64Arg;
+        quantity: U32Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::withdraw_item`,
+        typeArguments: [args.authType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            args.auth,
+            pure.u64(tx, args.typeId),
+            pure.u32(tx, args.quantity),
+        ],
+    });
+}
+
+export function depositToOpenInventory(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        authType: string;
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        item: ObjectArg;
+        auth: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::deposit_to_open_inventory`,
+        typeArguments: [args.authType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            tx.object(args.item),
+            args.auth,
+        ],
+    });
+}
+
+export function withdrawFromOpenInventory(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        authType: string;
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        auth: TransactionArgument;
+        typeId: U64Arg;
+        quantity: U32Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::withdraw_from_open_inventory`,
+        typeArguments: [args.authType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            args.auth,
+            pure.u64(tx, args.typeId),
+            pure.u32(tx, args.quantity),
+        ],
+    });
+}
+
+export function depositToOwned(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        authType: string;
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        item: ObjectArg;
+        auth: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::deposit_to_owned`,
+        typeArguments: [args.authType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            tx.object(args.item),
+            args.auth,
+        ],
+    });
+}
+
+export function depositByOwner(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectType: string;
+        storageUnit: ObjectArg;
+        item: ObjectArg;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::deposit_by_owner`,
+        typeArguments: [args.objectType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.item),
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function withdrawByOwner(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectType: string;
+        storageUnit: ObjectArg;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+        typeId: U64Arg;
+        quantity: U32Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::withdraw_by_owner`,
+        typeArguments: [args.objectType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.typeId),
+            pure.u32(tx, args.quantity),
+        ],
+    });
+}
+
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg; name: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::update_metadata_name`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.name),
+        ],
+    });
+}
+
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg; description: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::update_metadata_description`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.description),
+        ],
+    });
+}
+
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCap: ObjectArg; url: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::update_metadata_url`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.url),
+        ],
+    });
+}
+
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        registry: ObjectArg;
+        adminAcl: ObjectArg;
+        solarsystem: U64Arg;
+        x: StringArg;
+        y: StringArg;
+        z: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::reveal_location`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.registry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.solarsystem),
+            pure.string(tx, args.x),
+            pure.string(tx, args.y),
+            pure.string(tx, args.z),
+        ],
+    });
+}
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::id`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::status`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+export function location(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::location`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+export function inventory(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; ownerCapId: IdArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::inventory`,
+        arguments: [tx.object(args.storageUnit), pure.id(tx, args.ownerCapId)],
+    });
+}
+
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::owner_cap_id`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+export function energySourceId(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::energy_source_id`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+export function isExtensionFrozen(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::is_extension_frozen`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+export function openStorageKey(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::open_storage_key`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+export function hasOpenStorage(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::has_open_storage`,
+        arguments: [tx.object(args.storageUnit)],
+    });
+}
+
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        registry: ObjectArg;
+        networkNode: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        itemId: U64Arg;
+        typeId: U64Arg;
+        maxCapacity: U64Arg;
+        locationHash: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::anchor`,
+        arguments: [
+            tx.object(args.registry),
+            tx.object(args.networkNode),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.itemId),
+            pure.u64(tx, args.typeId),
+            pure.u64(tx, args.maxCapacity),
+            pure.bytes(tx, args.locationHash),
+        ],
+    });
+}
+
+export function shareStorageUnit(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::share_storage_unit`,
+        arguments: [tx.object(args.storageUnit), tx.object(args.adminAcl)],
+    });
+}
+
+export function updateEnergySource(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::update_energy_source`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.networkNode),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function updateEnergySourceConnectedStorageUnit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        updateEnergySources: TransactionArgument;
+        networkNode: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::update_energy_source_connected_storage_unit`,
+        arguments: [
+            tx.object(args.storageUnit),
+            args.updateEnergySources,
+            tx.object(args.networkNode),
+        ],
+    });
+}
+
+export function offlineConnectedStorageUnit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        offlineAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::offline_connected_storage_unit`,
+        arguments: [
+            tx.object(args.storageUnit),
+            args.offlineAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+export function offlineOrphanedStorageUnit(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        orphanedAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::offline_orphaned_storage_unit`,
+        arguments: [
+            tx.object(args.storageUnit),
+            args.orphanedAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        storageUnit: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::unanchor`,
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function unanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { storageUnit: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::unanchor_orphan`,
+        arguments: [tx.object(args.storageUnit), tx.object(args.adminAcl)],
+    });
+}
+
+export function gameItemToChainInventory(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        objectType: string;
+        storageUnit: ObjectArg;
+        adminAcl: ObjectArg;
+        character: ObjectArg;
+        ownerCap: ObjectArg;
+        itemId: U64Arg;
+        typeId: U64Arg;
+        volume: U64Arg;
+        quantity: U32Arg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.STORAGE_UNIT}::game_item_to_chain_inventory`,
+        typeArguments: [args.objectType],
+        arguments: [
+            tx.object(args.storageUnit),
+            tx.object(args.adminAcl),
+            tx.object(args.character),
+            tx.object(args.ownerCap),
+            pure.u64(tx, args.itemId),
+            pure.u64(tx, args.typeId),
+            pure.u64(tx, args.volume),
+            pure.u32(tx, args.quantity),
+        ],
+    });
+}
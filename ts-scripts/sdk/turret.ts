@@ -0,0 +1,680 @@
+/**
+ * Typed PTB builders for `world::turret`.
+ *
+ * `get_target_priority_list` consumes the `OnlineReceipt` returned by `verifyOnline`; candidate
+ * lists are BCS bytes (see `serializeCandidateList` in turret/helper.ts).
+ */
+import type { Transaction, TransactionArgument, TransactionResult } from "@mysten/sui/transactions";
+import { MODULES } from "../utils/config";
+import type { BytesArg, ObjectArg, StringArg, U64Arg } from "./args";
+import * as pure from "./pure";
+
+export function authorizeExtension(
+    tx: Transaction,
+    packageId: string,
+    args: { authType: string; turret: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::authorize_extension`,
+        typeArguments: [args.authType],
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap)],
+    });
+}
+
+export function freezeExtensionConfig(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::freeze_extension_config`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap)],
+    });
+}
+
+export function revokeExtensionAuthorization(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::revoke_extension_authorization`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap)],
+    });
+}
+
+export function online(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::online`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function offline(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        ownerCap: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::offline`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.ownerCap),
+        ],
+    });
+}
+
+export function updateEnergySourceConnectedTurret(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; updateEnergySources: TransactionArgument; networkNode: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::update_energy_source_connected_turret`,
+        arguments: [tx.object(args.turret), args.updateEnergySources, tx.object(args.networkNode)],
+    });
+}
+
+export function offlineConnectedTurret(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        offlineAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::offline_connected_turret`,
+        arguments: [
+            tx.object(args.turret),
+            args.offlineAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+export function offlineOrphanedTurret(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        orphanedAssemblies: TransactionArgument;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::offline_orphaned_turret`,
+        arguments: [
+            tx.object(args.turret),
+            args.orphanedAssemblies,
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+        ],
+    });
+}
+
+export function verifyOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::verify_online`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function getTargetPriorityList(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        ownerCharacter: ObjectArg;
+        targetCandidateList: BytesArg;
+        receipt: TransactionArgument;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::get_target_priority_list`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.ownerCharacter),
+            pure.bytes(tx, args.targetCandidateList),
+            args.receipt,
+        ],
+    });
+}
+
+export function destroyOnlineReceipt(
+    tx: Transaction,
+    packageId: string,
+    args: { authType: string; receipt: TransactionArgument; auth: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::destroy_online_receipt`,
+        typeArguments: [args.authType],
+        arguments: [args.receipt, args.auth],
+    });
+}
+
+export function unpackCandidateList(
+    tx: Transaction,
+    packageId: string,
+    args: { candidateListBytes: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::unpack_candidate_list`,
+        arguments: [pure.bytes(tx, args.candidateListBytes)],
+    });
+}
+
+export function unpackPriorityList(
+    tx: Transaction,
+    packageId: string,
+    args: { candidateListBytes: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::unpack_priority_list`,
+        arguments: [pure.bytes(tx, args.candidateListBytes)],
+    });
+}
+
+export function unpackReturnPriorityList(
+    tx: Transaction,
+    packageId: string,
+    args: { returnBytes: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::unpack_return_priority_list`,
+        arguments: [pure.bytes(tx, args.returnBytes)],
+    });
+}
+
+export function peelTargetCandidate(
+    tx: Transaction,
+    packageId: string,
+    args: { candidateBytes: BytesArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::peel_target_candidate`,
+        arguments: [pure.bytes(tx, args.candidateBytes)],
+    });
+}
+
+export function updateMetadataName(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg; name: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::update_metadata_name`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap), pure.string(tx, args.name)],
+    });
+}
+
+export function updateMetadataDescription(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg; description: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::update_metadata_description`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.ownerCap),
+            pure.string(tx, args.description),
+        ],
+    });
+}
+
+export function updateMetadataUrl(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; ownerCap: ObjectArg; url: StringArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::update_metadata_url`,
+        arguments: [tx.object(args.turret), tx.object(args.ownerCap), pure.string(tx, args.url)],
+    });
+}
+
+export function revealLocation(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        registry: ObjectArg;
+        adminAcl: ObjectArg;
+        solarsystem: U64Arg;
+        x: StringArg;
+        y: StringArg;
+        z: StringArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::reveal_location`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.registry),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.solarsystem),
+            pure.string(tx, args.x),
+            pure.string(tx, args.y),
+            pure.string(tx, args.z),
+        ],
+    });
+}
+
+export function id(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::id`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function key(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::key`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function status(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::status`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function location(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::location`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function isOnline(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::is_online`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function ownerCapId(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::owner_cap_id`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function energySourceId(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::energy_source_id`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function extension(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::extension`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function extensionType(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::extension_type`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function isExtensionConfigured(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::is_extension_configured`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function isExtensionFrozen(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::is_extension_frozen`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function typeId(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::type_id`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function metadata(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::metadata`,
+        arguments: [tx.object(args.turret)],
+    });
+}
+
+export function isAggressor(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::is_aggressor`,
+        arguments: [args.candidate],
+    });
+}
+
+export function itemId(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::item_id`,
+        arguments: [args.candidate],
+    });
+}
+
+export function targetTypeId(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::target_type_id`,
+        arguments: [args.candidate],
+    });
+}
+
+export function groupId(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::group_id`,
+        arguments: [args.candidate],
+    });
+}
+
+export function characterId(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::character_id`,
+        arguments: [args.candidate],
+    });
+}
+
+export function characterTribe(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::character_tribe`,
+        arguments: [args.candidate],
+    });
+}
+
+export function hpRatio(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::hp_ratio`,
+        arguments: [args.candidate],
+    });
+}
+
+export function shieldRatio(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::shield_ratio`,
+        arguments: [args.candidate],
+    });
+}
+
+export function armorRatio(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::armor_ratio`,
+        arguments: [args.candidate],
+    });
+}
+
+export function priorityWeight(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::priority_weight`,
+        arguments: [args.candidate],
+    });
+}
+
+export function behaviourChange(
+    tx: Transaction,
+    packageId: string,
+    args: { candidate: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::behaviour_change`,
+        arguments: [args.candidate],
+    });
+}
+
+export function returnTargetItemId(
+    tx: Transaction,
+    packageId: string,
+    args: { entry: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::return_target_item_id`,
+        arguments: [args.entry],
+    });
+}
+
+export function returnPriorityWeight(
+    tx: Transaction,
+    packageId: string,
+    args: { entry: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::return_priority_weight`,
+        arguments: [args.entry],
+    });
+}
+
+export function newReturnTargetPriorityList(
+    tx: Transaction,
+    packageId: string,
+    args: { targetItemId: U64Arg; priorityWeight: U64Arg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::new_return_target_priority_list`,
+        arguments: [pure.u64(tx, args.targetItemId), pure.u64(tx, args.priorityWeight)],
+    });
+}
+
+export function turretId(
+    tx: Transaction,
+    packageId: string,
+    args: { receipt: TransactionArgument }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::turret_id`,
+        arguments: [args.receipt],
+    });
+}
+
+export function anchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        registry: ObjectArg;
+        networkNode: ObjectArg;
+        character: ObjectArg;
+        adminAcl: ObjectArg;
+        itemId: U64Arg;
+        typeId: U64Arg;
+        locationHash: BytesArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::anchor`,
+        arguments: [
+            tx.object(args.registry),
+            tx.object(args.networkNode),
+            tx.object(args.character),
+            tx.object(args.adminAcl),
+            pure.u64(tx, args.itemId),
+            pure.u64(tx, args.typeId),
+            pure.bytes(tx, args.locationHash),
+        ],
+    });
+}
+
+export function shareTurret(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::share_turret`,
+        arguments: [tx.object(args.turret), tx.object(args.adminAcl)],
+    });
+}
+
+export function updateEnergySource(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; networkNode: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::update_energy_source`,
+        arguments: [tx.object(args.turret), tx.object(args.networkNode), tx.object(args.adminAcl)],
+    });
+}
+
+export function unanchor(
+    tx: Transaction,
+    packageId: string,
+    args: {
+        turret: ObjectArg;
+        networkNode: ObjectArg;
+        energyConfig: ObjectArg;
+        adminAcl: ObjectArg;
+    }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::unanchor`,
+        arguments: [
+            tx.object(args.turret),
+            tx.object(args.networkNode),
+            tx.object(args.energyConfig),
+            tx.object(args.adminAcl),
+        ],
+    });
+}
+
+export function unanchorOrphan(
+    tx: Transaction,
+    packageId: string,
+    args: { turret: ObjectArg; adminAcl: ObjectArg }
+): TransactionResult {
+    return tx.moveCall({
+        target: `${packageId}::${MODULES.TURRET}::unanchor_orphan`,
+        arguments: [tx.object(args.turret), tx.object(args.adminAcl)],
+    });
+}
@@ -0,0 +1,226 @@
+import * as fs from "node:fs";
+import { parse } from "yaml";
+
+export type SeedCharacter = { itemId: bigint; tribeId: number; name: string; owner: string };
+
+export type SeedNetworkNode = {
+    itemId: bigint;
+    typeId: bigint;
+    character: bigint;
+    locationHash: string;
+    fuelMaxCapacity: bigint;
+    fuelBurnRateInMs: bigint;
+    maxEnergyProduction: bigint;
+    online: boolean;
+};
+
+export type SeedStructureKind = "storage-unit" | "gate" | "turret";
+
+export type SeedStructure = {
+    kind: SeedStructureKind;
+    itemId: bigint;
+    typeId: bigint;
+    networkNode: bigint;
+    /** Defaults to the network node's character. */
+    character: bigint;
+    locationHash: string;
+    /** Storage units only. */
+    maxCapacity?: bigint;
+    online: boolean;
+};
+
+export type SeedLink = { from: bigint; to: bigint };
+
+export type SeedFuelDeposit = {
+    /** Distinguishes otherwise identical deposits to the same node; part of the step key. */
+    id?: string;
+    networkNode: bigint;
+    typeId: bigint;
+    volume: bigint;
+    quantity: bigint;
+};
+
+export type SeedItem = {
+    storageUnit: bigint;
+    itemId: bigint;
+    typeId: bigint;
+    volume: bigint;
+    quantity: number;
+};
+
+export type SeedManifest = {
+    tenant?: string;
+    /** Signer name to an env var holding a signer reference, or a reference such as `keystore:`. */
+    signers: Record<string, string>;
+    characters: SeedCharacter[];
+    networkNodes: SeedNetworkNode[];
+    structures: SeedStructure[];
+    links: SeedLink[];
+    fuel: SeedFuelDeposit[];
+    items: SeedItem[];
+};
+
+// Defaults of the single-entity scripts (create-nwn, create-storage-unit).
+const DEFAULT_FUEL_MAX_CAPACITY = 10000n;
+const DEFAULT_FUEL_BURN_RATE_IN_MS = BigInt(3600 * 1000);
+const DEFAULT_MAX_ENERGY_PRODUCTION = 100n;
+const DEFAULT_STORAGE_MAX_CAPACITY = 1000000000000n;
+
+type RawEntry = Record<string, unknown>;
+
+function requireId(entry: RawEntry, field: string, where: string): bigint {
+    const value = entry[field];
+    if (typeof value === "bigint" && value >= 0n) return value;
+    if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+    throw new Error(`Seed manifest: ${where}.${field} must be a non-negative integer`);
+}
+
+function optionalId(entry: RawEntry, field: string, where: string, fallback: bigint): bigint {
+    return entry[field] === undefined ? fallback : requireId(entry, field, where);
+}
+
+function locationHashOf(entry: RawEntry, fallback: unknown, where: string): string {
+    const value = entry.locationHash ?? fallback;
+    if (typeof value !== "string" || !/^(0x)?[0-9a-fA-F]{64}$/.test(value)) {
+        throw new Error(`Seed manifest: ${where}.locationHash must be a 32-byte hex string`);
+    }
+    return value;
+}
+
+function listOf(raw: RawEntry, field: string): RawEntry[] {
+    const value = raw[field];
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) throw new Error(`Seed manifest: ${field} must be a list`);
+    return value as RawEntry[];
+}
+
+/**
+ * Reads a JSON or YAML manifest. Entries reference each other by in-game item ID; every reference
+ * must point at an entry of the right kind in the same manifest.
+ */
+export function loadSeedManifest(filePath: string): SeedManifest {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Seed manifest not found at ${filePath}`);
+    }
+    const raw = parse(fs.readFileSync(filePath, "utf-8"), { intAsBigInt: true }) as RawEntry | null;
+    if (!raw || typeof raw !== "object") throw new Error("Seed manifest: expected a mapping");
+
+    const signers = (raw.signers ?? {}) as Record<string, unknown>;
+    for (const [name, value] of Object.entries(signers)) {
+        if (typeof value !== "string" || value === "") {
+            throw new Error(`Seed manifest: signers.${name} must name an env var or signer`);
+        }
+    }
+
+    const characters = listOf(raw, "characters").map((entry, i): SeedCharacter => {
+        const where = `characters[${i}]`;
+        const owner = entry.owner;
+        if (typeof owner !== "string" || !(owner in signers)) {
+            throw new Error(`Seed manifest: ${where}.owner must be one of signers`);
+        }
+        return {
+            itemId: requireId(entry, "itemId", where),
+            tribeId: Number(requireId(entry, "tribeId", where)),
+            name: typeof entry.name === "string" ? entry.name : `character-${entry.itemId}`,
+            owner,
+        };
+    });
+
+    const networkNodes = listOf(raw, "networkNodes").map((entry, i): SeedNetworkNode => {
+        const where = `networkNodes[${i}]`;
+        return {
+            itemId: requireId(entry, "itemId", where),
+            typeId: requireId(entry, "typeId", where),
+            character: requireId(entry, "character", where),
+            locationHash: locationHashOf(entry, raw.locationHash, where),
+            fuelMaxCapacity: optionalId(entry, "fuelMaxCapacity", where, DEFAULT_FUEL_MAX_CAPACITY),
+            fuelBurnRateInMs: optionalId(
+                entry,
+                "fuelBurnRateInMs",
+                where,
+                DEFAULT_FUEL_BURN_RATE_IN_MS
+            ),
+            maxEnergyProduction: optionalId(
+                entry,
+                "maxEnergyProduction",
+                where,
+                DEFAULT_MAX_ENERGY_PRODUCTION
+            ),
+            online: entry.online === true,
+        };
+    });
+    const nodeCharacter = new Map(networkNodes.map((node) => [node.itemId, node.character]));
+
+    const structureLists: [SeedStructureKind, string][] = [
+        ["storage-unit", "storageUnits"],
+        ["gate", "gates"],
+        ["turret", "turrets"],
+    ];
+    const structures = structureLists.flatMap(([kind, field]) =>
+        listOf(raw, field).map((entry, i): SeedStructure => {
+            const where = `${field}[${i}]`;
+            const networkNode = requireId(entry, "networkNode", where);
+            const character =
+                entry.character === undefined
+                    ? nodeCharacter.get(networkNode)
+                    : requireId(entry, "character", where);
+            if (character === undefined) {
+                throw new Error(`Seed manifest: ${where}.networkNode ${networkNode} is not listed`);
+            }
+            return {
+                kind,
+                itemId: requireId(entry, "itemId", where),
+                typeId: requireId(entry, "typeId", where),
+                networkNode,
+                character,
+                locationHash: locationHashOf(entry, raw.locationHash, where),
+                maxCapacity:
+                    kind === "storage-unit"
+                        ? optionalId(entry, "maxCapacity", where, DEFAULT_STORAGE_MAX_CAPACITY)
+                        : undefined,
+                online: entry.online === true,
+            };
+        })
+    );
+
+    const links = listOf(raw, "links").map(
+        (entry, i): SeedLink => ({
+            from: requireId(entry, "from", `links[${i}]`),
+            to: requireId(entry, "to", `links[${i}]`),
+        })
+    );
+    const fuel = listOf(raw, "fuel").map((entry, i): SeedFuelDeposit => {
+        const where = `fuel[${i}]`;
+        if (entry.id !== undefined && (typeof entry.id !== "string" || entry.id === "")) {
+            throw new Error(`Seed manifest: ${where}.id must be a non-empty string`);
+        }
+        return {
+            id: entry.id as string | undefined,
+            networkNode: requireId(entry, "networkNode", where),
+            typeId: requireId(entry, "typeId", where),
+            volume: requireId(entry, "volume", where),
+            quantity: requireId(entry, "quantity", where),
+        };
+    });
+    const items = listOf(raw, "items").map((entry, i): SeedItem => {
+        const where = `items[${i}]`;
+        return {
+            storageUnit: requireId(entry, "storageUnit", where),
+            itemId: requireId(entry, "itemId", where),
+            typeId: requireId(entry, "typeId", where),
+            volume: requireId(entry, "volume", where),
+            quantity: Number(requireId(entry, "quantity", where)),
+        };
+    });
+
+    return {
+        tenant: typeof raw.tenant === "string" ? raw.tenant : undefined,
+        signers: signers as Record<string, string>,
+        characters,
+        networkNodes,
+        structures,
+        links,
+        fuel,
+        items,
+    };
+}
@@ -0,0 +1,194 @@
+import type {
+    SeedCharacter,
+    SeedFuelDeposit,
+    SeedItem,
+    SeedLink,
+    SeedManifest,
+    SeedNetworkNode,
+    SeedStructure,
+} from "./manifest";
+
+export type SeedAction =
+    | { type: "character"; character: SeedCharacter }
+    | { type: "network-node"; node: SeedNetworkNode }
+    | { type: "structure"; structure: SeedStructure }
+    | { type: "fuel"; deposit: SeedFuelDeposit }
+    | { type: "network-node-online"; node: SeedNetworkNode }
+    | { type: "structure-online"; structure: SeedStructure }
+    | { type: "link"; link: SeedLink }
+    | { type: "item"; item: SeedItem };
+
+export type SeedStep = {
+    /** Stable across runs, e.g. `gate:90185` or `online:gate:90185`; used to resume. */
+    key: string;
+    /** Character the step acts for; its owner signs the player side of the transaction. */
+    character: bigint;
+    dependsOn: string[];
+    action: SeedAction;
+};
+
+/**
+ * Turns a manifest into steps in dependency order: characters, then network nodes, their fuel and
+ * `online`, then the structures anchored to them, their `online`, gate links and items. Steps keep
+ * manifest order wherever the dependencies allow it.
+ */
+export function planSeed(manifest: SeedManifest): SeedStep[] {
+    const steps: SeedStep[] = [];
+    const objectKinds = new Map<bigint, string>();
+    const declare = (kind: string, itemId: bigint) => {
+        const existing = objectKinds.get(itemId);
+        if (existing) {
+            throw new Error(`Seed manifest: item ID ${itemId} is both a ${existing} and a ${kind}`);
+        }
+        objectKinds.set(itemId, kind);
+        return `${kind}:${itemId}`;
+    };
+    const requireKind = (kind: string, itemId: bigint, where: string) => {
+        if (objectKinds.get(itemId) !== kind) {
+            throw new Error(`Seed manifest: ${where} references ${itemId}, which is not a ${kind}`);
+        }
+        return `${kind}:${itemId}`;
+    };
+
+    for (const character of manifest.characters) {
+        steps.push({
+            key: declare("character", character.itemId),
+            character: character.itemId,
+            dependsOn: [],
+            action: { type: "character", character },
+        });
+    }
+
+    const nodes = new Map(manifest.networkNodes.map((node) => [node.itemId, node]));
+    for (const node of manifest.networkNodes) {
+        const characterKey = requireKind(
+            "character",
+            node.character,
+            `network node ${node.itemId}`
+        );
+        const key = declare("network-node", node.itemId);
+        steps.push({
+            key,
+            character: node.character,
+            dependsOn: [characterKey],
+            action: { type: "network-node", node },
+        });
+    }
+
+    // Fuel steps are keyed by content (or an explicit id) rather than list position, so reordering
+    // or inserting deposits in the manifest does not re-run or skip the ones already recorded.
+    const fuelKeys = new Set<string>();
+    manifest.fuel.forEach((deposit, index) => {
+        const nodeKey = requireKind("network-node", deposit.networkNode, `fuel[${index}]`);
+        const key =
+            deposit.id === undefined
+                ? `fuel:${deposit.networkNode}:${deposit.typeId}:${deposit.quantity}`
+                : `fuel:${deposit.networkNode}:${deposit.id}`;
+        if (fuelKeys.has(key)) {
+            throw new Error(
+                `Seed manifest: fuel[${index}] repeats ${key}; give each deposit an id`
+            );
+        }
+        fuelKeys.add(key);
+        steps.push({
+            key,
+            character: nodes.get(deposit.networkNode)!.character,
+            dependsOn: [nodeKey],
+            action: { type: "fuel", deposit },
+        });
+    });
+
+    for (const node of manifest.networkNodes) {
+        if (!node.online) continue;
+        const fuelKeys = steps
+            .filter((step) => step.action.type === "fuel")
+            .filter((step) => step.key.startsWith(`fuel:${node.itemId}:`))
+            .map((step) => step.key);
+        steps.push({
+            key: `online:network-node:${node.itemId}`,
+            character: node.character,
+            dependsOn: [`network-node:${node.itemId}`, ...fuelKeys],
+            action: { type: "network-node-online", node },
+        });
+    }
+
+    for (const structure of manifest.structures) {
+        const where = `${structure.kind} ${structure.itemId}`;
+        const dependsOn = [
+            requireKind("network-node", structure.networkNode, where),
+            requireKind("character", structure.character, where),
+        ];
+        const key = declare(structure.kind, structure.itemId);
+        steps.push({
+            key,
+            character: structure.character,
+            dependsOn,
+            action: { type: "structure", structure },
+        });
+        if (!structure.online) continue;
+        if (!nodes.get(structure.networkNode)!.online) {
+            throw new Error(
+                `Seed manifest: ${where} is online but network node ${structure.networkNode} is not`
+            );
+        }
+        steps.push({
+            key: `online:${key}`,
+            character: structure.character,
+            dependsOn: [key, `online:network-node:${structure.networkNode}`],
+            action: { type: "structure-online", structure },
+        });
+    }
+
+    const structureOf = (itemId: bigint) =>
+        manifest.structures.find((structure) => structure.itemId === itemId)!;
+    const readyKey = (structure: SeedStructure) =>
+        structure.online
+            ? `online:${structure.kind}:${structure.itemId}`
+            : `${structure.kind}:${structure.itemId}`;
+
+    for (const link of manifest.links) {
+        const where = `link ${link.from} -> ${link.to}`;
+        requireKind("gate", link.from, where);
+        requireKind("gate", link.to, where);
+        const [from, to] = [structureOf(link.from), structureOf(link.to)];
+        if (from.character !== to.character) {
+            throw new Error(`Seed manifest: ${where} joins gates of different characters`);
+        }
+        steps.push({
+            key: `link:${link.from}:${link.to}`,
+            character: from.character,
+            dependsOn: [readyKey(from), readyKey(to)],
+            action: { type: "link", link },
+        });
+    }
+
+    for (const item of manifest.items) {
+        requireKind("storage-unit", item.storageUnit, `item ${item.itemId}`);
+        const storageUnit = structureOf(item.storageUnit);
+        steps.push({
+            key: `item:${item.storageUnit}:${item.itemId}`,
+            character: storageUnit.character,
+            dependsOn: [readyKey(storageUnit)],
+            action: { type: "item", item },
+        });
+    }
+
+    return orderSteps(steps);
+}
+
+/** Kahn's algorithm, picking the earliest ready step each time so manifest order is kept. */
+function orderSteps(steps: SeedStep[]): SeedStep[] {
+    const done = new Set<string>();
+    const pending = [...steps];
+    const ordered: SeedStep[] = [];
+    while (pending.length > 0) {
+        const index = pending.findIndex((step) => step.dependsOn.every((key) => done.has(key)));
+        if (index < 0) {
+            throw new Error(`Seed manifest: circular dependency at ${pending[0].key}`);
+        }
+        const [step] = pending.splice(index, 1);
+        done.add(step.key);
+        ordered.push(step);
+    }
+    return ordered;
+}
@@ -0,0 +1,289 @@
+/**
+ * Executes a seed plan step by step. Each step is skipped when its effect is already on chain:
+ * objects by their derived ID, `online` by the assembly status and links by `linked_gate_id`. Fuel
+ * deposits and items have no such marker, so the ID map records them once they ran.
+ *
+ * `object_registry::object_exists` takes a `TenantItemId`, which only the world package can
+ * construct, so existence is checked by reading the derived object ID it would claim instead.
+ */
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { createCharacter } from "../character/helper";
+import { anchorGate, linkGates, onlineGate } from "../gate/helper";
+import { anchorNetworkNode, depositFuel, onlineNetworkNode } from "../network-node/helper";
+import { anchorStorageUnit, gameItemToChain, onlineStorageUnit } from "../storage-unit/helper";
+import { anchorTurret, onlineTurret } from "../turret/helper";
+import type { HydratedWorldConfig, Network } from "../utils/config";
+import { deriveObjectId } from "../utils/derive-object-id";
+import {
+    initializeContext,
+    InitializedContext,
+    requireEnv,
+    shareHydratedConfig,
+} from "../utils/helper";
+import { asOptionalString, enumVariant, fieldsOf, moveObjectFields } from "../utils/move-content";
+import { generateLocationProof } from "../utils/proof";
+import { waitForSuccess } from "../utils/transaction";
+import type { SeedManifest, SeedStructure } from "./manifest";
+import type { SeedAction, SeedStep } from "./plan";
+
+export type SeedIdMap = {
+    network: string;
+    tenant: string;
+    packageId: string;
+    /** Step key (`gate:90185`) to object ID, for every object the manifest describes. */
+    objects: Record<string, string>;
+    /** Fuel and item steps that already ran; they are not repeated on the next run. */
+    completed: string[];
+};
+
+export type SeedStepResult = {
+    key: string;
+    status: "executed" | "skipped";
+    objectId?: string;
+    digest?: string;
+};
+
+export type Seeder = {
+    network: Network;
+    admin: InitializedContext;
+    manifest: SeedManifest;
+    tenant: string;
+    /** Owner contexts by signer name, created on first use. */
+    owners: Map<string, InitializedContext>;
+};
+
+export function defaultSeedIdMapPath(network: string): string {
+    return path.resolve(process.cwd(), "deployments", network, "seed-ids.json");
+}
+
+export function loadSeedIdMap(filePath: string, seeder: Seeder): SeedIdMap {
+    const empty: SeedIdMap = {
+        network: seeder.network,
+        tenant: seeder.tenant,
+        packageId: seeder.admin.config.packageId,
+        objects: {},
+        completed: [],
+    };
+    if (!fs.existsSync(filePath)) return empty;
+    const existing = JSON.parse(fs.readFileSync(filePath, "utf-8")) as SeedIdMap;
+    // A map from another deployment would wrongly mark fuel and items as done.
+    if (existing.packageId !== empty.packageId || existing.tenant !== empty.tenant) return empty;
+    return { ...empty, completed: existing.completed ?? [] };
+}
+
+export function writeSeedIdMap(filePath: string, idMap: SeedIdMap) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(idMap, null, 2) + "\n");
+}
+
+export function objectIdFor(seeder: Seeder, itemId: bigint): string {
+    const config = seeder.admin.config as HydratedWorldConfig;
+    return deriveObjectId(config.objectRegistry, itemId, config.packageId, seeder.tenant);
+}
+
+async function objectExists(client: SuiJsonRpcClient, objectId: string): Promise<boolean> {
+    const response = await client.getObject({ id: objectId });
+    if (response.data) return true;
+    if (response.error?.code === "deleted") {
+        throw new Error(`${objectId} was deleted; its item ID cannot be anchored again`);
+    }
+    return false;
+}
+
+async function readFields(client: SuiJsonRpcClient, objectId: string) {
+    const response = await client.getObject({ id: objectId, options: { showContent: true } });
+    return moveObjectFields(response, objectId).fields;
+}
+
+async function isOnline(client: SuiJsonRpcClient, objectId: string): Promise<boolean> {
+    const fields = await readFields(client, objectId);
+    return enumVariant(fieldsOf(fields.status).status) === "ONLINE";
+}
+
+function ownerContext(seeder: Seeder, characterItemId: bigint): InitializedContext {
+    const character = seeder.manifest.characters.find((c) => c.itemId === characterItemId)!;
+    let ctx = seeder.owners.get(character.owner);
+    if (!ctx) {
+        // An upper-case name is an env var holding the signer; anything else is a reference.
+        const signer = seeder.manifest.signers[character.owner];
+        const reference = /^[A-Z_][A-Z0-9_]*$/.test(signer) ? requireEnv(signer) : signer;
+        ctx = initializeContext(seeder.network, reference);
+        shareHydratedConfig(seeder.admin, ctx);
+        seeder.owners.set(character.owner, ctx);
+    }
+    return ctx;
+}
+
+async function anchorStructure(seeder: Seeder, structure: SeedStructure) {
+    const characterId = objectIdFor(seeder, structure.character);
+    const networkNodeId = objectIdFor(seeder, structure.networkNode);
+    const { itemId, typeId, locationHash } = structure;
+    if (structure.kind === "storage-unit") {
+        const unit = { itemId, typeId, locationHash, maxCapacity: structure.maxCapacity! };
+        return anchorStorageUnit(seeder.admin, characterId, networkNodeId, unit);
+    }
+    const anchor = structure.kind === "gate" ? anchorGate : anchorTurret;
+    return anchor(seeder.admin, characterId, networkNodeId, { itemId, typeId, locationHash });
+}
+
+async function onlineStructure(seeder: Seeder, structure: SeedStructure) {
+    const ctx = ownerContext(seeder, structure.character);
+    const characterId = objectIdFor(seeder, structure.character);
+    const networkNodeId = objectIdFor(seeder, structure.networkNode);
+    const structureId = objectIdFor(seeder, structure.itemId);
+    const online = {
+        "storage-unit": onlineStorageUnit,
+        gate: onlineGate,
+        turret: onlineTurret,
+    }[structure.kind];
+    return (await online(ctx, characterId, networkNodeId, structureId)).digest;
+}
+
+/** Runs one step unless its effect is already on chain; returns the digest when it ran. */
+async function executeStep(
+    seeder: Seeder,
+    step: SeedStep,
+    idMap: SeedIdMap
+): Promise<string | null> {
+    const { client } = seeder.admin;
+    const { action } = step;
+    switch (action.type) {
+        case "character": {
+            const { character } = action;
+            if (await objectExists(client, objectIdFor(seeder, character.itemId))) return null;
+            const { result } = await createCharacter(seeder.admin, {
+                tenant: seeder.tenant,
+                characterAddress: ownerContext(seeder, character.itemId).address,
+                gameCharacterId: Number(character.itemId),
+                tribeId: character.tribeId,
+                name: character.name,
+            });
+            return result.digest;
+        }
+        case "network-node": {
+            const { node } = action;
+            if (await objectExists(client, objectIdFor(seeder, node.itemId))) return null;
+            const result = await anchorNetworkNode(
+                seeder.admin,
+                objectIdFor(seeder, node.character),
+                {
+                    itemId: node.itemId,
+                    typeId: node.typeId,
+                    locationHash: node.locationHash,
+                    fuelMaxCapacity: node.fuelMaxCapacity,
+                    fuelBurnRateInMs: node.fuelBurnRateInMs,
+                    maxEnergyProduction: node.maxEnergyProduction,
+                }
+            );
+            return result.digest;
+        }
+        case "structure":
+            if (await objectExists(client, objectIdFor(seeder, action.structure.itemId))) {
+                return null;
+            }
+            return (await anchorStructure(seeder, action.structure)).digest;
+        case "network-node-online": {
+            const nodeId = objectIdFor(seeder, action.node.itemId);
+            if (await isOnline(client, nodeId)) return null;
+            const ctx = ownerContext(seeder, action.node.character);
+            const characterId = objectIdFor(seeder, action.node.character);
+            return (await onlineNetworkNode(ctx, characterId, nodeId)).digest;
+        }
+        case "structure-online":
+            if (await isOnline(client, objectIdFor(seeder, action.structure.itemId))) return null;
+            return onlineStructure(seeder, action.structure);
+        case "link": {
+            const fromId = objectIdFor(seeder, action.link.from);
+            const toId = objectIdFor(seeder, action.link.to);
+            const linked = asOptionalString((await readFields(client, fromId)).linked_gate_id);
+            if (linked === toId) return null;
+            if (linked) throw new Error(`Gate ${action.link.from} is already linked to ${linked}`);
+            const ctx = ownerContext(seeder, step.character);
+            const characterId = objectIdFor(seeder, step.character);
+            const from = seeder.manifest.structures.find((s) => s.itemId === action.link.from)!;
+            const proofHex = await generateLocationProof(
+                seeder.admin.keypair,
+                ctx.address,
+                characterId,
+                fromId,
+                from.locationHash
+            );
+            const result = await linkGates(
+                ctx,
+                seeder.admin.keypair,
+                characterId,
+                fromId,
+                toId,
+                proofHex
+            );
+            return result.digest;
+        }
+        case "fuel": {
+            if (idMap.completed.includes(step.key)) return null;
+            const { deposit } = action;
+            const result = await depositFuel(
+                ownerContext(seeder, step.character),
+                seeder.admin.keypair,
+                objectIdFor(seeder, step.character),
+                objectIdFor(seeder, deposit.networkNode),
+                { typeId: deposit.typeId, volume: deposit.volume, quantity: deposit.quantity }
+            );
+            return result.digest;
+        }
+        case "item": {
+            if (idMap.completed.includes(step.key)) return null;
+            const { item } = action;
+            const result = await gameItemToChain(
+                ownerContext(seeder, step.character),
+                seeder.admin.keypair,
+                objectIdFor(seeder, step.character),
+                objectIdFor(seeder, item.storageUnit),
+                item
+            );
+            return result.digest;
+        }
+    }
+}
+
+/** In-game item ID of the object a step creates, if it creates one. */
+function objectItemId(action: SeedAction): bigint | undefined {
+    if (action.type === "character") return action.character.itemId;
+    if (action.type === "network-node") return action.node.itemId;
+    if (action.type === "structure") return action.structure.itemId;
+    return undefined;
+}
+
+/**
+ * Runs the plan in order, writing the ID map after every step so an interrupted run resumes where
+ * it stopped. `onStep` reports each step as it finishes.
+ */
+export async function runSeed(
+    seeder: Seeder,
+    steps: SeedStep[],
+    idMapPath: string,
+    onStep: (result: SeedStepResult) => void = () => {}
+): Promise<SeedIdMap> {
+    const idMap = loadSeedIdMap(idMapPath, seeder);
+    for (const step of steps) {
+        const digest = await executeStep(seeder, step, idMap);
+        if (digest) await waitForSuccess(seeder.admin.client, digest);
+
+        const { action } = step;
+        const itemId = objectItemId(action);
+        const objectId = itemId === undefined ? undefined : objectIdFor(seeder, itemId);
+        if (objectId) idMap.objects[step.key] = objectId;
+        if (digest && (action.type === "fuel" || action.type === "item")) {
+            idMap.completed.push(step.key);
+        }
+        writeSeedIdMap(idMapPath, idMap);
+        onStep({
+            key: step.key,
+            status: digest ? "executed" : "skipped",
+            objectId,
+            digest: digest ?? undefined,
+        });
+    }
+    return idMap;
+}
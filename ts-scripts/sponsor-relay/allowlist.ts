@@ -0,0 +1,110 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { SuiMoveNormalizedModules, SuiMoveNormalizedType } from "@mysten/sui/jsonRpc";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+/** Commands a player may put in a sponsored transaction besides allowlisted move calls. */
+const ALLOWED_COMMANDS = new Set([
+    "MoveCall",
+    "TransferObjects",
+    "SplitCoins",
+    "MergeCoins",
+    "MakeMoveVec",
+]);
+
+function takesAdminAcl(type: SuiMoveNormalizedType): boolean {
+    if (typeof type !== "object") return false;
+    if ("Reference" in type) return takesAdminAcl(type.Reference);
+    if ("MutableReference" in type) return takesAdminAcl(type.MutableReference);
+    return "Struct" in type && type.Struct.module === "access" && type.Struct.name === "AdminACL";
+}
+
+/**
+ * `module::function` of every world function taking `&AdminACL`, read from the normalized world
+ * modules the bindings generator keeps in `tools/codegen/abi/world.json`. The relay's own key is an
+ * AdminACL sponsor, so co-signing one of these passes its `verify_sponsor` check.
+ */
+function loadAdminFunctions(): Set<string> {
+    const dir =
+        typeof __dirname !== "undefined" ? __dirname : path.dirname(fileURLToPath(import.meta.url));
+    const abiPath = path.resolve(dir, "../..", "tools/codegen/abi/world.json");
+    const modules = JSON.parse(fs.readFileSync(abiPath, "utf8")) as SuiMoveNormalizedModules;
+    const names = new Set<string>();
+    for (const [moduleName, mod] of Object.entries(modules)) {
+        for (const [name, fn] of Object.entries(mod.exposedFunctions)) {
+            if (fn.parameters.some(takesAdminAcl)) names.add(`${moduleName}::${name}`);
+        }
+    }
+    return names;
+}
+
+let adminFunctions: Set<string> | undefined;
+
+/**
+ * Normalizes allowlist entries to `0x<package>::<module>::<function>`. The package may be written
+ * as `world` (the world package ID); module and function may be `*`.
+ */
+export function resolveAllowlist(entries: string[], worldPackageId: string): string[] {
+    return entries.map((entry) => {
+        const parts = entry.split("::");
+        if (parts.length !== 3 || parts.some((part) => part === "")) {
+            throw new Error(`Allowlist entry "${entry}" must be <package>::<module>::<function>`);
+        }
+        const [pkg, module, fn] = parts;
+        const packageId = normalizeSuiAddress(pkg === "world" ? worldPackageId : pkg);
+        return `${packageId}::${module}::${fn}`;
+    });
+}
+
+/**
+ * A function taking `&AdminACL` (an admin entrypoint such as `game_item_to_chain_inventory`, or a
+ * sponsor-gated one such as `gate::jump_with_permit`) is only allowed by an entry naming it; a
+ * wildcard never matches it, whatever the package.
+ */
+function isAllowed(allowlist: string[], packageId: string, module: string, fn: string): boolean {
+    adminFunctions ??= loadAdminFunctions();
+    const wildcardAllowed = !adminFunctions.has(`${module}::${fn}`);
+    return allowlist.some((entry) => {
+        const [pkg, allowedModule, allowedFn] = entry.split("::");
+        if (pkg !== packageId) return false;
+        if (allowedModule === module && allowedFn === fn) return true;
+        return (
+            wildcardAllowed &&
+            (allowedModule === "*" || allowedModule === module) &&
+            (allowedFn === "*" || allowedFn === fn)
+        );
+    });
+}
+
+/**
+ * Lists every reason the transaction kind may not be sponsored: a move call outside the
+ * allowlist (or an `&AdminACL` function only a wildcard covers), a command other than the basic
+ * coin/vector ones (e.g. Publish), or any use of the gas coin, which belongs to the sponsor.
+ */
+export function checkTransactionKind(kindBytes: Uint8Array, allowlist: string[]): string[] {
+    const { commands } = Transaction.fromKind(kindBytes).getData();
+    const violations: string[] = [];
+    commands.forEach((command, index) => {
+        const kind = command.$kind;
+        if (!ALLOWED_COMMANDS.has(kind)) {
+            violations.push(`command ${index}: ${kind} is not allowed`);
+            return;
+        }
+        if (JSON.stringify(command).includes('"$kind":"GasCoin"')) {
+            violations.push(`command ${index}: uses the sponsor's gas coin`);
+        }
+        if (command.MoveCall) {
+            const { package: pkg, module, function: fn } = command.MoveCall;
+            if (!isAllowed(allowlist, normalizeSuiAddress(pkg), module, fn)) {
+                const reason = adminFunctions?.has(`${module}::${fn}`)
+                    ? "takes &AdminACL and is not allowlisted by name"
+                    : "is not allowlisted";
+                violations.push(`command ${index}: ${pkg}::${module}::${fn} ${reason}`);
+            }
+        }
+    });
+    if (commands.length === 0) violations.push("transaction has no commands");
+    return violations;
+}
@@ -0,0 +1,50 @@
+import * as fs from "node:fs";
+
+export type SponsorRelayConfig = {
+    port: number;
+    /** Interface to bind (default 127.0.0.1). */
+    host: string;
+    /** `<package>::<module>::<function>`; `world` stands for the world package, `*` is a wildcard. */
+    allowedTargets: string[];
+    /** Upper bound on the gas budget the relay will pay for one transaction, in MIST. */
+    maxGasBudget: number;
+    /** How long a sponsored transaction (and its gas coin) waits for the player's signature. */
+    reservationSeconds: number;
+    /** Env var holding a bearer token callers must send; omit to accept any local caller. */
+    tokenEnv?: string;
+};
+
+function requirePositiveInteger(value: unknown, field: string): number {
+    if (typeof value !== "number" || !Number.isSafeInteger(value) || value <= 0) {
+        throw new Error(`Sponsor relay config: ${field} must be a positive integer`);
+    }
+    return value;
+}
+
+export function loadSponsorRelayConfig(filePath: string): SponsorRelayConfig {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Sponsor relay config not found at ${filePath}`);
+    }
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Partial<SponsorRelayConfig>;
+    if (
+        !Array.isArray(raw.allowedTargets) ||
+        raw.allowedTargets.length === 0 ||
+        raw.allowedTargets.some((target) => typeof target !== "string")
+    ) {
+        throw new Error("Sponsor relay config: allowedTargets must list at least one target");
+    }
+    return {
+        port: raw.port === undefined ? 8788 : requirePositiveInteger(raw.port, "port"),
+        host: raw.host ?? "127.0.0.1",
+        allowedTargets: raw.allowedTargets,
+        maxGasBudget:
+            raw.maxGasBudget === undefined
+                ? 100_000_000
+                : requirePositiveInteger(raw.maxGasBudget, "maxGasBudget"),
+        reservationSeconds:
+            raw.reservationSeconds === undefined
+                ? 60
+                : requirePositiveInteger(raw.reservationSeconds, "reservationSeconds"),
+        tokenEnv: raw.tokenEnv,
+    };
+}
@@ -0,0 +1,215 @@
+/**
+ * Sponsor relay in two steps, the way a game client works with a remote sponsor:
+ * 1. `sponsorTransaction`: the player sends its transaction kind; the relay checks it against the
+ *    allowlist, attaches one of the sponsor's coins as gas and returns the full transaction bytes.
+ * 2. `executeSponsored`: the player sends its signature over those bytes; the relay co-signs and
+ *    executes, then returns the gas coin to the pool.
+ * Gas coins come from a gas pool, so a coin is held by at most one pending transaction.
+ */
+import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Signer } from "@mysten/sui/cryptography";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, normalizeSuiAddress, toBase64 } from "@mysten/sui/utils";
+import {
+    createGasPool,
+    GasCoin,
+    GasPool,
+    releaseGasCoin,
+    tryLeaseGasCoin,
+} from "../utils/gas-pool";
+import { decodeAbort } from "../utils/move-abort";
+import { checkTransactionKind } from "./allowlist";
+
+type PendingSponsorship = {
+    bytes: Uint8Array;
+    gasCoin: GasCoin;
+    expiresAtMs: number;
+};
+
+export type SponsorRelay = {
+    client: SuiJsonRpcClient;
+    sponsorKeypair: Signer;
+    allowlist: string[];
+    maxGasBudget: bigint;
+    reservationMs: number;
+    /** Sponsor coins able to cover `maxGasBudget`. */
+    gasPool: GasPool;
+    /** Sponsored transactions waiting for the player's signature, by digest. */
+    pending: Map<string, PendingSponsorship>;
+};
+
+export type RelayResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+export type SponsorResponse = {
+    digest: string;
+    /** Base64 transaction bytes the player must sign. */
+    bytes: string;
+    expiresAtMs: number;
+};
+
+export type ExecuteResponse = {
+    digest: string;
+    status: "success" | "failure";
+    error?: string;
+    /** Module, constant and message of a Move abort, when the error could be decoded. */
+    decodedError?: {
+        package?: string;
+        module: string;
+        function: string;
+        line?: number;
+        constant?: string;
+        message?: string;
+    };
+    effects: unknown;
+    events: unknown;
+};
+
+export function createSponsorRelay(
+    client: SuiJsonRpcClient,
+    sponsorKeypair: Signer,
+    allowlist: string[],
+    maxGasBudget: bigint,
+    reservationMs: number
+): SponsorRelay {
+    return {
+        client,
+        sponsorKeypair,
+        allowlist,
+        maxGasBudget,
+        reservationMs,
+        gasPool: createGasPool(client, sponsorKeypair, maxGasBudget),
+        pending: new Map(),
+    };
+}
+
+async function releaseExpired(relay: SponsorRelay, nowMs: number) {
+    for (const [digest, pending] of relay.pending) {
+        if (pending.expiresAtMs > nowMs) continue;
+        relay.pending.delete(digest);
+        // Never executed, so the coin is unchanged; release re-reads it to be sure.
+        await releaseGasCoin(relay.gasPool, pending.gasCoin);
+    }
+}
+
+export async function sponsorTransaction(
+    relay: SponsorRelay,
+    body: unknown
+): Promise<RelayResult<SponsorResponse>> {
+    const { sender, transactionKind } = (body ?? {}) as Record<string, unknown>;
+    if (typeof sender !== "string" || typeof transactionKind !== "string") {
+        return { ok: false, status: 400, error: "sender and transactionKind are required" };
+    }
+    let kindBytes: Uint8Array;
+    try {
+        kindBytes = fromBase64(transactionKind);
+        const violations = checkTransactionKind(kindBytes, relay.allowlist);
+        if (violations.length > 0) {
+            return { ok: false, status: 403, error: violations.join("; ") };
+        }
+    } catch (error) {
+        return {
+            ok: false,
+            status: 400,
+            error: `Invalid transactionKind: ${(error as Error).message}`,
+        };
+    }
+
+    await releaseExpired(relay, Date.now());
+    // The relay answers 503 rather than queueing, so callers decide how to back off.
+    const gasCoin = await tryLeaseGasCoin(relay.gasPool);
+    if (!gasCoin) {
+        return { ok: false, status: 503, error: "No free sponsor gas coin, retry shortly" };
+    }
+
+    const tx = Transaction.fromKind(kindBytes);
+    tx.setSender(normalizeSuiAddress(sender));
+    tx.setGasOwner(relay.sponsorKeypair.getPublicKey().toSuiAddress());
+    tx.setGasPayment([
+        { objectId: gasCoin.objectId, version: gasCoin.version, digest: gasCoin.digest },
+    ]);
+    let bytes: Uint8Array;
+    try {
+        // Without an explicit budget the build dry-runs the transaction to estimate one.
+        bytes = await tx.build({ client: relay.client });
+    } catch (error) {
+        await releaseGasCoin(relay.gasPool, gasCoin);
+        return { ok: false, status: 422, error: `Dry run failed: ${(error as Error).message}` };
+    }
+    const budget = BigInt(Transaction.from(bytes).getData().gasData.budget ?? 0);
+    if (budget > relay.maxGasBudget) {
+        await releaseGasCoin(relay.gasPool, gasCoin);
+        return {
+            ok: false,
+            status: 403,
+            error: `Gas budget ${budget} exceeds the relay limit ${relay.maxGasBudget}`,
+        };
+    }
+
+    const digest = await Transaction.from(bytes).getDigest();
+    const expiresAtMs = Date.now() + relay.reservationMs;
+    relay.pending.set(digest, {
+        bytes,
+        gasCoin,
+        expiresAtMs,
+    });
+    return { ok: true, value: { digest, bytes: toBase64(bytes), expiresAtMs } };
+}
+
+function decodedError(error: string): ExecuteResponse["decodedError"] {
+    const abort = decodeAbort(error);
+    if (!abort) return undefined;
+    return {
+        package: abort.packageName,
+        module: abort.moduleName,
+        function: abort.functionName,
+        line: abort.lineNumber,
+        constant: abort.constantName,
+        message: abort.errorMessage,
+    };
+}
+
+export async function executeSponsored(
+    relay: SponsorRelay,
+    body: unknown
+): Promise<RelayResult<ExecuteResponse>> {
+    const { digest, signature } = (body ?? {}) as Record<string, unknown>;
+    if (typeof digest !== "string" || typeof signature !== "string") {
+        return { ok: false, status: 400, error: "digest and signature are required" };
+    }
+    await releaseExpired(relay, Date.now());
+    const pending = relay.pending.get(digest);
+    if (!pending) {
+        return { ok: false, status: 404, error: `No pending sponsored transaction ${digest}` };
+    }
+
+    // The reservation ends here; the coin goes back to the pool with its post-execution version.
+    relay.pending.delete(digest);
+    let response;
+    try {
+        const sponsorSignature = await relay.sponsorKeypair.signTransaction(pending.bytes);
+        response = await relay.client.executeTransactionBlock({
+            transactionBlock: pending.bytes,
+            signature: [signature, sponsorSignature.signature],
+            options: { showEffects: true, showEvents: true },
+        });
+    } catch (error) {
+        // Not executed: the sponsor could not sign, or the transaction was rejected (e.g. a bad
+        // player signature). Either way the coin is unchanged and goes straight back to the pool.
+        await releaseGasCoin(relay.gasPool, pending.gasCoin);
+        return { ok: false, status: 400, error: (error as Error).message };
+    }
+    await releaseGasCoin(relay.gasPool, pending.gasCoin, response.effects);
+    const status = response.effects?.status;
+    const error = status?.status === "success" ? undefined : status?.error;
+    return {
+        ok: true,
+        value: {
+            digest: response.digest,
+            status: status?.status === "success" ? "success" : "failure",
+            error,
+            decodedError: error ? decodedError(error) : undefined,
+            effects: response.effects,
+            events: response.events,
+        },
+    };
+}
@@ -0,0 +1,70 @@
+import * as http from "node:http";
+import { hasBearerToken, logJson, readJsonBody, sendJson } from "../utils/http";
+import { executeSponsored, RelayResult, SponsorRelay, sponsorTransaction } from "./relay";
+
+async function handle<T extends { digest: string }>(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    event: string,
+    step: (body: unknown) => Promise<RelayResult<T>>
+) {
+    let body: unknown;
+    try {
+        body = await readJsonBody(request);
+    } catch (error) {
+        sendJson(response, 400, { error: (error as Error).message });
+        return;
+    }
+    const result = await step(body);
+    if (!result.ok) {
+        logJson(`${event}_rejected`, { status: result.status, error: result.error });
+        sendJson(response, result.status, { error: result.error });
+        return;
+    }
+    logJson(event, { digest: result.value.digest });
+    sendJson(response, 200, result.value);
+}
+
+/**
+ * Serves `POST /sponsor` (`{ sender, transactionKind }` → `{ digest, bytes, expiresAtMs }`),
+ * `POST /execute` (`{ digest, signature }` → effects and decoded errors), `GET /sponsor-address`
+ * and `GET /healthz` until the returned server is closed.
+ */
+export function serveSponsorRelay(
+    relay: SponsorRelay,
+    options: { host: string; port: number; token: string | null }
+): http.Server {
+    return http
+        .createServer((request, response) => {
+            if (request.method === "GET" && request.url === "/healthz") {
+                response.writeHead(200, { "Content-Type": "text/plain" });
+                response.end("ok\n");
+                return;
+            }
+            if (!hasBearerToken(request, options.token)) {
+                sendJson(response, 401, { error: "Missing or invalid bearer token" });
+                return;
+            }
+            let work: Promise<void> | null = null;
+            if (request.method === "GET" && request.url === "/sponsor-address") {
+                sendJson(response, 200, {
+                    sponsorAddress: relay.sponsorKeypair.getPublicKey().toSuiAddress(),
+                });
+            } else if (request.method === "POST" && request.url === "/sponsor") {
+                work = handle(request, response, "sponsored", (body) =>
+                    sponsorTransaction(relay, body)
+                );
+            } else if (request.method === "POST" && request.url === "/execute") {
+                work = handle(request, response, "executed", (body) =>
+                    executeSponsored(relay, body)
+                );
+            } else {
+                sendJson(response, 404, { error: "Not found" });
+            }
+            work?.catch((error) => {
+                logJson("relay_failed", { error: (error as Error).message });
+                sendJson(response, 500, { error: (error as Error).message });
+            });
+        })
+        .listen(options.port, options.host);
+}
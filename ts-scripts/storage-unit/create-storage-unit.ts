@@ -1,11 +1,11 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
-import { bcs } from "@mysten/sui/bcs";
-import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { getConfig, MODULES } from "../utils/config";
-import { hexToBytes } from "../utils/helper";
-import { hydrateWorldConfig, initializeContext, handleError, getEnvConfig } from "../utils/helper";
+import {
+    extractEvent,
+    hydrateWorldConfig,
+    initializeContext,
+    handleError,
+    getEnvConfig,
+} from "../utils/helper";
 import {
     LOCATION_HASH,
     GAME_CHARACTER_ID,
@@ -14,71 +14,16 @@ import {
     STORAGE_A_ITEM_ID,
 } from "../utils/constants";
 import { deriveObjectId } from "../utils/derive-object-id";
+import { anchorStorageUnit } from "./helper";
 
 const MAX_CAPACITY = 1000000000000n;
 
-async function createStorageUnit(
-    characterObjectId: string,
-    networkNodeObjectId: string,
-    typeId: bigint,
-    itemId: bigint,
-    adminAcl: string,
-    client: SuiJsonRpcClient,
-    keypair: Ed25519Keypair,
-    config: ReturnType<typeof getConfig>
-) {
-    const tx = new Transaction();
-
-    const [storageUnit] = tx.moveCall({
-        target: `${config.packageId}::${MODULES.STORAGE_UNIT}::anchor`,
-        arguments: [
-            tx.object(config.objectRegistry),
-            tx.object(networkNodeObjectId),
-            tx.object(characterObjectId),
-            tx.object(adminAcl),
-            tx.pure.u64(itemId),
-            tx.pure.u64(typeId),
-            tx.pure.u64(MAX_CAPACITY),
-            tx.pure(bcs.vector(bcs.u8()).serialize(hexToBytes(LOCATION_HASH))),
-        ],
-    });
-
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.STORAGE_UNIT}::share_storage_unit`,
-        arguments: [storageUnit, tx.object(adminAcl)],
-    });
-
-    const result = await client.signAndExecuteTransaction({
-        transaction: tx,
-        signer: keypair,
-        options: { showEvents: true },
-    });
-
-    console.log("Transaction digest:", result.digest);
-
-    const storageUnitEvent = result.events?.find((event) =>
-        event.type.endsWith("::storage_unit::StorageUnitCreatedEvent")
-    );
-
-    if (!storageUnitEvent?.parsedJson) {
-        throw new Error("StorageUnitCreatedEvent not found in transaction result");
-    }
-
-    const storageUnitId = (storageUnitEvent.parsedJson as { storage_unit_id: string })
-        .storage_unit_id;
-    console.log("Storage Unit Object Id: ", storageUnitId);
-
-    const ownerCapObjectId = (storageUnitEvent.parsedJson as { owner_cap_id: string }).owner_cap_id;
-    console.log("OwnerCap Object Id: ", ownerCapObjectId);
-}
-
 async function main() {
     try {
         const env = getEnvConfig();
         const ctx = initializeContext(env.network, env.adminExportedKey);
         await hydrateWorldConfig(ctx);
-        const { client, keypair, config } = ctx;
-        const adminAcl = config.adminAcl;
+        const { config } = ctx;
 
         const characterObject = deriveObjectId(
             config.objectRegistry,
@@ -91,16 +36,24 @@ async function main() {
             config.packageId
         );
 
-        await createStorageUnit(
-            characterObject,
-            networkNodeObject,
-            STORAGE_A_TYPE_ID,
-            STORAGE_A_ITEM_ID,
-            adminAcl,
-            client,
-            keypair,
-            config
+        const result = await anchorStorageUnit(ctx, characterObject, networkNodeObject, {
+            itemId: STORAGE_A_ITEM_ID,
+            typeId: STORAGE_A_TYPE_ID,
+            maxCapacity: MAX_CAPACITY,
+            locationHash: LOCATION_HASH,
+        });
+        console.log("Transaction digest:", result.digest);
+
+        const storageUnitEvent = extractEvent<{ storage_unit_id: string; owner_cap_id: string }>(
+            result,
+            "::storage_unit::StorageUnitCreatedEvent"
         );
+        if (!storageUnitEvent) {
+            throw new Error("StorageUnitCreatedEvent not found in transaction result");
+        }
+
+        console.log("Storage Unit Object Id: ", storageUnitEvent.storage_unit_id);
+        console.log("OwnerCap Object Id: ", storageUnitEvent.owner_cap_id);
     } catch (error) {
         handleError(error);
     }
@@ -1,8 +1,4 @@
 import "dotenv/config";
-import { Transaction } from "@mysten/sui/transactions";
-import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { getConfig, MODULES } from "../utils/config";
 import { deriveObjectId } from "../utils/derive-object-id";
 import {
     hydrateWorldConfig,
@@ -12,76 +8,13 @@ import {
     shareHydratedConfig,
     requireEnv,
 } from "../utils/helper";
-import { executeSponsoredTransaction } from "../utils/transaction";
 import {
     GAME_CHARACTER_ID,
     STORAGE_A_ITEM_ID,
     ITEM_A_TYPE_ID,
     ITEM_A_ITEM_ID,
 } from "../utils/constants";
-import { getOwnerCap } from "./helper";
-
-async function gameItemToChain(
-    storageUnit: string,
-    characterId: string,
-    ownerCapId: string,
-    playerAddress: string,
-    typeId: bigint,
-    itemId: bigint,
-    volume: bigint,
-    quantity: number,
-    adminAddress: string,
-    client: SuiJsonRpcClient,
-    playerKeypair: Ed25519Keypair,
-    adminKeypair: Ed25519Keypair,
-    config: ReturnType<typeof getConfig>
-) {
-    console.log("\n==== Move Items from from game to Chain ====");
-
-    const tx = new Transaction();
-    tx.setSender(playerAddress);
-    tx.setGasOwner(adminAddress);
-
-    const [ownerCap, receipt] = tx.moveCall({
-        target: `${config.packageId}::${MODULES.CHARACTER}::borrow_owner_cap`,
-        typeArguments: [`${config.packageId}::${MODULES.STORAGE_UNIT}::StorageUnit`],
-        arguments: [tx.object(characterId), tx.object(ownerCapId)],
-    });
-
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.STORAGE_UNIT}::game_item_to_chain_inventory`,
-        typeArguments: [`${config.packageId}::${MODULES.STORAGE_UNIT}::StorageUnit`],
-        arguments: [
-            tx.object(storageUnit),
-            tx.object(config.adminAcl),
-            tx.object(characterId),
-            ownerCap,
-            tx.pure.u64(itemId),
-            tx.pure.u64(typeId),
-            tx.pure.u64(volume),
-            tx.pure.u32(quantity),
-        ],
-    });
-
-    tx.moveCall({
-        target: `${config.packageId}::${MODULES.CHARACTER}::return_owner_cap`,
-        typeArguments: [`${config.packageId}::${MODULES.STORAGE_UNIT}::StorageUnit`],
-        arguments: [tx.object(characterId), ownerCap, receipt],
-    });
-
-    const result = await executeSponsoredTransaction(
-        tx,
-        client,
-        playerKeypair,
-        adminKeypair,
-        playerAddress,
-        adminAddress,
-        { showEvents: true }
-    );
-
-    console.log("Transaction digest:", result.digest);
-    console.log("Item Id:", itemId);
-}
+import { gameItemToChain } from "./helper";
 
 async function main() {
     try {
@@ -91,10 +24,7 @@ async function main() {
         const playerKey = requireEnv("PLAYER_A_PRIVATE_KEY");
         const playerCtx = initializeContext(env.network, playerKey);
         shareHydratedConfig(ctx, playerCtx);
-        const { client, keypair, config } = ctx;
-
-        const playerAddress = playerCtx.address;
-        const adminAddress = keypair.getPublicKey().toSuiAddress();
+        const { config } = ctx;
 
         const characterObject = deriveObjectId(
             config.objectRegistry,
@@ -108,26 +38,16 @@ async function main() {
             config.packageId
         );
 
-        const storageUnitOwnerCap = await getOwnerCap(storageUnit, client, config, playerAddress);
-        if (!storageUnitOwnerCap) {
-            throw new Error(`OwnerCap not found for ${storageUnit}`);
-        }
+        console.log("\n==== Move Items from from game to Chain ====");
+        const result = await gameItemToChain(playerCtx, ctx.keypair, characterObject, storageUnit, {
+            itemId: ITEM_A_ITEM_ID,
+            typeId: ITEM_A_TYPE_ID,
+            volume: 10n,
+            quantity: 10,
+        });
 
-        await gameItemToChain(
-            storageUnit,
-            characterObject,
-            storageUnitOwnerCap,
-            playerAddress,
-            ITEM_A_TYPE_ID,
-            ITEM_A_ITEM_ID,
-            10n,
-            10,
-            adminAddress,
-            client,
-            playerCtx.keypair,
-            keypair,
-            config
-        );
+        console.log("Transaction digest:", result.digest);
+        console.log("Item Id:", ITEM_A_ITEM_ID);
     } catch (error) {
         handleError(error);
     }
@@ -1,7 +1,13 @@
+import { Signer } from "@mysten/sui/cryptography";
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Transaction } from "@mysten/sui/transactions";
 import { getConfig, MODULES } from "../utils/config";
 import { bcs } from "@mysten/sui/bcs";
 import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { InitializedContext } from "../utils/helper";
+import { executeSponsoredTransaction } from "../utils/transaction";
+import { getCharacterOwnerCap } from "../character/helper";
+import * as world from "../sdk";
 
 export async function getOwnerCap(
     assemblyId: string,
@@ -26,3 +32,303 @@ export async function getOwnerCap(
         return null;
     }
 }
+
+/**
+ * Anchors a storage unit on the network node for the character and shares it (admin ACL). The
+ * unit's object ID is derived from its item ID.
+ */
+export async function anchorStorageUnit(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string,
+    unit: { itemId: bigint; typeId: bigint; maxCapacity: bigint; locationHash: string }
+) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    const [storageUnit] = world.storageUnit.anchor(tx, config.packageId, {
+        registry: config.objectRegistry,
+        networkNode: networkNodeId,
+        character: characterId,
+        adminAcl: config.adminAcl,
+        ...unit,
+    });
+    world.storageUnit.shareStorageUnit(tx, config.packageId, {
+        storageUnit,
+        adminAcl: config.adminAcl,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEvents: true, showEffects: true, showObjectChanges: true },
+    });
+}
+
+export async function onlineStorageUnit(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string,
+    storageUnitId: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const ownerCapId = await getOwnerCap(storageUnitId, client, config, address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for ${storageUnitId}`);
+    }
+
+    const tx = new Transaction();
+
+    const storageUnitType = world.worldType(config.packageId, MODULES.STORAGE_UNIT, "StorageUnit");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: storageUnitType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    world.storageUnit.online(tx, config.packageId, {
+        storageUnit: storageUnitId,
+        networkNode: networkNodeId,
+        energyConfig: config.energyConfig,
+        ownerCap,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: storageUnitType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showObjectChanges: true, showEffects: true },
+    });
+}
+
+/**
+ * Mints a game item into one of the storage unit's inventories, as if brought on chain from the
+ * game. `owner` is the storage unit's owner inventory (borrows the unit's OwnerCap); `ephemeral` is
+ * the character's own inventory in the unit (borrows the character's OwnerCap). Signed by the
+ * character's owner and sponsored by the admin keypair.
+ */
+export async function gameItemToChain(
+    ctx: InitializedContext,
+    adminKeypair: Signer,
+    characterId: string,
+    storageUnitId: string,
+    item: { itemId: bigint; typeId: bigint; volume: bigint; quantity: number },
+    inventory: "owner" | "ephemeral" = "owner"
+) {
+    const { client, keypair: playerKeypair, config, address: playerAddress } = ctx;
+    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
+
+    const ephemeral = inventory === "ephemeral";
+    const ownerCapId = ephemeral
+        ? await getCharacterOwnerCap(characterId, client, config, playerAddress)
+        : await getOwnerCap(storageUnitId, client, config, playerAddress);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for ${ephemeral ? characterId : storageUnitId}`);
+    }
+
+    const tx = new Transaction();
+    tx.setSender(playerAddress);
+    tx.setGasOwner(adminAddress);
+
+    const objectType = ephemeral
+        ? world.worldType(config.packageId, MODULES.CHARACTER, "Character")
+        : world.worldType(config.packageId, MODULES.STORAGE_UNIT, "StorageUnit");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    world.storageUnit.gameItemToChainInventory(tx, config.packageId, {
+        objectType,
+        storageUnit: storageUnitId,
+        adminAcl: config.adminAcl,
+        character: characterId,
+        ownerCap,
+        ...item,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await executeSponsoredTransaction(
+        tx,
+        client,
+        playerKeypair,
+        adminKeypair,
+        playerAddress,
+        adminAddress,
+        { showEvents: true }
+    );
+}
+
+/**
+ * Burns items from the storage unit's owner inventory so the game can credit them. `proofHex` is
+ * a location proof for the storage unit signed by a registered server address.
+ */
+export async function chainItemToGame(
+    ctx: InitializedContext,
+    characterId: string,
+    storageUnitId: string,
+    item: { typeId: bigint; quantity: number },
+    proofHex: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const ownerCapId = await getOwnerCap(storageUnitId, client, config, address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for ${storageUnitId}`);
+    }
+
+    const tx = new Transaction();
+    const storageUnitType = world.worldType(config.packageId, MODULES.STORAGE_UNIT, "StorageUnit");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: storageUnitType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    world.storageUnit.chainItemToGameInventory(tx, config.packageId, {
+        objectType: storageUnitType,
+        storageUnit: storageUnitId,
+        serverRegistry: config.serverAddressRegistry,
+        character: characterId,
+        ownerCap,
+        typeId: item.typeId,
+        quantity: item.quantity,
+        locationProof: proofHex,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: storageUnitType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEvents: true, showEffects: true },
+    });
+}
+
+/**
+ * Withdraws items from the storage unit's owner inventory and deposits them straight back in one
+ * transaction, sponsored by the admin keypair. Exercises `withdraw_by_owner` and
+ * `deposit_by_owner` without the item leaving the unit.
+ */
+export async function withdrawAndDeposit(
+    ctx: InitializedContext,
+    adminKeypair: Signer,
+    characterId: string,
+    storageUnitId: string,
+    item: { typeId: bigint; quantity: number }
+) {
+    const { client, keypair: playerKeypair, config, address: playerAddress } = ctx;
+    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
+
+    const ownerCapId = await getOwnerCap(storageUnitId, client, config, playerAddress);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for ${storageUnitId}`);
+    }
+
+    const tx = new Transaction();
+    tx.setSender(playerAddress);
+    tx.setGasOwner(adminAddress);
+
+    const storageUnitType = world.worldType(config.packageId, MODULES.STORAGE_UNIT, "StorageUnit");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: storageUnitType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    const [withdrawn] = world.storageUnit.withdrawByOwner(tx, config.packageId, {
+        objectType: storageUnitType,
+        storageUnit: storageUnitId,
+        character: characterId,
+        ownerCap,
+        typeId: item.typeId,
+        quantity: item.quantity,
+    });
+
+    world.storageUnit.depositByOwner(tx, config.packageId, {
+        objectType: storageUnitType,
+        storageUnit: storageUnitId,
+        item: withdrawn,
+        character: characterId,
+        ownerCap,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: storageUnitType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await executeSponsoredTransaction(
+        tx,
+        client,
+        playerKeypair,
+        adminKeypair,
+        playerAddress,
+        adminAddress,
+        { showEvents: true }
+    );
+}
+
+/**
+ * Authorizes `authType` (an extension's witness type) on a storage unit owned by the character.
+ */
+export async function authorizeStorageUnitExtension(
+    ctx: InitializedContext,
+    characterId: string,
+    storageUnitId: string,
+    authType: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const ownerCapId = await getOwnerCap(storageUnitId, client, config, address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for storage unit ${storageUnitId}`);
+    }
+
+    const tx = new Transaction();
+    const objectType = world.worldType(config.packageId, MODULES.STORAGE_UNIT, "StorageUnit");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    world.storageUnit.authorizeExtension(tx, config.packageId, {
+        authType,
+        storageUnit: storageUnitId,
+        ownerCap,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true, showEvents: true },
+    });
+}
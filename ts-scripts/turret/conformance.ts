@@ -0,0 +1,179 @@
+/**
+ * Conformance harness for the TypeScript port in `priority.ts`: each case runs through the port and
+ * through `getTurretPriorityListFromWorld` (devInspect), and the raw return lists must match.
+ * The turret must have no extension, since the world function aborts when one is configured.
+ */
+import { InitializedContext } from "../utils/helper";
+import {
+    getTurretPriorityListFromWorld,
+    ReturnTargetPriorityListArg,
+    TargetCandidateArg,
+} from "./helper";
+import { BehaviourChange, buildReturnPriorityList, TurretOwner } from "./priority";
+
+export type ConformanceCase = {
+    name: string;
+    candidates: TargetCandidateArg[];
+};
+
+type Outcome = { list: ReturnTargetPriorityListArg[] } | { error: string };
+
+export type ConformanceResult = {
+    name: string;
+    expected: Outcome;
+    actual: Outcome;
+    /** Same entries in the same order, or both calls failed. */
+    conforms: boolean;
+};
+
+function candidate(
+    itemId: bigint,
+    overrides: Partial<TargetCandidateArg> = {}
+): TargetCandidateArg {
+    return {
+        item_id: itemId,
+        type_id: 1n,
+        group_id: 0n,
+        character_id: 0,
+        character_tribe: 0,
+        hp_ratio: 100n,
+        shield_ratio: 100n,
+        armor_ratio: 100n,
+        is_aggressor: false,
+        priority_weight: 10n,
+        behaviour_change: BehaviourChange.UNSPECIFIED,
+        ...overrides,
+    };
+}
+
+/**
+ * Covers every behaviour_change against every owner relationship (owner, same tribe, other tribe,
+ * NPC with character_id 0, each with and without aggression), plus an empty list and the u64
+ * weight overflow abort.
+ */
+export function defaultConformanceCases(owner: TurretOwner): ConformanceCase[] {
+    const otherTribe = owner.tribe === 0 ? 1 : owner.tribe - 1;
+    const relationships: [string, Partial<TargetCandidateArg>][] = [
+        ["owner", { character_id: Number(owner.itemId), character_tribe: owner.tribe }],
+        ["same tribe", { character_id: 2, character_tribe: owner.tribe }],
+        ["other tribe", { character_id: 3, character_tribe: otherTribe }],
+        ["npc", { character_id: 0, character_tribe: otherTribe }],
+        ["npc in owner tribe", { character_id: 0, character_tribe: owner.tribe }],
+    ];
+
+    const cases = Object.entries(BehaviourChange).map(([name, behaviourChange]) => {
+        let itemId = 1000n;
+        const candidates = relationships.flatMap(([, fields]) =>
+            [false, true].map((isAggressor) =>
+                candidate(itemId++, {
+                    ...fields,
+                    is_aggressor: isAggressor,
+                    behaviour_change: behaviourChange,
+                })
+            )
+        );
+        return { name: `${name} x all relationships`, candidates };
+    });
+
+    cases.push(
+        { name: "empty candidate list", candidates: [] },
+        {
+            name: "mixed behaviour changes",
+            candidates: [
+                candidate(2001n, { character_id: 3, character_tribe: otherTribe }),
+                candidate(2002n, {
+                    character_id: 4,
+                    character_tribe: otherTribe,
+                    is_aggressor: true,
+                    behaviour_change: BehaviourChange.STARTED_ATTACK,
+                }),
+                candidate(2003n, {
+                    character_id: 5,
+                    character_tribe: otherTribe,
+                    behaviour_change: BehaviourChange.ENTERED,
+                }),
+                candidate(2004n, {
+                    character_id: 6,
+                    character_tribe: otherTribe,
+                    behaviour_change: BehaviourChange.STOPPED_ATTACK,
+                }),
+            ],
+        },
+        {
+            name: "weight overflow aborts",
+            candidates: [
+                candidate(3001n, {
+                    character_id: 3,
+                    character_tribe: otherTribe,
+                    priority_weight: 0xffffffffffffffffn,
+                    behaviour_change: BehaviourChange.STARTED_ATTACK,
+                }),
+            ],
+        }
+    );
+    return cases;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function sameOutcome(expected: Outcome, actual: Outcome): boolean {
+    if ("error" in expected || "error" in actual) return "error" in expected && "error" in actual;
+    return (
+        expected.list.length === actual.list.length &&
+        expected.list.every(
+            (entry, i) =>
+                entry.target_item_id === actual.list[i].target_item_id &&
+                entry.priority_weight === actual.list[i].priority_weight
+        )
+    );
+}
+
+export async function runConformance(
+    ctx: InitializedContext,
+    turretId: string,
+    characterId: string,
+    owner: TurretOwner,
+    cases: ConformanceCase[]
+): Promise<ConformanceResult[]> {
+    const results: ConformanceResult[] = [];
+    for (const { name, candidates } of cases) {
+        let expected: Outcome;
+        try {
+            expected = { list: buildReturnPriorityList(candidates, owner) };
+        } catch (error) {
+            expected = { error: errorMessage(error) };
+        }
+        let actual: Outcome;
+        try {
+            actual = {
+                list: await getTurretPriorityListFromWorld(turretId, characterId, candidates, ctx),
+            };
+        } catch (error) {
+            actual = { error: errorMessage(error) };
+        }
+        results.push({ name, expected, actual, conforms: sameOutcome(expected, actual) });
+    }
+    return results;
+}
+
+function describe(outcome: Outcome): string {
+    if ("error" in outcome) return `error: ${outcome.error}`;
+    return `[${outcome.list.map((e) => `${e.target_item_id}:${e.priority_weight}`).join(", ")}]`;
+}
+
+export function formatConformance(results: ConformanceResult[]): string {
+    const lines = results.map((result) => `${result.conforms ? "PASS" : "FAIL"}  ${result.name}`);
+    for (const result of results.filter((r) => !r.conforms)) {
+        lines.push(
+            "",
+            `${result.name}:`,
+            `  reference: ${describe(result.expected)}`,
+            `  world:     ${describe(result.actual)}`
+        );
+    }
+    const failed = results.filter((result) => !result.conforms).length;
+    lines.push("", `${results.length - failed}/${results.length} cases conform`);
+    return lines.join("\n");
+}
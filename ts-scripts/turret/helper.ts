@@ -1,7 +1,11 @@
 import { bcs } from "@mysten/sui/bcs";
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Transaction } from "@mysten/sui/transactions";
+import { TargetCandidate, ReturnTargetPriorityList } from "../bindings/world/turret";
 import { getConfig, MODULES } from "../utils/config";
 import { devInspectMoveCallFirstReturnValueBytes } from "../utils/dev-inspect";
+import { InitializedContext } from "../utils/helper";
+import * as world from "../sdk";
 
 export async function getOwnerCap(
     turretId: string,
@@ -25,3 +29,320 @@ export async function getOwnerCap(
         return null;
     }
 }
+
+/**
+ * Anchors a turret on the network node for the character and shares it (admin ACL). The
+ * turret's object ID is derived from its item ID.
+ */
+export async function anchorTurret(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string,
+    turret: { itemId: bigint; typeId: bigint; locationHash: string }
+) {
+    const { client, keypair, config } = ctx;
+    const tx = new Transaction();
+    const [anchored] = world.turret.anchor(tx, config.packageId, {
+        registry: config.objectRegistry,
+        networkNode: networkNodeId,
+        character: characterId,
+        adminAcl: config.adminAcl,
+        ...turret,
+    });
+    world.turret.shareTurret(tx, config.packageId, { turret: anchored, adminAcl: config.adminAcl });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEvents: true, showEffects: true, showObjectChanges: true },
+    });
+}
+
+export async function onlineTurret(
+    ctx: InitializedContext,
+    characterId: string,
+    networkNodeId: string,
+    turretId: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const ownerCapId = await getOwnerCap(turretId, client, config, address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for turret ${turretId}`);
+    }
+
+    const tx = new Transaction();
+    const turretType = world.worldType(config.packageId, MODULES.TURRET, "Turret");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType: turretType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    world.turret.online(tx, config.packageId, {
+        turret: turretId,
+        networkNode: networkNodeId,
+        energyConfig: config.energyConfig,
+        ownerCap,
+    });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType: turretType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true },
+    });
+}
+
+/**
+ * Authorizes `authType` (an extension's witness type) on a turret owned by the character.
+ */
+export async function authorizeTurretExtension(
+    ctx: InitializedContext,
+    characterId: string,
+    turretId: string,
+    authType: string
+) {
+    const { client, keypair, config, address } = ctx;
+
+    const ownerCapId = await getOwnerCap(turretId, client, config, address);
+    if (!ownerCapId) {
+        throw new Error(`OwnerCap not found for turret ${turretId}`);
+    }
+
+    const tx = new Transaction();
+    const objectType = world.worldType(config.packageId, MODULES.TURRET, "Turret");
+    const [ownerCap, receipt] = world.character.borrowOwnerCap(tx, config.packageId, {
+        objectType,
+        character: characterId,
+        ownerCapTicket: ownerCapId,
+    });
+
+    world.turret.authorizeExtension(tx, config.packageId, { authType, turret: turretId, ownerCap });
+
+    world.character.returnOwnerCap(tx, config.packageId, {
+        objectType,
+        character: characterId,
+        ownerCap,
+        receipt,
+    });
+
+    return await client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: keypair,
+        options: { showEffects: true, showObjectChanges: true, showEvents: true },
+    });
+}
+
+export type TurretExtensionInfo = {
+    hasExtension: boolean;
+    typeName?: string;
+    packageId?: string;
+    moduleName?: string;
+};
+
+export type TargetCandidateArg = {
+    item_id: bigint;
+    type_id: bigint;
+    group_id: bigint;
+    character_id: number;
+    character_tribe: number;
+    hp_ratio: bigint;
+    shield_ratio: bigint;
+    armor_ratio: bigint;
+    is_aggressor: boolean;
+    priority_weight: bigint;
+    behaviour_change: number;
+};
+
+export type ReturnTargetPriorityListArg = {
+    target_item_id: bigint;
+    priority_weight: bigint;
+};
+
+// behaviour_change is the index of the BehaviourChangeReason variant it encodes
+const BEHAVIOUR_CHANGE_REASONS = [
+    { UNSPECIFIED: true },
+    { ENTERED: true },
+    { STARTED_ATTACK: true },
+    { STOPPED_ATTACK: true },
+] as const;
+
+/**
+ * Resolve extension type name and package/module from world turret.
+ * Mandatory: always call is_extension_configured first; extension_type aborts if no extension is configured.
+ */
+export async function getTurretExtensionInfo(
+    client: SuiJsonRpcClient,
+    worldPackageId: string,
+    turretId: string
+): Promise<TurretExtensionInfo> {
+    const configuredBytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+        target: `${worldPackageId}::${MODULES.TURRET}::is_extension_configured`,
+        arguments: (tx) => [tx.object(turretId)],
+    });
+    if (!configuredBytes || configuredBytes.length === 0 || configuredBytes[0] !== 1) {
+        return { hasExtension: false };
+    }
+
+    const typeNameBytes = await devInspectMoveCallFirstReturnValueBytes(client, {
+        target: `${worldPackageId}::${MODULES.TURRET}::extension_type`,
+        arguments: (tx) => [tx.object(turretId)],
+    });
+    if (!typeNameBytes || typeNameBytes.length === 0) {
+        return { hasExtension: false };
+    }
+    const nameBytes = bcs.vector(bcs.u8()).parse(typeNameBytes);
+    const typeName = new TextDecoder().decode(new Uint8Array(nameBytes));
+    const firstColonColon = typeName.indexOf("::");
+    const addressPart = firstColonColon === -1 ? typeName : typeName.slice(0, firstColonColon);
+    const packageId = addressPart.startsWith("0x") ? addressPart : `0x${addressPart}`;
+    const moduleName = "turret";
+    return { hasExtension: true, typeName, packageId, moduleName };
+}
+
+/** Serialize target candidate list for move: get_target_priority_list(turret, character, target_candidate_list, receipt). */
+export function serializeCandidateList(candidates: TargetCandidateArg[]) {
+    const candidateListBytes = new Uint8Array(
+        bcs
+            .vector(TargetCandidate)
+            .serialize(
+                candidates.map((candidate) => ({
+                    ...candidate,
+                    behaviour_change: BEHAVIOUR_CHANGE_REASONS[candidate.behaviour_change],
+                }))
+            )
+            .toBytes()
+    );
+    return { candidateListBytes: Array.from(candidateListBytes) };
+}
+
+/** Parse return value bytes as vector<ReturnTargetPriorityList>. */
+export function parseReturnPriorityList(returnBytes: Uint8Array): ReturnTargetPriorityListArg[] {
+    if (returnBytes.length === 0) return [];
+    const inner = new Uint8Array(bcs.vector(bcs.u8()).parse(returnBytes));
+    if (inner.length === 0) return [];
+    const raw = bcs.vector(ReturnTargetPriorityList).parse(inner);
+    return raw.map((r: { target_item_id: bigint | string; priority_weight: bigint | string }) => ({
+        target_item_id:
+            typeof r.target_item_id === "bigint" ? r.target_item_id : BigInt(r.target_item_id),
+        priority_weight:
+            typeof r.priority_weight === "bigint" ? r.priority_weight : BigInt(r.priority_weight),
+    }));
+}
+
+function parseDevInspectReturn(returnValues: unknown): ReturnTargetPriorityListArg[] {
+    const arr = returnValues as [Uint8Array | number[], unknown][] | undefined;
+    if (!arr?.length) return [];
+    const raw = arr[0][0];
+    const returnBytes = raw instanceof Uint8Array ? raw : new Uint8Array(raw);
+    return parseReturnPriorityList(returnBytes);
+}
+
+/**
+ * Dev-inspects `get_target_priority_list` on the world turret module, or on the extension's
+ * module when `extension` is given (same signature, outside the world SDK).
+ */
+async function devInspectPriorityList(
+    ctx: InitializedContext,
+    turretId: string,
+    characterId: string,
+    candidates: TargetCandidateArg[],
+    extension?: { packageId: string; moduleName: string }
+): Promise<ReturnTargetPriorityListArg[]> {
+    const { client, keypair, config } = ctx;
+    const { candidateListBytes } = serializeCandidateList(candidates);
+
+    const tx = new Transaction();
+    const [receipt] = world.turret.verifyOnline(tx, config.packageId, { turret: turretId });
+    if (extension) {
+        tx.moveCall({
+            target: `${extension.packageId}::${extension.moduleName}::get_target_priority_list`,
+            arguments: [
+                tx.object(turretId),
+                tx.object(characterId),
+                tx.pure(bcs.vector(bcs.u8()).serialize(candidateListBytes).toBytes()),
+                receipt,
+            ],
+        });
+    } else {
+        world.turret.getTargetPriorityList(tx, config.packageId, {
+            turret: turretId,
+            ownerCharacter: characterId,
+            targetCandidateList: candidateListBytes,
+            receipt,
+        });
+    }
+
+    const result = await client.devInspectTransactionBlock({
+        sender: keypair.getPublicKey().toSuiAddress(),
+        transactionBlock: tx,
+    });
+
+    if (result.effects?.status?.status !== "success") {
+        const err = result.effects?.status?.error ?? result.effects?.status;
+        throw new Error(`DevInspect failed: ${JSON.stringify(err)}`);
+    }
+
+    return parseDevInspectReturn(result.results?.[1]?.returnValues);
+}
+
+/**
+ * Get turret priority list from world:
+ * get_target_priority_list(turret, character, target_candidate_list, receipt) -> vector<ReturnTargetPriorityList>.
+ */
+export async function getTurretPriorityListFromWorld(
+    turretId: string,
+    characterId: string,
+    candidates: TargetCandidateArg[],
+    ctx: InitializedContext
+): Promise<ReturnTargetPriorityListArg[]> {
+    return devInspectPriorityList(ctx, turretId, characterId, candidates);
+}
+
+/** Get turret priority list from the extension resolved by `getTurretExtensionInfo`. */
+export async function getTurretPriorityListFromExtension(
+    extensionInfo: TurretExtensionInfo,
+    turretId: string,
+    characterId: string,
+    candidates: TargetCandidateArg[],
+    ctx: InitializedContext
+): Promise<ReturnTargetPriorityListArg[]> {
+    if (!extensionInfo.hasExtension || !extensionInfo.packageId || !extensionInfo.moduleName) {
+        throw new Error(`Turret ${turretId} has no extension configured`);
+    }
+    return devInspectPriorityList(ctx, turretId, characterId, candidates, {
+        packageId: extensionInfo.packageId,
+        moduleName: extensionInfo.moduleName,
+    });
+}
+
+/**
+ * Get priority list: if turret has extension, call extension; otherwise world.
+ */
+export async function getTurretPriorityList(
+    turretId: string,
+    characterId: string,
+    candidates: TargetCandidateArg[],
+    ctx: InitializedContext
+): Promise<ReturnTargetPriorityListArg[]> {
+    const extensionInfo = await getTurretExtensionInfo(ctx.client, ctx.config.packageId, turretId);
+
+    if (extensionInfo.hasExtension) {
+        return getTurretPriorityListFromExtension(
+            extensionInfo,
+            turretId,
+            characterId,
+            candidates,
+            ctx
+        );
+    }
+
+    return getTurretPriorityListFromWorld(turretId, characterId, candidates, ctx);
+}
@@ -0,0 +1,90 @@
+/**
+ * TypeScript port of the default `world::turret::get_target_priority_list`, for iterating on
+ * targeting logic without a network. `turret conformance` checks it against the contract.
+ */
+import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { fieldsOf, moveObjectFields } from "../utils/move-content";
+import { ReturnTargetPriorityListArg, TargetCandidateArg } from "./helper";
+
+export const STARTED_ATTACK_WEIGHT_INCREMENT = 10000n;
+export const ENTERED_WEIGHT_INCREMENT = 1000n;
+
+export const BehaviourChange = {
+    UNSPECIFIED: 0,
+    ENTERED: 1,
+    STARTED_ATTACK: 2,
+    STOPPED_ATTACK: 3,
+} as const;
+
+const U32_MAX = 0xffffffffn;
+const U64_MAX = 0xffffffffffffffffn;
+
+/** The turret owner's `Character` fields the default logic reads. */
+export type TurretOwner = {
+    itemId: bigint;
+    tribe: number;
+};
+
+export async function getTurretOwner(
+    client: SuiJsonRpcClient,
+    characterId: string
+): Promise<TurretOwner> {
+    const response = await client.getObject({ id: characterId, options: { showContent: true } });
+    const { fields } = moveObjectFields(response, characterId);
+    return {
+        itemId: BigInt(fieldsOf(fields.key).item_id as string),
+        tribe: Number(fields.tribe_id),
+    };
+}
+
+/**
+ * Port of `effective_weight_and_excluded`:
+ * - the owner (non-zero `character_id` equal to the owner's item ID) is excluded
+ * - same tribe as the owner and not an aggressor is excluded
+ * - STOPPED_ATTACK is excluded
+ * - STARTED_ATTACK adds STARTED_ATTACK_WEIGHT_INCREMENT
+ * - ENTERED adds ENTERED_WEIGHT_INCREMENT unless same tribe and not an aggressor
+ *
+ * Throws where the Move code aborts: an owner item ID above u32 and u64 weight overflow.
+ */
+export function effectiveWeightAndExcluded(
+    candidate: TargetCandidateArg,
+    owner: TurretOwner
+): { weight: bigint; excluded: boolean } {
+    if (owner.itemId > U32_MAX) {
+        throw new Error(`Owner item ID ${owner.itemId} does not fit in u32 (arithmetic error)`);
+    }
+    const isOwner = candidate.character_id !== 0 && BigInt(candidate.character_id) === owner.itemId;
+    const sameTribe = candidate.character_tribe === owner.tribe;
+    let excluded = isOwner || (sameTribe && !candidate.is_aggressor);
+
+    let weight = candidate.priority_weight;
+    switch (candidate.behaviour_change) {
+        case BehaviourChange.STOPPED_ATTACK:
+            excluded = true;
+            break;
+        case BehaviourChange.STARTED_ATTACK:
+            weight += STARTED_ATTACK_WEIGHT_INCREMENT;
+            break;
+        case BehaviourChange.ENTERED:
+            if (!sameTribe || candidate.is_aggressor) weight += ENTERED_WEIGHT_INCREMENT;
+            break;
+    }
+    if (weight > U64_MAX) {
+        throw new Error(
+            `Priority weight overflow for item ${candidate.item_id} (arithmetic error)`
+        );
+    }
+    return { weight, excluded };
+}
+
+/** Port of `build_return_priority_list`: candidate order is kept and excluded entries dropped. */
+export function buildReturnPriorityList(
+    candidates: TargetCandidateArg[],
+    owner: TurretOwner
+): ReturnTargetPriorityListArg[] {
+    return candidates.flatMap((candidate) => {
+        const { weight, excluded } = effectiveWeightAndExcluded(candidate, owner);
+        return excluded ? [] : [{ target_item_id: candidate.item_id, priority_weight: weight }];
+    });
+}
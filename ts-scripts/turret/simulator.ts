@@ -0,0 +1,249 @@
+/**
+ * Replays turret targeting scenarios through `get_target_priority_list` (devInspect) so extension
+ * authors can compare their ordering with the world default, tick by tick.
+ *
+ * The world function aborts with `EExtensionConfigured` on a turret that has an extension, so the
+ * world column runs against a baseline turret without one (the same turret when it has none).
+ */
+import * as fs from "node:fs";
+import { parse } from "yaml";
+import { InitializedContext } from "../utils/helper";
+import {
+    getTurretExtensionInfo,
+    getTurretPriorityListFromExtension,
+    getTurretPriorityListFromWorld,
+    ReturnTargetPriorityListArg,
+    TargetCandidateArg,
+    TurretExtensionInfo,
+} from "./helper";
+import { BehaviourChange } from "./priority";
+
+export const BEHAVIOUR_CHANGES = Object.keys(BehaviourChange);
+
+export type ScenarioTick = {
+    name: string;
+    candidates: TargetCandidateArg[];
+};
+
+export type TurretScenario = {
+    /** Item ID or 0x object ID; `--turret` overrides it. */
+    turret?: string;
+    /** Turret owner's character; `--character` overrides it. */
+    character?: string;
+    /** Extension-free turret used for the world column when `turret` has an extension. */
+    baselineTurret?: string;
+    ticks: ScenarioTick[];
+};
+
+export type OrderingResult = { list: ReturnTargetPriorityListArg[] } | { error: string };
+
+export type TickResult = {
+    name: string;
+    candidates: number;
+    world: OrderingResult | null;
+    extension: OrderingResult | null;
+    /** Same target IDs and weights in the same order. */
+    identical: boolean | null;
+};
+
+type RawCandidate = Record<string, unknown>;
+
+function bigintField(raw: RawCandidate, field: string, where: string, fallback?: bigint): bigint {
+    const value = raw[field];
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== "number" && typeof value !== "string" && typeof value !== "bigint") {
+        throw new Error(`Scenario: ${where}.${field} is required`);
+    }
+    try {
+        return BigInt(value);
+    } catch {
+        throw new Error(`Scenario: ${where}.${field} must be an integer, got ${value}`);
+    }
+}
+
+function behaviourChange(raw: RawCandidate, where: string): number {
+    const value = raw.behaviour_change ?? 0;
+    const index =
+        typeof value === "string" ? BEHAVIOUR_CHANGES.indexOf(value.toUpperCase()) : Number(value);
+    if (!BEHAVIOUR_CHANGES[index]) {
+        throw new Error(
+            `Scenario: ${where}.behaviour_change must be 0-3 or one of ${BEHAVIOUR_CHANGES.join(", ")}`
+        );
+    }
+    return index;
+}
+
+function parseCandidate(raw: RawCandidate, where: string): TargetCandidateArg {
+    return {
+        item_id: bigintField(raw, "item_id", where),
+        type_id: bigintField(raw, "type_id", where, 0n),
+        group_id: bigintField(raw, "group_id", where, 0n),
+        character_id: Number(bigintField(raw, "character_id", where, 0n)),
+        character_tribe: Number(bigintField(raw, "character_tribe", where, 0n)),
+        hp_ratio: bigintField(raw, "hp_ratio", where, 100n),
+        shield_ratio: bigintField(raw, "shield_ratio", where, 100n),
+        armor_ratio: bigintField(raw, "armor_ratio", where, 100n),
+        is_aggressor: raw.is_aggressor === true,
+        priority_weight: bigintField(raw, "priority_weight", where, 0n),
+        behaviour_change: behaviourChange(raw, where),
+    };
+}
+
+/**
+ * Loads a JSON or YAML scenario. Candidate fields use the Move names (`item_id`, `hp_ratio`, ...);
+ * only `item_id` is required, and `behaviour_change` takes 0-3 or the variant name.
+ */
+export function loadScenario(filePath: string): TurretScenario {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Scenario not found at ${filePath}`);
+    }
+    // YAML is a superset of JSON, so one parser covers both.
+    const raw = parse(fs.readFileSync(filePath, "utf-8"), { intAsBigInt: true }) as {
+        turret?: unknown;
+        character?: unknown;
+        baselineTurret?: unknown;
+        ticks?: { name?: string; candidates?: RawCandidate[] }[];
+    } | null;
+    if (!raw || !Array.isArray(raw.ticks) || raw.ticks.length === 0) {
+        throw new Error("Scenario: ticks must list at least one tick");
+    }
+    const optionalId = (value: unknown) => (value === undefined ? undefined : String(value));
+    return {
+        turret: optionalId(raw.turret),
+        character: optionalId(raw.character),
+        baselineTurret: optionalId(raw.baselineTurret),
+        ticks: raw.ticks.map((tick, index) => {
+            if (!Array.isArray(tick.candidates)) {
+                throw new Error(`Scenario: ticks[${index}].candidates must be a list`);
+            }
+            return {
+                name: tick.name ?? `tick ${index + 1}`,
+                candidates: tick.candidates.map((candidate, i) =>
+                    parseCandidate(candidate, `ticks[${index}].candidates[${i}]`)
+                ),
+            };
+        }),
+    };
+}
+
+/** Highest weight first; ties keep the order the contract returned them in. */
+export function sortByPriority(list: ReturnTargetPriorityListArg[]) {
+    return list
+        .map((entry, index) => ({ entry, index }))
+        .sort((a, b) =>
+            a.entry.priority_weight === b.entry.priority_weight
+                ? a.index - b.index
+                : a.entry.priority_weight > b.entry.priority_weight
+                  ? -1
+                  : 1
+        )
+        .map(({ entry }) => entry);
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+async function runOrdering(call: () => Promise<ReturnTargetPriorityListArg[]>) {
+    try {
+        return { list: sortByPriority(await call()) };
+    } catch (error) {
+        return { error: errorMessage(error) };
+    }
+}
+
+function sameOrdering(a: OrderingResult | null, b: OrderingResult | null): boolean | null {
+    if (!a || !b || !("list" in a) || !("list" in b)) return null;
+    return (
+        a.list.length === b.list.length &&
+        a.list.every(
+            (entry, i) =>
+                entry.target_item_id === b.list[i].target_item_id &&
+                entry.priority_weight === b.list[i].priority_weight
+        )
+    );
+}
+
+/**
+ * Runs every tick through the world default (on `baselineTurretId`, or `turretId` when it has no
+ * extension) and through the turret's extension. A failing call is recorded per tick rather than
+ * stopping the run.
+ */
+export async function simulateScenario(
+    ctx: InitializedContext,
+    scenario: TurretScenario,
+    turretId: string,
+    characterId: string,
+    baselineTurretId?: string
+): Promise<{ extension: TurretExtensionInfo; ticks: TickResult[] }> {
+    const extension = await getTurretExtensionInfo(ctx.client, ctx.config.packageId, turretId);
+    const worldTurretId = extension.hasExtension ? baselineTurretId : turretId;
+
+    const ticks: TickResult[] = [];
+    for (const tick of scenario.ticks) {
+        const world = worldTurretId
+            ? await runOrdering(() =>
+                  getTurretPriorityListFromWorld(worldTurretId, characterId, tick.candidates, ctx)
+              )
+            : null;
+        const extensionResult = extension.hasExtension
+            ? await runOrdering(() =>
+                  getTurretPriorityListFromExtension(
+                      extension,
+                      turretId,
+                      characterId,
+                      tick.candidates,
+                      ctx
+                  )
+              )
+            : null;
+        ticks.push({
+            name: tick.name,
+            candidates: tick.candidates.length,
+            world,
+            extension: extensionResult,
+            identical: sameOrdering(world, extensionResult),
+        });
+    }
+    return { extension, ticks };
+}
+
+function cell(result: OrderingResult | null, rank: number): string {
+    if (!result) return rank === 0 ? "(not run)" : "";
+    if ("error" in result) return rank === 0 ? `error: ${result.error}` : "";
+    const entry = result.list[rank];
+    return entry ? `${entry.target_item_id} (w=${entry.priority_weight})` : "-";
+}
+
+/** Renders one rank-by-rank table per tick; `*` marks ranks where the two orderings differ. */
+export function formatDiffTable(ticks: TickResult[]): string {
+    const lines: string[] = [];
+    for (const tick of ticks) {
+        const verdict =
+            tick.identical === null ? "not compared" : tick.identical ? "identical" : "differs";
+        lines.push(`== ${tick.name} (${tick.candidates} candidates, ${verdict})`);
+
+        const length = (result: OrderingResult | null) =>
+            result && "list" in result ? result.list.length : 1;
+        const ranks = Math.max(length(tick.world), length(tick.extension), 1);
+        const rows = Array.from({ length: ranks }, (_, rank) => {
+            const world = cell(tick.world, rank);
+            const extension = cell(tick.extension, rank);
+            const marker = tick.identical === false && world !== extension ? "*" : " ";
+            return [`${marker} ${rank + 1}`, world, extension];
+        });
+        const header = ["  #", "world", "extension"];
+        const widths = header.map((title, column) =>
+            Math.max(title.length, ...rows.map((row) => row[column].length))
+        );
+        const render = (row: string[]) =>
+            row
+                .map((value, column) => value.padEnd(widths[column]))
+                .join(" | ")
+                .trimEnd();
+        lines.push(render(header), widths.map((width) => "-".repeat(width)).join("-+-"));
+        rows.forEach((row) => lines.push(render(row)));
+        lines.push("");
+    }
+    return lines.join("\n");
+}
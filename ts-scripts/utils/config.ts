@@ -6,17 +6,31 @@ export type WorldObjectIds = {
     energyConfig: string;
     fuelConfig: string;
     gateConfig: string;
+    killmailRegistry: string;
+    locationRegistry: string;
+};
+
+/** Objects the assets package's `init` gives the publisher, and the EVE currency it registers. */
+export type AssetsObjectIds = {
+    packageId: string;
+    eveTreasury: string;
+    adminCap: string;
+    metadataCap: string;
+    /** `Currency<EVE>`, held by the coin registry until `finalize_registration` shares it. */
+    currency: string;
+    upgradeCap: string;
 };
 
 /** Extracted object IDs written by extract-object-ids script (run once per deploy). */
 export type ExtractedObjectIds = {
     network: string;
-    world: WorldObjectIds & { packageId: string };
+    world: WorldObjectIds & { packageId: string; upgradeCap: string };
     builder?: {
         packageId: string;
         extensionConfigId: string;
         adminCapId?: string;
     };
+    assets?: AssetsObjectIds;
 };
 
 export type WorldConfig = {
@@ -51,21 +65,15 @@ export function getConfig(network: Network = "localnet"): WorldConfig {
         energyConfig: "",
         fuelConfig: "",
         gateConfig: "",
+        killmailRegistry: "",
+        locationRegistry: "",
     };
 }
 
-// Module names
-export const MODULES = {
-    WORLD: "world",
-    ACCESS: "access",
-    SIG_VERIFY: "sig_verify",
-    LOCATION: "location",
-    CHARACTER: "character",
-    NETWORK_NODE: "network_node",
-    ASSEMBLY: "assembly",
-    STORAGE_UNIT: "storage_unit",
-    GATE: "gate",
-    TURRET: "turret",
-    FUEL: "fuel",
-    ENERGY: "energy",
-} as const;
+/** Tenant used in derived object keys; read at call time so callers can override `TENANT`. */
+export function getTenant(): string {
+    return process.env.TENANT || "dev";
+}
+
+// Module names, generated from the world ABI by tools/codegen
+export { MODULES } from "../bindings/world/modules";
@@ -1,11 +1,12 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { fileURLToPath } from "node:url";
+import { getTenant } from "./config";
 
 // Sui System Objects
 export const CLOCK_OBJECT_ID = "0x6";
 
-export const TENANT = process.env.TENANT || "dev";
+export const TENANT = getTenant();
 
 // Load test resource defaults from JSON (builders can customize this file)
 type TestResources = {
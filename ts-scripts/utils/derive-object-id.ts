@@ -1,6 +1,6 @@
 import { bcs } from "@mysten/sui/bcs";
 import { deriveObjectID } from "@mysten/sui/utils";
-import { TENANT } from "./constants";
+import { getTenant } from "./config";
 
 const TenantItemId = bcs.struct("TenantItemId", {
     id: bcs.u64(),
@@ -10,11 +10,12 @@ const TenantItemId = bcs.struct("TenantItemId", {
 export function deriveObjectId(
     registryId: string,
     itemId: number | bigint,
-    packageId: string
+    packageId: string,
+    tenant: string = getTenant()
 ): string {
     const TenantItemIdValue = {
         id: BigInt(itemId),
-        tenant: TENANT,
+        tenant,
     };
     const serializedKey = TenantItemId.serialize(TenantItemIdValue).toBytes();
     const TenantItemIdTypeTag = `${packageId}::in_game_id::TenantItemId`;
@@ -1,6 +1,7 @@
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Transaction } from "@mysten/sui/transactions";
 import { requireEnv } from "./helper";
+import { describeMoveAbort } from "./move-abort";
 
 function resolveDevInspectSender(senderAddress?: string): string {
     return senderAddress || requireEnv("ADMIN_ADDRESS") || "0x";
@@ -28,6 +29,9 @@ export async function devInspectMoveCallFirstReturnValueBytes(
     });
 
     if (result.effects?.status?.status !== "success") {
+        // Getters return null on failure; say why when the call aborted.
+        const abort = describeMoveAbort(result.error ?? result.effects?.status?.error ?? "");
+        if (abort) console.warn(`${params.target} aborted: ${abort.summary}`);
         return null;
     }
 
@@ -1,4 +1,5 @@
 import * as fs from "node:fs";
+import { extractJson } from "./helper";
 
 function readStdin(): Promise<string> {
     return new Promise((resolve, reject) => {
@@ -10,15 +11,6 @@ function readStdin(): Promise<string> {
     });
 }
 
-export function extractJson(text: string): string {
-    const start = text.indexOf("{");
-    const end = text.lastIndexOf("}");
-    if (start === -1 || end === -1 || end < start) {
-        throw new Error("No JSON found in input");
-    }
-    return text.slice(start, end + 1);
-}
-
 async function main() {
     const filePath = process.argv[2];
     const raw = filePath ? fs.readFileSync(filePath, "utf8") : await readStdin();
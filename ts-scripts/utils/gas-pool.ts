@@ -0,0 +1,312 @@
+/**
+ * Gas coin pool for a sponsor account. Each sponsored transaction leases its own SUI coin, so
+ * concurrent transactions never race for the same gas object. Coin versions and balances are
+ * updated from the effects of the transaction that used them, without another RPC round trip.
+ */
+import { Signer } from "@mysten/sui/cryptography";
+import type { SuiJsonRpcClient, TransactionEffects } from "@mysten/sui/jsonRpc";
+import { Transaction } from "@mysten/sui/transactions";
+
+const SUI_COIN_TYPE = "0x2::sui::SUI";
+
+export type GasCoin = {
+    objectId: string;
+    version: string;
+    digest: string;
+    balance: bigint;
+};
+
+export type GasPool = {
+    client: SuiJsonRpcClient;
+    keypair: Signer;
+    owner: string;
+    /** Coins below this balance are not leased; `mergeDust` folds them into the largest coin. */
+    minBalance: bigint;
+    coins: Map<string, GasCoin>;
+    leased: Set<string>;
+    /** Leases waiting for a coin to be released, oldest first. */
+    waiters: { resolve: (coin: GasCoin) => void; reject: (error: Error) => void }[];
+    loaded: boolean;
+};
+
+export function createGasPool(
+    client: SuiJsonRpcClient,
+    keypair: Signer,
+    minBalance = 50_000_000n
+): GasPool {
+    return {
+        client,
+        keypair,
+        owner: keypair.getPublicKey().toSuiAddress(),
+        minBalance,
+        coins: new Map(),
+        leased: new Set(),
+        waiters: [],
+        loaded: false,
+    };
+}
+
+const pools = new Map<string, GasPool>();
+
+/** One shared pool per sponsor address, so every sponsored script in a process shares leases. */
+export function getGasPool(client: SuiJsonRpcClient, keypair: Signer): GasPool {
+    const owner = keypair.getPublicKey().toSuiAddress();
+    let pool = pools.get(owner);
+    if (!pool) {
+        const minBalance = process.env.GAS_POOL_MIN_BALANCE;
+        pool = createGasPool(
+            client,
+            keypair,
+            minBalance === undefined ? undefined : BigInt(minBalance)
+        );
+        pools.set(owner, pool);
+    }
+    return pool;
+}
+
+async function fetchCoins(pool: GasPool): Promise<GasCoin[]> {
+    const coins: GasCoin[] = [];
+    let cursor: string | null | undefined;
+    do {
+        const page = await pool.client.getCoins({
+            owner: pool.owner,
+            coinType: SUI_COIN_TYPE,
+            cursor,
+        });
+        for (const coin of page.data) {
+            coins.push({
+                objectId: coin.coinObjectId,
+                version: coin.version,
+                digest: coin.digest,
+                balance: BigInt(coin.balance),
+            });
+        }
+        cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    return coins;
+}
+
+/**
+ * Reloads coins from chain. Leased coins keep their tracked state until released, and so does a
+ * coin whose version from effects is newer than the one a lagging fullnode returns.
+ */
+export async function refreshGasPool(pool: GasPool) {
+    const coins = await fetchCoins(pool);
+    const seen = new Set(coins.map((coin) => coin.objectId));
+    for (const coin of coins) {
+        if (pool.leased.has(coin.objectId)) continue;
+        const tracked = pool.coins.get(coin.objectId);
+        if (tracked && BigInt(tracked.version) > BigInt(coin.version)) continue;
+        pool.coins.set(coin.objectId, coin);
+    }
+    for (const objectId of pool.coins.keys()) {
+        if (!seen.has(objectId) && !pool.leased.has(objectId)) pool.coins.delete(objectId);
+    }
+    pool.loaded = true;
+}
+
+function takeFreeCoin(pool: GasPool): GasCoin | undefined {
+    let best: GasCoin | undefined;
+    for (const coin of pool.coins.values()) {
+        if (pool.leased.has(coin.objectId) || coin.balance < pool.minBalance) continue;
+        if (!best || coin.balance > best.balance) best = coin;
+    }
+    if (best) pool.leased.add(best.objectId);
+    return best;
+}
+
+function noCoinError(pool: GasPool) {
+    return new Error(
+        `${pool.owner} has no SUI coin with at least ${pool.minBalance} MIST to pay gas`
+    );
+}
+
+/** Leases the largest free coin, or returns undefined when every usable coin is leased. */
+export async function tryLeaseGasCoin(pool: GasPool): Promise<GasCoin | undefined> {
+    // With nothing leased, re-read the coins: the owner may have spent gas outside the pool.
+    // The refresh keeps versions from effects that a lagging fullnode has not caught up with.
+    if (!pool.loaded || pool.leased.size === 0) await refreshGasPool(pool);
+    return takeFreeCoin(pool);
+}
+
+/**
+ * Leases the largest free coin. When every usable coin is leased the call waits for a release;
+ * when the pool has no usable coin at all it fails instead of waiting forever.
+ */
+export async function leaseGasCoin(pool: GasPool): Promise<GasCoin> {
+    // A coin may have been released while tryLeaseGasCoin was resuming, so check again before
+    // queueing; nothing below awaits, so no release can slip in between.
+    const coin = (await tryLeaseGasCoin(pool)) ?? takeFreeCoin(pool);
+    if (coin) return coin;
+    if (pool.leased.size === 0) throw noCoinError(pool);
+    return new Promise((resolve, reject) => pool.waiters.push({ resolve, reject }));
+}
+
+/**
+ * Returns a coin to the pool. With the effects of the transaction that paid gas with it, the new
+ * version and digest are taken from them and the gas is deducted from `coin.balance` (pass the
+ * balance before gas, so a split or merge through the gas coin is accounted for); without, the
+ * coin is re-read from chain. A coin the effects delete (merged away) leaves the pool. The lease
+ * ends even when the read fails; the coin is then dropped until the next refresh.
+ */
+export async function releaseGasCoin(
+    pool: GasPool,
+    coin: GasCoin,
+    effects?: TransactionEffects | null
+) {
+    try {
+        const reference = effects?.gasObject?.reference;
+        if (effects?.deleted?.some((deleted) => deleted.objectId === coin.objectId)) {
+            pool.coins.delete(coin.objectId);
+        } else if (reference && reference.objectId === coin.objectId) {
+            const { computationCost, storageCost, storageRebate } = effects.gasUsed;
+            const spent = BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate);
+            pool.coins.set(coin.objectId, {
+                objectId: coin.objectId,
+                version: String(reference.version),
+                digest: reference.digest,
+                balance: coin.balance - spent,
+            });
+        } else {
+            const response = await pool.client.getObject({
+                id: coin.objectId,
+                options: { showContent: true },
+            });
+            if (response.data) {
+                const { version, digest, content } = response.data;
+                const fields = content?.dataType === "moveObject" ? content.fields : undefined;
+                const balance =
+                    fields && "balance" in fields ? BigInt(String(fields.balance)) : coin.balance;
+                pool.coins.set(coin.objectId, {
+                    objectId: coin.objectId,
+                    version,
+                    digest,
+                    balance,
+                });
+            } else {
+                pool.coins.delete(coin.objectId);
+            }
+        }
+    } catch (error) {
+        pool.coins.delete(coin.objectId);
+        throw error;
+    } finally {
+        pool.leased.delete(coin.objectId);
+        handOffToWaiter(pool);
+    }
+}
+
+/** Gives a free coin to the oldest waiter, or fails every waiter when no coin can free up. */
+function handOffToWaiter(pool: GasPool) {
+    const waiter = pool.waiters.shift();
+    if (!waiter) return;
+    const next = takeFreeCoin(pool);
+    if (next) {
+        waiter.resolve(next);
+    } else if (pool.leased.size === 0) {
+        // The last leased coin fell below the minimum; nothing will free up for the waiters.
+        const error = noCoinError(pool);
+        for (const pending of [waiter, ...pool.waiters.splice(0)]) pending.reject(error);
+    } else {
+        pool.waiters.unshift(waiter);
+    }
+}
+
+/** Leases a coin for `run` and releases it with the effects `run` returns. */
+export async function withGasCoin<T extends { effects?: TransactionEffects | null }>(
+    pool: GasPool,
+    run: (coin: GasCoin) => Promise<T>
+): Promise<T> {
+    const coin = await leaseGasCoin(pool);
+    let effects: TransactionEffects | null | undefined;
+    try {
+        const result = await run(coin);
+        effects = result.effects;
+        return result;
+    } finally {
+        await releaseGasCoin(pool, coin, effects);
+    }
+}
+
+async function executeOwnerTransaction(pool: GasPool, tx: Transaction) {
+    const result = await pool.client.signAndExecuteTransaction({
+        transaction: tx,
+        signer: pool.keypair,
+        options: { showEffects: true },
+    });
+    if (result.effects?.status.status !== "success") {
+        throw new Error(`Gas pool transaction failed: ${result.effects?.status.error}`);
+    }
+    await pool.client.waitForTransaction({ digest: result.digest });
+    await refreshGasPool(pool);
+    return result;
+}
+
+/**
+ * Splits the largest free coin so the pool holds at least `count` coins of `amount` MIST each,
+ * enough for that many concurrent transactions. The split coin is leased and set as the gas
+ * payment, so the transaction never picks up a coin another transaction is using.
+ */
+export async function splitGasCoins(pool: GasPool, count: number, amount: bigint) {
+    await refreshGasPool(pool);
+    const usable = [...pool.coins.values()].filter((coin) => coin.balance >= amount);
+    const missing = count - usable.length;
+    if (missing <= 0) return null;
+
+    const coin = await leaseGasCoin(pool);
+    let effects: TransactionEffects | null | undefined;
+    try {
+        const tx = new Transaction();
+        tx.setGasPayment([coin]);
+        const coins = tx.splitCoins(
+            tx.gas,
+            Array.from({ length: missing }, () => amount)
+        );
+        tx.transferObjects(
+            Array.from({ length: missing }, (_, i) => coins[i]),
+            pool.owner
+        );
+        const result = await executeOwnerTransaction(pool, tx);
+        effects = result.effects;
+        return result.digest;
+    } finally {
+        // The split amounts left the gas coin along with the gas
+        const split = BigInt(missing) * amount;
+        await releaseGasCoin(pool, { ...coin, balance: coin.balance - split }, effects);
+    }
+}
+
+/**
+ * Merges every free coin below `minBalance` into the largest free coin. The target and the dust
+ * are leased for the merge, so no concurrent transaction picks one of them up as gas.
+ */
+export async function mergeDust(pool: GasPool) {
+    await refreshGasPool(pool);
+    const free = [...pool.coins.values()]
+        .filter((coin) => !pool.leased.has(coin.objectId))
+        .sort((a, b) => (a.balance > b.balance ? -1 : a.balance < b.balance ? 1 : 0));
+    const [target, ...rest] = free;
+    const dust = rest.filter((coin) => coin.balance < pool.minBalance);
+    if (!target || dust.length === 0) return null;
+
+    for (const coin of [target, ...dust]) pool.leased.add(coin.objectId);
+    const merged = dust.reduce((sum, coin) => sum + coin.balance, 0n);
+    let effects: TransactionEffects | null | undefined;
+    try {
+        const tx = new Transaction();
+        tx.setGasPayment([target]);
+        tx.mergeCoins(
+            tx.gas,
+            dust.map((coin) => tx.objectRef(coin))
+        );
+        const result = await executeOwnerTransaction(pool, tx);
+        effects = result.effects;
+        return result.digest;
+    } finally {
+        // Every lease ends even if one release fails; the merged-away dust leaves the pool
+        await Promise.all([
+            releaseGasCoin(pool, { ...target, balance: target.balance + merged }, effects),
+            ...dust.map((coin) => releaseGasCoin(pool, coin, effects)),
+        ]);
+    }
+}
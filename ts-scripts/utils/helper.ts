@@ -1,8 +1,10 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { createClient, keypairFromPrivateKey } from "./client";
+import { Signer } from "@mysten/sui/cryptography";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { createClient } from "./client";
+import { resolveSigner } from "./signer";
 import {
     HydratedWorldConfig,
     WorldConfig,
@@ -10,8 +12,9 @@ import {
     Network,
     DEFAULT_RPC_URLS,
     ExtractedObjectIds,
+    getTenant,
 } from "./config";
-import { TENANT } from "./constants";
+import { describeMoveAbort } from "./move-abort";
 import { getExtractedObjectIdsPath } from "./world-object-ids";
 export interface EnvConfig {
     network: Network;
@@ -23,12 +26,13 @@ export interface EnvConfig {
 
 export interface InitializedContext {
     client: SuiJsonRpcClient;
-    keypair: Ed25519Keypair;
+    /** A local keypair or any other signer `resolveSigner` returns (keystore, remote, ...). */
+    keypair: Signer;
     config: WorldConfig;
     address: string;
 }
 
-type PublishObjectChange = {
+export type PublishObjectChange = {
     type?: string;
     packageId?: string;
     objectType?: string;
@@ -81,7 +85,13 @@ export function fromHex(hex: string): Uint8Array {
 
 export function handleError(error: unknown): never {
     console.error("\n=== Error ===");
-    console.error("Error:", error instanceof Error ? error.message : error);
+    const abort = describeMoveAbort(error);
+    if (abort) {
+        console.error("Error:", abort.summary);
+        console.error("Abort:", abort.original);
+    } else {
+        console.error("Error:", error instanceof Error ? error.message : error);
+    }
     if (error instanceof Error && error.stack) {
         console.error("Stack:", error.stack);
     }
@@ -110,13 +120,14 @@ export function getEnvConfig(): EnvConfig {
         rpcUrl,
         packageId,
         adminExportedKey,
-        tenant: TENANT,
+        tenant: getTenant(),
     };
 }
 
-export function initializeContext(network: Network, privateKey: string): InitializedContext {
+/** `signer` is a private key or any signer reference accepted by `resolveSigner`. */
+export function initializeContext(network: Network, signer: string): InitializedContext {
     const client = createClient(network);
-    const keypair = keypairFromPrivateKey(privateKey);
+    const keypair = resolveSigner(signer);
     const config = getConfig(network) as WorldConfig;
     const fromExtracted = getDefaultWorldPackageId(network);
     if (fromExtracted) config.packageId = fromExtracted;
@@ -134,7 +145,9 @@ export function extractEvent<T = unknown>(
     return (event?.parsedJson as T) || null;
 }
 
-export async function hydrateWorldConfig(ctx: InitializedContext): Promise<HydratedWorldConfig> {
+export async function hydrateWorldConfig(
+    ctx: Pick<InitializedContext, "config">
+): Promise<HydratedWorldConfig> {
     const hasManualIds =
         !!ctx.config.governorCap &&
         !!ctx.config.serverAddressRegistry &&
@@ -142,7 +155,9 @@ export async function hydrateWorldConfig(ctx: InitializedContext): Promise<Hydra
         !!ctx.config.adminAcl &&
         !!ctx.config.energyConfig &&
         !!ctx.config.fuelConfig &&
-        !!ctx.config.gateConfig;
+        !!ctx.config.gateConfig &&
+        !!ctx.config.killmailRegistry &&
+        !!ctx.config.locationRegistry;
 
     if (!hasManualIds) {
         const network = (process.env.SUI_NETWORK as Network) || "localnet";
@@ -153,7 +168,7 @@ export async function hydrateWorldConfig(ctx: InitializedContext): Promise<Hydra
                 `Missing or mismatched ${filePath}. Run \`npm run extract-object-ids\` after deploy.`
             );
         }
-        const { packageId: _p, ...ids } = extracted.world;
+        const { packageId: _p, upgradeCap: _u, ...ids } = extracted.world;
         ctx.config = { ...ctx.config, ...ids } as WorldConfig;
     }
 
@@ -193,6 +208,22 @@ export function getDefaultBuilderPackageId(network: string): string {
     );
 }
 
+export function getDefaultAssetsPackageId(network: string): string {
+    return (
+        process.env.ASSETS_PACKAGE_ID || loadExtractedObjectIds(network)?.assets?.packageId || ""
+    );
+}
+
+/** The outermost `{...}` of CLI output that may carry log lines around its JSON. */
+export function extractJson(text: string): string {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start === -1 || end === -1 || end < start) {
+        throw new Error("No JSON found in input");
+    }
+    return text.slice(start, end + 1);
+}
+
 export function readPublishOutputFile(filePath: string): { objectChanges: PublishObjectChange[] } {
     const raw = fs.readFileSync(filePath, "utf8");
     let parsed: { objectChanges?: unknown; effects?: { objectChanges?: unknown } };
@@ -223,11 +254,60 @@ export function getPublishedPackageId(changes: PublishObjectChange[]): string {
     return published.packageId;
 }
 
-// TODO: use grpc query the object id instead of the publish output file
+// A package version's original ID never changes, so each is looked up once per process
+const originalPackageIds = new Map<string, Promise<string>>();
+
+/**
+ * Original (first version) ID of a package. Every version's modules keep the address of the
+ * original package, so an upgraded package ID resolves to the one it was first published as.
+ * Types and events of the package carry this ID, not the upgraded one.
+ */
+export function getOriginalPackageId(client: SuiJsonRpcClient, packageId: string): Promise<string> {
+    const key = normalizeSuiAddress(packageId);
+    const cached = originalPackageIds.get(key);
+    if (cached) return cached;
+    const pending = (async () => {
+        const modules = await client.getNormalizedMoveModulesByPackage({ package: packageId });
+        const first = Object.values(modules)[0];
+        if (!first) throw new Error(`Package ${packageId} has no modules`);
+        return normalizeSuiAddress(first.address);
+    })();
+    pending.catch(() => originalPackageIds.delete(key));
+    originalPackageIds.set(key, pending);
+    return pending;
+}
+
+/**
+ * Object changes of the transaction that published `packageId`, read from the chain for when the
+ * publish output file is gone. An upgraded package is first resolved to its original ID: the
+ * previous transaction of a later version is the upgrade, which creates none of the `init` objects.
+ */
+export async function fetchPublishObjectChanges(
+    client: SuiJsonRpcClient,
+    packageId: string
+): Promise<PublishObjectChange[]> {
+    const originalId = await getOriginalPackageId(client, packageId);
+    const pkg = await client.getObject({
+        id: originalId,
+        options: { showPreviousTransaction: true },
+    });
+    const digest = pkg.data?.previousTransaction;
+    if (!digest) throw new Error(`Package ${originalId} not found on chain`);
+    const publish = await client.getTransactionBlock({
+        digest,
+        options: { showObjectChanges: true },
+    });
+    return (publish.objectChanges ?? []) as PublishObjectChange[];
+}
+
+function isSharedOwner(owner: unknown): boolean {
+    return !!owner && typeof owner === "object" && "Shared" in owner;
+}
+
 export function findCreatedObjectId(
     changes: PublishObjectChange[],
     objectType: string,
-    opts?: { addressOwner?: string }
+    opts?: { addressOwner?: string; shared?: boolean }
 ): string | undefined {
     for (const c of changes) {
         if (c?.type !== "created") continue;
@@ -238,6 +318,7 @@ export function findCreatedObjectId(
             const owner = c.owner as any;
             if (owner?.AddressOwner !== opts.addressOwner) continue;
         }
+        if (opts?.shared && !isSharedOwner(c.owner)) continue;
 
         return c.objectId;
     }
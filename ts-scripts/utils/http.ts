@@ -0,0 +1,49 @@
+import { timingSafeEqual } from "node:crypto";
+import * as http from "node:http";
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+export function sendJson(response: http.ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body, (_, v) => (typeof v === "bigint" ? v.toString() : v)));
+}
+
+/** Writes one JSON log line per request outcome. */
+export function logJson(event: string, fields: Record<string, unknown>) {
+    console.log(
+        JSON.stringify({ time: new Date().toISOString(), event, ...fields }, (_, v) =>
+            typeof v === "bigint" ? v.toString() : v
+        )
+    );
+}
+
+/** Checks `Authorization: Bearer <token>`; a null token accepts every caller. */
+export function hasBearerToken(request: http.IncomingMessage, token: string | null): boolean {
+    if (token === null) return true;
+    const expected = Buffer.from(`Bearer ${token}`);
+    const received = Buffer.from(request.headers.authorization ?? "");
+    return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/** Reads and parses a JSON request body of at most 64 KiB. */
+export function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        let body = "";
+        request.setEncoding("utf-8");
+        request.on("data", (chunk: string) => {
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                reject(new Error("Request body too large"));
+                request.destroy();
+            }
+        });
+        request.on("end", () => {
+            try {
+                resolve(JSON.parse(body));
+            } catch {
+                reject(new Error("Request body must be JSON"));
+            }
+        });
+        request.on("error", reject);
+    });
+}
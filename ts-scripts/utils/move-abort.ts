@@ -0,0 +1,72 @@
+import {
+    decodeMoveAbort,
+    decodeMoveAbortWithBytecode,
+    DecodedAbort,
+    formatMoveAbort,
+    registerPackageAddress,
+} from "../../tools/error-decoder";
+import { loadExtractedObjectIds } from "./helper";
+
+/** A failed transaction whose Move abort was decoded; `original` keeps the abort as reported. */
+export class MoveAbortError extends Error {
+    constructor(
+        readonly abort: DecodedAbort,
+        readonly original: string
+    ) {
+        super(formatMoveAbort(abort));
+        this.name = "MoveAbortError";
+    }
+}
+
+const registeredNetworks = new Set<string>();
+
+/**
+ * Maps this network's deployed package IDs to their packages, so aborts from a localnet or fresh
+ * deployment (absent from every Published.toml) still resolve to the right error map.
+ */
+function registerDeployedPackages() {
+    const network = process.env.SUI_NETWORK || "localnet";
+    if (registeredNetworks.has(network)) return;
+    registeredNetworks.add(network);
+    const extracted = loadExtractedObjectIds(network);
+    if (extracted?.world) registerPackageAddress(extracted.world.packageId, "world");
+    if (extracted?.builder) {
+        registerPackageAddress(extracted.builder.packageId, "extension_examples");
+    }
+    if (extracted?.assets) registerPackageAddress(extracted.assets.packageId, "assets");
+}
+
+/** Decodes the Move abort in an error message against the world, extension and assets maps. */
+export function decodeAbort(message: string): DecodedAbort | null {
+    registerDeployedPackages();
+    return decodeMoveAbort(message);
+}
+
+/**
+ * `decodeAbort`, falling back to the module bytecode at `rpcUrl` for packages the maps lack.
+ * `calledPackageId` is the transaction's Move call target, which selects the package version.
+ */
+export async function decodeAbortWithBytecode(
+    message: string,
+    rpcUrl: string,
+    calledPackageId?: string
+): Promise<DecodedAbort | null> {
+    registerDeployedPackages();
+    return await decodeMoveAbortWithBytecode(message, rpcUrl, calledPackageId);
+}
+
+/** `MoveAbortError` for a message that contains a Move abort, otherwise a plain `Error`. */
+export function abortError(message: string): Error {
+    const abort = decodeAbort(message);
+    return abort ? new MoveAbortError(abort, message) : new Error(message);
+}
+
+/** The decoded abort line, plus the original message, for an error that carries a Move abort. */
+export function describeMoveAbort(error: unknown): { summary: string; original: string } | null {
+    if (error instanceof MoveAbortError) {
+        return { summary: error.message, original: error.original };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const abort = decodeAbort(message);
+    return abort ? { summary: formatMoveAbort(abort), original: message } : null;
+}
@@ -0,0 +1,87 @@
+import type { SuiJsonRpcClient, SuiObjectResponse } from "@mysten/sui/jsonRpc";
+import { SUI_CLOCK_OBJECT_ID, toHex } from "@mysten/sui/utils";
+
+/** Field values of a Move struct as rendered by `getObject({ options: { showContent: true } })`. */
+export type MoveFields = Record<string, unknown>;
+
+/** Unwraps the `{ type, fields }` envelope the RPC uses for nested structs. */
+export function fieldsOf(value: unknown): MoveFields {
+    if (value && typeof value === "object") {
+        const record = value as MoveFields;
+        if (record.fields && typeof record.fields === "object") return record.fields as MoveFields;
+        return record;
+    }
+    throw new Error(`Expected a Move struct, got ${JSON.stringify(value)}`);
+}
+
+/** Renders a scalar field (u64 strings, addresses, `UID { id }`) as a string. */
+export function asString(value: unknown): string {
+    if (value && typeof value === "object" && "id" in value) {
+        return String((value as { id: unknown }).id);
+    }
+    return String(value);
+}
+
+/**
+ * Renders an `Option<T>` field: the RPC gives `null` when unset and the bare value (an ID or u64
+ * string) when set.
+ */
+export function asOptionalString(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== "object") return asString(value);
+    // Older RPC nodes render Option<T> as `{ vec: [T] }`.
+    const vec = fieldsOf(value).vec;
+    if (Array.isArray(vec)) return vec.length > 0 ? asOptionalString(vec[0]) : null;
+    return asString(value);
+}
+
+/** Variant name of a Move enum value (`{ variant }` in object content, `{ "@variant" }` in events). */
+export function enumVariant(value: unknown): string {
+    const record = value as MoveFields;
+    return String(record["@variant"] ?? record.variant ?? value);
+}
+
+export function bytesToHex(value: unknown): string {
+    if (typeof value === "string") return value;
+    return "0x" + toHex(Uint8Array.from(value as number[]));
+}
+
+export function moveObjectFields(
+    response: SuiObjectResponse,
+    id: string
+): { type: string; fields: MoveFields } {
+    const content = response.data?.content;
+    if (!content || content.dataType !== "moveObject") {
+        throw new Error(`Object ${id} not found or is not a Move object`);
+    }
+    return { type: content.type, fields: content.fields as MoveFields };
+}
+
+/** Current on-chain time from the `Clock` object (0x6), in milliseconds. */
+export async function getClockMs(client: SuiJsonRpcClient): Promise<bigint> {
+    const clock = await client.getObject({
+        id: SUI_CLOCK_OBJECT_ID,
+        options: { showContent: true },
+    });
+    return BigInt(asString(moveObjectFields(clock, SUI_CLOCK_OBJECT_ID).fields.timestamp_ms));
+}
+
+/**
+ * Value stored under `key` in the `Table` field `tableField` of an object, or `undefined` when the
+ * key is absent. `key.type` is the Move key type (`address`, `u64`, ...).
+ */
+export async function getTableValue(
+    client: SuiJsonRpcClient,
+    objectId: string,
+    tableField: string,
+    key: { type: string; value: unknown }
+): Promise<unknown> {
+    const response = await client.getObject({ id: objectId, options: { showContent: true } });
+    const table = fieldsOf(moveObjectFields(response, objectId).fields[tableField]);
+    const entry = await client.getDynamicFieldObject({
+        parentId: asString(table.id),
+        name: key,
+    });
+    if (!entry.data) return undefined;
+    return moveObjectFields(entry, asString(table.id)).fields.value;
+}
@@ -1,56 +1,51 @@
 import { bcs } from "@mysten/sui/bcs";
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
-import { signPersonalMessage } from "../crypto/signMessage";
+import { Signer } from "@mysten/sui/cryptography";
+import { Ed25519PublicKey } from "@mysten/sui/keypairs/ed25519";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { LocationProof, LocationProofMessage } from "../bindings/world/location";
+import { createIntentMessage, hashIntentMessage, signPersonalMessage } from "../crypto/signMessage";
 import { fromHex, toHex } from "./helper";
 
-// BCS schema for LocationProofMessage (must match Move struct exactly)
-export const LocationProofMessage = bcs.struct("LocationProofMessage", {
-    server_address: bcs.Address,
-    player_address: bcs.Address,
-    source_structure_id: bcs.Address,
-    source_location_hash: bcs.vector(bcs.u8()),
-    target_structure_id: bcs.Address,
-    target_location_hash: bcs.vector(bcs.u8()),
-    distance: bcs.u64(),
-    data: bcs.vector(bcs.u8()),
-    deadline_ms: bcs.u64(),
-});
-
 export interface LocationProofOptions {
     distance?: bigint;
     data?: number[];
     deadline_ms?: bigint;
 }
 
+/** Fields of a `LocationProofMessage` other than `server_address`, which is the signer's. */
+export interface LocationProofRequest {
+    playerAddress: string;
+    sourceStructureId: string;
+    sourceLocationHash: string;
+    targetStructureId: string;
+    targetLocationHash: string;
+    distance: bigint;
+    data: number[];
+    deadlineMs: bigint;
+}
+
 /**
- * Generate a location proof signed by the admin keypair.
+ * Sign a location proof with the server keypair.
  * Returns the full proof bytes as a hex string (message + BCS-encoded signature).
  */
-export async function generateLocationProof(
-    adminKeypair: Ed25519Keypair,
-    playerAddress: string,
-    sourceStructureId: string,
-    targetStructureId: string,
-    locationHash: string,
-    options?: LocationProofOptions
+export async function signLocationProof(
+    serverKeypair: Signer,
+    request: LocationProofRequest
 ): Promise<string> {
-    const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
-    const deadline = options?.deadline_ms ?? BigInt(Date.now()) + BigInt(50 * 24 * 60 * 60 * 1000);
-
     const message = {
-        server_address: adminAddress,
-        player_address: playerAddress,
-        source_structure_id: sourceStructureId,
-        source_location_hash: Array.from(fromHex(locationHash)),
-        target_structure_id: targetStructureId,
-        target_location_hash: Array.from(fromHex(locationHash)),
-        distance: options?.distance ?? 0n,
-        data: options?.data ?? [],
-        deadline_ms: deadline,
+        server_address: serverKeypair.getPublicKey().toSuiAddress(),
+        player_address: request.playerAddress,
+        source_structure_id: request.sourceStructureId,
+        source_location_hash: Array.from(fromHex(request.sourceLocationHash)),
+        target_structure_id: request.targetStructureId,
+        target_location_hash: Array.from(fromHex(request.targetLocationHash)),
+        distance: request.distance,
+        data: request.data,
+        deadline_ms: request.deadlineMs,
     };
 
     const messageBytes = LocationProofMessage.serialize(message).toBytes();
-    const signature = await signPersonalMessage(messageBytes, adminKeypair);
+    const signature = await signPersonalMessage(messageBytes, serverKeypair);
 
     // Combine message + BCS-encoded signature vector into full proof bytes
     const signatureVec = bcs.vector(bcs.u8()).serialize(Array.from(signature)).toBytes();
@@ -60,3 +55,102 @@ export async function generateLocationProof(
 
     return toHex(proofBytes);
 }
+
+/**
+ * Generate a location proof signed by the admin keypair, using `locationHash` for both the source
+ * and the target. Returns the full proof bytes as a hex string (message + BCS-encoded signature).
+ */
+export async function generateLocationProof(
+    adminKeypair: Signer,
+    playerAddress: string,
+    sourceStructureId: string,
+    targetStructureId: string,
+    locationHash: string,
+    options?: LocationProofOptions
+): Promise<string> {
+    return signLocationProof(adminKeypair, {
+        playerAddress,
+        sourceStructureId,
+        sourceLocationHash: locationHash,
+        targetStructureId,
+        targetLocationHash: locationHash,
+        distance: options?.distance ?? 0n,
+        data: options?.data ?? [],
+        deadlineMs: options?.deadline_ms ?? BigInt(Date.now()) + BigInt(50 * 24 * 60 * 60 * 1000),
+    });
+}
+
+export type DecodedLocationProof = {
+    serverAddress: string;
+    playerAddress: string;
+    sourceStructureId: string;
+    sourceLocationHash: string;
+    targetStructureId: string;
+    targetLocationHash: string;
+    distance: bigint;
+    data: string;
+    deadlineMs: bigint;
+    /** BCS bytes of the message, i.e. what the server signed. */
+    messageBytes: Uint8Array;
+    signature: Uint8Array;
+};
+
+/** Decode proof hex (message + BCS signature vector) back into its fields. */
+export function decodeLocationProof(proofHex: string): DecodedLocationProof {
+    const proofBytes = fromHex(proofHex);
+    const { message, signature } = LocationProof.parse(proofBytes);
+    const messageBytes = LocationProofMessage.serialize(message).toBytes();
+    const signatureVec = bcs.vector(bcs.u8()).serialize(signature).toBytes();
+    if (messageBytes.length + signatureVec.length !== proofBytes.length) {
+        throw new Error(
+            `Proof has ${proofBytes.length - messageBytes.length - signatureVec.length} trailing bytes`
+        );
+    }
+    return {
+        serverAddress: normalizeSuiAddress(message.server_address),
+        playerAddress: normalizeSuiAddress(message.player_address),
+        sourceStructureId: normalizeSuiAddress(message.source_structure_id),
+        sourceLocationHash: toHex(Uint8Array.from(message.source_location_hash)),
+        targetStructureId: normalizeSuiAddress(message.target_structure_id),
+        targetLocationHash: toHex(Uint8Array.from(message.target_location_hash)),
+        distance: BigInt(message.distance),
+        data: toHex(Uint8Array.from(message.data)),
+        deadlineMs: BigInt(message.deadline_ms),
+        messageBytes,
+        signature: Uint8Array.from(signature),
+    };
+}
+
+/**
+ * Off-chain port of `sig_verify::verify_signature`: an Ed25519 `[flag][signature][public key]`
+ * over blake2b256(intent || message) whose public key derives to the proof's server address.
+ */
+export async function verifyLocationProofSignature(
+    proof: DecodedLocationProof
+): Promise<{ valid: boolean; signerAddress: string | null; error?: string }> {
+    const { signature } = proof;
+    if (signature.length !== 1 + 64 + 32) {
+        return { valid: false, signerAddress: null, error: "Signature must be 97 bytes" };
+    }
+    if (signature[0] !== 0x00) {
+        return {
+            valid: false,
+            signerAddress: null,
+            error: "Only Ed25519 signatures are supported",
+        };
+    }
+    const publicKey = new Ed25519PublicKey(signature.slice(65));
+    const signerAddress = publicKey.toSuiAddress();
+    const digest = hashIntentMessage(createIntentMessage(proof.messageBytes));
+    if (!(await publicKey.verify(digest, signature.slice(1, 65)))) {
+        return { valid: false, signerAddress, error: "Signature does not match the message" };
+    }
+    if (signerAddress !== proof.serverAddress) {
+        return {
+            valid: false,
+            signerAddress,
+            error: `Signed by ${signerAddress}, not the server address in the message`,
+        };
+    }
+    return { valid: true, signerAddress };
+}
@@ -0,0 +1,275 @@
+/**
+ * Signer references, so scripts can sign without a raw private key in `.env`. Anywhere a private
+ * key env var is read (`ADMIN_PRIVATE_KEY`, `PLAYER_A_PRIVATE_KEY`, `--key`, ...) accepts:
+ * - `suiprivkey1…`: a Bech32 private key (Ed25519, Secp256k1 or Secp256r1)
+ * - `keystore:<alias|address>`: a profile from the Sui CLI keystore
+ * - `encrypted:<file>`: a key file written by `pnpm world keys encrypt`, unlocked with
+ *   `SUI_KEY_PASSPHRASE`
+ * - `remote:<url>#<public key>`: a remote signer speaking the protocol of `HttpRemoteSigner`
+ * - `<prefix>:<rest>` for any provider added with `registerSignerProvider`
+ */
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+    decodeSuiPrivateKey,
+    Keypair,
+    PublicKey,
+    SIGNATURE_FLAG_TO_SCHEME,
+    SignatureScheme,
+    Signer,
+} from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { fromBase64, normalizeSuiAddress, toBase64 } from "@mysten/sui/utils";
+import { publicKeyFromSuiBytes } from "@mysten/sui/verify";
+
+export type SignerProvider = (reference: string) => Signer;
+
+const providers = new Map<string, SignerProvider>();
+
+/** Adds a `<prefix>:<reference>` signer source, e.g. a KMS or hardware wallet integration. */
+export function registerSignerProvider(prefix: string, provider: SignerProvider) {
+    providers.set(prefix, provider);
+}
+
+export function keypairFromSecretKey(scheme: SignatureScheme, secretKey: Uint8Array): Keypair {
+    switch (scheme) {
+        case "ED25519":
+            return Ed25519Keypair.fromSecretKey(secretKey);
+        case "Secp256k1":
+            return Secp256k1Keypair.fromSecretKey(secretKey);
+        case "Secp256r1":
+            return Secp256r1Keypair.fromSecretKey(secretKey);
+        default:
+            throw new Error(`Unsupported key scheme ${scheme}`);
+    }
+}
+
+/** Resolves a signer reference (see the module comment) to a signer. */
+export function resolveSigner(reference: string): Signer {
+    const value = reference.trim();
+    if (value.startsWith("suiprivkey")) {
+        const { scheme, secretKey } = decodeSuiPrivateKey(value);
+        return keypairFromSecretKey(scheme, secretKey);
+    }
+    const separator = value.indexOf(":");
+    const provider = separator > 0 ? providers.get(value.slice(0, separator)) : undefined;
+    if (!provider) {
+        throw new Error(
+            `Unrecognised signer "${value.slice(0, 16)}…": expected a suiprivkey or one of ` +
+                [...providers.keys()].map((prefix) => `${prefix}:`).join(", ")
+        );
+    }
+    return provider(value.slice(separator + 1));
+}
+
+/** Like `resolveSigner`, but requires local key material (e.g. to export or encrypt it). */
+export function resolveLocalKeypair(reference: string): Keypair {
+    const signer = resolveSigner(reference);
+    if (!(signer instanceof Keypair)) {
+        throw new Error("This operation needs a local key, not a remote signer");
+    }
+    return signer;
+}
+
+// --- Sui CLI keystore -------------------------------------------------------------------------
+
+export type KeystoreEntry = {
+    alias?: string;
+    address: string;
+    scheme: SignatureScheme;
+    keypair: Keypair;
+};
+
+/** `SUI_CONFIG_DIR` when set (as the Sui CLI does), otherwise `~/.sui/sui_config`. */
+export function getSuiConfigDir(): string {
+    return process.env.SUI_CONFIG_DIR ?? path.join(os.homedir(), ".sui", "sui_config");
+}
+
+/**
+ * Reads `sui.keystore` (base64 `flag || secret key` entries) and names each key from
+ * `sui.aliases` where an alias exists.
+ */
+export function readKeystore(configDir = getSuiConfigDir()): KeystoreEntry[] {
+    const keystorePath = path.join(configDir, "sui.keystore");
+    if (!fs.existsSync(keystorePath)) {
+        throw new Error(`Sui keystore not found at ${keystorePath}`);
+    }
+    const keys = JSON.parse(fs.readFileSync(keystorePath, "utf-8")) as string[];
+    const aliasesPath = path.join(configDir, "sui.aliases");
+    const aliases = fs.existsSync(aliasesPath)
+        ? (JSON.parse(fs.readFileSync(aliasesPath, "utf-8")) as {
+              alias: string;
+              public_key_base64: string;
+          }[])
+        : [];
+
+    return keys.map((encoded) => {
+        const bytes = fromBase64(encoded);
+        const scheme = SIGNATURE_FLAG_TO_SCHEME[bytes[0] as keyof typeof SIGNATURE_FLAG_TO_SCHEME];
+        const keypair = keypairFromSecretKey(scheme, bytes.slice(1));
+        const publicKey = keypair.getPublicKey().toSuiPublicKey();
+        return {
+            alias: aliases.find((entry) => entry.public_key_base64 === publicKey)?.alias,
+            address: keypair.toSuiAddress(),
+            scheme,
+            keypair,
+        };
+    });
+}
+
+registerSignerProvider("keystore", (profile) => {
+    const entries = readKeystore();
+    const address = profile.startsWith("0x") ? normalizeSuiAddress(profile) : undefined;
+    const entry = entries.find((e) => (address ? e.address === address : e.alias === profile));
+    if (!entry) throw new Error(`No key "${profile}" in the Sui keystore`);
+    return entry.keypair;
+});
+
+// --- Encrypted key files ----------------------------------------------------------------------
+
+export type EncryptedKeyFile = {
+    version: 1;
+    address: string;
+    kdf: { name: "scrypt"; salt: string; n: number; r: number; p: number };
+    cipher: { name: "aes-256-gcm"; iv: string; tag: string };
+    /** The `suiprivkey1…` string, encrypted. */
+    ciphertext: string;
+};
+
+const SCRYPT_PARAMS = { n: 2 ** 15, r: 8, p: 1 };
+
+function deriveFileKey(passphrase: string, kdf: EncryptedKeyFile["kdf"]): Buffer {
+    return crypto.scryptSync(passphrase, Buffer.from(kdf.salt, "base64"), 32, {
+        N: kdf.n,
+        r: kdf.r,
+        p: kdf.p,
+        maxmem: 128 * kdf.n * kdf.r * 2,
+    });
+}
+
+export function encryptKeypair(keypair: Keypair, passphrase: string): EncryptedKeyFile {
+    if (passphrase.length === 0) throw new Error("Passphrase must not be empty");
+    const kdf = { name: "scrypt" as const, salt: crypto.randomBytes(16).toString("base64") };
+    const fileKey = deriveFileKey(passphrase, { ...kdf, ...SCRYPT_PARAMS });
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", fileKey, iv);
+    const ciphertext = Buffer.concat([
+        cipher.update(keypair.getSecretKey(), "utf-8"),
+        cipher.final(),
+    ]);
+    return {
+        version: 1,
+        address: keypair.toSuiAddress(),
+        kdf: { ...kdf, ...SCRYPT_PARAMS },
+        cipher: {
+            name: "aes-256-gcm",
+            iv: iv.toString("base64"),
+            tag: cipher.getAuthTag().toString("base64"),
+        },
+        ciphertext: ciphertext.toString("base64"),
+    };
+}
+
+export function decryptKeyFile(file: EncryptedKeyFile, passphrase: string): Keypair {
+    if (file.version !== 1 || file.kdf?.name !== "scrypt" || file.cipher?.name !== "aes-256-gcm") {
+        throw new Error("Unsupported encrypted key file format");
+    }
+    const decipher = crypto.createDecipheriv(
+        "aes-256-gcm",
+        deriveFileKey(passphrase, file.kdf),
+        Buffer.from(file.cipher.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(file.cipher.tag, "base64"));
+    let privateKey: string;
+    try {
+        privateKey = Buffer.concat([
+            decipher.update(Buffer.from(file.ciphertext, "base64")),
+            decipher.final(),
+        ]).toString("utf-8");
+    } catch {
+        throw new Error("Wrong passphrase or corrupted key file");
+    }
+    const { scheme, secretKey } = decodeSuiPrivateKey(privateKey);
+    const keypair = keypairFromSecretKey(scheme, secretKey);
+    if (keypair.toSuiAddress() !== file.address) {
+        throw new Error(`Key file decrypts to ${keypair.toSuiAddress()}, not ${file.address}`);
+    }
+    return keypair;
+}
+
+registerSignerProvider("encrypted", (filePath) => {
+    if (!fs.existsSync(filePath)) throw new Error(`Encrypted key file not found at ${filePath}`);
+    const passphrase = process.env.SUI_KEY_PASSPHRASE;
+    if (!passphrase) throw new Error(`SUI_KEY_PASSPHRASE is required to unlock ${filePath}`);
+    const file = JSON.parse(fs.readFileSync(filePath, "utf-8")) as EncryptedKeyFile;
+    return decryptKeyFile(file, passphrase);
+});
+
+// --- Remote signer ----------------------------------------------------------------------------
+
+/**
+ * Signs through an HTTP service that holds the key (a KMS bridge, an HSM, a teammate's signing
+ * box). Each signature is one `POST <url>` with `{ publicKey, bytes }`, where `bytes` is the
+ * base64 intent digest to sign; the service answers `{ signature }` with the base64 raw
+ * signature. `SUI_REMOTE_SIGNER_TOKEN`, when set, is sent as a bearer token.
+ */
+export class HttpRemoteSigner extends Signer {
+    constructor(
+        private readonly url: string,
+        private readonly publicKey: PublicKey,
+        private readonly token?: string
+    ) {
+        super();
+    }
+
+    getKeyScheme(): SignatureScheme {
+        return SIGNATURE_FLAG_TO_SCHEME[
+            this.publicKey.flag() as keyof typeof SIGNATURE_FLAG_TO_SCHEME
+        ];
+    }
+
+    getPublicKey(): PublicKey {
+        return this.publicKey;
+    }
+
+    async sign(bytes: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+        const response = await fetch(this.url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+            },
+            body: JSON.stringify({
+                publicKey: this.publicKey.toSuiPublicKey(),
+                bytes: toBase64(bytes),
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`Remote signer ${this.url} answered ${response.status}`);
+        }
+        const { signature } = (await response.json()) as { signature?: string };
+        if (typeof signature !== "string") {
+            throw new Error(`Remote signer ${this.url} returned no signature`);
+        }
+        const raw = new Uint8Array(fromBase64(signature));
+        // A wrong key or digest would only surface as a failed transaction, so catch it here.
+        if (!(await this.publicKey.verify(bytes, raw))) {
+            throw new Error(`Remote signer ${this.url} returned an invalid signature`);
+        }
+        return raw;
+    }
+}
+
+registerSignerProvider("remote", (reference) => {
+    const hash = reference.lastIndexOf("#");
+    if (hash < 0) throw new Error("Remote signer must be remote:<url>#<sui public key>");
+    return new HttpRemoteSigner(
+        reference.slice(0, hash),
+        publicKeyFromSuiBytes(reference.slice(hash + 1)),
+        process.env.SUI_REMOTE_SIGNER_TOKEN
+    );
+});
@@ -1,47 +1,60 @@
 import { Transaction } from "@mysten/sui/transactions";
 import { SuiJsonRpcClient, ExecuteTransactionBlockParams } from "@mysten/sui/jsonRpc";
-import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Signer } from "@mysten/sui/cryptography";
+import { getGasPool, withGasCoin } from "./gas-pool";
+import { abortError } from "./move-abort";
 
 export async function executeSponsoredTransaction(
     tx: Transaction,
     client: SuiJsonRpcClient,
-    playerKeypair: Ed25519Keypair,
-    adminKeypair: Ed25519Keypair,
+    playerKeypair: Signer,
+    adminKeypair: Signer,
     playerAddress: string,
     adminAddress: string,
     options?: ExecuteTransactionBlockParams["options"]
 ) {
     const transactionKindBytes = await tx.build({ client, onlyTransactionKind: true });
-    const gasCoins = await client.getCoins({
-        owner: adminAddress,
-        coinType: "0x2::sui::SUI",
-        limit: 1,
-    });
-
-    if (gasCoins.data.length === 0) {
-        throw new Error("Admin has no gas coins to sponsor the transaction");
-    }
-
-    const gasPayment = gasCoins.data.map((coin) => ({
-        objectId: coin.coinObjectId,
-        version: coin.version,
-        digest: coin.digest,
-    }));
 
-    // Reconstruct transaction with gas payment
-    const sponsoredTx = Transaction.fromKind(transactionKindBytes);
-    sponsoredTx.setSender(playerAddress);
-    sponsoredTx.setGasOwner(adminAddress);
-    sponsoredTx.setGasPayment(gasPayment);
-    const transactionBytes = await sponsoredTx.build({ client });
+    // Each call leases its own admin coin, so concurrent sponsored transactions don't collide on
+    // one gas object. Split the admin's SUI first (`pnpm world gas-pool split`) to run in parallel.
+    const pool = getGasPool(client, adminKeypair);
+    const result = await withGasCoin(pool, async (gasCoin) => {
+        // Reconstruct transaction with gas payment
+        const sponsoredTx = Transaction.fromKind(transactionKindBytes);
+        sponsoredTx.setSender(playerAddress);
+        sponsoredTx.setGasOwner(adminAddress);
+        sponsoredTx.setGasPayment([
+            { objectId: gasCoin.objectId, version: gasCoin.version, digest: gasCoin.digest },
+        ]);
+        const transactionBytes = await sponsoredTx.build({ client });
 
-    const playerSignature = await playerKeypair.signTransaction(transactionBytes);
-    const adminSignature = await adminKeypair.signTransaction(transactionBytes);
+        const playerSignature = await playerKeypair.signTransaction(transactionBytes);
+        const adminSignature = await adminKeypair.signTransaction(transactionBytes);
 
-    // Execute with both signatures
-    return await client.executeTransactionBlock({
-        transactionBlock: transactionBytes,
-        signature: [playerSignature.signature, adminSignature.signature],
-        options: options || { showObjectChanges: true, showEffects: true, showEvents: true },
+        // Execute with both signatures; effects are always requested so the pool can track the
+        // gas coin's new version.
+        return await client.executeTransactionBlock({
+            transactionBlock: transactionBytes,
+            signature: [playerSignature.signature, adminSignature.signature],
+            options: {
+                ...(options || { showObjectChanges: true, showEvents: true }),
+                showEffects: true,
+            },
+        });
     });
+    const status = result.effects?.status;
+    if (status?.status === "failure") {
+        throw abortError(`Transaction ${result.digest} failed: ${status.error ?? "unknown error"}`);
+    }
+    return result;
+}
+
+/** Waits until `digest` is indexed and throws unless it executed successfully. */
+export async function waitForSuccess(client: SuiJsonRpcClient, digest: string): Promise<string> {
+    const response = await client.waitForTransaction({ digest, options: { showEffects: true } });
+    const status = response.effects?.status;
+    if (status?.status !== "success") {
+        throw abortError(`Transaction ${digest} failed: ${status?.error ?? "unknown error"}`);
+    }
+    return digest;
 }
@@ -1,11 +1,17 @@
+import * as fs from "node:fs";
 import path from "node:path";
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
-import { MODULES, WorldObjectIds } from "./config";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { MODULE as extensionModule } from "../builder_extension/modules";
+import { AssetsObjectIds, ExtractedObjectIds, MODULES, Network, WorldObjectIds } from "./config";
 import {
     resolvePublishOutputPath,
     readPublishOutputFile,
     getPublishedPackageId,
+    fetchPublishObjectChanges,
     findCreatedObjectId,
+    getOriginalPackageId,
+    PublishObjectChange,
     requireId,
     typeName,
 } from "./helper";
@@ -18,6 +24,307 @@ export function getExtractedObjectIdsPath(network: string): string {
     return path.resolve(process.cwd(), "deployments", network, EXTRACTED_OBJECT_IDS_FILENAME);
 }
 
+/**
+ * Where a publish leaves one of its `init` objects: shared, owned by the publisher (the governor
+ * for world, the deployer for assets), or owned by another address.
+ */
+type ObjectRule<K extends string> = {
+    key: K;
+    /** Package defining the type; the published package unless set (e.g. `0x2`) */
+    address?: string;
+    module: string;
+    struct: string;
+    /** A type of the published package the object is instantiated with, e.g. `EVE` */
+    typeArgument?: { module: string; struct: string };
+    owner: "shared" | "publisher" | { address: string };
+};
+
+// Every publish hands its publisher the package's UpgradeCap
+const UPGRADE_CAP_RULE = {
+    key: "upgradeCap",
+    address: "0x2",
+    module: "package",
+    struct: "UpgradeCap",
+    owner: "publisher",
+} as const;
+
+// `coin_registry::finalize` sends the new Currency to the coin registry (0xc)
+const COIN_REGISTRY_ADDRESS = normalizeSuiAddress("0xc");
+
+export const WORLD_OBJECT_RULES: ObjectRule<
+    Exclude<keyof ExtractedObjectIds["world"], "packageId">
+>[] = [
+    UPGRADE_CAP_RULE,
+    { key: "governorCap", module: MODULES.WORLD, struct: "GovernorCap", owner: "publisher" },
+    {
+        key: "serverAddressRegistry",
+        module: MODULES.ACCESS,
+        struct: "ServerAddressRegistry",
+        owner: "shared",
+    },
+    { key: "adminAcl", module: MODULES.ACCESS, struct: "AdminACL", owner: "shared" },
+    {
+        key: "objectRegistry",
+        module: MODULES.OBJECT_REGISTRY,
+        struct: "ObjectRegistry",
+        owner: "shared",
+    },
+    {
+        key: "killmailRegistry",
+        module: MODULES.KILLMAIL_REGISTRY,
+        struct: "KillmailRegistry",
+        owner: "shared",
+    },
+    {
+        key: "locationRegistry",
+        module: MODULES.LOCATION,
+        struct: "LocationRegistry",
+        owner: "shared",
+    },
+    { key: "energyConfig", module: MODULES.ENERGY, struct: "EnergyConfig", owner: "shared" },
+    { key: "fuelConfig", module: MODULES.FUEL, struct: "FuelConfig", owner: "shared" },
+    { key: "gateConfig", module: MODULES.GATE, struct: "GateConfig", owner: "shared" },
+];
+
+const EVE_TYPE = { module: "EVE", struct: "EVE" };
+
+export const ASSETS_OBJECT_RULES: ObjectRule<Exclude<keyof AssetsObjectIds, "packageId">>[] = [
+    UPGRADE_CAP_RULE,
+    { key: "eveTreasury", module: "EVE", struct: "EveTreasury", owner: "publisher" },
+    { key: "adminCap", module: "EVE", struct: "AdminCap", owner: "publisher" },
+    {
+        key: "metadataCap",
+        address: "0x2",
+        module: "coin_registry",
+        struct: "MetadataCap",
+        typeArgument: EVE_TYPE,
+        owner: "publisher",
+    },
+    {
+        key: "currency",
+        address: "0x2",
+        module: "coin_registry",
+        struct: "Currency",
+        typeArgument: EVE_TYPE,
+        owner: { address: COIN_REGISTRY_ADDRESS },
+    },
+];
+
+function ruleType(rule: ObjectRule<string>, packageId: string): string {
+    const type = typeName(rule.address ?? packageId, rule.module, rule.struct);
+    if (!rule.typeArgument) return type;
+    return `${type}<${typeName(packageId, rule.typeArgument.module, rule.typeArgument.struct)}>`;
+}
+
+/**
+ * Applies `rules` to a publish's object changes. Created objects that no rule names are reported,
+ * so a new singleton in `init` is noticed instead of silently skipped.
+ */
+function applyRules<K extends string>(
+    changes: PublishObjectChange[],
+    packageId: string,
+    publisherAddress: string,
+    rules: ObjectRule<K>[]
+): Record<K, string> {
+    const ids = {} as Record<K, string>;
+    for (const rule of rules) {
+        const owner =
+            rule.owner === "publisher"
+                ? publisherAddress
+                : rule.owner === "shared"
+                  ? undefined
+                  : rule.owner.address;
+        ids[rule.key] = requireId(
+            owner ? `${rule.struct} (owner ${owner})` : rule.struct,
+            findCreatedObjectId(
+                changes,
+                ruleType(rule, packageId),
+                owner ? { addressOwner: owner } : { shared: true }
+            )
+        );
+    }
+
+    const known = new Set(rules.map((rule) => ruleType(rule, packageId)));
+    for (const change of changes) {
+        const type = change.objectType;
+        if (change.type !== "created" || !type || known.has(type)) continue;
+        // Coins minted to the publisher are balances, not objects to configure
+        if (type.startsWith("0x2::coin::Coin<")) continue;
+        console.warn(`No extraction rule for created ${type}`);
+    }
+    return ids;
+}
+
+/**
+ * The package ID a publish's extracted IDs are reported under: `requestedId` (an upgraded
+ * `WORLD_PACKAGE_ID`, say) once it is checked to be a version of the published package, otherwise
+ * the published ID. Object types keep the published (original) ID either way.
+ */
+async function reportedPackageId(
+    client: SuiJsonRpcClient,
+    changes: PublishObjectChange[],
+    requestedId: string | undefined
+): Promise<string> {
+    const publishedId = getPublishedPackageId(changes);
+    if (!requestedId || normalizeSuiAddress(requestedId) === normalizeSuiAddress(publishedId)) {
+        return requestedId ?? publishedId;
+    }
+    const originalId = await getOriginalPackageId(client, requestedId);
+    if (originalId !== normalizeSuiAddress(publishedId)) {
+        throw new Error(
+            [
+                "Package ID is not a version of the published package.",
+                `package ID: ${requestedId} (original ${originalId})`,
+                `publish output packageId: ${publishedId}`,
+            ].join("\n")
+        );
+    }
+    return requestedId;
+}
+
+/**
+ * Object changes of a publish, from its output file or, when the file is missing, from the chain
+ * through `packageId`. Null when neither is available.
+ */
+export async function loadPublishObjectChanges(
+    client: SuiJsonRpcClient,
+    outputPath: string,
+    packageId?: string
+): Promise<PublishObjectChange[] | null> {
+    const resolved = resolvePublishOutputPath(outputPath);
+    if (fs.existsSync(resolved)) return readPublishOutputFile(resolved).objectChanges;
+    if (!packageId) return null;
+    return await fetchPublishObjectChanges(client, packageId);
+}
+
+/**
+ * World package and its `init` objects (see `WORLD_OBJECT_RULES`) from its publish changes,
+ * reported under `packageId` (default: the published ID).
+ */
+export function extractWorldIds(
+    changes: PublishObjectChange[],
+    governorAddress: string,
+    packageId = getPublishedPackageId(changes)
+): ExtractedObjectIds["world"] {
+    return {
+        packageId,
+        ...applyRules(changes, getPublishedPackageId(changes), governorAddress, WORLD_OBJECT_RULES),
+    };
+}
+
+/** Builder extension IDs, or undefined when the publish created no `ExtensionConfig`. */
+export function extractBuilderIds(
+    changes: PublishObjectChange[],
+    adminAddress: string,
+    packageId?: string
+): ExtractedObjectIds["builder"] {
+    const builderPackageId = getPublishedPackageId(changes);
+
+    const adminCapId = findCreatedObjectId(
+        changes,
+        typeName(builderPackageId, extensionModule.CONFIG, "AdminCap"),
+        { addressOwner: adminAddress }
+    );
+    const extensionConfigId = findCreatedObjectId(
+        changes,
+        typeName(builderPackageId, extensionModule.CONFIG, "ExtensionConfig")
+    );
+    if (!extensionConfigId) return undefined;
+
+    return {
+        packageId: packageId ?? builderPackageId,
+        extensionConfigId,
+        adminCapId: adminCapId ?? undefined,
+    };
+}
+
+/** Assets package (EVE) and the objects its `init` creates (see `ASSETS_OBJECT_RULES`). */
+export function extractAssetsIds(
+    changes: PublishObjectChange[],
+    deployerAddress: string,
+    packageId = getPublishedPackageId(changes)
+): AssetsObjectIds {
+    return {
+        packageId,
+        ...applyRules(
+            changes,
+            getPublishedPackageId(changes),
+            deployerAddress,
+            ASSETS_OBJECT_RULES
+        ),
+    };
+}
+
+/**
+ * IDs of every package deployed to `network`. Each package is read from
+ * `deployments/<network>/<name>_package.json` (or `*_PUBLISH_OUTPUT`) and, when that file is
+ * missing, from the chain through `WORLD_PACKAGE_ID`, `BUILDER_PACKAGE_ID` or `ASSETS_PACKAGE_ID`.
+ * World is required; builder and assets are included when found.
+ */
+export async function extractObjectIds(
+    client: SuiJsonRpcClient,
+    network: Network,
+    publisherAddress: string
+): Promise<ExtractedObjectIds> {
+    const outputPath = (name: string, envVar: string) =>
+        process.env[envVar] ?? `./deployments/${network}/${name}_package.json`;
+
+    const worldChanges = await loadPublishObjectChanges(
+        client,
+        outputPath("world", "WORLD_PUBLISH_OUTPUT"),
+        process.env.WORLD_PACKAGE_ID
+    );
+    if (!worldChanges) {
+        throw new Error(
+            `World publish output not found at ${outputPath("world", "WORLD_PUBLISH_OUTPUT")}; set WORLD_PACKAGE_ID to read it from the chain`
+        );
+    }
+    const builderChanges = await loadPublishObjectChanges(
+        client,
+        outputPath("builder", "BUILDER_PUBLISH_OUTPUT"),
+        process.env.BUILDER_PACKAGE_ID
+    );
+    const assetsChanges = await loadPublishObjectChanges(
+        client,
+        outputPath("assets", "ASSETS_PUBLISH_OUTPUT"),
+        process.env.ASSETS_PACKAGE_ID
+    );
+
+    // An upgraded package keeps the IDs under the configured (latest) package ID
+    const packageId = (changes: PublishObjectChange[], envVar: string) =>
+        reportedPackageId(client, changes, process.env[envVar]);
+    return {
+        network,
+        world: extractWorldIds(
+            worldChanges,
+            publisherAddress,
+            await packageId(worldChanges, "WORLD_PACKAGE_ID")
+        ),
+        builder: builderChanges
+            ? extractBuilderIds(
+                  builderChanges,
+                  publisherAddress,
+                  await packageId(builderChanges, "BUILDER_PACKAGE_ID")
+              )
+            : undefined,
+        assets: assetsChanges
+            ? extractAssetsIds(
+                  assetsChanges,
+                  publisherAddress,
+                  await packageId(assetsChanges, "ASSETS_PACKAGE_ID")
+              )
+            : undefined,
+    };
+}
+
+/** Writes `deployments/<network>/extracted-object-ids.json` and returns its path. */
+export function writeExtractedObjectIds(ids: ExtractedObjectIds): string {
+    const outPath = getExtractedObjectIdsPath(ids.network);
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, JSON.stringify(ids, null, 2), "utf8");
+    return outPath;
+}
+
 function getWorldPublishOutputPath(network: string): string {
     const pathOverride = process.env.WORLD_PUBLISH_OUTPUT;
     if (pathOverride) return pathOverride;
@@ -25,89 +332,36 @@ function getWorldPublishOutputPath(network: string): string {
 }
 
 export async function resolveWorldObjectIds(
-    _client: SuiJsonRpcClient,
+    client: SuiJsonRpcClient,
     worldPackageId: string,
     governorAddress: string,
     network?: string
 ): Promise<WorldObjectIds> {
     const net = network ?? process.env.SUI_NETWORK ?? "localnet";
-    const worldPublishOutputPath = resolvePublishOutputPath(getWorldPublishOutputPath(net));
-    const { objectChanges: worldObjectChanges } = readPublishOutputFile(worldPublishOutputPath);
-    const publishedWorldPackageId = getPublishedPackageId(worldObjectChanges);
-
-    if (worldPackageId && publishedWorldPackageId !== worldPackageId) {
-        throw new Error(
-            [
-                "WORLD_PACKAGE_ID does not match the publish output packageId.",
-                `WORLD_PACKAGE_ID: ${worldPackageId}`,
-                `publish output packageId: ${publishedWorldPackageId}`,
-            ].join("\n")
-        );
+    const worldObjectChanges = await loadPublishObjectChanges(
+        client,
+        getWorldPublishOutputPath(net),
+        worldPackageId
+    );
+    if (!worldObjectChanges) {
+        throw new Error("World publish output not found and no world package ID given");
     }
+    // Throws unless WORLD_PACKAGE_ID is the published package or an upgrade of it
+    const packageId = await reportedPackageId(
+        client,
+        worldObjectChanges,
+        worldPackageId || undefined
+    );
 
-    const key = `${publishedWorldPackageId}:${governorAddress}`;
+    const key = `${packageId}:${governorAddress}`;
     const cached = cache.get(key);
     if (cached) return await cached;
 
-    const idsPromise = (async (): Promise<WorldObjectIds> => {
-        const ids: WorldObjectIds = {
-            governorCap: requireId(
-                `GovernorCap (owner ${governorAddress})`,
-                findCreatedObjectId(
-                    worldObjectChanges,
-                    typeName(publishedWorldPackageId, MODULES.WORLD, "GovernorCap"),
-                    {
-                        addressOwner: governorAddress,
-                    }
-                )
-            ),
-            serverAddressRegistry: requireId(
-                "ServerAddressRegistry",
-                findCreatedObjectId(
-                    worldObjectChanges,
-                    typeName(publishedWorldPackageId, MODULES.ACCESS, "ServerAddressRegistry")
-                )
-            ),
-            adminAcl: requireId(
-                "AdminACL",
-                findCreatedObjectId(
-                    worldObjectChanges,
-                    typeName(publishedWorldPackageId, MODULES.ACCESS, "AdminACL")
-                )
-            ),
-            objectRegistry: requireId(
-                "ObjectRegistry",
-                findCreatedObjectId(
-                    worldObjectChanges,
-                    typeName(publishedWorldPackageId, "object_registry", "ObjectRegistry")
-                )
-            ),
-            energyConfig: requireId(
-                "EnergyConfig",
-                findCreatedObjectId(
-                    worldObjectChanges,
-                    typeName(publishedWorldPackageId, MODULES.ENERGY, "EnergyConfig")
-                )
-            ),
-            fuelConfig: requireId(
-                "FuelConfig",
-                findCreatedObjectId(
-                    worldObjectChanges,
-                    typeName(publishedWorldPackageId, MODULES.FUEL, "FuelConfig")
-                )
-            ),
-            gateConfig: requireId(
-                "GateConfig",
-                findCreatedObjectId(
-                    worldObjectChanges,
-                    typeName(publishedWorldPackageId, MODULES.GATE, "GateConfig")
-                )
-            ),
-        };
-
-        return ids;
-    })();
-
-    cache.set(key, idsPromise);
-    return await idsPromise;
+    const {
+        packageId: _p,
+        upgradeCap: _u,
+        ...ids
+    } = extractWorldIds(worldObjectChanges, governorAddress, packageId);
+    cache.set(key, Promise.resolve(ids));
+    return ids;
 }